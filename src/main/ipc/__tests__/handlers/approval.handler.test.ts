@@ -1,6 +1,6 @@
 /**
  * Approval Handler 单元测试
- * 对应 60_TEST_PLAN.md AH-001 ~ AH-005
+ * 对应 60_TEST_PLAN.md AH-001 ~ AH-010
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
@@ -10,7 +10,8 @@ vi.mock('fs/promises', () => ({
   readFile: vi.fn(),
   writeFile: vi.fn(),
   appendFile: vi.fn(),
-  mkdir: vi.fn()
+  mkdir: vi.fn(),
+  rename: vi.fn()
 }))
 
 // Mock child_process
@@ -20,12 +21,19 @@ vi.mock('child_process', () => ({
 
 // Mock os
 vi.mock('os', () => ({
-  hostname: vi.fn(() => 'test-host')
+  hostname: vi.fn(() => 'test-host'),
+  homedir: vi.fn(() => '/home/test')
+}))
+
+// Mock Electron（内置预设目录）
+vi.mock('electron', () => ({
+  app: { getAppPath: () => '/app' }
 }))
 
 describe('Approval Handler', () => {
   let handleApprovalSubmit: any
   let handleApprovalStatus: any
+  let handleApprovalHistory: any
   let setCurrentProject: any
   let readFile: any
   let writeFile: any
@@ -46,6 +54,7 @@ describe('Approval Handler', () => {
     const approvalModule = await import('../../handlers/approval.handler')
     handleApprovalSubmit = approvalModule.handleApprovalSubmit
     handleApprovalStatus = approvalModule.handleApprovalStatus
+    handleApprovalHistory = approvalModule.handleApprovalHistory
 
     // 导入 project handler 以设置当前项目
     const projectModule = await import('../../handlers/project.handler')
@@ -439,4 +448,324 @@ phases:
       }
     })
   })
+
+  describe('AH-006: 按角色多人审批', () => {
+    const files: Record<string, string> = {}
+
+    const setup = (overrides: Record<string, string>) => {
+      for (const key of Object.keys(files)) delete files[key]
+      Object.assign(files, overrides)
+
+      setCurrentProject({
+        id: '/test/project',
+        name: 'test',
+        path: '/test/project',
+        features: [{
+          id: 'my-feature',
+          name: 'My Feature',
+          path: '/test/project/docs/my-feature'
+        }],
+        config: { version: '1.0.0', autoSave: true }
+      })
+
+      readFile.mockImplementation(async (path: string) => {
+        if (path in files) return files[path]
+        throw { code: 'ENOENT' }
+      })
+      writeFile.mockResolvedValue(undefined)
+      appendFile.mockResolvedValue(undefined)
+      mkdir.mockResolvedValue(undefined)
+    }
+
+    const roles = (gates = '') => `
+members:
+  Test@Example.com: [PM]
+  arch@example.com: [Architect]
+  qa@example.com: QA
+${gates}`
+
+    it('should stay pending until every required role approves', async () => {
+      setup({ '/test/project/.claude/roles.yaml': roles('gates:\n  2:\n    roles: [PM, Architect]') })
+
+      const result = await handleApprovalSubmit({ stepId: 'SPEC-002', featureId: 'my-feature', action: 'approve' })
+
+      expect(result.newStatus).toBe('pending')
+      expect(result.quorum).toMatchObject({
+        requiredRoles: ['PM', 'Architect'],
+        rule: 'all',
+        approvedRoles: ['PM'],
+        missingRoles: ['Architect'],
+        pendingApprovers: ['arch@example.com'],
+        met: false
+      })
+
+      const written = writeFile.mock.calls[0][1] as string
+      expect(written).toContain('status: pending')
+      expect(written).toContain('user: test@example.com')
+      expect(JSON.parse((appendFile.mock.calls[0][1] as string).trim()).roles).toEqual(['PM'])
+    })
+
+    it('should approve once the quorum is met', async () => {
+      setup({
+        '/test/project/.claude/roles.yaml': roles('gates:\n  2:\n    roles: [PM, Architect]'),
+        '/test/project/docs/my-feature/PHASE_GATE_STATUS.yaml': `
+phases:
+  phase_2:
+    steps:
+      SPEC-002:
+        status: pending
+        approvals:
+          - user: arch@example.com
+            roles: [Architect]
+            action: approve
+            at: "2030-01-01T00:00:00.000Z"
+`
+      })
+
+      const result = await handleApprovalSubmit({ stepId: 'SPEC-002', featureId: 'my-feature', action: 'approve' })
+
+      expect(result.newStatus).toBe('approved')
+      expect(result.quorum.approvals.map((a: any) => a.user)).toEqual(['arch@example.com', 'test@example.com'])
+      expect(result.quorum.missingRoles).toEqual([])
+    })
+
+    it('should support "any N of" quorum', async () => {
+      setup({ '/test/project/.claude/roles.yaml': roles('gates:\n  phase_2:\n    roles: [PM, Architect]\n    quorum: any') })
+
+      const result = await handleApprovalSubmit({ stepId: 'SPEC-002', featureId: 'my-feature', action: 'approve' })
+
+      expect(result.newStatus).toBe('approved')
+      expect(result.quorum).toMatchObject({ rule: 1, met: true, missingRoles: ['Architect'] })
+    })
+
+    it('should read required roles from the feature PHASE_GATE.yaml, then the preset', async () => {
+      setup({
+        '/test/project/.claude/roles.yaml': roles(),
+        '/test/project/docs/my-feature/PHASE_GATE.yaml': 'phase_2_spec:\n  approvals:\n    required_roles: [PM, QA]\n    quorum: 2\n'
+      })
+
+      let result = await handleApprovalSubmit({ stepId: 'SPEC-002', featureId: 'my-feature', action: 'approve' })
+      expect(result.quorum).toMatchObject({ requiredRoles: ['PM', 'QA'], rule: 2, pendingApprovers: ['qa@example.com'] })
+
+      setup({
+        '/test/project/.claude/roles.yaml': roles(),
+        '/app/presets/software-dev/preset.yaml': 'phases:\n  - id: 2\n    gate_rules:\n      approvers: ["PM", "Architect"]\n'
+      })
+
+      result = await handleApprovalSubmit({ stepId: 'SPEC-002', featureId: 'my-feature', action: 'approve' })
+      expect(result.quorum.requiredRoles).toEqual(['PM', 'Architect'])
+    })
+
+    it('should mark the step rejected when an authorized approver rejects', async () => {
+      setup({ '/test/project/.claude/roles.yaml': roles('gates:\n  2:\n    roles: [PM, Architect]') })
+
+      const result = await handleApprovalSubmit({ stepId: 'SPEC-002', featureId: 'my-feature', action: 'reject' })
+
+      expect(result.newStatus).toBe('rejected')
+    })
+  })
+
+  describe('AH-007: 无权审批', () => {
+    it('should reject approvers without a required role', async () => {
+      setCurrentProject({
+        id: '/test/project',
+        name: 'test',
+        path: '/test/project',
+        features: [{
+          id: 'my-feature',
+          name: 'My Feature',
+          path: '/test/project/docs/my-feature'
+        }],
+        config: { version: '1.0.0', autoSave: true }
+      })
+
+      readFile.mockImplementation(async (path: string) => {
+        if (path === '/test/project/.claude/roles.yaml') {
+          return 'members:\n  test@example.com: [QA]\ngates:\n  2:\n    roles: [PM, Architect]\n'
+        }
+        throw { code: 'ENOENT' }
+      })
+
+      await expect(
+        handleApprovalSubmit({ stepId: 'SPEC-002', featureId: 'my-feature', action: 'approve' })
+      ).rejects.toMatchObject({
+        code: 'E-GATE-004',
+        details: { approver: 'test@example.com', requiredRoles: ['PM', 'Architect'] }
+      })
+      expect(writeFile).not.toHaveBeenCalled()
+      expect(appendFile).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('AH-008: approval:status 多人审批状态', () => {
+    it('should report who has and has not approved', async () => {
+      setCurrentProject({
+        id: '/test/project',
+        name: 'test',
+        path: '/test/project',
+        features: [{
+          id: 'my-feature',
+          name: 'My Feature',
+          path: '/test/project/docs/my-feature'
+        }],
+        config: { version: '1.0.0', autoSave: true }
+      })
+
+      readFile.mockImplementation(async (path: string) => {
+        if (path === '/test/project/.claude/roles.yaml') {
+          return 'members:\n  pm@example.com: [PM]\n  arch@example.com: [Architect]\n  lead@example.com: [Architect]\n'
+        }
+        return `
+phases:
+  phase_2:
+    steps:
+      SPEC-002:
+        status: pending
+        required_roles: [PM, Architect]
+        quorum: all
+        approvals:
+          - user: pm@example.com
+            roles: [PM]
+            action: approve
+            at: "2030-01-01T00:00:00.000Z"
+`
+      })
+
+      const result = await handleApprovalStatus({ featureId: 'my-feature' })
+
+      expect(result.steps[0].status).toBe('pending')
+      expect(result.steps[0].quorum).toMatchObject({
+        approvedRoles: ['PM'],
+        missingRoles: ['Architect'],
+        pendingApprovers: ['arch@example.com', 'lead@example.com'],
+        met: false
+      })
+      expect(result.steps[0].quorum.approvals[0].user).toBe('pm@example.com')
+    })
+  })
+
+  describe('AH-009: approval:history 日志校验', () => {
+    it('should flag gate approvals without a valid log entry', async () => {
+      setCurrentProject({
+        id: '/test/project',
+        name: 'test',
+        path: '/test/project',
+        features: [{
+          id: 'my-feature',
+          name: 'My Feature',
+          path: '/test/project/docs/my-feature'
+        }],
+        config: { version: '1.0.0', autoSave: true }
+      })
+
+      // 通过审批写入一条有效日志
+      let log = ''
+      let gateStatus = ''
+      readFile.mockImplementation(async (path: string) => {
+        if (path.endsWith('approval_log.jsonl') && log) return log
+        if (path.endsWith('PHASE_GATE_STATUS.yaml') && gateStatus) return gateStatus
+        throw { code: 'ENOENT' }
+      })
+      writeFile.mockImplementation(async (path: string, content: string) => {
+        if (path.endsWith('PHASE_GATE_STATUS.yaml')) gateStatus = content
+      })
+      appendFile.mockImplementation(async (_path: string, content: string) => { log += content })
+      mkdir.mockResolvedValue(undefined)
+
+      const submitted = await handleApprovalSubmit({ stepId: 'KICK-001', featureId: 'my-feature', action: 'approve' })
+
+      // 另有一条没有日志的审批（直接编辑了 PHASE_GATE_STATUS.yaml）
+      gateStatus = `
+phases:
+  phase_1:
+    steps:
+      KICK-001:
+        status: approved
+        approved_by: test@example.com
+        approved_at: "${submitted.approvedAt}"
+  phase_2:
+    steps:
+      SPEC-001:
+        status: approved
+        approved_by: ai@example.com
+        approved_at: "2030-01-01T00:00:00.000Z"
+`
+
+      const result = await handleApprovalHistory({ featureId: 'my-feature' })
+
+      expect(result.chain).toMatchObject({ valid: true, total: 1 })
+      expect(result.entries).toHaveLength(1)
+      expect(result.entries[0]).toMatchObject({ status: 'verified', signed: false })
+      expect(result.entries[0].entry.feature_id).toBe('my-feature')
+      expect(result.approvals).toEqual([
+        expect.objectContaining({ stepId: 'KICK-001', user: 'test@example.com', verified: true }),
+        expect.objectContaining({ stepId: 'SPEC-001', user: 'ai@example.com', verified: false })
+      ])
+      expect(result.signingKeyId).toBeNull()
+      expect(result.signingKeyTrusted).toBe(false)
+    })
+
+    it('should mark approvals unverified when their log entry was modified', async () => {
+      setCurrentProject({
+        id: '/test/project',
+        name: 'test',
+        path: '/test/project',
+        features: [{
+          id: 'my-feature',
+          name: 'My Feature',
+          path: '/test/project/docs/my-feature'
+        }],
+        config: { version: '1.0.0', autoSave: true }
+      })
+
+      let log = ''
+      let gateStatus = ''
+      readFile.mockImplementation(async (path: string) => {
+        if (path.endsWith('approval_log.jsonl') && log) return log
+        if (path.endsWith('PHASE_GATE_STATUS.yaml') && gateStatus) return gateStatus
+        throw { code: 'ENOENT' }
+      })
+      writeFile.mockImplementation(async (path: string, content: string) => {
+        if (path.endsWith('PHASE_GATE_STATUS.yaml')) gateStatus = content
+      })
+      appendFile.mockImplementation(async (_path: string, content: string) => { log += content })
+      mkdir.mockResolvedValue(undefined)
+
+      await handleApprovalSubmit({ stepId: 'KICK-001', featureId: 'my-feature', action: 'approve', note: 'LGTM' })
+      log = log.replace('LGTM', 'edited')
+
+      const result = await handleApprovalHistory({ featureId: 'my-feature' })
+
+      expect(result.chain).toMatchObject({ valid: false, brokenAt: 1 })
+      expect(result.entries[0].status).toBe('broken')
+      expect(result.approvals[0].verified).toBe(false)
+    })
+  })
+
+  describe('AH-010: 审批日志损坏时拒绝审批', () => {
+    it('should refuse to approve when the last log line is malformed', async () => {
+      setCurrentProject({
+        id: '/test/project',
+        name: 'test',
+        path: '/test/project',
+        features: [{
+          id: 'my-feature',
+          name: 'My Feature',
+          path: '/test/project/docs/my-feature'
+        }],
+        config: { version: '1.0.0', autoSave: true }
+      })
+
+      readFile.mockImplementation(async (path: string) => {
+        if (path.endsWith('approval_log.jsonl')) return '{"step_id": "KICK-001", "hash": "ab\n'
+        throw { code: 'ENOENT' }
+      })
+      mkdir.mockResolvedValue(undefined)
+
+      await expect(handleApprovalSubmit({ stepId: 'KICK-001', featureId: 'my-feature', action: 'approve' }))
+        .rejects.toMatchObject({ code: 'E-GATE-005' })
+      expect(writeFile).not.toHaveBeenCalled()
+      expect(appendFile).not.toHaveBeenCalled()
+    })
+  })
 })
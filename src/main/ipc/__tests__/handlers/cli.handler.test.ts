@@ -1,6 +1,6 @@
 /**
  * CLI Handler 单元测试
- * 对应 60_TEST_PLAN.md CH-001 ~ CH-005
+ * 对应 60_TEST_PLAN.md CH-001 ~ CH-009
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
@@ -40,8 +40,12 @@ const createMockProcess = () => {
 describe('CLI Handler', () => {
   let handleCliExecute: any
   let handleCliCancel: any
+  let handleCliInput: any
   let getActiveProcesses: any
   let cleanupAllProcesses: any
+  let handleCliQueueList: any
+  let handleCliQueueReorder: any
+  let handleCliQueueClear: any
   let spawn: any
 
   beforeEach(async () => {
@@ -54,8 +58,12 @@ describe('CLI Handler', () => {
     const module = await import('../../handlers/cli.handler')
     handleCliExecute = module.handleCliExecute
     handleCliCancel = module.handleCliCancel
+    handleCliInput = module.handleCliInput
     getActiveProcesses = module.getActiveProcesses
     cleanupAllProcesses = module.cleanupAllProcesses
+    handleCliQueueList = module.handleCliQueueList
+    handleCliQueueReorder = module.handleCliQueueReorder
+    handleCliQueueClear = module.handleCliQueueClear
   })
 
   afterEach(() => {
@@ -94,7 +102,7 @@ describe('CLI Handler', () => {
         ['--print', '/help'],
         expect.objectContaining({
           cwd: '/test/project',
-          shell: true
+          shell: false
         })
       )
     })
@@ -250,7 +258,7 @@ describe('CLI Handler', () => {
   })
 
   describe('cleanupAllProcesses', () => {
-    it('should kill all active processes', async () => {
+    it('should kill running process and drop queued commands', async () => {
       const mockWindow = createMockWindow()
       const mockProcess1 = createMockProcess()
       const mockProcess2 = createMockProcess()
@@ -261,22 +269,206 @@ describe('CLI Handler', () => {
         return callCount === 1 ? mockProcess1 : mockProcess2
       })
 
-      await handleCliExecute(
+      const first = await handleCliExecute(
         { command: 'cmd1', projectPath: '/test', mode: 'print' },
         mockWindow as any
       )
-      await handleCliExecute(
+      const second = await handleCliExecute(
         { command: 'cmd2', projectPath: '/test', mode: 'print' },
         mockWindow as any
       )
 
+      // 命令经由队列串行执行：第二个命令排队等待
+      expect(first.status).toBe('running')
+      expect(second.status).toBe('queued')
       expect(getActiveProcesses().length).toBe(2)
+      expect(spawn).toHaveBeenCalledTimes(1)
 
       cleanupAllProcesses()
 
       expect(mockProcess1.kill).toHaveBeenCalledWith('SIGKILL')
-      expect(mockProcess2.kill).toHaveBeenCalledWith('SIGKILL')
+      expect(mockProcess2.kill).not.toHaveBeenCalled()
       expect(getActiveProcesses().length).toBe(0)
     })
   })
+
+  describe('CH-006: cli 队列控制', () => {
+    it('should list running and queued commands', async () => {
+      const mockWindow = createMockWindow()
+      spawn.mockReturnValue(createMockProcess())
+
+      const first = await handleCliExecute(
+        { command: '/start-day', projectPath: '/test', mode: 'print', featureId: 'f1' },
+        mockWindow as any
+      )
+      const second = await handleCliExecute(
+        { command: '/check-gate', projectPath: '/test', mode: 'print', featureId: 'f1' },
+        mockWindow as any
+      )
+
+      const { items } = await handleCliQueueList()
+
+      expect(items.map((i: any) => i.executionId)).toEqual([first.executionId, second.executionId])
+      expect(items[0]).toMatchObject({ status: 'running', position: 0, featureId: 'f1' })
+      expect(items[1]).toMatchObject({ status: 'queued', position: 1, command: '/check-gate' })
+    })
+
+    it('should reorder queued commands', async () => {
+      const mockWindow = createMockWindow()
+      spawn.mockReturnValue(createMockProcess())
+
+      await handleCliExecute({ command: 'cmd1', projectPath: '/test' }, mockWindow as any)
+      const second = await handleCliExecute({ command: 'cmd2', projectPath: '/test' }, mockWindow as any)
+      const third = await handleCliExecute({ command: 'cmd3', projectPath: '/test' }, mockWindow as any)
+
+      const { items } = await handleCliQueueReorder({ executionId: third.executionId, toIndex: 0 })
+
+      expect(items.slice(1).map((i: any) => i.executionId)).toEqual([third.executionId, second.executionId])
+    })
+
+    it('should throw when reordering unknown command', async () => {
+      await expect(
+        handleCliQueueReorder({ executionId: 'non-existent-id', toIndex: 0 })
+      ).rejects.toMatchObject({ code: 'E-CLI-001' })
+    })
+
+    it('should cancel queued command without touching running one', async () => {
+      const mockWindow = createMockWindow()
+      const mockProcess = createMockProcess()
+      spawn.mockReturnValue(mockProcess)
+
+      await handleCliExecute({ command: 'cmd1', projectPath: '/test' }, mockWindow as any)
+      const second = await handleCliExecute({ command: 'cmd2', projectPath: '/test' }, mockWindow as any)
+
+      const result = await handleCliCancel({ executionId: second.executionId })
+
+      expect(result.success).toBe(true)
+      expect(mockProcess.kill).not.toHaveBeenCalled()
+      expect(getActiveProcesses()).not.toContain(second.executionId)
+    })
+
+    it('should clear queued commands only', async () => {
+      const mockWindow = createMockWindow()
+      spawn.mockReturnValue(createMockProcess())
+
+      const first = await handleCliExecute({ command: 'cmd1', projectPath: '/test' }, mockWindow as any)
+      await handleCliExecute({ command: 'cmd2', projectPath: '/test' }, mockWindow as any)
+      await handleCliExecute({ command: 'cmd3', projectPath: '/test' }, mockWindow as any)
+
+      const result = await handleCliQueueClear()
+
+      expect(result.cleared).toBe(2)
+      expect(getActiveProcesses()).toEqual([first.executionId])
+    })
+  })
+
+  describe('CH-007: cli:execute 未渲染的模板变量', () => {
+    it('should reject command with unresolved placeholders before spawn', async () => {
+      const mockWindow = createMockWindow()
+
+      await expect(
+        handleCliExecute({ command: '/check-gate {{featureId}}', projectPath: '/test' }, mockWindow as any)
+      ).rejects.toMatchObject({
+        code: 'E-CLI-006',
+        details: { variables: ['{{featureId}}'] }
+      })
+      expect(spawn).not.toHaveBeenCalled()
+    })
+
+    it('should execute rendered command', async () => {
+      const mockWindow = createMockWindow()
+      spawn.mockReturnValue(createMockProcess())
+
+      const result = await handleCliExecute(
+        { command: '/check-gate F001', projectPath: '/test' },
+        mockWindow as any
+      )
+
+      expect(result.status).toBe('running')
+      expect(spawn).toHaveBeenCalled()
+    })
+  })
+
+  describe('CH-008: 命令策略', () => {
+    it('should reject shell command requiring confirmation before spawn', async () => {
+      const mockWindow = createMockWindow()
+
+      await expect(
+        handleCliExecute({ command: 'npm run build', projectPath: '/test', shell: true }, mockWindow as any)
+      ).rejects.toMatchObject({
+        code: 'E-CLI-007',
+        details: { decision: { action: 'confirm', commandLine: 'npm run build' } }
+      })
+      expect(spawn).not.toHaveBeenCalled()
+    })
+
+    it('should execute shell command once confirmed', async () => {
+      const mockWindow = createMockWindow()
+      spawn.mockReturnValue(createMockProcess())
+
+      await handleCliExecute(
+        { command: 'npm run build', projectPath: '/test', shell: true, policyConfirmed: true },
+        mockWindow as any
+      )
+
+      expect(spawn).toHaveBeenCalledWith('npm run build', [], expect.objectContaining({ shell: true }))
+    })
+
+    it('should reject unparsable command with spawn error', async () => {
+      const mockWindow = createMockWindow()
+
+      await expect(
+        handleCliExecute({ command: 'claude "unterminated', projectPath: '/test' }, mockWindow as any)
+      ).rejects.toMatchObject({ code: 'E-CLI-002' })
+    })
+  })
+
+  describe('CH-009: cli:input', () => {
+    it('should write input to stdin of interactive execution', async () => {
+      const mockWindow = createMockWindow()
+      const mockProcess = createMockProcess()
+      mockProcess.stdin = Object.assign(new EventEmitter(), { writable: true, write: vi.fn(), end: vi.fn() })
+      spawn.mockReturnValue(mockProcess)
+
+      const { executionId } = await handleCliExecute(
+        { command: '/design', projectPath: '/test', interactive: true },
+        mockWindow as any
+      )
+      const result = await handleCliInput({ executionId, input: 'yes\n', end: true })
+
+      expect(result.success).toBe(true)
+      expect(spawn).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(Array),
+        expect.objectContaining({ stdio: ['pipe', 'pipe', 'pipe'] })
+      )
+      expect(mockProcess.stdin.write).toHaveBeenCalledWith('yes\n')
+      expect(mockProcess.stdin.end).toHaveBeenCalled()
+      expect(mockWindow.webContents.send).toHaveBeenCalledWith('cli:output', expect.objectContaining({
+        executionId,
+        type: 'stdin',
+        content: 'yes'
+      }))
+    })
+
+    it('should reject input for non-interactive execution', async () => {
+      const mockWindow = createMockWindow()
+      spawn.mockReturnValue(createMockProcess())
+
+      const { executionId } = await handleCliExecute({ command: '/help', projectPath: '/test' }, mockWindow as any)
+
+      expect(spawn).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(Array),
+        expect.objectContaining({ stdio: ['ignore', 'pipe', 'pipe'] })
+      )
+      await expect(handleCliInput({ executionId, input: 'yes\n' }))
+        .rejects.toMatchObject({ code: 'E-CLI-008' })
+    })
+
+    it('should reject input for unknown execution', async () => {
+      await expect(handleCliInput({ executionId: 'missing', input: 'yes\n' }))
+        .rejects.toMatchObject({ code: 'E-CLI-001' })
+    })
+  })
 })
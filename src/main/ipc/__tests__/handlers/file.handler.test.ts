@@ -150,6 +150,27 @@ describe('File Handler', () => {
       expect(getActiveWatcherCount()).toBe(1)
     })
 
+    it('should only watch docs/ and .claude/', () => {
+      const mockWindow = {
+        webContents: { send: vi.fn() }
+      }
+      watch.mockReturnValue({ on: vi.fn().mockReturnThis(), close: vi.fn() })
+
+      startFileWatch('/test/project', mockWindow as any)
+
+      const { ignored, ignoreInitial } = watch.mock.calls[0][1]
+      expect(ignoreInitial).toBe(false)
+      expect(ignored('/test/project')).toBe(false)
+      expect(ignored('/test/project/docs')).toBe(false)
+      expect(ignored('/test/project/docs/F001/40_DESIGN.md')).toBe(false)
+      expect(ignored('/test/project/.claude/roles.yaml')).toBe(false)
+      expect(ignored('/test/project/src')).toBe(true)
+      expect(ignored('/test/project/src/index.ts')).toBe(true)
+      expect(ignored('/test/project/package.json')).toBe(true)
+      expect(ignored('/test/project/docs/node_modules/x.js')).toBe(true)
+      expect(ignored('/test/project/.claude/state/blobs/abc')).toBe(true)
+    })
+
     it('should register change event handler', () => {
       const mockWindow = {
         webContents: { send: vi.fn() }
@@ -0,0 +1,280 @@
+/**
+ * Session Handler 单元测试
+ * 对应 60_TEST_PLAN.md SH-001 ~ SH-007
+ *
+ * 在临时目录中读写真实的协议文件；SH-005 / SH-006 以参考 Session Agent 模拟 CLI 端
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, mkdirSync, writeFileSync, appendFileSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { SessionAgent } from '../../../../session-agent/session-agent'
+
+// Mock Electron
+vi.mock('electron', () => ({
+  BrowserWindow: vi.fn()
+}))
+
+const line = (entry: Record<string, unknown>) => `${JSON.stringify(entry)}\n`
+
+describe('Session Handler', () => {
+  let readSessionOutput: any
+  let startSessionWatch: any
+  let stopAllSessionWatches: any
+  let handleSessionSendCommand: any
+  let handleSessionCancelCommand: any
+  let handleSessionWaitResult: any
+  let handleSessionList: any
+  let projectPath: string
+  let eventsPath: string
+
+  beforeEach(async () => {
+    vi.resetModules()
+
+    const module = await import('../../handlers/session.handler')
+    readSessionOutput = module.readSessionOutput
+    startSessionWatch = module.startSessionWatch
+    stopAllSessionWatches = module.stopAllSessionWatches
+    handleSessionSendCommand = module.handleSessionSendCommand
+    handleSessionCancelCommand = module.handleSessionCancelCommand
+    handleSessionWaitResult = module.handleSessionWaitResult
+    handleSessionList = module.handleSessionList
+
+    projectPath = mkdtempSync(join(tmpdir(), 'ha-loop-session-'))
+    mkdirSync(join(projectPath, '.claude', 'gui-sessions'), { recursive: true })
+    eventsPath = join(projectPath, '.claude', 'gui-sessions', 'session-abc.events')
+  })
+
+  afterEach(() => {
+    stopAllSessionWatches()
+    rmSync(projectPath, { recursive: true, force: true })
+  })
+
+  describe('SH-001: 增量读取输出日志', () => {
+    it('should return only lines appended since the last read', () => {
+      writeFileSync(eventsPath, line({ cmdId: 'cmd-1', type: 'stdout', content: 'first', timestamp: 't1' }))
+
+      expect(readSessionOutput(eventsPath)).toEqual([
+        { cmdId: 'cmd-1', type: 'stdout', content: 'first', timestamp: 't1' }
+      ])
+      expect(readSessionOutput(eventsPath)).toEqual([])
+
+      appendFileSync(eventsPath, line({ cmdId: 'cmd-1', type: 'stderr', content: 'second', timestamp: 't2' }))
+
+      expect(readSessionOutput(eventsPath)).toEqual([
+        { cmdId: 'cmd-1', type: 'stderr', content: 'second', timestamp: 't2' }
+      ])
+    })
+
+    it('should keep incomplete lines until the newline arrives', () => {
+      const full = line({ cmdId: 'cmd-1', content: '生成设计文档', timestamp: 't1' })
+      const bytes = Buffer.from(full)
+      // 在多字节字符中间截断
+      const cut = bytes.indexOf(Buffer.from('设')) + 1
+
+      writeFileSync(eventsPath, bytes.subarray(0, cut))
+      expect(readSessionOutput(eventsPath)).toEqual([])
+
+      appendFileSync(eventsPath, bytes.subarray(cut))
+      expect(readSessionOutput(eventsPath)).toEqual([
+        { cmdId: 'cmd-1', type: 'stdout', content: '生成设计文档', timestamp: 't1' }
+      ])
+    })
+
+    it('should skip malformed lines', () => {
+      writeFileSync(
+        eventsPath,
+        'not json\n' +
+        line({ content: 'missing cmdId' }) +
+        line({ cmdId: 'cmd-1', type: 'unknown', content: 'ok', timestamp: 't1' })
+      )
+
+      expect(readSessionOutput(eventsPath)).toEqual([
+        { cmdId: 'cmd-1', type: 'stdout', content: 'ok', timestamp: 't1' }
+      ])
+    })
+  })
+
+  describe('SH-002: 日志截断', () => {
+    it('should restart from the beginning when the file shrinks', () => {
+      writeFileSync(eventsPath, line({ cmdId: 'cmd-1', content: 'a long line from the previous command', timestamp: 't1' }))
+      readSessionOutput(eventsPath)
+
+      writeFileSync(eventsPath, line({ cmdId: 'cmd-2', content: 'new', timestamp: 't2' }))
+
+      expect(readSessionOutput(eventsPath)).toEqual([
+        { cmdId: 'cmd-2', type: 'stdout', content: 'new', timestamp: 't2' }
+      ])
+    })
+
+    it('should return nothing for missing files', () => {
+      expect(readSessionOutput(join(projectPath, 'missing.events'))).toEqual([])
+    })
+  })
+
+  describe('SH-003: 开始监听', () => {
+    it('should not replay output written before watching started', () => {
+      writeFileSync(eventsPath, line({ cmdId: 'cmd-old', content: 'old', timestamp: 't0' }))
+      const window = { webContents: { send: vi.fn() } }
+
+      startSessionWatch(projectPath, window)
+      appendFileSync(eventsPath, line({ cmdId: 'cmd-new', content: 'new', timestamp: 't1' }))
+
+      expect(readSessionOutput(eventsPath)).toEqual([
+        { cmdId: 'cmd-new', type: 'stdout', content: 'new', timestamp: 't1' }
+      ])
+    })
+  })
+
+  describe('SH-007: 不符合协议的文件名', () => {
+    it('should ignore protocol files whose session id is invalid', async () => {
+      const sessionsDir = join(projectPath, '.claude', 'gui-sessions')
+      const result = { cmdId: 'cmd-1', status: 'success', timestamp: 't1' }
+      writeFileSync(join(sessionsDir, 'session-a.b.result'), JSON.stringify(result))
+      const window = { webContents: { send: vi.fn() } }
+
+      startSessionWatch(projectPath, window)
+      writeFileSync(join(sessionsDir, 'session-a.b.events'), line({ cmdId: 'cmd-1', content: 'x', timestamp: 't1' }))
+      writeFileSync(join(sessionsDir, 'session-.result'), JSON.stringify(result))
+      writeFileSync(join(sessionsDir, 'session-a.b.ack'), JSON.stringify({ cmdId: 'cmd-1' }))
+      appendFileSync(eventsPath, line({ cmdId: 'cmd-2', content: 'valid', timestamp: 't2' }))
+
+      await vi.waitFor(() => {
+        expect(window.webContents.send).toHaveBeenCalledWith(
+          expect.any(String),
+          expect.objectContaining({ sessionId: 'abc', cmdId: 'cmd-2' })
+        )
+      })
+      expect(window.webContents.send).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('SH-004: 命令队列', () => {
+    it('should queue a second command instead of overwriting the first', async () => {
+      const request = { sessionId: 'abc', projectPath, command: '/design' }
+
+      const first = await handleSessionSendCommand(request)
+      const second = await handleSessionSendCommand({ ...request, command: '/review' })
+
+      expect(first).toMatchObject({ status: 'sent', position: 0 })
+      expect(second).toMatchObject({ status: 'queued', position: 1 })
+
+      const cmdPath = join(projectPath, '.claude', 'gui-sessions', 'session-abc.cmd')
+      expect(JSON.parse(readFileSync(cmdPath, 'utf-8')).cmdId).toBe(first.cmdId)
+    })
+
+    it('should reject cancelling unknown commands', async () => {
+      await expect(handleSessionCancelCommand({ sessionId: 'abc', projectPath, cmdId: 'cmd-unknown' }))
+        .rejects.toMatchObject({ code: 'E-FS-001' })
+    })
+  })
+
+  describe('SH-005 / SH-006: 模拟 CLI Session', () => {
+    let agent: SessionAgent
+
+    const startAgent = async (simulation: ConstructorParameters<typeof SessionAgent>[0]['simulation'] = {}) => {
+      agent = new SessionAgent({
+        projectPath,
+        sessionId: 'abc',
+        transport: 'file',
+        terminal: { type: 'console', platform: 'linux', title: 'test' },
+        executor: async command => ({ status: 'success', output: command.command }),
+        heartbeatIntervalMs: 15000,
+        pollIntervalMs: 100,
+        simulation
+      })
+      await agent.start()
+    }
+
+    const sendAndWait = async (timeout = 5000) => {
+      const { cmdId } = await handleSessionSendCommand({ sessionId: 'abc', projectPath, command: '/design' })
+      return handleSessionWaitResult({ sessionId: 'abc', projectPath, cmdId, timeout })
+    }
+
+    const listStatus = async () => (await handleSessionList({ projectPath })).sessions[0]?.status
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'setInterval', 'clearTimeout', 'clearInterval', 'Date'] })
+      vi.setSystemTime(new Date('2026-01-01T10:00:00.000Z'))
+    })
+
+    afterEach(async () => {
+      await agent.stop()
+      vi.useRealTimers()
+    })
+
+    describe('SH-005: 等待执行结果', () => {
+      it('should resolve with the result written by the CLI', async () => {
+        await startAgent()
+
+        const pending = sendAndWait()
+        await vi.advanceTimersByTimeAsync(1000)
+
+        expect(await pending).toMatchObject({ status: 'success', output: '/design' })
+      })
+
+      it('should wait for delayed acks and results', async () => {
+        await startAgent({ ackDelayMs: 1000, resultDelayMs: 2000 })
+
+        const pending = sendAndWait()
+        await vi.advanceTimersByTimeAsync(2500)
+        expect(readFileSync(join(projectPath, '.claude', 'gui-sessions', 'session-abc.ack'), 'utf-8')).toContain('cmd-')
+        await vi.advanceTimersByTimeAsync(1000)
+
+        expect(await pending).toMatchObject({ status: 'success' })
+      })
+
+      it('should time out when the CLI crashes before writing the result', async () => {
+        await startAgent({ crashOn: 'beforeResult' })
+
+        const pending = sendAndWait(3000)
+        await vi.advanceTimersByTimeAsync(3000)
+
+        expect(await pending).toMatchObject({ status: 'timeout' })
+      })
+
+      it('should resolve once for duplicated commands and results', async () => {
+        await startAgent({ duplicateCommands: true, dropAcks: true })
+
+        const pending = sendAndWait()
+        await vi.advanceTimersByTimeAsync(1000)
+
+        expect(await pending).toMatchObject({ status: 'success' })
+      })
+    })
+
+    describe('SH-006: Session 状态变化', () => {
+      it('should become stale and then disconnected after the CLI crashes', async () => {
+        await startAgent()
+        expect(await listStatus()).toBe('active')
+
+        agent.crash()
+        await vi.advanceTimersByTimeAsync(60 * 1000)
+        expect(await listStatus()).toBe('active')
+
+        await vi.advanceTimersByTimeAsync(1000)
+        expect(await listStatus()).toBe('stale')
+
+        await vi.advanceTimersByTimeAsync(4 * 60 * 1000)
+        expect(await listStatus()).toBe('disconnected')
+      })
+
+      it('should stay active while heartbeats continue', async () => {
+        await startAgent()
+
+        await vi.advanceTimersByTimeAsync(10 * 60 * 1000)
+
+        expect(await listStatus()).toBe('active')
+      })
+
+      it('should be disconnected immediately when the CLI stops', async () => {
+        await startAgent()
+
+        await agent.stop()
+
+        expect(await listStatus()).toBe('disconnected')
+      })
+    })
+  })
+})
@@ -230,4 +230,22 @@ describe('Validator Middleware', () => {
       expect(() => validateIpcRequest('approval:submit', invalidRequest)).toThrow()
     })
   })
+
+  describe('session schemas', () => {
+    it('should reject session ids with path separators on every session channel', () => {
+      const base = { projectPath: '/test/project', sessionId: '../../etc' }
+      const requests: Array<[string, Record<string, unknown>]> = [
+        ['session:sendCommand', { ...base, command: '/design' }],
+        ['session:waitResult', { ...base, cmdId: 'cmd-1' }],
+        ['session:queue', base],
+        ['session:cancelCommand', { ...base, cmdId: 'cmd-1' }],
+        ['session:assignFeatures', { ...base, featureIds: ['F001'] }]
+      ]
+
+      for (const [channel, request] of requests) {
+        expect(() => validateIpcRequest(channel, request)).toThrow()
+        expect(validateIpcRequest(channel, { ...request, sessionId: 'abc_123-x' })).toMatchObject({ sessionId: 'abc_123-x' })
+      }
+    })
+  })
 })
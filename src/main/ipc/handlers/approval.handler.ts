@@ -1,10 +1,18 @@
 /**
  * 审批相关 IPC 处理器
- * CODE-003 & CODE-009: approval:submit, approval:status
+ * CODE-003 & CODE-009: approval:submit, approval:status, approval:history, approval:createSigningKey
+ *
+ * 审批通过后，若项目开启了自动提交（.claude/git.yaml），提交该步骤的交付物与 Gate 状态；
+ * 提交失败不影响审批结果，原因随响应返回。
+ *
+ * 项目配置了角色（.claude/roles.yaml）时按角色多人审批：
+ * 不持有 Gate 要求角色的成员无权审批（E-GATE-004），达到法定人数前步骤保持 pending。
+ *
+ * 审批日志以哈希链写入（approval-log.service），审批历史中没有对应有效日志的审批标记为未校验。
  */
 
-import { readFile, writeFile, appendFile, mkdir } from 'fs/promises'
-import { join, dirname } from 'path'
+import { readFile, writeFile } from 'fs/promises'
+import { join, isAbsolute } from 'path'
 import { parse as parseYaml, stringify as stringifyYaml } from 'yaml'
 import { execSync } from 'child_process'
 import { hostname } from 'os'
@@ -12,29 +20,75 @@ import type {
   ApprovalSubmitRequest,
   ApprovalSubmitResponse,
   ApprovalStatusRequest,
-  ApprovalStatusResponse
+  ApprovalStatusResponse,
+  ApprovalHistoryRequest,
+  ApprovalHistoryResponse,
+  ApprovalLogEntry,
+  ApprovalSigningKeyResponse,
+  ApprovalQuorumStatus,
+  ApprovalRecord,
+  GateApprovalVerification,
+  GitCommitResult
 } from '../../../shared/types/ipc.types'
-import type { PhaseGateStatus } from '../../../shared/types/project.types'
+import type { Feature, PhaseGateStatus } from '../../../shared/types/project.types'
 import { ERROR_CODES, createError } from '../../../shared/types/error.types'
+import { gitService, buildCommitMessage } from '../../services/git.service'
+import {
+  approvalRolesService,
+  evaluateQuorum,
+  mergeApproval,
+  parseApprovalRecords,
+  parseQuorumRule,
+  resolveQuorumStatus,
+  type ApprovalRoster,
+  type GateApprovalRequirement
+} from '../../services/approval-roles.service'
+import { approvalLogService, getKeyId } from '../../services/approval-log.service'
 import { getCurrentProject } from './project.handler'
 
-// 审批日志格式
-interface ApprovalLogEntry {
-  step_id: string
-  approved_by: string
-  approved_at: string
-  source: 'gui' | 'cli' | 'api'
-  action: 'approve' | 'reject'
-  note?: string
-  client_info: {
-    app_version: string
-    hostname: string
-  }
+// 多人审批上下文
+interface QuorumContext {
+  roster: ApprovalRoster
+  requirement: GateApprovalRequirement
+  record: ApprovalRecord
 }
 
 // 应用版本
 const APP_VERSION = '1.0.0'
 
+// stepId 前缀（格式为 PHASE-STEP，如 KICK-001）对应的 Phase
+const PHASE_BY_STEP_PREFIX: Record<string, { phase: number; name: string }> = {
+  'KICK': { phase: 1, name: 'Kickoff' },
+  'SPEC': { phase: 2, name: 'Spec' },
+  'DEMO': { phase: 3, name: 'Demo' },
+  'DSGN': { phase: 4, name: 'Design' },
+  'CODE': { phase: 5, name: 'Code' },
+  'TEST': { phase: 6, name: 'Test' },
+  'DEPL': { phase: 7, name: 'Deploy' }
+}
+
+/**
+ * 从 stepId 解析 Phase，无法识别时归入 Phase 1
+ */
+function resolveStepPhase(stepId: string): { phase: number; name: string } {
+  const stepPrefix = stepId.split('-')[0]?.toUpperCase()
+  return PHASE_BY_STEP_PREFIX[stepPrefix] || PHASE_BY_STEP_PREFIX.KICK
+}
+
+/**
+ * 读取项目角色配置
+ */
+async function loadRoster(projectPath: string): Promise<ApprovalRoster | null> {
+  try {
+    return await approvalRolesService.getRoster(projectPath)
+  } catch (error) {
+    throw createError(
+      ERROR_CODES.CFG_INVALID,
+      `Invalid roles file: ${(error as Error).message}`
+    )
+  }
+}
+
 /**
  * 获取当前用户身份
  * 从 Git config 或环境变量获取
@@ -84,17 +138,49 @@ export async function handleApprovalSubmit(
     )
   }
 
+  // 配置了角色时校验审批人
+  let quorumContext: QuorumContext | undefined
+  const roster = await loadRoster(project.path)
+  if (roster) {
+    const { phase } = resolveStepPhase(stepId)
+    const requirement = await approvalRolesService.getRequirement(project.path, feature.path, phase, roster)
+    const roles = approvalRolesService.getApproverRoles(roster, requirement, approvedBy)
+    if (roles.length === 0) {
+      throw createError(
+        ERROR_CODES.GATE_UNAUTHORIZED,
+        requirement.roles.length > 0
+          ? `${approvedBy} is not authorized to approve Phase ${phase} (requires ${requirement.roles.join(', ')})`
+          : `${approvedBy} is not a member in .claude/roles.yaml`,
+        { stepId, featureId, approver: approvedBy, requiredRoles: requirement.roles }
+      )
+    }
+    quorumContext = { roster, requirement, record: { user: approvedBy, roles, action, at: approvedAt } }
+  }
+
+  // 审批日志无法续接时拒绝审批，避免悄悄开始新的哈希链
+  try {
+    await approvalLogService.checkAppendable(project.path)
+  } catch (error) {
+    throw createError(
+      ERROR_CODES.GATE_LOG_BROKEN,
+      `Approval log is broken: ${(error as Error).message}`,
+      { stepId, featureId }
+    )
+  }
+
   try {
     // 1. 更新 PHASE_GATE_STATUS.yaml
-    await updatePhaseGateStatus(feature.path, stepId, action, approvedBy, approvedAt)
+    const { status, quorum } = await updatePhaseGateStatus(feature.path, stepId, action, approvedBy, approvedAt, quorumContext)
 
-    // 2. 记录审批日志
-    await appendApprovalLog(project.path, {
+    // 2. 记录审批日志（哈希链）
+    await approvalLogService.append(project.path, {
       step_id: stepId,
+      feature_id: featureId,
       approved_by: approvedBy,
       approved_at: approvedAt,
       source: 'gui',
       action,
+      roles: quorumContext?.record.roles,
       note,
       client_info: {
         app_version: APP_VERSION,
@@ -102,12 +188,27 @@ export async function handleApprovalSubmit(
       }
     })
 
+    // 3. 自动提交交付物（失败不影响审批，多人审批时在达到法定人数后提交）
+    let commit: GitCommitResult | undefined
+    let commitError: string | undefined
+    if (status === 'approved') {
+      try {
+        commit = await commitApprovedStep(project.path, feature, stepId)
+      } catch (error) {
+        commitError = (error as Error).message
+        console.warn('[Approval] Auto-commit failed:', commitError)
+      }
+    }
+
     return {
       success: true,
       stepId,
-      newStatus: action === 'approve' ? 'approved' : 'rejected',
+      newStatus: status,
       approvedBy,
-      approvedAt
+      approvedAt,
+      commit,
+      commitError,
+      quorum
     }
 
   } catch (error) {
@@ -144,6 +245,9 @@ export async function handleApprovalStatus(
     )
   }
 
+  // 角色配置无效时仍返回审批状态，只是不列出待审批成员
+  const roster = await approvalRolesService.getRoster(project.path).catch(() => null)
+
   try {
     const gateStatusPath = join(feature.path, 'PHASE_GATE_STATUS.yaml')
     const content = await readFile(gateStatusPath, 'utf-8')
@@ -170,11 +274,22 @@ export async function handleApprovalStatus(
         if (phaseData.steps && typeof phaseData.steps === 'object') {
           for (const [stepId, stepData] of Object.entries(phaseData.steps as Record<string, unknown>)) {
             const step = stepData as Record<string, unknown>
+            const quorum = Array.isArray(step.approvals)
+              ? evaluateQuorum(
+                  {
+                    roles: Array.isArray(step.required_roles) ? step.required_roles.map(String) : [],
+                    rule: parseQuorumRule(step.quorum) ?? 'all'
+                  },
+                  parseApprovalRecords(step.approvals),
+                  roster
+                )
+              : undefined
             steps.push({
               stepId,
               status: step.status as 'approved' | 'rejected' | 'pending',
               approvedBy: step.approved_by as string | undefined,
-              approvedAt: step.approved_at as string | undefined
+              approvedAt: step.approved_at as string | undefined,
+              quorum
             })
           }
         }
@@ -196,17 +311,144 @@ export async function handleApprovalStatus(
   }
 }
 
+/**
+ * 查询审批历史
+ * 校验审批日志的哈希链，并标记 PHASE_GATE_STATUS.yaml 中没有对应有效日志的审批
+ */
+export async function handleApprovalHistory(
+  request: ApprovalHistoryRequest
+): Promise<ApprovalHistoryResponse> {
+  const project = getCurrentProject()
+  if (!project) {
+    throw createError(
+      ERROR_CODES.CFG_MISSING,
+      'No project is currently open'
+    )
+  }
+
+  const feature = project.features.find(f => f.id === request.featureId)
+  if (!feature) {
+    throw createError(
+      ERROR_CODES.FS_NOT_FOUND,
+      `Feature not found: ${request.featureId}`
+    )
+  }
+
+  try {
+    const trustedKeys = await approvalRolesService.getTrustedKeys(project.path)
+    const { entries: allEntries, ...chain } = await approvalLogService.verify(project.path, trustedKeys)
+    const approvals = await readGateApprovals(feature.path)
+
+    // 该 Feature 的日志：新日志按 feature_id，旧日志按 stepId；断点始终列出
+    const stepIds = new Set(approvals.map(approval => approval.stepId))
+    const entries = allEntries.filter(record => {
+      if (record.status === 'broken') return true
+      if (!record.entry) return false
+      return record.entry.feature_id
+        ? record.entry.feature_id === feature.id
+        : stepIds.has(record.entry.step_id)
+    })
+
+    const verifiedKeys = new Set(
+      entries
+        .filter(record => record.status === 'verified' && record.entry)
+        .map(record => {
+          const entry = record.entry as ApprovalLogEntry
+          return [entry.step_id, entry.approved_by, entry.action, entry.approved_at].join('\n')
+        })
+    )
+    for (const approval of approvals) {
+      approval.verified = verifiedKeys.has([approval.stepId, approval.user, approval.action, approval.at].join('\n'))
+    }
+
+    const signingPublicKey = await approvalLogService.getSigningPublicKey()
+    const userKeys = trustedKeys[getCurrentUserIdentity().toLowerCase()] ?? []
+
+    return {
+      chain,
+      entries,
+      approvals,
+      signingKeyId: signingPublicKey ? getKeyId(signingPublicKey) : null,
+      signingPublicKey,
+      signingKeyTrusted: !!signingPublicKey && userKeys.includes(signingPublicKey)
+    }
+
+  } catch (error) {
+    throw createError(
+      ERROR_CODES.FS_READ_FAILED,
+      `Failed to read approval history: ${(error as Error).message}`,
+      { featureId: request.featureId }
+    )
+  }
+}
+
+/**
+ * 创建本机审批签名密钥，之后的审批日志使用该密钥签名
+ */
+export async function handleApprovalCreateSigningKey(): Promise<ApprovalSigningKeyResponse> {
+  try {
+    return await approvalLogService.createSigningKey()
+  } catch (error) {
+    throw createError(
+      ERROR_CODES.FS_WRITE_FAILED,
+      `Failed to create signing key: ${(error as Error).message}`
+    )
+  }
+}
+
+/**
+ * 读取 PHASE_GATE_STATUS.yaml 中记录的审批
+ * 多人审批取 approvals 列表，单人审批取步骤的 approved_by / approved_at
+ */
+async function readGateApprovals(featurePath: string): Promise<GateApprovalVerification[]> {
+  let parsed: Record<string, unknown> | null
+  try {
+    parsed = parseYaml(await readFile(join(featurePath, 'PHASE_GATE_STATUS.yaml'), 'utf-8')) as Record<string, unknown> | null
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+
+  const approvals: GateApprovalVerification[] = []
+  const phases = (parsed?.phases && typeof parsed.phases === 'object' ? parsed.phases : {}) as Record<string, unknown>
+  for (const phaseData of Object.values(phases)) {
+    const steps = (phaseData as Record<string, unknown> | null)?.steps
+    if (!steps || typeof steps !== 'object') continue
+
+    for (const [stepId, stepData] of Object.entries(steps as Record<string, unknown>)) {
+      const step = (stepData ?? {}) as Record<string, unknown>
+      if (Array.isArray(step.approvals)) {
+        for (const record of parseApprovalRecords(step.approvals)) {
+          approvals.push({ stepId, user: record.user, action: record.action, at: record.at, verified: false })
+        }
+      } else if (typeof step.approved_by === 'string' && (step.status === 'approved' || step.status === 'rejected')) {
+        approvals.push({
+          stepId,
+          user: step.approved_by,
+          action: step.status === 'rejected' ? 'reject' : 'approve',
+          at: String(step.approved_at ?? ''),
+          verified: false
+        })
+      }
+    }
+  }
+  return approvals
+}
+
 /**
  * 更新 PHASE_GATE_STATUS.yaml
- * 注意：只有 ApprovalService 可以写入此文件
+ * 注意：只有 ApprovalService 与 Gate 检查（gate-check.service，仅 check_status 等检查字段）可以写入此文件
+ *
+ * 多人审批时在步骤下保存 required_roles / quorum / approvals，状态按法定人数计算
  */
 async function updatePhaseGateStatus(
   featurePath: string,
   stepId: string,
   action: 'approve' | 'reject',
   approvedBy: string,
-  approvedAt: string
-): Promise<void> {
+  approvedAt: string,
+  quorumContext?: QuorumContext
+): Promise<{ status: ApprovalSubmitResponse['newStatus']; quorum?: ApprovalQuorumStatus }> {
   const gateStatusPath = join(featurePath, 'PHASE_GATE_STATUS.yaml')
 
   let content: Record<string, unknown> = {}
@@ -223,18 +465,8 @@ async function updatePhaseGateStatus(
     content.phases = {}
   }
 
-  // 从 stepId 解析 phase（假设格式为 PHASE-STEP，如 KICK-001）
-  const stepPrefix = stepId.split('-')[0]?.toUpperCase()
-  const phaseMap: Record<string, string> = {
-    'KICK': 'phase_1',
-    'SPEC': 'phase_2',
-    'DEMO': 'phase_3',
-    'DSGN': 'phase_4',
-    'CODE': 'phase_5',
-    'TEST': 'phase_6',
-    'DEPL': 'phase_7'
-  }
-  const phaseKey = phaseMap[stepPrefix] || 'phase_1'
+  // 从 stepId 解析 phase
+  const phaseKey = `phase_${resolveStepPhase(stepId).phase}`
 
   const phases = content.phases as Record<string, unknown>
   if (!phases[phaseKey]) {
@@ -247,34 +479,67 @@ async function updatePhaseGateStatus(
   }
 
   const steps = phaseData.steps as Record<string, unknown>
-  steps[stepId] = {
-    status: action === 'approve' ? 'approved' : 'rejected',
+  let status: ApprovalSubmitResponse['newStatus'] = action === 'approve' ? 'approved' : 'rejected'
+  let quorum: ApprovalQuorumStatus | undefined
+  const step: Record<string, unknown> = {
+    status,
     approved_by: approvedBy,
     approved_at: approvedAt,
     source: 'gui'
   }
 
+  if (quorumContext) {
+    const previous = (steps[stepId] ?? {}) as Record<string, unknown>
+    const approvals = mergeApproval(parseApprovalRecords(previous.approvals), quorumContext.record)
+    quorum = evaluateQuorum(quorumContext.requirement, approvals, quorumContext.roster)
+    status = resolveQuorumStatus(quorum)
+    Object.assign(step, {
+      status,
+      required_roles: quorumContext.requirement.roles,
+      quorum: quorumContext.requirement.rule,
+      approvals
+    })
+  }
+  steps[stepId] = step
+
   // 更新 last_updated
   content.last_updated = approvedAt
 
   // 写入文件
   await writeFile(gateStatusPath, stringifyYaml(content), 'utf-8')
+
+  return { status, quorum }
 }
 
 /**
- * 追加审批日志
+ * 审批通过后提交步骤交付物与 Gate 状态
+ * 未开启自动提交或项目不是 Git 仓库时返回 undefined
+ * 提交信息形如 "[F001][phase 4] design approved"
  */
-async function appendApprovalLog(
+async function commitApprovedStep(
   projectPath: string,
-  entry: ApprovalLogEntry
-): Promise<void> {
-  const logDir = join(projectPath, '.claude', 'state')
-  const logPath = join(logDir, 'approval_log.jsonl')
-
-  // 确保目录存在
-  await mkdir(logDir, { recursive: true })
+  feature: Feature,
+  stepId: string
+): Promise<GitCommitResult | undefined> {
+  const settings = await gitService.getSettings(projectPath)
+  if (!settings.autoCommit || !(await gitService.isRepo(projectPath))) {
+    return undefined
+  }
 
-  // 追加日志条目
-  const line = JSON.stringify(entry) + '\n'
-  await appendFile(logPath, line, 'utf-8')
+  // 优先使用扫描到的步骤与交付物，找不到时提交整个 Feature 目录
+  const phases = feature.phases ?? []
+  const phaseIndex = phases.findIndex(phase => phase.steps.some(step => step.id === stepId))
+  const step = phases[phaseIndex]?.steps.find(item => item.id === stepId)
+  const { phase, name } = phaseIndex >= 0
+    ? { phase: phaseIndex + 1, name: phases[phaseIndex].name }
+    : resolveStepPhase(stepId)
+
+  const artifactPaths = (step?.artifacts ?? [])
+    .filter(artifact => artifact.exists)
+    .map(artifact => isAbsolute(artifact.path) ? artifact.path : join(feature.path, artifact.path))
+  const paths = artifactPaths.length > 0
+    ? [...artifactPaths, join(feature.path, 'PHASE_GATE_STATUS.yaml')]
+    : [feature.path]
+
+  return gitService.commitPaths(projectPath, paths, buildCommitMessage(feature.id, phase, name))
 }
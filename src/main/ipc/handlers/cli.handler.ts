@@ -1,139 +1,81 @@
 /**
  * CLI 相关 IPC 处理器
- * CODE-003: cli:execute, cli:cancel, cli:output
+ * CODE-003: cli:execute, cli:cancel, cli:input, cli:output
+ *
+ * 所有 GUI 发起的命令统一经由 CliQueueService 调度：
+ * 同一 Feature 的命令串行执行，避免多个 claude 进程同时改写同一份文档。
+ * 执行结束后记录写入 .claude/state/execution_history.jsonl，可查询与重新执行。
+ * 非 claude 命令入队前按 .claude/command_policy.yaml 校验（拒绝 / 需确认 / 放行）。
+ * 执行期间的文件变更随执行历史保存，可按文件查看与执行前版本的差异。
+ * cc 负责的步骤执行前为 Feature 文档目录创建检查点，可预览差异后回滚。
  */
 
-import { spawn, ChildProcess } from 'child_process'
 import { BrowserWindow } from 'electron'
-import { randomUUID } from 'crypto'
+import { isAbsolute, relative, sep } from 'path'
 import type {
   CliExecuteRequest,
   CliExecuteResponse,
   CliCancelRequest,
-  CliOutputEvent,
-  CliCompleteEvent
+  CliInputRequest,
+  CliQueueListResponse,
+  CliQueueReorderRequest,
+  CliQueueClearResponse,
+  CliQueueConfig,
+  ExecutionHistoryQuery,
+  ExecutionHistoryPage,
+  ExecutionHistoryEntry,
+  ExecutionHistoryGetRequest,
+  ExecutionHistoryRerunRequest,
+  ExecutionFileDiffRequest,
+  ExecutionFileDiff,
+  ExecutionCheckpointRequest,
+  CheckpointRollbackPreview,
+  CheckpointRollbackResult,
+  CliPolicyCheckRequest,
+  CommandPolicyDecision
 } from '../../../shared/types/ipc.types'
 import { ERROR_CODES, createError } from '../../../shared/types/error.types'
-import { CLI_CHANNELS } from '../../../shared/constants/ipc-channels'
+import { cliQueueService } from '../../services/cli-queue.service'
+import { executionHistoryService } from '../../services/execution-history.service'
+import { commandPolicyService } from '../../services/command-policy.service'
+import { fileChangeCaptureService, computeLineDiff } from '../../services/file-change-capture.service'
+import { checkpointService } from '../../services/checkpoint.service'
 
-// 活跃的 CLI 进程
-const activeProcesses = new Map<string, {
-  process: ChildProcess
-  startedAt: Date
-  request: CliExecuteRequest
-}>()
-
-// CLI 可执行文件路径
-const CLAUDE_CODE_PATH = process.env.CLAUDE_CODE_PATH || 'claude'
+/** 未渲染的命令模板占位符（{{featureId}} 等） */
+const UNRESOLVED_PLACEHOLDER = /\{\{\s*[^{}\s]*\s*\}\}/g
 
 /**
- * 执行 CLI 命令
+ * 执行 CLI 命令（加入执行队列）
  */
 export async function handleCliExecute(
   request: CliExecuteRequest,
   window: BrowserWindow
 ): Promise<CliExecuteResponse> {
-  const executionId = randomUUID()
-  const startedAt = new Date()
-
-  // 命令处理逻辑：
-  // 1. 如果命令以 'claude' 开头，直接执行完整命令
-  // 2. 如果命令以 '/' 开头（slash command），添加 claude 前缀
-  // 3. 其他情况视为 shell 命令直接执行
-  let fullCommand = request.command
-
-  if (fullCommand.startsWith('/')) {
-    // Slash command: 添加 claude 前缀
-    fullCommand = `${CLAUDE_CODE_PATH} "${fullCommand}"`
-  } else if (!fullCommand.startsWith('claude') && !fullCommand.includes(' ')) {
-    // 简单命令（如 skill 名称），添加 claude 前缀
-    fullCommand = `${CLAUDE_CODE_PATH} ${fullCommand}`
+  // 模板变量应在渲染进程解析完毕，残留占位符说明上下文缺失，拒绝启动进程
+  const unresolved = [request.command, ...(request.argv?.args ?? [])]
+    .flatMap(text => text.match(UNRESOLVED_PLACEHOLDER) ?? [])
+  if (unresolved.length > 0) {
+    throw createError(
+      ERROR_CODES.CLI_TEMPLATE_UNRESOLVED,
+      `Command contains unresolved template variables: ${unresolved.join(', ')}`,
+      { command: request.command, variables: unresolved }
+    )
   }
 
-  // 如果是 print 模式且命令是 claude 开头，添加 --print 参数
-  if (request.mode === 'print' && fullCommand.startsWith('claude')) {
-    fullCommand = fullCommand.replace(/^claude\s*/, `${CLAUDE_CODE_PATH} --print `)
-  }
+  await enforceCommandPolicy(request)
 
   try {
-    // 创建子进程 - 使用 shell 执行完整命令字符串
-    const childProcess = spawn(fullCommand, [], {
-      cwd: request.projectPath,
-      shell: true,
-      env: {
-        ...process.env,
-        FORCE_COLOR: '1'
-      }
-    })
+    const { executionId, position, completion } = cliQueueService.submit(request, window)
 
-    // 存储进程引用
-    activeProcesses.set(executionId, {
-      process: childProcess,
-      startedAt,
-      request
-    })
-
-    // 处理标准输出
-    childProcess.stdout?.on('data', (data: Buffer) => {
-      const event: CliOutputEvent = {
-        executionId,
-        type: 'stdout',
-        content: data.toString(),
-        timestamp: new Date().toISOString()
-      }
-      window.webContents.send(CLI_CHANNELS.OUTPUT, event)
-    })
-
-    // 处理标准错误
-    childProcess.stderr?.on('data', (data: Buffer) => {
-      const event: CliOutputEvent = {
-        executionId,
-        type: 'stderr',
-        content: data.toString(),
-        timestamp: new Date().toISOString()
-      }
-      window.webContents.send(CLI_CHANNELS.OUTPUT, event)
-    })
-
-    // 处理进程退出
-    childProcess.on('close', (code: number | null) => {
-      const endTime = new Date()
-      const duration = endTime.getTime() - startedAt.getTime()
-
-      const completeEvent: CliCompleteEvent = {
-        executionId,
-        exitCode: code ?? -1,
-        duration
-      }
-
-      // 发送完成事件
-      window.webContents.send(CLI_CHANNELS.OUTPUT, {
-        executionId,
-        type: 'system',
-        content: `Process exited with code ${code}`,
-        timestamp: endTime.toISOString()
-      } as CliOutputEvent)
-
-      // 清理
-      activeProcesses.delete(executionId)
-    })
-
-    // 处理错误
-    childProcess.on('error', (err: Error) => {
-      const event: CliOutputEvent = {
-        executionId,
-        type: 'system',
-        content: `Error: ${err.message}`,
-        timestamp: new Date().toISOString()
-      }
-      window.webContents.send(CLI_CHANNELS.OUTPUT, event)
-      activeProcesses.delete(executionId)
+    // 执行结果通过 cli:output 事件推送，这里只需吞掉超时等异常
+    completion.catch((error: Error) => {
+      console.warn(`[CLI] Execution ${executionId} failed: ${error.message}`)
     })
 
     return {
       executionId,
-      status: 'running',
-      startedAt: startedAt.toISOString()
+      status: position === 0 ? 'running' : 'queued',
+      startedAt: position === 0 ? new Date().toISOString() : undefined
     }
 
   } catch (error) {
@@ -146,14 +88,62 @@ export async function handleCliExecute(
 }
 
 /**
- * 取消 CLI 命令
+ * 按项目命令策略校验请求（入队前）
+ * 命令无法解析（如引号未闭合）时同样拒绝，避免排队后才失败
+ */
+async function enforceCommandPolicy(request: CliExecuteRequest): Promise<void> {
+  let decision: CommandPolicyDecision
+  try {
+    decision = await commandPolicyService.evaluate(request)
+  } catch (error) {
+    throw createError(
+      ERROR_CODES.CLI_SPAWN_FAILED,
+      `Failed to spawn CLI process: ${(error as Error).message}`,
+      { command: request.command }
+    )
+  }
+
+  if (decision.action === 'deny') {
+    throw createError(
+      ERROR_CODES.CLI_POLICY_VIOLATION,
+      `Command denied by policy${decision.rule ? ` rule "${decision.rule.id}"` : ''}: ${decision.commandLine}`,
+      { decision }
+    )
+  }
+
+  if (decision.action === 'confirm' && !request.policyConfirmed) {
+    throw createError(
+      ERROR_CODES.CLI_POLICY_VIOLATION,
+      `Command requires confirmation${decision.rule ? ` by rule "${decision.rule.id}"` : ''}: ${decision.commandLine}`,
+      { decision }
+    )
+  }
+}
+
+/**
+ * 检查命令策略（渲染进程执行前预检，用于展示确认对话框）
+ */
+export async function handleCliPolicyCheck(
+  request: CliPolicyCheckRequest
+): Promise<CommandPolicyDecision> {
+  try {
+    return await commandPolicyService.evaluate(request)
+  } catch (error) {
+    throw createError(
+      ERROR_CODES.CLI_SPAWN_FAILED,
+      `Failed to parse command: ${(error as Error).message}`,
+      { command: request.command }
+    )
+  }
+}
+
+/**
+ * 取消 CLI 命令（执行中或排队中）
  */
 export async function handleCliCancel(
   request: CliCancelRequest
 ): Promise<{ success: boolean; executionId: string }> {
-  const record = activeProcesses.get(request.executionId)
-
-  if (!record) {
+  if (!cliQueueService.has(request.executionId)) {
     throw createError(
       ERROR_CODES.CLI_NOT_FOUND,
       `No active process found with ID: ${request.executionId}`
@@ -161,19 +151,10 @@ export async function handleCliCancel(
   }
 
   try {
-    // 发送 SIGTERM
-    record.process.kill('SIGTERM')
-
-    // 如果 3 秒后还没退出，发送 SIGKILL
-    setTimeout(() => {
-      if (activeProcesses.has(request.executionId)) {
-        record.process.kill('SIGKILL')
-        activeProcesses.delete(request.executionId)
-      }
-    }, 3000)
+    const success = cliQueueService.cancel(request.executionId)
 
     return {
-      success: true,
+      success,
       executionId: request.executionId
     }
 
@@ -187,22 +168,231 @@ export async function handleCliCancel(
 }
 
 /**
- * 获取活跃进程列表
+ * 获取队列中的命令（执行中 + 排队中）
+ */
+export async function handleCliQueueList(): Promise<CliQueueListResponse> {
+  return { items: cliQueueService.listItems() }
+}
+
+/**
+ * 调整排队命令的顺序
+ */
+export async function handleCliQueueReorder(
+  request: CliQueueReorderRequest
+): Promise<CliQueueListResponse> {
+  if (!cliQueueService.reorder(request.executionId, request.toIndex)) {
+    throw createError(
+      ERROR_CODES.CLI_NOT_FOUND,
+      `No queued command found with ID: ${request.executionId}`
+    )
+  }
+
+  return { items: cliQueueService.listItems() }
+}
+
+/**
+ * 清空排队中的命令
+ */
+export async function handleCliQueueClear(): Promise<CliQueueClearResponse> {
+  return { cleared: cliQueueService.clearQueue() }
+}
+
+/**
+ * 更新队列配置（并发上限）
+ */
+export async function handleCliQueueConfigure(
+  request: Partial<CliQueueConfig>
+): Promise<CliQueueConfig> {
+  return cliQueueService.configure(request)
+}
+
+/**
+ * 分页查询执行历史
+ */
+export async function handleCliHistoryQuery(
+  request: ExecutionHistoryQuery
+): Promise<ExecutionHistoryPage> {
+  return executionHistoryService.query(request)
+}
+
+/**
+ * 获取单条执行历史（含完整输出）
+ */
+export async function handleCliHistoryGet(
+  request: ExecutionHistoryGetRequest
+): Promise<ExecutionHistoryEntry> {
+  const entry = await executionHistoryService.get(request.projectPath, request.executionId)
+  if (!entry) {
+    throw createError(
+      ERROR_CODES.CLI_NOT_FOUND,
+      `No execution history found with ID: ${request.executionId}`
+    )
+  }
+  return entry
+}
+
+/**
+ * 查看执行期间某个文件相对执行前版本的差异
+ */
+export async function handleCliHistoryDiff(
+  request: ExecutionFileDiffRequest
+): Promise<ExecutionFileDiff> {
+  const entry = await handleCliHistoryGet(request)
+
+  // 路径校验中间件会把 path 解析为绝对路径
+  const path = isAbsolute(request.path)
+    ? relative(request.projectPath, request.path).split(sep).join('/')
+    : request.path
+  const change = entry.fileChanges?.find(item => item.path === path)
+  if (!change) {
+    throw createError(
+      ERROR_CODES.FS_NOT_FOUND,
+      `File ${path} was not changed by execution ${request.executionId}`
+    )
+  }
+
+  if (!change.diffable) {
+    return { change, lines: [] }
+  }
+
+  const [before, after] = await Promise.all([
+    change.beforeHash ? fileChangeCaptureService.readBlob(request.projectPath, change.beforeHash) : '',
+    change.afterHash ? fileChangeCaptureService.readBlob(request.projectPath, change.afterHash) : ''
+  ])
+  if (before === null || after === null) {
+    throw createError(
+      ERROR_CODES.FS_NOT_FOUND,
+      `Stored content for ${path} is missing`,
+      { executionId: request.executionId, path }
+    )
+  }
+
+  return { change, lines: computeLineDiff(before, after) }
+}
+
+/**
+ * 预览回滚到执行前检查点的差异
+ */
+export async function handleCliCheckpointPreview(
+  request: ExecutionCheckpointRequest
+): Promise<CheckpointRollbackPreview> {
+  const preview = await checkpointService.preview(request.projectPath, request.executionId)
+  if (!preview) {
+    throw createError(
+      ERROR_CODES.FS_NOT_FOUND,
+      `No checkpoint for execution ${request.executionId}`,
+      { executionId: request.executionId }
+    )
+  }
+  return preview
+}
+
+/**
+ * 回滚到执行前检查点
+ * 同一 Feature 仍有命令在执行时拒绝，避免与正在写入的文档冲突
+ */
+export async function handleCliCheckpointRestore(
+  request: ExecutionCheckpointRequest
+): Promise<CheckpointRollbackResult> {
+  const checkpoint = await checkpointService.get(request.projectPath, request.executionId)
+  if (!checkpoint) {
+    throw createError(
+      ERROR_CODES.FS_NOT_FOUND,
+      `No checkpoint for execution ${request.executionId}`,
+      { executionId: request.executionId }
+    )
+  }
+
+  const active = cliQueueService.listItems()
+    .find(item => item.status === 'running' && item.featureId === checkpoint.featureId)
+  if (active) {
+    throw createError(
+      ERROR_CODES.SYNC_CONFLICT,
+      `Feature ${checkpoint.featureId} has a running execution`,
+      { executionId: active.executionId, featureId: checkpoint.featureId }
+    )
+  }
+
+  try {
+    return (await checkpointService.restore(request.projectPath, request.executionId))!
+  } catch (error) {
+    throw createError(
+      ERROR_CODES.FS_WRITE_FAILED,
+      `Failed to restore checkpoint: ${(error as Error).message}`,
+      { executionId: request.executionId }
+    )
+  }
+}
+
+/**
+ * 向执行中的命令写入输入（仅 interactive 执行保持 stdin 打开）
+ */
+export async function handleCliInput(
+  request: CliInputRequest
+): Promise<{ success: boolean; executionId: string }> {
+  let written: boolean
+  try {
+    written = cliQueueService.writeInput(request.executionId, request.input, request.end)
+  } catch (error) {
+    throw createError(
+      ERROR_CODES.CLI_INPUT_UNAVAILABLE,
+      `Failed to write input: ${(error as Error).message}`,
+      { executionId: request.executionId }
+    )
+  }
+
+  if (!written) {
+    throw createError(
+      ERROR_CODES.CLI_NOT_FOUND,
+      `No running process found with ID: ${request.executionId}`
+    )
+  }
+
+  return {
+    success: true,
+    executionId: request.executionId
+  }
+}
+
+/**
+ * 以相同参数重新执行历史命令
+ */
+export async function handleCliHistoryRerun(
+  request: ExecutionHistoryRerunRequest,
+  window: BrowserWindow
+): Promise<CliExecuteResponse> {
+  const entry = await handleCliHistoryGet(request)
+
+  return handleCliExecute(
+    {
+      command: entry.command,
+      projectPath: entry.projectPath,
+      featureId: entry.featureId,
+      stepId: entry.stepId,
+      phaseId: entry.phaseId,
+      mode: entry.mode,
+      outputFormat: entry.outputFormat,
+      argv: entry.argv,
+      shell: entry.shell,
+      killGracePeriodMs: entry.killGracePeriodMs,
+      interactive: entry.interactive,
+      checkpoint: entry.checkpoint,
+      policyConfirmed: request.policyConfirmed
+    },
+    window
+  )
+}
+
+/**
+ * 获取活跃进程列表（执行中 + 排队中）
  */
 export function getActiveProcesses(): string[] {
-  return Array.from(activeProcesses.keys())
+  return cliQueueService.listItems().map(item => item.executionId)
 }
 
 /**
  * 清理所有活跃进程
  */
 export function cleanupAllProcesses(): void {
-  for (const [id, record] of activeProcesses) {
-    try {
-      record.process.kill('SIGKILL')
-    } catch {
-      // 忽略错误
-    }
-  }
-  activeProcesses.clear()
+  cliQueueService.cleanup()
 }
@@ -7,6 +7,8 @@ import { readdir, readFile, stat } from 'fs/promises'
 import { join } from 'path'
 import { parse as parseYaml } from 'yaml'
 import { getCurrentProject } from './project.handler'
+import { usageAccountingService } from '../../services/usage-accounting.service'
+import type { UsageTotals } from '../../../shared/types/ipc.types'
 
 // ============================================================
 // 类型定义
@@ -42,6 +44,8 @@ interface FeatureInfo {
   progress: number
   phases: PhaseStatus[]
   lastUpdated: string | null
+  /** Token 用量与估算费用（docs/{featureId}/91_USAGE_LOG.yaml） */
+  usage?: UsageTotals
 }
 
 interface ScanResult {
@@ -356,15 +360,19 @@ export async function handleDashboardGetFeatures(): Promise<DashboardFeaturesRes
   }
 
   // 转换为 FeatureInfo 格式
-  const features: FeatureInfo[] = rawFeatures.map(f => ({
-    id: f.id,
-    name: f.meta?.feature_name || f.id,
-    status: (f.meta?.status as FeatureInfo['status']) || 'pending',
-    currentPhase: f.meta?.current_phase || 1,
-    currentPhaseName: getPhaseNameById(f.meta?.current_phase || 1),
-    progress: calculateProgress(f),
-    phases: extractPhases(f),
-    lastUpdated: f.meta?.last_updated || null
+  const features: FeatureInfo[] = await Promise.all(rawFeatures.map(async f => {
+    const usage = await usageAccountingService.getFeatureUsage(project.path, f.id)
+    return {
+      id: f.id,
+      name: f.meta?.feature_name || f.id,
+      status: (f.meta?.status as FeatureInfo['status']) || 'pending',
+      currentPhase: f.meta?.current_phase || 1,
+      currentPhaseName: getPhaseNameById(f.meta?.current_phase || 1),
+      progress: calculateProgress(f),
+      phases: extractPhases(f),
+      lastUpdated: f.meta?.last_updated || null,
+      usage: usage.totals.executions > 0 ? usage.totals : undefined
+    }
   }))
 
   return { features, warnings }
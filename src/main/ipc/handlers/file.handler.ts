@@ -1,12 +1,16 @@
 /**
  * 文件相关 IPC 处理器
  * CODE-003: file:read, file:watch
+ *
+ * 项目监控只覆盖 docs/ 与 .claude/（忽略其中的依赖与构建产物），不扫描源码等其他目录：
+ * - 全部事件交给 FileChangeCaptureService，记录每次执行期间的文件变更
+ * - 只有 .claude/ 配置与 docs/ 文档的变更推送到渲染进程（file:change）
  */
 
 import { readFile, stat } from 'fs/promises'
 import { watch, FSWatcher } from 'chokidar'
 import { BrowserWindow } from 'electron'
-import { extname } from 'path'
+import { extname, relative, sep } from 'path'
 import type {
   FileReadRequest,
   FileReadResponse,
@@ -14,6 +18,7 @@ import type {
 } from '../../../shared/types/ipc.types'
 import { ERROR_CODES, createError } from '../../../shared/types/error.types'
 import { FILE_CHANNELS } from '../../../shared/constants/ipc-channels'
+import { fileChangeCaptureService } from '../../services/file-change-capture.service'
 
 // MIME 类型映射
 const MIME_TYPES: Record<string, string> = {
@@ -38,6 +43,47 @@ const activeWatchers = new Map<string, FSWatcher>()
 // 默认最大文件大小 (5MB)
 const DEFAULT_MAX_SIZE = 5 * 1024 * 1024
 
+// 监控的顶层目录（项目状态与文档）
+const WATCHED_ROOTS = new Set(['docs', '.claude'])
+
+// 不监控的目录（依赖、构建产物、版本库）
+const IGNORED_DIRS = new Set(['node_modules', '.git', 'dist', 'out', 'build', 'release', 'coverage'])
+
+// 推送到渲染进程的文件（项目状态相关的配置与文档）
+const STATE_FILE_PATTERNS = [
+  /^\.claude\/.+\.ya?ml$/,
+  /^docs\/.+\.(md|yaml)$/
+]
+
+/**
+ * 转换为项目相对路径（统一使用 /）
+ */
+function toRelativePath(projectPath: string, filePath: string): string {
+  return relative(projectPath, filePath).split(sep).join('/')
+}
+
+/**
+ * 是否忽略该路径：docs/ 与 .claude/ 以外的路径、依赖 / 构建目录、隐藏文件、应用自身的内容存储
+ */
+function isIgnoredPath(projectPath: string, filePath: string): boolean {
+  const relativePath = toRelativePath(projectPath, filePath)
+  if (!relativePath || relativePath.startsWith('..')) return false
+  if (!WATCHED_ROOTS.has(relativePath.split('/')[0])) return true
+  if (relativePath.startsWith('.claude/state/blobs')) return true
+
+  return relativePath.split('/').some(segment =>
+    IGNORED_DIRS.has(segment) || (segment.startsWith('.') && segment !== '.claude')
+  )
+}
+
+/**
+ * 是否为需要通知渲染进程的状态文件
+ */
+function isStateFile(projectPath: string, filePath: string): boolean {
+  const relativePath = toRelativePath(projectPath, filePath)
+  return STATE_FILE_PATTERNS.some(pattern => pattern.test(relativePath))
+}
+
 /**
  * 读取文件内容
  */
@@ -118,50 +164,51 @@ export function startFileWatch(
   // 如果已经在监控，先停止
   stopFileWatch(projectPath)
 
-  // 监控的文件模式
-  const patterns = [
-    `${projectPath}/.claude/**/*.yaml`,
-    `${projectPath}/.claude/**/*.yml`,
-    `${projectPath}/docs/**/*.md`,
-    `${projectPath}/docs/**/*.yaml`
-  ]
-
-  const watcher = watch(patterns, {
-    ignored: /(^|[\/\\])\../, // 忽略隐藏文件（除了 .claude）
+  // 监控项目根目录，由 ignored 限定到 docs/ 与 .claude/（目录稍后创建时也能收到事件）
+  const watcher = watch([projectPath], {
+    ignored: (path: string) => isIgnoredPath(projectPath, path),
     persistent: true,
-    ignoreInitial: true,
+    // 初始扫描用于建立文件变更捕获的基线，不推送到渲染进程
+    ignoreInitial: false,
     awaitWriteFinish: {
       stabilityThreshold: 100,
       pollInterval: 50
     }
   })
 
-  // 文件变更事件
-  watcher.on('change', (path) => {
+  let ready = false
+
+  const emitChange = (path: string, type: FileChangeEvent['type']) => {
+    fileChangeCaptureService.recordChange(projectPath, path, type)
+    if (!isStateFile(projectPath, path)) return
+
     const event: FileChangeEvent = {
       path,
-      type: 'update',
+      type,
       timestamp: new Date().toISOString()
     }
     window.webContents.send(FILE_CHANNELS.CHANGE, event)
+  }
+
+  watcher.on('ready', () => {
+    ready = true
+  })
+
+  // 文件变更事件
+  watcher.on('change', (path) => {
+    emitChange(path, 'update')
   })
 
   watcher.on('add', (path) => {
-    const event: FileChangeEvent = {
-      path,
-      type: 'create',
-      timestamp: new Date().toISOString()
+    if (!ready) {
+      fileChangeCaptureService.indexFile(projectPath, path)
+      return
     }
-    window.webContents.send(FILE_CHANNELS.CHANGE, event)
+    emitChange(path, 'create')
   })
 
   watcher.on('unlink', (path) => {
-    const event: FileChangeEvent = {
-      path,
-      type: 'delete',
-      timestamp: new Date().toISOString()
-    }
-    window.webContents.send(FILE_CHANNELS.CHANGE, event)
+    emitChange(path, 'delete')
   })
 
   watcher.on('error', (error) => {
@@ -180,6 +227,7 @@ export function stopFileWatch(projectPath: string): void {
     watcher.close()
     activeWatchers.delete(projectPath)
   }
+  fileChangeCaptureService.reset(projectPath)
 }
 
 /**
@@ -188,6 +236,7 @@ export function stopFileWatch(projectPath: string): void {
 export function stopAllFileWatches(): void {
   for (const [path, watcher] of activeWatchers) {
     watcher.close()
+    fileChangeCaptureService.reset(path)
   }
   activeWatchers.clear()
 }
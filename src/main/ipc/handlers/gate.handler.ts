@@ -0,0 +1,47 @@
+/**
+ * Gate IPC 处理器
+ * gate:check
+ */
+
+import type { GateCheckRequest, GateCheckResponse } from '../../../shared/types/ipc.types'
+import { ERROR_CODES, createError } from '../../../shared/types/error.types'
+import { gateCheckService } from '../../services/gate-check.service'
+import { getCurrentProject } from './project.handler'
+
+/**
+ * 按预设的 gate_rules.auto_check 检查 Feature，并更新 PHASE_GATE_STATUS.yaml 的 check_status
+ */
+export async function handleGateCheck(request: GateCheckRequest): Promise<GateCheckResponse> {
+  const project = getCurrentProject()
+  if (!project) {
+    throw createError(
+      ERROR_CODES.CFG_MISSING,
+      'No project is currently open'
+    )
+  }
+
+  const feature = project.features.find(f => f.id === request.featureId)
+  if (!feature) {
+    throw createError(
+      ERROR_CODES.FS_NOT_FOUND,
+      `Feature not found: ${request.featureId}`
+    )
+  }
+
+  if (!Number.isInteger(request.phase) || request.phase < 1) {
+    throw createError(
+      ERROR_CODES.IPC_INVALID_PARAMS,
+      `Invalid phase: ${request.phase}`
+    )
+  }
+
+  try {
+    return await gateCheckService.check(project.path, feature.id, feature.path, request.phase)
+  } catch (error) {
+    throw createError(
+      ERROR_CODES.CFG_INVALID,
+      `Failed to check gate: ${(error as Error).message}`,
+      { featureId: request.featureId, phase: request.phase }
+    )
+  }
+}
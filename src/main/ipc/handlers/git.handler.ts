@@ -0,0 +1,90 @@
+/**
+ * Git IPC 处理器
+ * git:status, git:featureBranch, git:settings, git:settingsSave
+ */
+
+import type {
+  GitFeatureBranchRequest,
+  GitFeatureBranchResult,
+  GitSettings,
+  GitStatus
+} from '../../../shared/types/ipc.types'
+import { ERROR_CODES, createError } from '../../../shared/types/error.types'
+import { gitService } from '../../services/git.service'
+import { getCurrentProject } from './project.handler'
+
+/**
+ * 获取当前项目路径
+ */
+function requireProjectPath(): string {
+  const project = getCurrentProject()
+  if (!project) {
+    throw createError(
+      ERROR_CODES.CFG_MISSING,
+      'No project is currently open'
+    )
+  }
+  return project.path
+}
+
+/**
+ * 获取当前项目的仓库状态
+ */
+export async function handleGitStatus(): Promise<GitStatus> {
+  const projectPath = requireProjectPath()
+  try {
+    return await gitService.getStatus(projectPath)
+  } catch (error) {
+    throw createError(
+      ERROR_CODES.GIT_COMMAND_FAILED,
+      `Failed to read git status: ${(error as Error).message}`
+    )
+  }
+}
+
+/**
+ * 创建或切换到 Feature 分支
+ */
+export async function handleGitFeatureBranch(
+  request: GitFeatureBranchRequest
+): Promise<GitFeatureBranchResult> {
+  const projectPath = requireProjectPath()
+  if (!(await gitService.isRepo(projectPath))) {
+    throw createError(
+      ERROR_CODES.GIT_NOT_REPO,
+      `Project is not a git repository: ${projectPath}`
+    )
+  }
+
+  try {
+    return await gitService.ensureFeatureBranch(projectPath, request.featureId)
+  } catch (error) {
+    throw createError(
+      ERROR_CODES.GIT_COMMAND_FAILED,
+      `Failed to switch to feature branch: ${(error as Error).message}`,
+      { featureId: request.featureId }
+    )
+  }
+}
+
+/**
+ * 获取项目 Git 设置
+ */
+export async function handleGitSettings(): Promise<GitSettings> {
+  return gitService.getSettings(requireProjectPath())
+}
+
+/**
+ * 保存项目 Git 设置（写入 .claude/git.yaml）
+ */
+export async function handleGitSettingsSave(request: GitSettings): Promise<GitSettings> {
+  const projectPath = requireProjectPath()
+  try {
+    return await gitService.setSettings(projectPath, request)
+  } catch (error) {
+    throw createError(
+      ERROR_CODES.FS_WRITE_FAILED,
+      `Failed to save git settings: ${(error as Error).message}`
+    )
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * 定时计划 IPC 处理器
+ * scheduler:list, scheduler:save
+ */
+
+import type { ScheduleTable, SchedulerStatus } from '../../../shared/types/ipc.types'
+import { ERROR_CODES, createError } from '../../../shared/types/error.types'
+import { schedulerService } from '../../services/scheduler.service'
+import { getCurrentProject } from './project.handler'
+
+/**
+ * 获取当前项目路径
+ */
+function requireProjectPath(): string {
+  const project = getCurrentProject()
+  if (!project) {
+    throw createError(
+      ERROR_CODES.CFG_MISSING,
+      'No project is currently open'
+    )
+  }
+  return project.path
+}
+
+/**
+ * 获取定时计划及触发状态
+ */
+export async function handleSchedulerList(): Promise<SchedulerStatus> {
+  return schedulerService.getStatus(requireProjectPath())
+}
+
+/**
+ * 保存定时计划（写入 .claude/schedule.yaml）
+ */
+export async function handleSchedulerSave(
+  request: ScheduleTable
+): Promise<SchedulerStatus> {
+  const projectPath = requireProjectPath()
+  try {
+    return await schedulerService.setSchedules(projectPath, request)
+  } catch (error) {
+    throw createError(
+      ERROR_CODES.CFG_INVALID,
+      `Invalid schedule: ${(error as Error).message}`
+    )
+  }
+}
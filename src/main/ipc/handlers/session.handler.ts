@@ -1,33 +1,67 @@
 /**
  * Session 相关 IPC 处理器
  * GUI-CLI 通信通道实现
+ *
+ * 协议文件（.claude/gui-sessions/）：
+ * - session-{id}.json    Session 元信息与心跳（CLI 写入）
+ * - session-{id}.cmd     待执行的命令（GUI 写入，同一时间只有一条，其余在命令队列中排队）
+ * - session-{id}.ack     命令已接收（CLI 写入）
+ * - session-{id}.cancel  取消执行中的命令（GUI 写入，CLI 以 status: cancelled 的 .result 确认）
+ * - session-{id}.queue   命令队列（GUI 维护，见 session-command-queue.service）
+ * - session-{id}.events  命令执行期间的输出，每行一个 JSON（CLI 追加写入）
+ *                        {"cmdId":"cmd-...","type":"stdout","content":"...","timestamp":"..."}
+ * - session-{id}.result  执行结果（CLI 写入）
+ * - bindings.json        GUI 为 Session 分配的 Feature（sessionId → featureId[]，见 session-lifecycle.service）
+ *
+ * 监听期间主进程从上次读到的位置继续读取 .events，把新增的输出通过 session:output 转发给渲染进程；
+ * 开始监听前已存在的内容不会重放，文件被截断时从头读取
+ *
+ * 开始监听时同时启动 socket 服务（session-socket.service），支持 socket 的 CLI 可改用 JSON Lines 协议通信；
+ * 两种方式的 Session 合并在同一列表中，渲染进程无需区分
+ *
+ * 监听期间由 session-lifecycle.service 定时巡检 Session 存活状态，每次状态变化发送 session:change（附带 transition）
  */
 
 import * as fs from 'fs'
 import * as path from 'path'
 import { BrowserWindow } from 'electron'
-import { randomUUID } from 'crypto'
 import type {
-  Session,
-  SessionStatus,
   SessionListRequest,
   SessionListResponse,
+  SessionAssignFeaturesRequest,
   SessionSendCommandRequest,
   SessionSendCommandResponse,
   SessionWaitResultRequest,
   SessionExecutionResult,
-  SessionChangeEvent
+  SessionChangeEvent,
+  SessionTransition,
+  SessionOutputEntry,
+  SessionOutputEvent,
+  SessionCommand,
+  SessionQueueListRequest,
+  SessionQueueListResponse,
+  SessionCancelCommandRequest
 } from '../../../shared/types/ipc.types'
 import { SESSION_CHANNELS } from '../../../shared/constants/ipc-channels'
+import { createError, ERROR_CODES } from '../../../shared/types/error.types'
+import { sessionCommandQueueService } from '../../services/session-command-queue.service'
+import { sessionSocketService } from '../../services/session-socket.service'
+import { sessionLifecycleService } from '../../services/session-lifecycle.service'
 
 // Session 目录名
 const SESSIONS_DIR = '.claude/gui-sessions'
 
 // Session 文件后缀
 const SESSION_FILE = '.json'
-const CMD_FILE = '.cmd'
 const ACK_FILE = '.ack'
 const RESULT_FILE = '.result'
+const EVENTS_FILE = '.events'
+
+/** 监听的协议文件名（Session ID 规则与 session-lifecycle.service 一致） */
+const WATCHED_FILE_PATTERN = /^session-([\w-]+)(\.(?:events|result|ack|json))$/
+
+/** 输出类型 */
+const OUTPUT_TYPES: SessionOutputEntry['type'][] = ['stdout', 'stderr', 'system']
 
 // 超时配置
 const DEFAULT_RESULT_TIMEOUT = 30000 // 30秒
@@ -35,6 +69,16 @@ const DEFAULT_RESULT_TIMEOUT = 30000 // 30秒
 // 活跃的 Session 目录监听器
 const activeWatchers = new Map<string, fs.FSWatcher>()
 
+// 输出日志的读取位置（.events 文件路径 → 读取进度）
+const eventLogCursors = new Map<string, {
+  offset: number
+  /** 尚未读到换行的末尾字节 */
+  partial: Buffer
+}>()
+
+// 已转发的执行结果（.result 文件路径 → cmdId），避免重复通知
+const forwardedResults = new Map<string, string>()
+
 // 等待结果的回调
 const resultCallbacks = new Map<string, {
   resolve: (result: SessionExecutionResult) => void
@@ -50,81 +94,277 @@ function getSessionsDir(projectPath: string): string {
 
 /**
  * 获取 Session 文件路径
+ * @throws sessionId 含路径分隔符等非法字符
  */
 function getSessionFilePath(projectPath: string, sessionId: string, suffix: string): string {
+  if (!/^[\w-]+$/.test(sessionId)) {
+    throw new Error(`Invalid session id: ${sessionId}`)
+  }
   return path.join(getSessionsDir(projectPath), `session-${sessionId}${suffix}`)
 }
 
 /**
- * 检查 Session 状态
+ * 解析监听的协议文件名；不符合协议（如 Session ID 含非法字符）时返回 null
  */
-function checkSessionStatus(session: Session): SessionStatus {
-  const now = Date.now()
-  const heartbeatTime = new Date(session.heartbeatAt).getTime()
-  const heartbeatAge = now - heartbeatTime
-
-  // 心跳超过 60 秒，标记为 stale
-  if (heartbeatAge > 60000) {
-    // 超过 5 分钟，标记为 disconnected
-    if (heartbeatAge > 300000) {
-      return 'disconnected'
+function parseWatchedFileName(fileName: string): { sessionId: string; suffix: string } | null {
+  const match = WATCHED_FILE_PATTERN.exec(fileName)
+  return match ? { sessionId: match[1], suffix: match[2] } : null
+}
+
+/**
+ * 解析一行输出日志；格式不正确时返回 null
+ */
+function parseOutputLine(line: string): SessionOutputEntry | null {
+  try {
+    const entry = JSON.parse(line) as Partial<SessionOutputEntry>
+    if (typeof entry.cmdId !== 'string' || typeof entry.content !== 'string') {
+      return null
+    }
+    return {
+      cmdId: entry.cmdId,
+      type: entry.type && OUTPUT_TYPES.includes(entry.type) ? entry.type : 'stdout',
+      content: entry.content,
+      timestamp: typeof entry.timestamp === 'string' ? entry.timestamp : new Date().toISOString()
     }
-    return 'stale'
+  } catch {
+    return null
   }
-
-  return session.status === 'disconnected' ? 'disconnected' : 'active'
 }
 
 /**
- * 读取 Session 文件
+ * 读取输出日志中新增的完整行
+ * 首次读取从文件开头开始；未以换行结尾的内容留到下次读取
  */
-function readSessionFile(filePath: string): Session | null {
+export function readSessionOutput(filePath: string): SessionOutputEntry[] {
+  let cursor = eventLogCursors.get(filePath)
+  if (!cursor) {
+    cursor = { offset: 0, partial: Buffer.alloc(0) }
+    eventLogCursors.set(filePath, cursor)
+  }
+
+  let size: number
   try {
-    if (!fs.existsSync(filePath)) {
-      return null
+    size = fs.statSync(filePath).size
+  } catch {
+    eventLogCursors.delete(filePath)
+    return []
+  }
+
+  // 文件被截断或重建，从头读取
+  if (size < cursor.offset) {
+    cursor.offset = 0
+    cursor.partial = Buffer.alloc(0)
+  }
+  if (size === cursor.offset) {
+    return []
+  }
+
+  const chunk = Buffer.alloc(size - cursor.offset)
+  const fd = fs.openSync(filePath, 'r')
+  try {
+    fs.readSync(fd, chunk, 0, chunk.length, cursor.offset)
+  } finally {
+    fs.closeSync(fd)
+  }
+  cursor.offset = size
+
+  // 按字节切分换行，避免截断多字节字符
+  const data = Buffer.concat([cursor.partial, chunk])
+  const lastNewline = data.lastIndexOf(0x0a)
+  cursor.partial = data.subarray(lastNewline + 1)
+  if (lastNewline < 0) {
+    return []
+  }
+
+  const entries: SessionOutputEntry[] = []
+  for (const line of data.subarray(0, lastNewline).toString('utf-8').split('\n')) {
+    if (!line.trim()) continue
+    const entry = parseOutputLine(line)
+    if (entry) {
+      entries.push(entry)
     }
-    const content = fs.readFileSync(filePath, 'utf-8')
-    const session = JSON.parse(content) as Session
-    // 更新状态
-    session.status = checkSessionStatus(session)
-    return session
+  }
+  return entries
+}
+
+/**
+ * 跳过输出日志中已有的内容（开始监听时调用）
+ */
+function skipSessionOutput(filePath: string): void {
+  try {
+    eventLogCursors.set(filePath, { offset: fs.statSync(filePath).size, partial: Buffer.alloc(0) })
+  } catch {
+    // 文件不存在时首次读取从头开始
+  }
+}
+
+/**
+ * 读取执行结果文件；不存在或格式错误时返回 null
+ */
+function readResultFile(filePath: string): SessionExecutionResult | null {
+  try {
+    const result = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as SessionExecutionResult
+    return typeof result.cmdId === 'string' ? result : null
   } catch {
     return null
   }
 }
 
+/**
+ * 读取命令接收确认文件；不存在或格式错误时返回 null
+ */
+function readAckFile(filePath: string): { cmdId: string; timestamp?: string } | null {
+  try {
+    const ack = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as { cmdId?: unknown; timestamp?: string }
+    return typeof ack.cmdId === 'string' ? { cmdId: ack.cmdId, timestamp: ack.timestamp } : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 转发 Session 的新增输出与执行结果到渲染进程，并同步命令队列状态
+ */
+function forwardSessionOutput(
+  projectPath: string,
+  sessionId: string,
+  suffix: string,
+  window: BrowserWindow
+): void {
+  const send = (event: SessionOutputEvent) => {
+    window.webContents.send(SESSION_CHANNELS.COMMAND_OUTPUT, event)
+  }
+
+  // 结果到达时先读完剩余输出，保证顺序
+  const eventsPath = getSessionFilePath(projectPath, sessionId, EVENTS_FILE)
+  for (const entry of readSessionOutput(eventsPath)) {
+    // 有输出说明 CLI 已开始执行
+    sessionCommandQueueService.acknowledge(projectPath, sessionId, entry.cmdId, entry.timestamp)
+    send({ sessionId, ...entry })
+  }
+
+  if (suffix !== RESULT_FILE) return
+
+  const resultPath = getSessionFilePath(projectPath, sessionId, RESULT_FILE)
+  const result = readResultFile(resultPath)
+  if (!result) return
+
+  sessionCommandQueueService.complete(projectPath, sessionId, result)
+  if (forwardedResults.get(resultPath) === result.cmdId) return
+
+  forwardedResults.set(resultPath, result.cmdId)
+  send(toResultEvent(sessionId, result))
+}
+
+/**
+ * 执行结果转换为输出事件
+ */
+function toResultEvent(sessionId: string, result: SessionExecutionResult): SessionOutputEvent {
+  return {
+    sessionId,
+    cmdId: result.cmdId,
+    type: 'system',
+    content: result.error || `Session command ${result.status}`,
+    timestamp: result.timestamp || new Date().toISOString(),
+    result
+  }
+}
+
+/**
+ * 发送 Session 列表变更到渲染进程
+ */
+async function sendSessionChange(
+  projectPath: string,
+  window: BrowserWindow,
+  transition?: SessionTransition
+): Promise<void> {
+  const response = await handleSessionList({ projectPath })
+  const event: SessionChangeEvent = {
+    sessions: response.sessions,
+    timestamp: new Date().toISOString(),
+    transition
+  }
+  window.webContents.send(SESSION_CHANNELS.CHANGE, event)
+}
+
+/**
+ * 订阅 socket Session 的事件：同步命令队列，并转发输出与 Session 变更到渲染进程
+ */
+export function registerSessionSocketEvents(getWindow: () => BrowserWindow | null): void {
+  sessionSocketService.on('change', ({ projectPath }: { projectPath: string }) => {
+    const window = getWindow()
+    if (window) sendSessionChange(projectPath, window)
+  })
+
+  sessionSocketService.on('ack', ({ projectPath, sessionId, cmdId, timestamp }) => {
+    sessionCommandQueueService.acknowledge(projectPath, sessionId, cmdId, timestamp)
+  })
+
+  sessionSocketService.on('output', ({ projectPath, sessionId, entry }: {
+    projectPath: string
+    sessionId: string
+    entry: SessionOutputEntry
+  }) => {
+    sessionCommandQueueService.acknowledge(projectPath, sessionId, entry.cmdId, entry.timestamp)
+    getWindow()?.webContents.send(SESSION_CHANNELS.COMMAND_OUTPUT, { sessionId, ...entry })
+  })
+
+  sessionSocketService.on('result', ({ projectPath, sessionId, result }: {
+    projectPath: string
+    sessionId: string
+    result: SessionExecutionResult
+  }) => {
+    sessionCommandQueueService.complete(projectPath, sessionId, result)
+    getWindow()?.webContents.send(SESSION_CHANNELS.COMMAND_OUTPUT, toResultEvent(sessionId, result))
+  })
+}
+
+/**
+ * 订阅 Session 生命周期事件：每次状态变化发送 Session 变更，断开时结束的命令作为执行结果转发
+ */
+export function registerSessionLifecycleEvents(getWindow: () => BrowserWindow | null): void {
+  sessionLifecycleService.on('transition', ({ projectPath, transition }: {
+    projectPath: string
+    transition: SessionTransition
+  }) => {
+    const window = getWindow()
+    if (window) sendSessionChange(projectPath, window, transition)
+  })
+
+  sessionLifecycleService.on('failed', ({ sessionId, result }: {
+    sessionId: string
+    result: SessionExecutionResult
+  }) => {
+    getWindow()?.webContents.send(SESSION_CHANNELS.COMMAND_OUTPUT, toResultEvent(sessionId, result))
+  })
+}
+
 /**
  * 获取 Session 列表
+ * 状态由 session-lifecycle.service 按进程与心跳判定
  */
 export async function handleSessionList(
   request: SessionListRequest
 ): Promise<SessionListResponse> {
-  const sessionsDir = getSessionsDir(request.projectPath)
+  return { sessions: sessionLifecycleService.listSessions(request.projectPath) }
+}
 
-  // 如果目录不存在，返回空列表
-  if (!fs.existsSync(sessionsDir)) {
-    return { sessions: [] }
+/**
+ * 为 Session 分配 Feature（整体替换），带 featureId 的命令会路由到负责该 Feature 的 Session
+ */
+export async function handleSessionAssignFeatures(
+  request: SessionAssignFeaturesRequest
+): Promise<SessionListResponse> {
+  const { projectPath, sessionId, featureIds } = request
+  if (!/^[\w-]+$/.test(sessionId) || !Array.isArray(featureIds) || featureIds.some(id => typeof id !== 'string')) {
+    throw createError(ERROR_CODES.IPC_INVALID_PARAMS, '无效的 Feature 分配', { sessionId })
   }
 
-  const sessions: Session[] = []
-  const files = fs.readdirSync(sessionsDir)
-
-  for (const file of files) {
-    if (file.endsWith(SESSION_FILE) && file.startsWith('session-')) {
-      const filePath = path.join(sessionsDir, file)
-      const session = readSessionFile(filePath)
-      if (session) {
-        sessions.push(session)
-      }
-    }
+  try {
+    return { sessions: sessionLifecycleService.assignFeatures(projectPath, sessionId, featureIds) }
+  } catch (error) {
+    throw createError(ERROR_CODES.FS_WRITE_FAILED, `保存 Feature 分配失败: ${(error as Error).message}`, { sessionId })
   }
-
-  // 按最后活跃时间排序（最近的在前）
-  sessions.sort((a, b) =>
-    new Date(b.lastActiveAt).getTime() - new Date(a.lastActiveAt).getTime()
-  )
-
-  return { sessions }
 }
 
 /**
@@ -132,39 +372,32 @@ export async function handleSessionList(
  *
  * 注意：使用方案 A（UserPromptSubmit Hook）时，命令写入文件后立即返回。
  * CLI 端的 Hook 会在用户下次输入时检测到命令并执行。
+ * Session 正在执行其他命令时加入队列（status: queued），上一条结束后自动写入 .cmd
  */
 export async function handleSessionSendCommand(
   request: SessionSendCommandRequest
 ): Promise<SessionSendCommandResponse> {
   const { sessionId, projectPath, command, context } = request
-  const cmdId = `cmd-${randomUUID()}`
-
-  // 构建命令对象
-  const cmdPayload = {
-    cmdId,
-    timestamp: new Date().toISOString(),
-    command,
-    source: 'gui-button',
-    context: context || {}
-  }
-
-  // 获取文件路径
-  const cmdFilePath = getSessionFilePath(projectPath, sessionId, CMD_FILE)
 
   try {
-    // 写入命令文件
-    fs.writeFileSync(cmdFilePath, JSON.stringify(cmdPayload, null, 2))
+    const { command: queued, duplicate, position } = sessionCommandQueueService.enqueue(
+      projectPath,
+      sessionId,
+      command,
+      context
+    )
 
     // 方案 A：命令写入后立即返回，不等待 ACK
     // CLI 端的 UserPromptSubmit Hook 会在用户下次输入时处理命令
     return {
-      cmdId,
-      status: 'sent',
-      retryCount: 0
+      cmdId: queued.cmdId,
+      status: duplicate ? 'duplicate' : position === 0 ? 'sent' : 'queued',
+      retryCount: 0,
+      position
     }
   } catch (error) {
     return {
-      cmdId,
+      cmdId: '',
       status: 'error',
       retryCount: 0,
       error: (error as Error).message
@@ -172,6 +405,40 @@ export async function handleSessionSendCommand(
   }
 }
 
+/**
+ * 获取 Session 的命令队列
+ */
+export async function handleSessionQueueList(
+  request: SessionQueueListRequest
+): Promise<SessionQueueListResponse> {
+  return {
+    sessionId: request.sessionId,
+    commands: sessionCommandQueueService.list(request.projectPath, request.sessionId)
+  }
+}
+
+/**
+ * 取消 Session 命令
+ * 排队中的命令直接取消；执行中的命令需等待 CLI 确认（status: cancelling）
+ */
+export async function handleSessionCancelCommand(
+  request: SessionCancelCommandRequest
+): Promise<SessionCommand> {
+  let command: SessionCommand | null
+  try {
+    command = sessionCommandQueueService.cancel(request.projectPath, request.sessionId, request.cmdId)
+  } catch (error) {
+    throw createError(ERROR_CODES.FS_WRITE_FAILED, `写入取消请求失败: ${(error as Error).message}`, {
+      cmdId: request.cmdId
+    })
+  }
+
+  if (!command) {
+    throw createError(ERROR_CODES.FS_NOT_FOUND, `命令不存在: ${request.cmdId}`, { cmdId: request.cmdId })
+  }
+  return command
+}
+
 /**
  * 等待执行结果
  */
@@ -197,6 +464,16 @@ export async function handleSessionWaitResult(
 
     // 检查结果文件
     const checkResult = () => {
+      // socket Session 的结果，或 Session 断开时以 failed 结束的命令
+      const queuedResult = sessionSocketService.getResult(projectPath, sessionId, cmdId)
+        ?? sessionCommandQueueService.list(projectPath, sessionId).find(command => command.cmdId === cmdId)?.result
+      if (queuedResult) {
+        clearTimeout(timeoutId)
+        resultCallbacks.delete(cmdId)
+        resolve(queuedResult)
+        return true
+      }
+
       try {
         if (fs.existsSync(resultFilePath)) {
           const content = fs.readFileSync(resultFilePath, 'utf-8')
@@ -248,20 +525,55 @@ export function startSessionWatch(projectPath: string, window: BrowserWindow): v
     fs.mkdirSync(sessionsDir, { recursive: true, mode: 0o700 })
   }
 
+  // 已有的输出与结果不重放，但按已有的确认与结果同步命令队列（未监听期间 CLI 可能已执行完毕）
+  for (const file of fs.readdirSync(sessionsDir)) {
+    const parsed = parseWatchedFileName(file)
+    if (!parsed) continue
+    const filePath = path.join(sessionsDir, file)
+    if (parsed.suffix === EVENTS_FILE) {
+      skipSessionOutput(filePath)
+    } else if (parsed.suffix === ACK_FILE) {
+      const ack = readAckFile(filePath)
+      if (ack) {
+        sessionCommandQueueService.acknowledge(projectPath, parsed.sessionId, ack.cmdId, ack.timestamp)
+      }
+    } else if (parsed.suffix === RESULT_FILE) {
+      const result = readResultFile(filePath)
+      if (result) {
+        forwardedResults.set(filePath, result.cmdId)
+        sessionCommandQueueService.complete(projectPath, parsed.sessionId, result)
+      }
+    }
+  }
+
   try {
     const watcher = fs.watch(sessionsDir, async (eventType, filename) => {
-      // 只关注 session-*.json 文件的变化
-      if (filename && filename.endsWith(SESSION_FILE) && filename.startsWith('session-')) {
-        // 获取最新的 Session 列表
-        const response = await handleSessionList({ projectPath })
-
-        // 发送变更事件到渲染进程
-        const event: SessionChangeEvent = {
-          sessions: response.sessions,
-          timestamp: new Date().toISOString()
+      // 不符合协议的文件（如 session-a.b.events）直接忽略
+      const parsed = filename ? parseWatchedFileName(filename) : null
+      if (!parsed) return
+
+      try {
+        // 命令输出与执行结果
+        if (parsed.suffix === EVENTS_FILE || parsed.suffix === RESULT_FILE) {
+          forwardSessionOutput(projectPath, parsed.sessionId, parsed.suffix, window)
+          return
         }
 
-        window.webContents.send(SESSION_CHANNELS.CHANGE, event)
+        // CLI 确认接收命令
+        if (parsed.suffix === ACK_FILE) {
+          const ack = readAckFile(getSessionFilePath(projectPath, parsed.sessionId, ACK_FILE))
+          if (ack) {
+            sessionCommandQueueService.acknowledge(projectPath, parsed.sessionId, ack.cmdId, ack.timestamp)
+          }
+          return
+        }
+
+        // Session 元信息变化
+        if (parsed.suffix === SESSION_FILE) {
+          await sendSessionChange(projectPath, window)
+        }
+      } catch (error) {
+        console.warn(`[Session] Failed to handle ${filename}:`, (error as Error).message)
       }
     })
 
@@ -270,6 +582,14 @@ export function startSessionWatch(projectPath: string, window: BrowserWindow): v
   } catch (error) {
     console.error(`[Session] Failed to watch: ${sessionsDir}`, error)
   }
+
+  // socket 通信方式；启动失败时 CLI 使用文件协议
+  sessionSocketService.start(projectPath).catch(error => {
+    console.warn('[Session] Failed to start socket transport:', (error as Error).message)
+  })
+
+  // 巡检 Session 存活状态与过期文件
+  sessionLifecycleService.start(projectPath)
 }
 
 /**
@@ -280,6 +600,10 @@ export function stopSessionWatch(projectPath: string): void {
   if (watcher) {
     watcher.close()
     activeWatchers.delete(projectPath)
+    clearOutputState(getSessionsDir(projectPath))
+    sessionCommandQueueService.reset(projectPath)
+    sessionSocketService.stop(projectPath)
+    sessionLifecycleService.stop(projectPath)
     console.log(`[Session] Stopped watching: ${projectPath}`)
   }
 }
@@ -293,4 +617,21 @@ export function stopAllSessionWatches(): void {
     console.log(`[Session] Stopped watching: ${projectPath}`)
   }
   activeWatchers.clear()
+  eventLogCursors.clear()
+  forwardedResults.clear()
+  sessionCommandQueueService.reset()
+  sessionSocketService.stopAll()
+  sessionLifecycleService.stop()
+}
+
+/**
+ * 清除目录下的输出读取进度
+ */
+function clearOutputState(sessionsDir: string): void {
+  for (const filePath of [...eventLogCursors.keys(), ...forwardedResults.keys()]) {
+    if (path.dirname(filePath) === sessionsDir) {
+      eventLogCursors.delete(filePath)
+      forwardedResults.delete(filePath)
+    }
+  }
 }
@@ -0,0 +1,59 @@
+/**
+ * 用量统计 IPC 处理器
+ * usage:getFeature, usage:getPricing, usage:setPricing
+ */
+
+import type {
+  FeatureUsageSummary,
+  PriceTable,
+  UsageFeatureRequest
+} from '../../../shared/types/ipc.types'
+import { ERROR_CODES, createError } from '../../../shared/types/error.types'
+import { usageAccountingService, isValidFeatureId } from '../../services/usage-accounting.service'
+import { getCurrentProject } from './project.handler'
+
+/**
+ * 获取当前项目路径
+ */
+function requireProjectPath(): string {
+  const project = getCurrentProject()
+  if (!project) {
+    throw createError(
+      ERROR_CODES.CFG_MISSING,
+      'No project is currently open'
+    )
+  }
+  return project.path
+}
+
+/**
+ * 获取 Feature 用量汇总（按 Step / Phase 聚合）
+ */
+export async function handleUsageGetFeature(
+  request: UsageFeatureRequest
+): Promise<FeatureUsageSummary> {
+  const projectPath = requireProjectPath()
+  if (!isValidFeatureId(request.featureId)) {
+    throw createError(
+      ERROR_CODES.IPC_INVALID_PARAMS,
+      `Invalid feature id: ${request.featureId}`
+    )
+  }
+  return usageAccountingService.getFeatureUsage(projectPath, request.featureId)
+}
+
+/**
+ * 获取价格表
+ */
+export async function handleUsageGetPricing(): Promise<PriceTable> {
+  return usageAccountingService.getPriceTable(requireProjectPath())
+}
+
+/**
+ * 保存价格表（写入 .claude/pricing.yaml）
+ */
+export async function handleUsageSetPricing(
+  request: PriceTable
+): Promise<PriceTable> {
+  return usageAccountingService.setPriceTable(requireProjectPath(), request)
+}
@@ -133,6 +133,12 @@ export function createPathValidatorMiddleware() {
       data.path = validatePath(data.path)
     }
 
+    // 验证 argv.cwd 字段（CLI 执行的工作目录，相对于 projectPath）
+    const argv = data.argv as Record<string, unknown> | undefined
+    if (argv && typeof argv.cwd === 'string' && typeof data.projectPath === 'string') {
+      argv.cwd = validatePath(argv.cwd, data.projectPath)
+    }
+
     return next()
   }
 }
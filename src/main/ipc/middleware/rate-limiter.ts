@@ -22,6 +22,8 @@ const DEFAULT_LIMITS: Record<string, RateLimitConfig> = {
   // CLI 执行限制较严格
   'cli:execute': { windowMs: 1000, maxRequests: 5 },
   'cli:cancel': { windowMs: 1000, maxRequests: 10 },
+  'cli:input': { windowMs: 1000, maxRequests: 20 },
+  'cli:checkpointRestore': { windowMs: 1000, maxRequests: 2 },
 
   // 项目操作适中
   'project:open': { windowMs: 1000, maxRequests: 10 },
@@ -33,6 +35,14 @@ const DEFAULT_LIMITS: Record<string, RateLimitConfig> = {
   // 审批操作限制严格
   'approval:submit': { windowMs: 1000, maxRequests: 5 },
   'approval:status': { windowMs: 1000, maxRequests: 20 },
+  'approval:history': { windowMs: 1000, maxRequests: 10 },
+  'approval:createSigningKey': { windowMs: 1000, maxRequests: 2 },
+
+  // 定时计划保存会写入文件
+  'scheduler:save': { windowMs: 1000, maxRequests: 5 },
+
+  // 切换分支会改写工作区
+  'git:featureBranch': { windowMs: 1000, maxRequests: 2 },
 
   // 默认限制
   '_default': { windowMs: 1000, maxRequests: 100 }
@@ -10,13 +10,38 @@ import { ERROR_CODES, createError } from '../../../shared/types/error.types'
 // Schema 定义
 // ============================================================
 
+/** 结构化命令参数 Schema */
+const cliArgvSchema = Joi.object({
+  executable: Joi.string().required().min(1).max(1000),
+  args: Joi.array().items(Joi.string().allow('').max(10000)).max(200).required(),
+  cwd: Joi.string().optional().max(1000),
+  env: Joi.object().pattern(Joi.string().max(200), Joi.string().allow('').max(10000)).optional()
+})
+
 /** CLI 执行请求 Schema */
 export const cliExecuteSchema = Joi.object({
   command: Joi.string().required().min(1).max(10000),
   projectPath: Joi.string().required().min(1).max(1000),
   featureId: Joi.string().optional().max(100),
   stepId: Joi.string().optional().max(100),
-  mode: Joi.string().valid('print', 'full_interactive').default('print')
+  phaseId: Joi.number().integer().min(0).optional(),
+  mode: Joi.string().valid('print', 'full_interactive').default('print'),
+  outputFormat: Joi.string().valid('text', 'stream-json').default('text'),
+  argv: cliArgvSchema.optional(),
+  shell: Joi.boolean().default(false),
+  policyConfirmed: Joi.boolean().default(false),
+  killGracePeriodMs: Joi.number().integer().min(0).max(10 * 60 * 1000).optional(),
+  interactive: Joi.boolean().default(false),
+  checkpoint: Joi.boolean().default(false)
+})
+
+/** 命令策略检查请求 Schema */
+export const cliPolicyCheckSchema = Joi.object({
+  command: Joi.string().required().min(1).max(10000),
+  projectPath: Joi.string().required().min(1).max(1000),
+  mode: Joi.string().valid('print', 'full_interactive').default('print'),
+  argv: cliArgvSchema.optional(),
+  shell: Joi.boolean().default(false)
 })
 
 /** CLI 取消请求 Schema */
@@ -24,6 +49,54 @@ export const cliCancelSchema = Joi.object({
   executionId: Joi.string().required().uuid()
 })
 
+/** CLI 输入请求 Schema */
+export const cliInputSchema = Joi.object({
+  executionId: Joi.string().required().uuid(),
+  input: Joi.string().allow('').required().max(10000),
+  end: Joi.boolean().default(false)
+})
+
+/** CLI 队列调整顺序请求 Schema */
+export const cliQueueReorderSchema = Joi.object({
+  executionId: Joi.string().required().uuid(),
+  toIndex: Joi.number().integer().min(0).required()
+})
+
+/** CLI 队列配置请求 Schema */
+export const cliQueueConfigureSchema = Joi.object({
+  maxConcurrency: Joi.number().integer().min(1).max(8).optional()
+})
+
+/** 执行历史查询请求 Schema */
+export const cliHistoryQuerySchema = Joi.object({
+  projectPath: Joi.string().required().min(1).max(1000),
+  featureId: Joi.string().optional().max(100),
+  stepId: Joi.string().optional().max(100),
+  phaseId: Joi.number().integer().min(0).optional(),
+  status: Joi.string().valid('completed', 'failed', 'cancelled', 'timeout').optional(),
+  search: Joi.string().optional().allow('').max(1000),
+  since: Joi.string().optional().isoDate(),
+  until: Joi.string().optional().isoDate(),
+  offset: Joi.number().integer().min(0).default(0),
+  limit: Joi.number().integer().min(1).max(100).default(20)
+})
+
+/** 执行历史单条查询请求 Schema */
+export const cliHistoryGetSchema = Joi.object({
+  projectPath: Joi.string().required().min(1).max(1000),
+  executionId: Joi.string().required().uuid()
+})
+
+/** 重新执行请求 Schema */
+export const cliHistoryRerunSchema = cliHistoryGetSchema.keys({
+  policyConfirmed: Joi.boolean().default(false)
+})
+
+/** 执行文件差异请求 Schema */
+export const cliHistoryDiffSchema = cliHistoryGetSchema.keys({
+  path: Joi.string().required().min(1).max(1000)
+})
+
 /** 项目打开请求 Schema */
 export const projectOpenSchema = Joi.object({
   path: Joi.string().required().min(1).max(1000)
@@ -49,14 +122,120 @@ export const approvalStatusSchema = Joi.object({
   featureId: Joi.string().required().max(100)
 })
 
+/** 用量查询请求 Schema */
+export const usageFeatureSchema = Joi.object({
+  featureId: Joi.string().required().pattern(/^[\w.-]+$/).invalid('..').max(100)
+})
+
+/** 价格表 Schema（USD / 百万 tokens） */
+const modelPriceSchema = Joi.object({
+  input: Joi.number().min(0).required(),
+  output: Joi.number().min(0).required(),
+  cacheWrite: Joi.number().min(0).required(),
+  cacheRead: Joi.number().min(0).required()
+})
+
+export const usagePricingSchema = Joi.object({
+  models: Joi.object().pattern(Joi.string().max(100), modelPriceSchema).required()
+})
+
+/** 定时计划 Schema（cron 由服务端解析校验） */
+const scheduleEntrySchema = Joi.object({
+  id: Joi.string().required().max(100),
+  stepId: Joi.string().required().max(100),
+  command: Joi.string().required().min(1).max(1000),
+  cron: Joi.string().required().max(100),
+  enabled: Joi.boolean().default(true),
+  featureId: Joi.string().optional().max(100)
+})
+
+export const schedulerSaveSchema = Joi.object({
+  schedules: Joi.array().items(scheduleEntrySchema).unique('id').max(50).required()
+})
+
+/** Session ID：用于拼接 .claude/gui-sessions/session-{id}.* 文件名，禁止路径分隔符 */
+const sessionIdSchema = Joi.string().required().pattern(/^[\w-]+$/).max(100)
+
+/** Session 命令请求 Schema */
+export const sessionSendCommandSchema = Joi.object({
+  sessionId: sessionIdSchema,
+  projectPath: Joi.string().required().min(1).max(1000),
+  command: Joi.string().required().min(1).max(10000),
+  context: Joi.object({
+    phaseId: Joi.number().integer().min(0).optional(),
+    featureId: Joi.string().optional().max(100),
+    stepId: Joi.string().optional().max(100)
+  }).optional()
+})
+
+/** Session 命令结果等待请求 Schema */
+export const sessionWaitResultSchema = Joi.object({
+  sessionId: sessionIdSchema,
+  projectPath: Joi.string().required().min(1).max(1000),
+  cmdId: Joi.string().required().max(100),
+  timeout: Joi.number().integer().min(0).max(60 * 60 * 1000).optional()
+})
+
+/** Session 命令队列查询请求 Schema */
+export const sessionQueueListSchema = Joi.object({
+  sessionId: sessionIdSchema,
+  projectPath: Joi.string().required().min(1).max(1000)
+})
+
+/** Session 命令取消请求 Schema */
+export const sessionCancelCommandSchema = Joi.object({
+  sessionId: sessionIdSchema,
+  projectPath: Joi.string().required().min(1).max(1000),
+  cmdId: Joi.string().required().max(100)
+})
+
+/** Session Feature 分配请求 Schema */
+export const sessionAssignFeaturesSchema = Joi.object({
+  sessionId: sessionIdSchema,
+  projectPath: Joi.string().required().min(1).max(1000),
+  featureIds: Joi.array().items(Joi.string().max(100)).max(100).required()
+})
+
+/** Feature 分支请求 Schema（分支名由 git check-ref-format 校验） */
+export const gitFeatureBranchSchema = Joi.object({
+  featureId: Joi.string().required().min(1).max(100)
+})
+
+/** Git 设置 Schema */
+export const gitSettingsSaveSchema = Joi.object({
+  autoCommit: Joi.boolean().required(),
+  branchPrefix: Joi.string().allow('').max(100).default('feature/')
+})
+
 // Schema 映射
 const schemaMap: Record<string, Joi.Schema> = {
   'cli:execute': cliExecuteSchema,
   'cli:cancel': cliCancelSchema,
+  'cli:input': cliInputSchema,
+  'cli:queueReorder': cliQueueReorderSchema,
+  'cli:queueConfigure': cliQueueConfigureSchema,
+  'cli:historyQuery': cliHistoryQuerySchema,
+  'cli:historyGet': cliHistoryGetSchema,
+  'cli:historyRerun': cliHistoryRerunSchema,
+  'cli:historyDiff': cliHistoryDiffSchema,
+  'cli:checkpointPreview': cliHistoryGetSchema,
+  'cli:checkpointRestore': cliHistoryGetSchema,
+  'cli:policyCheck': cliPolicyCheckSchema,
   'project:open': projectOpenSchema,
   'file:read': fileReadSchema,
   'approval:submit': approvalSubmitSchema,
-  'approval:status': approvalStatusSchema
+  'approval:status': approvalStatusSchema,
+  'approval:history': approvalStatusSchema,
+  'usage:getFeature': usageFeatureSchema,
+  'usage:setPricing': usagePricingSchema,
+  'scheduler:save': schedulerSaveSchema,
+  'session:sendCommand': sessionSendCommandSchema,
+  'session:waitResult': sessionWaitResultSchema,
+  'session:queue': sessionQueueListSchema,
+  'session:cancelCommand': sessionCancelCommandSchema,
+  'session:assignFeatures': sessionAssignFeaturesSchema,
+  'git:featureBranch': gitFeatureBranchSchema,
+  'git:settingsSave': gitSettingsSaveSchema
 }
 
 // ============================================================
@@ -4,26 +4,72 @@
  */
 
 import type { IpcMain, BrowserWindow } from 'electron'
-import { IPC_CHANNELS } from '../../shared/constants/ipc-channels'
+import { IPC_CHANNELS, CLI_CHANNELS, USAGE_CHANNELS, SCHEDULER_CHANNELS, SESSION_CHANNELS } from '../../shared/constants/ipc-channels'
 import { createValidatorMiddleware } from './middleware/validator'
 import { createPathValidatorMiddleware } from './middleware/path-validator'
 import { createRateLimiterMiddleware } from './middleware/rate-limiter'
 
 // Handlers
-import { handleCliExecute, handleCliCancel, cleanupAllProcesses } from './handlers/cli.handler'
+import {
+  handleCliExecute,
+  handleCliCancel,
+  handleCliInput,
+  handleCliQueueList,
+  handleCliQueueReorder,
+  handleCliQueueClear,
+  handleCliQueueConfigure,
+  handleCliHistoryQuery,
+  handleCliHistoryGet,
+  handleCliHistoryRerun,
+  handleCliHistoryDiff,
+  handleCliCheckpointPreview,
+  handleCliCheckpointRestore,
+  handleCliPolicyCheck,
+  cleanupAllProcesses
+} from './handlers/cli.handler'
+import { cliQueueService } from '../services/cli-queue.service'
+import { executionHistoryService } from '../services/execution-history.service'
+import { usageAccountingService } from '../services/usage-accounting.service'
+import { schedulerService } from '../services/scheduler.service'
+import { fileChangeCaptureService } from '../services/file-change-capture.service'
+import { checkpointService } from '../services/checkpoint.service'
+import { sessionCommandQueueService } from '../services/session-command-queue.service'
 import { handleProjectOpen, handleProjectState } from './handlers/project.handler'
 import { handleFileRead, startFileWatch, stopAllFileWatches } from './handlers/file.handler'
-import { handleApprovalSubmit, handleApprovalStatus } from './handlers/approval.handler'
+import {
+  handleApprovalSubmit,
+  handleApprovalStatus,
+  handleApprovalHistory,
+  handleApprovalCreateSigningKey
+} from './handlers/approval.handler'
 import { handleShellOpenTerminal } from './handlers/shell.handler'
 import {
   handleSessionList,
   handleSessionSendCommand,
   handleSessionWaitResult,
+  handleSessionQueueList,
+  handleSessionCancelCommand,
+  handleSessionAssignFeatures,
   startSessionWatch,
   stopSessionWatch,
-  stopAllSessionWatches
+  stopAllSessionWatches,
+  registerSessionSocketEvents,
+  registerSessionLifecycleEvents
 } from './handlers/session.handler'
 import { handleDashboardGetFeatures, handleDashboardGetStandup } from './handlers/dashboard.handler'
+import {
+  handleUsageGetFeature,
+  handleUsageGetPricing,
+  handleUsageSetPricing
+} from './handlers/usage.handler'
+import { handleSchedulerList, handleSchedulerSave } from './handlers/scheduler.handler'
+import {
+  handleGitStatus,
+  handleGitFeatureBranch,
+  handleGitSettings,
+  handleGitSettingsSave
+} from './handlers/git.handler'
+import { handleGateCheck } from './handlers/gate.handler'
 import { dialog } from 'electron'
 
 // IPC 中间件类型
@@ -99,15 +145,171 @@ export function registerIpcHandlers(ipcMain: IpcMain): void {
     )
   )
 
+  ipcMain.handle(
+    IPC_CHANNELS.INPUT,
+    applyMiddlewares(
+      async (_event, request) => handleCliInput(request as Parameters<typeof handleCliInput>[0]),
+      middlewares,
+      IPC_CHANNELS.INPUT
+    )
+  )
+
+  ipcMain.handle(
+    IPC_CHANNELS.QUEUE_LIST,
+    applyMiddlewares(
+      async () => handleCliQueueList(),
+      middlewares,
+      IPC_CHANNELS.QUEUE_LIST
+    )
+  )
+
+  ipcMain.handle(
+    IPC_CHANNELS.QUEUE_REORDER,
+    applyMiddlewares(
+      async (_event, request) => handleCliQueueReorder(request as Parameters<typeof handleCliQueueReorder>[0]),
+      middlewares,
+      IPC_CHANNELS.QUEUE_REORDER
+    )
+  )
+
+  ipcMain.handle(
+    IPC_CHANNELS.QUEUE_CLEAR,
+    applyMiddlewares(
+      async () => handleCliQueueClear(),
+      middlewares,
+      IPC_CHANNELS.QUEUE_CLEAR
+    )
+  )
+
+  ipcMain.handle(
+    IPC_CHANNELS.QUEUE_CONFIGURE,
+    applyMiddlewares(
+      async (_event, request) => handleCliQueueConfigure(request as Parameters<typeof handleCliQueueConfigure>[0]),
+      middlewares,
+      IPC_CHANNELS.QUEUE_CONFIGURE
+    )
+  )
+
+  // 队列变更推送到渲染进程
+  cliQueueService.on('change', () => {
+    mainWindow?.webContents.send(CLI_CHANNELS.QUEUE_CHANGE, { items: cliQueueService.listItems() })
+  })
+
+  // 执行历史
+  ipcMain.handle(
+    IPC_CHANNELS.HISTORY_QUERY,
+    applyMiddlewares(
+      async (_event, request) => handleCliHistoryQuery(request as Parameters<typeof handleCliHistoryQuery>[0]),
+      middlewares,
+      IPC_CHANNELS.HISTORY_QUERY
+    )
+  )
+
+  ipcMain.handle(
+    IPC_CHANNELS.HISTORY_GET,
+    applyMiddlewares(
+      async (_event, request) => handleCliHistoryGet(request as Parameters<typeof handleCliHistoryGet>[0]),
+      middlewares,
+      IPC_CHANNELS.HISTORY_GET
+    )
+  )
+
+  ipcMain.handle(
+    IPC_CHANNELS.HISTORY_RERUN,
+    applyMiddlewares(
+      async (_event, request) => {
+        if (!mainWindow) throw new Error('Main window not available')
+        return handleCliHistoryRerun(request as Parameters<typeof handleCliHistoryRerun>[0], mainWindow)
+      },
+      middlewares,
+      IPC_CHANNELS.HISTORY_RERUN
+    )
+  )
+
+  ipcMain.handle(
+    IPC_CHANNELS.HISTORY_DIFF,
+    applyMiddlewares(
+      async (_event, request) => handleCliHistoryDiff(request as Parameters<typeof handleCliHistoryDiff>[0]),
+      middlewares,
+      IPC_CHANNELS.HISTORY_DIFF
+    )
+  )
+
+  // 执行前检查点回滚
+  ipcMain.handle(
+    IPC_CHANNELS.CHECKPOINT_PREVIEW,
+    applyMiddlewares(
+      async (_event, request) => handleCliCheckpointPreview(request as Parameters<typeof handleCliCheckpointPreview>[0]),
+      middlewares,
+      IPC_CHANNELS.CHECKPOINT_PREVIEW
+    )
+  )
+
+  ipcMain.handle(
+    IPC_CHANNELS.CHECKPOINT_RESTORE,
+    applyMiddlewares(
+      async (_event, request) => handleCliCheckpointRestore(request as Parameters<typeof handleCliCheckpointRestore>[0]),
+      middlewares,
+      IPC_CHANNELS.CHECKPOINT_RESTORE
+    )
+  )
+
+  // 命令策略预检
+  ipcMain.handle(
+    IPC_CHANNELS.POLICY_CHECK,
+    applyMiddlewares(
+      async (_event, request) => handleCliPolicyCheck(request as Parameters<typeof handleCliPolicyCheck>[0]),
+      middlewares,
+      IPC_CHANNELS.POLICY_CHECK
+    )
+  )
+
+  // 执行开始时捕获项目文件变更；请求检查点的执行同时保存 Feature 文档目录快照
+  cliQueueService.on('started', ({ id, projectPath, command, featureId, stepId, checkpoint }) => {
+    if (checkpoint && featureId) {
+      checkpointService.create(projectPath, id, { featureId, stepId, command })
+    }
+    fileChangeCaptureService.begin(id, projectPath)
+  })
+
+  // 执行结束后附上文件变更写入执行历史，并累计 Token 用量
+  // 用量汇总会写入 docs/，需在文件变更捕获结束后再写，避免记为本次执行的变更
+  cliQueueService.on('finished', async (entry) => {
+    try {
+      entry.fileChanges = await fileChangeCaptureService.complete(entry.executionId)
+    } catch (error) {
+      console.error('[IPC Registry] Failed to capture file changes:', (error as Error).message)
+    }
+
+    executionHistoryService.append(entry).catch((error: Error) => {
+      console.error('[IPC Registry] Failed to append execution history:', error.message)
+    })
+    usageAccountingService.record(entry)
+      .then(summary => {
+        if (summary) {
+          mainWindow?.webContents.send(USAGE_CHANNELS.USAGE_CHANGE, { featureId: summary.featureId, summary })
+        }
+      })
+      .catch((error: Error) => {
+        console.error('[IPC Registry] Failed to record usage:', error.message)
+      })
+  })
+
   // 项目处理器
   ipcMain.handle(
     IPC_CHANNELS.OPEN,
     applyMiddlewares(
       async (_event, request) => {
         const result = await handleProjectOpen(request as Parameters<typeof handleProjectOpen>[0])
-        // 打开项目后启动文件监控
+        // 打开项目后启动文件监控与定时计划
         if (mainWindow && result.project) {
           startFileWatch(result.project.path, mainWindow)
+          schedulerService.start(result.project.path, scheduleRequest => {
+            if (!mainWindow) throw new Error('Main window not available')
+            return handleCliExecute(scheduleRequest, mainWindow)
+          }).catch((error: Error) => {
+            console.error('[IPC Registry] Failed to start scheduler:', error.message)
+          })
         }
         return result
       },
@@ -154,6 +356,24 @@ export function registerIpcHandlers(ipcMain: IpcMain): void {
     )
   )
 
+  ipcMain.handle(
+    IPC_CHANNELS.HISTORY,
+    applyMiddlewares(
+      async (_event, request) => handleApprovalHistory(request as Parameters<typeof handleApprovalHistory>[0]),
+      middlewares,
+      IPC_CHANNELS.HISTORY
+    )
+  )
+
+  ipcMain.handle(
+    IPC_CHANNELS.CREATE_SIGNING_KEY,
+    applyMiddlewares(
+      async () => handleApprovalCreateSigningKey(),
+      middlewares,
+      IPC_CHANNELS.CREATE_SIGNING_KEY
+    )
+  )
+
   // Shell 处理器
   ipcMain.handle(
     IPC_CHANNELS.OPEN_TERMINAL,
@@ -204,6 +424,44 @@ export function registerIpcHandlers(ipcMain: IpcMain): void {
     )
   )
 
+  ipcMain.handle(
+    IPC_CHANNELS.COMMAND_QUEUE,
+    applyMiddlewares(
+      async (_event, request) => handleSessionQueueList(request as Parameters<typeof handleSessionQueueList>[0]),
+      middlewares,
+      IPC_CHANNELS.COMMAND_QUEUE
+    )
+  )
+
+  ipcMain.handle(
+    IPC_CHANNELS.CANCEL_COMMAND,
+    applyMiddlewares(
+      async (_event, request) => handleSessionCancelCommand(request as Parameters<typeof handleSessionCancelCommand>[0]),
+      middlewares,
+      IPC_CHANNELS.CANCEL_COMMAND
+    )
+  )
+
+  ipcMain.handle(
+    IPC_CHANNELS.ASSIGN_FEATURES,
+    applyMiddlewares(
+      async (_event, request) => handleSessionAssignFeatures(request as Parameters<typeof handleSessionAssignFeatures>[0]),
+      middlewares,
+      IPC_CHANNELS.ASSIGN_FEATURES
+    )
+  )
+
+  // Session 命令队列变更推送到渲染进程
+  sessionCommandQueueService.on('change', event => {
+    mainWindow?.webContents.send(SESSION_CHANNELS.COMMAND_QUEUE_CHANGE, event)
+  })
+
+  // 通过 socket 连接的 Session 事件（输出、结果、上下线）
+  registerSessionSocketEvents(() => mainWindow)
+
+  // Session 生命周期变化（stale / disconnected / 归档）
+  registerSessionLifecycleEvents(() => mainWindow)
+
   ipcMain.handle(
     IPC_CHANNELS.START_WATCH,
     applyMiddlewares(
@@ -250,6 +508,108 @@ export function registerIpcHandlers(ipcMain: IpcMain): void {
     )
   )
 
+  // 用量统计处理器
+  ipcMain.handle(
+    IPC_CHANNELS.GET_FEATURE,
+    applyMiddlewares(
+      async (_event, request) => handleUsageGetFeature(request as Parameters<typeof handleUsageGetFeature>[0]),
+      middlewares,
+      IPC_CHANNELS.GET_FEATURE
+    )
+  )
+
+  ipcMain.handle(
+    IPC_CHANNELS.GET_PRICING,
+    applyMiddlewares(
+      async () => handleUsageGetPricing(),
+      middlewares,
+      IPC_CHANNELS.GET_PRICING
+    )
+  )
+
+  ipcMain.handle(
+    IPC_CHANNELS.SET_PRICING,
+    applyMiddlewares(
+      async (_event, request) => handleUsageSetPricing(request as Parameters<typeof handleUsageSetPricing>[0]),
+      middlewares,
+      IPC_CHANNELS.SET_PRICING
+    )
+  )
+
+  // 定时计划处理器
+  ipcMain.handle(
+    IPC_CHANNELS.SCHEDULE_LIST,
+    applyMiddlewares(
+      async () => handleSchedulerList(),
+      middlewares,
+      IPC_CHANNELS.SCHEDULE_LIST
+    )
+  )
+
+  ipcMain.handle(
+    IPC_CHANNELS.SCHEDULE_SAVE,
+    applyMiddlewares(
+      async (_event, request) => handleSchedulerSave(request as Parameters<typeof handleSchedulerSave>[0]),
+      middlewares,
+      IPC_CHANNELS.SCHEDULE_SAVE
+    )
+  )
+
+  // Git 处理器
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_STATUS,
+    applyMiddlewares(
+      async () => handleGitStatus(),
+      middlewares,
+      IPC_CHANNELS.GIT_STATUS
+    )
+  )
+
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_FEATURE_BRANCH,
+    applyMiddlewares(
+      async (_event, request) => handleGitFeatureBranch(request as Parameters<typeof handleGitFeatureBranch>[0]),
+      middlewares,
+      IPC_CHANNELS.GIT_FEATURE_BRANCH
+    )
+  )
+
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_SETTINGS,
+    applyMiddlewares(
+      async () => handleGitSettings(),
+      middlewares,
+      IPC_CHANNELS.GIT_SETTINGS
+    )
+  )
+
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_SETTINGS_SAVE,
+    applyMiddlewares(
+      async (_event, request) => handleGitSettingsSave(request as Parameters<typeof handleGitSettingsSave>[0]),
+      middlewares,
+      IPC_CHANNELS.GIT_SETTINGS_SAVE
+    )
+  )
+
+  // Gate 处理器
+  ipcMain.handle(
+    IPC_CHANNELS.GATE_CHECK,
+    applyMiddlewares(
+      async (_event, request) => handleGateCheck(request as Parameters<typeof handleGateCheck>[0]),
+      middlewares,
+      IPC_CHANNELS.GATE_CHECK
+    )
+  )
+
+  // 计划触发与错过的触发推送到渲染进程
+  schedulerService.on('triggered', (event) => {
+    mainWindow?.webContents.send(SCHEDULER_CHANNELS.SCHEDULE_TRIGGERED, event)
+  })
+  schedulerService.on('missed', (event) => {
+    mainWindow?.webContents.send(SCHEDULER_CHANNELS.SCHEDULE_MISSED, event)
+  })
+
   console.log('[IPC Registry] All handlers registered')
 }
 
@@ -260,5 +620,6 @@ export function cleanupIpcResources(): void {
   cleanupAllProcesses()
   stopAllFileWatches()
   stopAllSessionWatches()
+  schedulerService.stop()
   console.log('[IPC Registry] Resources cleaned up')
 }
@@ -0,0 +1,236 @@
+/**
+ * Approval Log Service 单元测试
+ * 对应 60_TEST_PLAN.md AL-001 ~ AL-007
+ *
+ * 在临时目录中写入审批日志，签名密钥写入临时 HOME
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync, statSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+const home = vi.hoisted(() => ({ path: '' }))
+
+// Mock os：签名密钥写入临时目录
+vi.mock('os', async (importOriginal) => ({
+  ...await importOriginal<typeof import('os')>(),
+  homedir: () => home.path
+}))
+
+describe('ApprovalLogService', () => {
+  let service: any
+  let verifyChain: any
+  let GENESIS_HASH: string
+  let projectPath: string
+
+  const logPath = () => join(projectPath, '.claude', 'state', 'approval_log.jsonl')
+  const readLines = () => readFileSync(logPath(), 'utf-8').trim().split('\n')
+  const writeLines = (lines: string[]) => writeFileSync(logPath(), lines.join('\n') + '\n')
+
+  const createEntry = (stepId: string, overrides: Record<string, unknown> = {}) => ({
+    step_id: stepId,
+    feature_id: 'F001',
+    approved_by: 'pm@example.com',
+    approved_at: '2030-01-01T00:00:00.000Z',
+    source: 'gui',
+    action: 'approve',
+    client_info: { app_version: '1.0.0', hostname: 'test-host' },
+    ...overrides
+  })
+
+  beforeEach(async () => {
+    vi.resetModules()
+    const module = await import('../approval-log.service')
+    service = module.approvalLogService
+    verifyChain = module.verifyChain
+    GENESIS_HASH = module.GENESIS_HASH
+
+    projectPath = mkdtempSync(join(tmpdir(), 'ha-loop-approval-log-'))
+    home.path = join(projectPath, 'home')
+  })
+
+  afterEach(() => {
+    rmSync(projectPath, { recursive: true, force: true })
+  })
+
+  describe('AL-001: 哈希链写入', () => {
+    it('should chain each entry to the previous one', async () => {
+      const first = await service.append(projectPath, createEntry('KICK-001'))
+      const second = await service.append(projectPath, createEntry('SPEC-001'))
+
+      expect(first.prev_hash).toBe(GENESIS_HASH)
+      expect(second.prev_hash).toBe(first.hash)
+      expect(first.signature).toBeUndefined()
+      expect(readLines().map(line => JSON.parse(line).hash)).toEqual([first.hash, second.hash])
+    })
+
+    it('should keep the order of concurrent appends', async () => {
+      await Promise.all(['KICK-001', 'SPEC-001', 'DEMO-001'].map(stepId => service.append(projectPath, createEntry(stepId))))
+
+      const result = await service.verify(projectPath)
+
+      expect(result).toMatchObject({ valid: true, total: 3 })
+    })
+
+    it('should start the chain after legacy entries', async () => {
+      mkdirSync(join(projectPath, '.claude', 'state'), { recursive: true })
+      writeLines([JSON.stringify(createEntry('KICK-001'))])
+
+      const entry = await service.append(projectPath, createEntry('SPEC-001'))
+      const result = await service.verify(projectPath)
+
+      expect(entry.prev_hash).toBe(GENESIS_HASH)
+      expect(result.valid).toBe(true)
+      expect(result.entries.map((r: any) => r.status)).toEqual(['unverified', 'verified'])
+    })
+  })
+
+  describe('AL-002: 签名', () => {
+    it('should sign entries with the local key', async () => {
+      const { keyId, created } = await service.createSigningKey()
+
+      expect(created).toBe(true)
+      expect(await service.createSigningKey()).toEqual({ keyId, created: false })
+      expect(statSync(service.getKeyPath()).mode & 0o777).toBe(0o600)
+
+      const entry = await service.append(projectPath, createEntry('KICK-001'))
+      const publicKey = await service.getSigningPublicKey()
+      const result = await service.verify(projectPath, { 'pm@example.com': [publicKey] })
+
+      expect(entry.signature).toBeDefined()
+      expect(entry.public_key).toBe(publicKey)
+      expect(result.entries[0]).toMatchObject({ status: 'verified', signed: true })
+    })
+
+    it('should detect a forged signature', async () => {
+      await service.createSigningKey()
+      await service.append(projectPath, createEntry('KICK-001'))
+      const entry = JSON.parse(readLines()[0])
+      entry.signature = Buffer.alloc(64).toString('base64')
+      writeLines([JSON.stringify(entry)])
+
+      expect(await service.verify(projectPath)).toMatchObject({ valid: false, brokenAt: 1, reason: '签名无效' })
+    })
+  })
+
+  describe('AL-003: 检测篡改', () => {
+    beforeEach(async () => {
+      for (const stepId of ['KICK-001', 'SPEC-001', 'DEMO-001']) {
+        await service.append(projectPath, createEntry(stepId))
+      }
+    })
+
+    it('should report the first modified entry', async () => {
+      const lines = readLines()
+      lines[1] = lines[1].replace('"approve"', '"reject"')
+      writeLines(lines)
+
+      const result = await service.verify(projectPath)
+
+      expect(result).toMatchObject({ valid: false, brokenAt: 2, reason: '内容与 hash 不一致，条目已被修改' })
+      expect(result.entries.map((r: any) => r.status)).toEqual(['verified', 'broken', 'unverified'])
+    })
+
+    it('should detect removed and inserted entries', async () => {
+      const lines = readLines()
+      writeLines([lines[0], lines[2]])
+      expect(await service.verify(projectPath)).toMatchObject({ valid: false, brokenAt: 2 })
+
+      writeLines([lines[0], JSON.stringify(createEntry('CODE-001')), lines[1], lines[2]])
+      expect(await service.verify(projectPath)).toMatchObject({ valid: false, brokenAt: 2, reason: '缺少 hash，可能是插入的条目' })
+    })
+
+    it('should detect lines that are not JSON', async () => {
+      writeLines([...readLines(), 'not json'])
+
+      expect(await service.verify(projectPath)).toMatchObject({ valid: false, brokenAt: 4, reason: '不是有效的 JSON' })
+    })
+  })
+
+  describe('AL-004: 空日志', () => {
+    it('should be valid without a log file', async () => {
+      expect(await service.verify(projectPath)).toEqual({ valid: true, total: 0, entries: [] })
+      expect(verifyChain('\n')).toMatchObject({ valid: true, total: 0 })
+    })
+  })
+
+  describe('AL-005: 只信任登记的公钥', () => {
+    it('should not trust a chain re-signed with a fresh key', async () => {
+      await service.createSigningKey()
+      const trustedKeys = { 'pm@example.com': [await service.getSigningPublicKey()] }
+      for (const stepId of ['KICK-001', 'SPEC-001']) {
+        await service.append(projectPath, createEntry(stepId))
+      }
+
+      // 改动第 2 条后重算 hash，用新密钥重新签名
+      const { getKeyId, computeEntryHash } = await import('../approval-log.service')
+      const { generateKeyPairSync, sign, createPublicKey } = await import('crypto')
+      const { privateKey } = generateKeyPairSync('ed25519')
+      const lines = readLines()
+      const forged = { ...JSON.parse(lines[1]), action: 'reject' }
+      forged.public_key = createPublicKey(privateKey).export({ format: 'der', type: 'spki' }).toString('base64')
+      forged.hash = computeEntryHash(forged)
+      forged.signature = sign(null, Buffer.from(forged.hash), privateKey).toString('base64')
+      writeLines([lines[0], JSON.stringify(forged)])
+      await service.append(projectPath, createEntry('DEMO-001'))
+
+      const result = await service.verify(projectPath, trustedKeys)
+
+      expect(result.valid).toBe(true)
+      expect(result.entries.map((r: any) => r.status)).toEqual(['verified', 'unverified', 'verified'])
+      expect(result.entries[1].reason).toContain(getKeyId(forged.public_key))
+    })
+
+    it('should not trust unsigned entries once signing started or a key is pinned', async () => {
+      await service.append(projectPath, createEntry('KICK-001'))
+      await service.createSigningKey()
+      await service.append(projectPath, createEntry('SPEC-001'))
+      const trustedKeys = { 'pm@example.com': [await service.getSigningPublicKey()] }
+      rmSync(service.getKeyPath())
+      await service.append(projectPath, createEntry('DEMO-001', { approved_by: 'dev@example.com' }))
+
+      const result = await service.verify(projectPath, trustedKeys)
+
+      expect(result.entries.map((r: any) => r.status)).toEqual(['unverified', 'verified', 'unverified'])
+      expect(result.entries[0].reason).toContain('已登记签名公钥')
+      expect(result.entries[2].reason).toBe('启用签名之后出现未签名的条目')
+    })
+  })
+
+  describe('AL-006: 检测末尾条目被删除', () => {
+    it('should report entries removed from the end', async () => {
+      for (const stepId of ['KICK-001', 'SPEC-001', 'DEMO-001']) {
+        await service.append(projectPath, createEntry(stepId))
+      }
+      writeLines(readLines().slice(0, 2))
+
+      expect(await service.verify(projectPath)).toMatchObject({
+        valid: false,
+        brokenAt: 3,
+        reason: '缺少本机写入的第 3 条日志，末尾的条目可能被删除'
+      })
+
+      rmSync(logPath())
+      expect(await service.verify(projectPath)).toMatchObject({ valid: false, brokenAt: 1 })
+    })
+  })
+
+  describe('AL-007: 拒绝在损坏的日志后追加', () => {
+    it('should refuse to append after a malformed last line', async () => {
+      await service.append(projectPath, createEntry('KICK-001'))
+      writeLines([...readLines(), '{"step_id": "SPEC'])
+
+      await expect(service.checkAppendable(projectPath)).rejects.toThrow(/not valid JSON/)
+      await expect(service.append(projectPath, createEntry('SPEC-001'))).rejects.toThrow(/refusing to append/)
+      expect(readLines()).toHaveLength(2)
+    })
+
+    it('should refuse to append after an unchained entry', async () => {
+      await service.append(projectPath, createEntry('KICK-001'))
+      writeLines([...readLines(), JSON.stringify(createEntry('SPEC-001'))])
+
+      await expect(service.append(projectPath, createEntry('DEMO-001'))).rejects.toThrow(/no hash/)
+    })
+  })
+})
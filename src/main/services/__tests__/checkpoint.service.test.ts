@@ -0,0 +1,287 @@
+/**
+ * Checkpoint Service 单元测试
+ * 对应 60_TEST_PLAN.md CP-001 ~ CP-007
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+// 内存文件系统
+const files = new Map<string, string | Buffer>()
+
+/** 列出目录下的直接子项 */
+function listEntries(dir: string): Array<{ name: string; directory: boolean }> {
+  const prefix = `${dir}/`
+  const entries = new Map<string, boolean>()
+  for (const path of files.keys()) {
+    if (!path.startsWith(prefix)) continue
+    const [name, ...rest] = path.slice(prefix.length).split('/')
+    entries.set(name, rest.length > 0)
+  }
+  return [...entries].map(([name, directory]) => ({ name, directory }))
+}
+
+const notFound = () => Object.assign(new Error('ENOENT'), { code: 'ENOENT' })
+
+/** 读取文件内容 */
+function readEntry(path: string, encoding?: string): string | Buffer {
+  if (!files.has(path)) throw notFound()
+  const data = files.get(path)!
+  const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data, 'utf-8')
+  return encoding ? buffer.toString('utf-8') : buffer
+}
+
+/** 读取目录 */
+function readEntries(dir: string, options?: { withFileTypes?: boolean }) {
+  const entries = listEntries(dir)
+  if (entries.length === 0) throw notFound()
+  return options?.withFileTypes
+    ? entries.map(({ name, directory }) => ({
+        name,
+        isDirectory: () => directory,
+        isFile: () => !directory
+      }))
+    : entries.map(({ name }) => name)
+}
+
+// Mock fs：检查点快照同步读取
+vi.mock('fs', () => ({
+  readFileSync: vi.fn(readEntry),
+  readdirSync: vi.fn(readEntries)
+}))
+
+// Mock fs/promises
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn(async (path: string, encoding?: string) => readEntry(path, encoding)),
+  writeFile: vi.fn(async (path: string, data: string) => {
+    files.set(path, data)
+  }),
+  mkdir: vi.fn(async () => undefined),
+  access: vi.fn(async (path: string) => {
+    if (!files.has(path)) throw notFound()
+  }),
+  unlink: vi.fn(async (path: string) => {
+    if (!files.delete(path)) throw notFound()
+  }),
+  readdir: vi.fn(async (dir: string, options?: { withFileTypes?: boolean }) => readEntries(dir, options))
+}))
+
+const PROJECT_PATH = '/test/project'
+const DOCS = '/test/project/docs/F001'
+const EXECUTION_ID = '11111111-1111-4111-8111-111111111111'
+
+describe('CheckpointService', () => {
+  let CheckpointService: any
+  let checkpointService: any
+  let fileChangeCaptureService: any
+
+  /** 模拟打开项目时的基线扫描 */
+  const indexProject = async () => {
+    for (const path of [...files.keys()]) {
+      await fileChangeCaptureService.indexFile(PROJECT_PATH, path)
+    }
+  }
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    vi.resetModules()
+    files.clear()
+
+    fileChangeCaptureService = (await import('../file-change-capture.service')).fileChangeCaptureService
+    const module = await import('../checkpoint.service')
+    CheckpointService = module.CheckpointService
+
+    ;(CheckpointService as any).instance = null
+    checkpointService = CheckpointService.getInstance()
+
+    files.set(`${DOCS}/90_PROGRESS_LOG.yaml`, 'status: wip\ntasks: 3\n')
+    files.set(`${DOCS}/design/40_DESIGN.md`, '# Design\n')
+    files.set(`${DOCS}/91_USAGE_LOG.yaml`, 'executions: 1\n')
+    files.set(`${PROJECT_PATH}/docs/F002/90_PROGRESS_LOG.yaml`, 'status: done\n')
+    await indexProject()
+  })
+
+  describe('CP-001: 创建检查点', () => {
+    it('should snapshot the feature docs directory', async () => {
+      const checkpoint = await checkpointService.create(PROJECT_PATH, EXECUTION_ID, {
+        featureId: 'F001',
+        stepId: 'write-design',
+        command: '/write-design'
+      })
+
+      expect(checkpoint.root).toBe('docs/F001')
+      expect(checkpoint.files.map((file: any) => file.path)).toEqual([
+        'docs/F001/90_PROGRESS_LOG.yaml',
+        'docs/F001/design/40_DESIGN.md'
+      ])
+      expect(checkpoint.files.every((file: any) => file.restorable)).toBe(true)
+      expect(files.has(`${PROJECT_PATH}/.claude/state/checkpoints/${EXECUTION_ID}.json`)).toBe(true)
+    })
+
+    it('should take the snapshot synchronously at call time', async () => {
+      const pending = checkpointService.create(PROJECT_PATH, EXECUTION_ID, { featureId: 'F001', command: '/x' })
+
+      // 执行开始后立即写入的内容不进入检查点
+      files.set(`${DOCS}/90_PROGRESS_LOG.yaml`, 'broken')
+      await fileChangeCaptureService.recordChange(PROJECT_PATH, `${DOCS}/90_PROGRESS_LOG.yaml`, 'update')
+      await pending
+
+      const preview = await checkpointService.preview(PROJECT_PATH, EXECUTION_ID)
+      expect(preview.changes).toHaveLength(1)
+      expect(preview.changes[0].type).toBe('update')
+    })
+
+    it('should reject feature ids that escape the docs directory', async () => {
+      expect(await checkpointService.create(PROJECT_PATH, EXECUTION_ID, { featureId: '..', command: '/x' })).toBeNull()
+      expect(await checkpointService.create(PROJECT_PATH, EXECUTION_ID, { featureId: '../x', command: '/x' })).toBeNull()
+    })
+  })
+
+  describe('CP-002: 回滚预览', () => {
+    it('should diff current files against the checkpoint', async () => {
+      await checkpointService.create(PROJECT_PATH, EXECUTION_ID, { featureId: 'F001', command: '/x' })
+
+      files.set(`${DOCS}/90_PROGRESS_LOG.yaml`, 'status: ???\ntasks: 3\n')
+      files.delete(`${DOCS}/design/40_DESIGN.md`)
+      files.set(`${DOCS}/scratch.md`, 'tmp\n')
+      files.set(`${DOCS}/91_USAGE_LOG.yaml`, 'executions: 2\n')
+
+      const preview = await checkpointService.preview(PROJECT_PATH, EXECUTION_ID)
+
+      expect(preview.changes.map((change: any) => [change.path, change.type])).toEqual([
+        ['docs/F001/90_PROGRESS_LOG.yaml', 'update'],
+        ['docs/F001/design/40_DESIGN.md', 'create'],
+        ['docs/F001/scratch.md', 'delete']
+      ])
+      expect(preview.changes[0].lines).toContainEqual({ type: 'remove', text: 'status: ???', oldLine: 1 })
+      expect(preview.changes[0].lines).toContainEqual({ type: 'add', text: 'status: wip', newLine: 1 })
+    })
+
+    it('should return null for executions without a checkpoint', async () => {
+      expect(await checkpointService.preview(PROJECT_PATH, EXECUTION_ID)).toBeNull()
+    })
+  })
+
+  describe('CP-003: 回滚', () => {
+    it('should restore saved files and remove files added since', async () => {
+      await checkpointService.create(PROJECT_PATH, EXECUTION_ID, { featureId: 'F001', command: '/x' })
+
+      files.set(`${DOCS}/90_PROGRESS_LOG.yaml`, 'garbage')
+      files.delete(`${DOCS}/design/40_DESIGN.md`)
+      files.set(`${DOCS}/scratch.md`, 'tmp\n')
+      files.set(`${DOCS}/91_USAGE_LOG.yaml`, 'executions: 2\n')
+
+      const result = await checkpointService.restore(PROJECT_PATH, EXECUTION_ID)
+
+      expect(result).toEqual({
+        restored: ['docs/F001/90_PROGRESS_LOG.yaml', 'docs/F001/design/40_DESIGN.md'],
+        removed: ['docs/F001/scratch.md'],
+        skipped: []
+      })
+      expect(files.get(`${DOCS}/90_PROGRESS_LOG.yaml`)).toBe('status: wip\ntasks: 3\n')
+      expect(files.get(`${DOCS}/design/40_DESIGN.md`)).toBe('# Design\n')
+      expect(files.has(`${DOCS}/scratch.md`)).toBe(false)
+      // 用量记录不回滚
+      expect(files.get(`${DOCS}/91_USAGE_LOG.yaml`)).toBe('executions: 2\n')
+    })
+
+    it('should not touch other features', async () => {
+      await checkpointService.create(PROJECT_PATH, EXECUTION_ID, { featureId: 'F001', command: '/x' })
+      files.set(`${PROJECT_PATH}/docs/F002/90_PROGRESS_LOG.yaml`, 'status: changed\n')
+
+      await checkpointService.restore(PROJECT_PATH, EXECUTION_ID)
+
+      expect(files.get(`${PROJECT_PATH}/docs/F002/90_PROGRESS_LOG.yaml`)).toBe('status: changed\n')
+    })
+  })
+
+  describe('CP-004: 不可恢复的文件', () => {
+    it('should skip files saved only by hash', async () => {
+      files.set(`${DOCS}/diagram.png`, Buffer.from([0x89, 0x00, 0x01]))
+      await fileChangeCaptureService.indexFile(PROJECT_PATH, `${DOCS}/diagram.png`)
+      await checkpointService.create(PROJECT_PATH, EXECUTION_ID, { featureId: 'F001', command: '/x' })
+
+      files.set(`${DOCS}/diagram.png`, Buffer.from([0x89, 0x00, 0x02]))
+      const result = await checkpointService.restore(PROJECT_PATH, EXECUTION_ID)
+
+      expect(result.skipped).toEqual(['docs/F001/diagram.png'])
+    })
+  })
+
+  describe('CP-005: 保留数量', () => {
+    it('should keep only the most recent checkpoints', async () => {
+      vi.useFakeTimers()
+      const { MAX_CHECKPOINTS } = await import('../checkpoint.service')
+
+      for (let i = 0; i <= MAX_CHECKPOINTS; i++) {
+        vi.setSystemTime(new Date(2026, 9, 19, 9, i))
+        await checkpointService.create(PROJECT_PATH, `exec-${i}`, { featureId: 'F001', command: '/x' })
+      }
+      vi.useRealTimers()
+
+      const manifests = [...files.keys()].filter(path => path.includes('/.claude/state/checkpoints/'))
+      expect(manifests).toHaveLength(MAX_CHECKPOINTS)
+      expect(files.has(`${PROJECT_PATH}/.claude/state/checkpoints/exec-0.json`)).toBe(false)
+    })
+  })
+
+  describe('CP-006: 文件监控基线未就绪', () => {
+    it('should snapshot files that are not indexed yet', async () => {
+      // 打开项目后基线尚未建立（监控 ready 之前 / 写入稳定之前）
+      files.set(`${DOCS}/notes.md`, '# Notes\n')
+      files.set(`${DOCS}/90_PROGRESS_LOG.yaml`, 'status: done\ntasks: 3\n')
+
+      const checkpoint = await checkpointService.create(PROJECT_PATH, EXECUTION_ID, { featureId: 'F001', command: '/x' })
+
+      expect(checkpoint.files.map((file: any) => file.path)).toContain('docs/F001/notes.md')
+
+      const result = await checkpointService.restore(PROJECT_PATH, EXECUTION_ID)
+
+      expect(result).toEqual({ restored: [], removed: [], skipped: [] })
+      expect(files.get(`${DOCS}/notes.md`)).toBe('# Notes\n')
+      expect(files.get(`${DOCS}/90_PROGRESS_LOG.yaml`)).toBe('status: done\ntasks: 3\n')
+    })
+  })
+
+  describe('CP-007: 被改动的清单', () => {
+    const manifestPath = `${PROJECT_PATH}/.claude/state/checkpoints/${EXECUTION_ID}.json`
+
+    /** 改写检查点清单 */
+    const tamper = (update: (checkpoint: any) => void) => {
+      const checkpoint = JSON.parse(files.get(manifestPath) as string)
+      update(checkpoint)
+      files.set(manifestPath, JSON.stringify(checkpoint))
+    }
+
+    let warn: ReturnType<typeof vi.spyOn>
+
+    beforeEach(async () => {
+      warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+      files.set(`${PROJECT_PATH}/.bashrc`, 'export PATH\n')
+      files.set(`${PROJECT_PATH}/src/index.ts`, 'main()\n')
+      await checkpointService.create(PROJECT_PATH, EXECUTION_ID, { featureId: 'F001', command: '/x' })
+    })
+
+    afterEach(() => {
+      warn.mockRestore()
+    })
+
+    it('should ignore manifests with paths outside the feature directory', async () => {
+      tamper(checkpoint => {
+        checkpoint.files[0].path = 'docs/F001/../../.bashrc'
+      })
+
+      expect(await checkpointService.preview(PROJECT_PATH, EXECUTION_ID)).toBeNull()
+      expect(await checkpointService.restore(PROJECT_PATH, EXECUTION_ID)).toBeNull()
+      expect(files.get(`${PROJECT_PATH}/.bashrc`)).toBe('export PATH\n')
+    })
+
+    it('should ignore manifests whose root is not the feature directory', async () => {
+      tamper(checkpoint => {
+        checkpoint.root = 'src'
+      })
+
+      expect(await checkpointService.restore(PROJECT_PATH, EXECUTION_ID)).toBeNull()
+      expect(files.get(`${PROJECT_PATH}/src/index.ts`)).toBe('main()\n')
+    })
+  })
+})
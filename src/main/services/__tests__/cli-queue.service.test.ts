@@ -1,6 +1,6 @@
 /**
  * CLI Queue Service 单元测试
- * 对应 60_TEST_PLAN.md CQ-001 ~ CQ-007
+ * 对应 60_TEST_PLAN.md CQ-001 ~ CQ-019
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
@@ -314,4 +314,593 @@ describe('CliQueueService', () => {
       vi.useRealTimers()
     })
   })
+
+  describe('CQ-008: submit 立即返回位置', () => {
+    it('should return position 0 for immediate start and >0 for queued', () => {
+      const mockWindow = createMockWindow()
+      spawn.mockReturnValue(createMockProcess())
+
+      const first = cliQueueService.submit({ command: 'cmd1', projectPath: '/test' }, mockWindow as any)
+      const second = cliQueueService.submit({ command: 'cmd2', projectPath: '/test' }, mockWindow as any)
+
+      expect(first.position).toBe(0)
+      expect(second.position).toBe(1)
+      expect(cliQueueService.has(second.executionId)).toBe(true)
+    })
+  })
+
+  describe('CQ-009: reorder / clearQueue', () => {
+    it('should move queued command to target index', () => {
+      const mockWindow = createMockWindow()
+      spawn.mockReturnValue(createMockProcess())
+
+      cliQueueService.submit({ command: 'cmd1', projectPath: '/test' }, mockWindow as any)
+      cliQueueService.submit({ command: 'cmd2', projectPath: '/test' }, mockWindow as any)
+      const third = cliQueueService.submit({ command: 'cmd3', projectPath: '/test' }, mockWindow as any)
+
+      expect(cliQueueService.reorder(third.executionId, 0)).toBe(true)
+
+      const commands = cliQueueService.listItems().map((i: any) => i.command)
+      expect(commands).toEqual(['cmd1', 'cmd3', 'cmd2'])
+    })
+
+    it('should resolve cleared commands as cancelled', async () => {
+      const mockWindow = createMockWindow()
+      spawn.mockReturnValue(createMockProcess())
+
+      cliQueueService.submit({ command: 'cmd1', projectPath: '/test' }, mockWindow as any)
+      const second = cliQueueService.submit({ command: 'cmd2', projectPath: '/test' }, mockWindow as any)
+
+      expect(cliQueueService.clearQueue()).toBe(1)
+      await expect(second.completion).resolves.toMatchObject({ cancelled: true })
+      expect(cliQueueService.getQueueStatus().queueLength).toBe(0)
+    })
+  })
+
+  describe('CQ-010: buildSpawnArgs', () => {
+    it('should prefix slash commands with claude and --print', async () => {
+      const { buildSpawnArgs } = await import('../cli-queue.service')
+      expect(buildSpawnArgs({ command: '/help', projectPath: '/test', mode: 'print' }))
+        .toEqual({ file: 'claude', args: ['--print', '/help'], shell: false })
+    })
+
+    it('should split full claude command into argv without shell', async () => {
+      const { buildSpawnArgs } = await import('../cli-queue.service')
+      expect(buildSpawnArgs({ command: 'claude --skill review', projectPath: '/test', mode: 'print' }))
+        .toEqual({ file: 'claude', args: ['--print', '--skill', 'review'], shell: false })
+    })
+  })
+
+  describe('CQ-011: 按 Feature 划分 lane', () => {
+    it('should run different features in parallel and same feature serially', () => {
+      const mockWindow = createMockWindow()
+      spawn.mockImplementation(() => createMockProcess())
+
+      const a1 = cliQueueService.submit({ command: 'cmd-a1', projectPath: '/test', featureId: 'feat-a' }, mockWindow as any)
+      const b1 = cliQueueService.submit({ command: 'cmd-b1', projectPath: '/test', featureId: 'feat-b' }, mockWindow as any)
+      const a2 = cliQueueService.submit({ command: 'cmd-a2', projectPath: '/test', featureId: 'feat-a' }, mockWindow as any)
+
+      expect(a1.position).toBe(0)
+      expect(b1.position).toBe(0)
+      expect(a2).toMatchObject({ lane: 'feat-a', position: 1, lanePosition: 1 })
+      expect(spawn).toHaveBeenCalledTimes(2)
+      expect(cliQueueService.getQueueStatus().runningExecutions).toHaveLength(2)
+    })
+
+    it('should respect global maxConcurrency', () => {
+      const mockWindow = createMockWindow()
+      const processes: any[] = []
+      spawn.mockImplementation(() => {
+        const proc = createMockProcess()
+        processes.push(proc)
+        return proc
+      })
+
+      cliQueueService.configure({ maxConcurrency: 1 })
+      cliQueueService.submit({ command: 'cmd-a', projectPath: '/test', featureId: 'feat-a' }, mockWindow as any)
+      const b = cliQueueService.submit({ command: 'cmd-b', projectPath: '/test', featureId: 'feat-b' }, mockWindow as any)
+
+      expect(b.position).toBe(1)
+      expect(spawn).toHaveBeenCalledTimes(1)
+
+      // 提高上限后立即调度
+      cliQueueService.configure({ maxConcurrency: 2 })
+      expect(spawn).toHaveBeenCalledTimes(2)
+      expect(cliQueueService.listItems().map((item: any) => item.lane)).toEqual(['feat-a', 'feat-b'])
+    })
+
+    it('should report lane and position in queued output', () => {
+      const mockWindow = createMockWindow()
+      spawn.mockImplementation(() => createMockProcess())
+
+      cliQueueService.submit({ command: 'cmd1', projectPath: '/test', featureId: 'feat-a' }, mockWindow as any)
+      cliQueueService.submit({ command: 'cmd2', projectPath: '/test', featureId: 'feat-a' }, mockWindow as any)
+      cliQueueService.submit({ command: 'cmd3', projectPath: '/test', featureId: 'feat-a' }, mockWindow as any)
+
+      const contents = mockWindow.webContents.send.mock.calls.map((call: any[]) => call[1].content)
+      expect(contents).toContain('Command queued (lane: feat-a, position: 1)')
+      expect(contents).toContain('Command queued (lane: feat-a, position: 2)')
+      expect(cliQueueService.listItems().map((item: any) => item.lanePosition)).toEqual([0, 1, 2])
+    })
+  })
+
+  describe('CQ-012: finished 事件', () => {
+    it('should emit history entry with captured output', async () => {
+      const mockWindow = createMockWindow()
+      const mockProcess = createMockProcess()
+      spawn.mockReturnValue(mockProcess)
+
+      const finished = vi.fn()
+      cliQueueService.on('finished', finished)
+
+      const { executionId, completion } = cliQueueService.submit(
+        { command: 'cmd1', projectPath: '/test', featureId: 'feat-a', stepId: 'step-1', phaseId: 4 },
+        mockWindow as any
+      )
+      mockProcess.stdout.emit('data', Buffer.from('hello '))
+      mockProcess.stdout.emit('data', Buffer.from('world'))
+      mockProcess.stderr.emit('data', Buffer.from('warn'))
+      mockProcess.emit('close', 1)
+      await completion
+
+      expect(finished).toHaveBeenCalledWith(expect.objectContaining({
+        executionId,
+        command: 'cmd1',
+        projectPath: '/test',
+        featureId: 'feat-a',
+        stepId: 'step-1',
+        phaseId: 4,
+        status: 'failed',
+        exitCode: 1,
+        stdout: 'hello world',
+        stderr: 'warn'
+      }))
+    })
+
+    it('should mark cancelled executions', async () => {
+      const mockWindow = createMockWindow()
+      const mockProcess = createMockProcess()
+      spawn.mockReturnValue(mockProcess)
+
+      const finished = vi.fn()
+      cliQueueService.on('finished', finished)
+
+      const { executionId, completion } = cliQueueService.submit({ command: 'cmd1', projectPath: '/test' }, mockWindow as any)
+      cliQueueService.cancel(executionId)
+      mockProcess.emit('close', null)
+      await completion
+
+      expect(finished.mock.calls[0][0]).toMatchObject({ executionId, status: 'cancelled', exitCode: -1 })
+    })
+  })
+
+  describe('CQ-013: stream-json 模式', () => {
+    it('should add stream-json flags only for claude commands', async () => {
+      const { buildSpawnArgs } = await import('../cli-queue.service')
+      expect(buildSpawnArgs({ command: '/review', projectPath: '/test', mode: 'print', outputFormat: 'stream-json' }))
+        .toEqual({ file: 'claude', args: ['--print', '--output-format', 'stream-json', '--verbose', '/review'], shell: false })
+      expect(buildSpawnArgs({ command: 'claude "hi"', projectPath: '/test', mode: 'print', outputFormat: 'stream-json' }))
+        .toEqual({ file: 'claude', args: ['--print', '--output-format', 'stream-json', '--verbose', 'hi'], shell: false })
+      expect(buildSpawnArgs({ command: 'npm test', projectPath: '/test', mode: 'print', outputFormat: 'stream-json' }))
+        .toEqual({ file: 'npm', args: ['test'], shell: false })
+    })
+
+    it('should send parsed events on cli:event and assistant text on cli:output', () => {
+      const mockWindow = createMockWindow()
+      const mockProcess = createMockProcess()
+      spawn.mockReturnValue(mockProcess)
+
+      const { executionId } = cliQueueService.submit(
+        { command: '/review', projectPath: '/test', mode: 'print', outputFormat: 'stream-json' },
+        mockWindow as any
+      )
+      mockProcess.stdout.emit('data', Buffer.from(
+        JSON.stringify({ type: 'assistant', message: { content: [{ type: 'text', text: 'Looks good' }] } }) + '\n'
+      ))
+
+      const calls = mockWindow.webContents.send.mock.calls
+      expect(calls).toContainEqual(['cli:event', expect.objectContaining({
+        executionId,
+        event: { kind: 'assistant_text', text: 'Looks good' }
+      })])
+      expect(calls).toContainEqual(['cli:output', expect.objectContaining({
+        executionId,
+        type: 'stdout',
+        content: 'Looks good\n'
+      })])
+    })
+  })
+
+  describe('CQ-014: stream-json 用量', () => {
+    it('should attach model and usage from stream-json to finished entry', async () => {
+      const mockWindow = createMockWindow()
+      const mockProcess = createMockProcess()
+      spawn.mockReturnValue(mockProcess)
+
+      const finished = vi.fn()
+      cliQueueService.on('finished', finished)
+
+      const { completion } = cliQueueService.submit(
+        { command: '/review', projectPath: '/test', mode: 'print', outputFormat: 'stream-json' },
+        mockWindow as any
+      )
+      mockProcess.stdout.emit('data', Buffer.from([
+        JSON.stringify({ type: 'system', subtype: 'init', model: 'claude-sonnet-4-5' }),
+        JSON.stringify({
+          type: 'result',
+          subtype: 'success',
+          is_error: false,
+          total_cost_usd: 0.02,
+          usage: { input_tokens: 10, output_tokens: 20 }
+        })
+      ].join('\n')))
+      mockProcess.emit('close', 0)
+      await completion
+
+      expect(finished.mock.calls[0][0]).toMatchObject({
+        model: 'claude-sonnet-4-5',
+        reportedCostUsd: 0.02,
+        usage: { inputTokens: 10, outputTokens: 20, cacheCreationInputTokens: 0, cacheReadInputTokens: 0 }
+      })
+    })
+  })
+
+  describe('CQ-015: 结构化参数（不经 shell）', () => {
+    it('should keep quotes and $() literal when splitting command line', async () => {
+      const { splitCommandLine } = await import('../cli-queue.service')
+      expect(splitCommandLine(`claude --print "任务: \\"A\\" $(rm -rf /)" 'x y' a\\ b`))
+        .toEqual(['claude', '--print', '任务: "A" $(rm -rf /)', 'x y', 'a b'])
+      expect(() => splitCommandLine('claude "unterminated')).toThrow(/Unterminated/)
+    })
+
+    it('should pass argv through without shell and with cwd / env', () => {
+      const mockWindow = createMockWindow()
+      spawn.mockReturnValue(createMockProcess())
+
+      cliQueueService.submit(
+        {
+          command: 'claude --print "$(whoami)"',
+          projectPath: '/test',
+          mode: 'print',
+          argv: { executable: 'claude', args: ['--print', '$(whoami)'], cwd: 'docs', env: { FEATURE: 'f1' } }
+        },
+        mockWindow as any
+      )
+
+      expect(spawn).toHaveBeenCalledWith(
+        'claude',
+        ['--print', '$(whoami)'],
+        expect.objectContaining({
+          cwd: '/test/docs',
+          shell: false,
+          env: expect.objectContaining({ FEATURE: 'f1', FORCE_COLOR: '1' })
+        })
+      )
+    })
+
+    it('should drop environment variables outside the allowlist', () => {
+      const mockWindow = createMockWindow()
+      spawn.mockReturnValue(createMockProcess())
+
+      cliQueueService.submit(
+        {
+          command: 'claude --print x',
+          projectPath: '/test',
+          mode: 'print',
+          argv: {
+            executable: 'claude',
+            args: ['--print', 'x'],
+            env: { HA_LOOP_STEP: 's1', NODE_OPTIONS: '--require /tmp/x.js', LD_PRELOAD: '/tmp/x.so' }
+          }
+        },
+        mockWindow as any
+      )
+
+      const { env } = spawn.mock.calls[0][2]
+      expect(env.HA_LOOP_STEP).toBe('s1')
+      expect(env.NODE_OPTIONS).toBe(process.env.NODE_OPTIONS)
+      expect(env.LD_PRELOAD).toBe(process.env.LD_PRELOAD)
+    })
+
+    it('should use shell only when explicitly requested', async () => {
+      const { buildSpawnArgs } = await import('../cli-queue.service')
+      expect(buildSpawnArgs({ command: 'npm test | tee out.log', projectPath: '/test', shell: true }))
+        .toEqual({ file: 'npm test | tee out.log', args: [], shell: true })
+      expect(buildSpawnArgs({ command: 'npm test | tee out.log', projectPath: '/test' }))
+        .toEqual({ file: 'npm', args: ['test', '|', 'tee', 'out.log'], shell: false })
+    })
+
+    it('should record argv and shell flag in history entry', async () => {
+      const mockWindow = createMockWindow()
+      const mockProcess = createMockProcess()
+      spawn.mockReturnValue(mockProcess)
+
+      const finished = vi.fn()
+      cliQueueService.on('finished', finished)
+
+      const { completion } = cliQueueService.submit(
+        { command: 'make build', projectPath: '/test', shell: true },
+        mockWindow as any
+      )
+      mockProcess.emit('close', 0)
+      await completion
+
+      expect(finished.mock.calls[0][0]).toMatchObject({ command: 'make build', shell: true })
+    })
+  })
+
+  describe('CQ-016: 进程组终止与完成事件', () => {
+    it('should signal the whole process group and spawn detached', () => {
+      const mockWindow = createMockWindow()
+      const mockProcess = createMockProcess()
+      mockProcess.pid = 4321
+      spawn.mockReturnValue(mockProcess)
+      const killSpy = vi.spyOn(process, 'kill').mockImplementation(() => true)
+
+      const { executionId } = cliQueueService.submit({ command: 'npm run dev', projectPath: '/test' }, mockWindow as any)
+      cliQueueService.cancel(executionId)
+
+      expect(spawn).toHaveBeenCalledWith('npm', ['run', 'dev'], expect.objectContaining({ detached: true }))
+      expect(killSpy).toHaveBeenCalledWith(-4321, 'SIGTERM')
+      expect(mockProcess.kill).not.toHaveBeenCalled()
+
+      killSpy.mockRestore()
+    })
+
+    it('should fall back to killing the child when taskkill cannot be spawned', async () => {
+      const platform = Object.getOwnPropertyDescriptor(process, 'platform')!
+      Object.defineProperty(process, 'platform', { value: 'win32' })
+      vi.resetModules()
+      const { CliQueueService: WindowsQueueService } = await import('../cli-queue.service')
+      Object.defineProperty(process, 'platform', platform)
+      ;(WindowsQueueService as any).instance = null
+      const windowsQueueService = WindowsQueueService.getInstance()
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+
+      const mockWindow = createMockWindow()
+      const mockProcess = createMockProcess()
+      mockProcess.pid = 4321
+      const taskkill = createMockProcess()
+      spawn.mockReturnValueOnce(mockProcess).mockReturnValueOnce(taskkill)
+
+      const { executionId } = windowsQueueService.submit({ command: 'npm run dev', projectPath: '/test' }, mockWindow as any)
+      windowsQueueService.cancel(executionId)
+
+      expect(spawn).toHaveBeenLastCalledWith('taskkill', ['/pid', '4321', '/T'], { stdio: 'ignore' })
+      expect(() => taskkill.emit('error', new Error('spawn taskkill ENOENT'))).not.toThrow()
+      expect(mockProcess.kill).toHaveBeenCalledWith('SIGTERM')
+
+      warn.mockRestore()
+      mockProcess.emit('close', null, 'SIGTERM')
+    })
+
+    it('should escalate to SIGKILL after the configured grace period', async () => {
+      vi.useFakeTimers()
+
+      const mockWindow = createMockWindow()
+      const mockProcess = createMockProcess()
+      spawn.mockReturnValue(mockProcess)
+
+      const { executionId } = cliQueueService.submit(
+        { command: 'stubborn-cmd', projectPath: '/test', killGracePeriodMs: 500 },
+        mockWindow as any
+      )
+      cliQueueService.cancel(executionId)
+
+      await vi.advanceTimersByTimeAsync(400)
+      expect(mockProcess.kill).not.toHaveBeenCalledWith('SIGKILL')
+
+      await vi.advanceTimersByTimeAsync(200)
+      expect(mockProcess.kill).toHaveBeenCalledWith('SIGKILL')
+
+      mockProcess.emit('close', null, 'SIGKILL')
+      expect(mockWindow.webContents.send).toHaveBeenCalledWith('cli:complete', expect.objectContaining({
+        executionId,
+        exitCode: -1,
+        reason: 'cancelled',
+        signal: 'SIGKILL',
+        forced: true
+      }))
+
+      vi.useRealTimers()
+    })
+
+    it('should not escalate when the process exits within the grace period', async () => {
+      vi.useFakeTimers()
+
+      const mockWindow = createMockWindow()
+      const mockProcess = createMockProcess()
+      spawn.mockReturnValue(mockProcess)
+
+      const { executionId } = cliQueueService.submit({ command: 'cmd1', projectPath: '/test' }, mockWindow as any)
+      cliQueueService.cancel(executionId)
+      mockProcess.emit('close', null, 'SIGTERM')
+
+      await vi.advanceTimersByTimeAsync(5000)
+      expect(mockProcess.kill).toHaveBeenCalledTimes(1)
+      expect(mockWindow.webContents.send).toHaveBeenCalledWith('cli:complete', expect.objectContaining({
+        reason: 'cancelled',
+        forced: false
+      }))
+
+      vi.useRealTimers()
+    })
+
+    it('should report timeout and normal exit reasons', async () => {
+      vi.useFakeTimers()
+
+      const mockWindow = createMockWindow()
+      const timedOut = createMockProcess()
+      const exited = createMockProcess()
+      spawn.mockReturnValueOnce(timedOut).mockReturnValueOnce(exited)
+
+      const first = cliQueueService.submit({ command: 'hang', projectPath: '/test' }, mockWindow as any)
+      first.completion.catch(() => {})
+      await vi.advanceTimersByTimeAsync(10 * 60 * 1000 + 100)
+      timedOut.emit('close', null, 'SIGTERM')
+
+      expect(mockWindow.webContents.send).toHaveBeenCalledWith('cli:output', expect.objectContaining({
+        executionId: first.executionId,
+        content: 'Command timed out'
+      }))
+      expect(mockWindow.webContents.send).toHaveBeenCalledWith('cli:complete', expect.objectContaining({
+        executionId: first.executionId,
+        reason: 'timeout'
+      }))
+
+      const second = cliQueueService.submit({ command: 'echo ok', projectPath: '/test' }, mockWindow as any)
+      exited.emit('close', 0, null)
+      await second.completion
+
+      expect(mockWindow.webContents.send).toHaveBeenCalledWith('cli:complete', expect.objectContaining({
+        executionId: second.executionId,
+        exitCode: 0,
+        reason: 'exited',
+        signal: null,
+        forced: false
+      }))
+
+      vi.useRealTimers()
+    })
+  })
+
+  describe('CQ-017: 启动失败', () => {
+    it('should finish once and keep the queue running when spawn fails', async () => {
+      const mockWindow = createMockWindow()
+      const failed = createMockProcess()
+      const next = createMockProcess()
+      spawn.mockReturnValueOnce(failed).mockReturnValueOnce(next)
+
+      const finished = vi.fn()
+      cliQueueService.on('finished', finished)
+
+      const first = cliQueueService.submit({ command: 'missing-binary', projectPath: '/test' }, mockWindow as any)
+      const second = cliQueueService.submit({ command: 'echo ok', projectPath: '/test' }, mockWindow as any)
+
+      // 没有 'error' 监听器也不能抛出；Node 在 error 之后仍会触发 close
+      expect(() => failed.emit('error', new Error('spawn missing-binary ENOENT'))).not.toThrow()
+      failed.emit('close', -2, null)
+
+      await expect(first.completion).rejects.toThrow('ENOENT')
+      expect(finished).toHaveBeenCalledTimes(1)
+      expect(finished.mock.calls[0][0]).toMatchObject({
+        executionId: first.executionId,
+        status: 'failed',
+        exitCode: -1,
+        stderr: 'spawn missing-binary ENOENT'
+      })
+      expect(mockWindow.webContents.send.mock.calls.filter(([channel]: any[]) => channel === 'cli:complete'))
+        .toEqual([['cli:complete', expect.objectContaining({ executionId: first.executionId, exitCode: -1 })]])
+
+      next.emit('close', 0, null)
+      expect((await second.completion).exitCode).toBe(0)
+    })
+  })
+
+  describe('CQ-018: 终止期间保持 lane', () => {
+    it('should not start the next command of the lane until the cancelled process closes', async () => {
+      const mockWindow = createMockWindow()
+      const cancelled = createMockProcess()
+      const next = createMockProcess()
+      spawn.mockReturnValueOnce(cancelled).mockReturnValueOnce(next)
+
+      const first = cliQueueService.submit({ command: 'cmd1', projectPath: '/test', featureId: 'feat-a' }, mockWindow as any)
+      const second = cliQueueService.submit({ command: 'cmd2', projectPath: '/test', featureId: 'feat-a' }, mockWindow as any)
+
+      cliQueueService.cancel(first.executionId)
+      expect(spawn).toHaveBeenCalledTimes(1)
+      expect(cliQueueService.getQueueStatus().runningExecutions).toHaveLength(1)
+
+      cancelled.emit('close', null, 'SIGTERM')
+      expect(await first.completion).toMatchObject({ cancelled: true })
+      await new Promise(resolve => setTimeout(resolve, 0))
+      expect(spawn).toHaveBeenCalledTimes(2)
+
+      next.emit('close', 0, null)
+      expect(await second.completion).toMatchObject({ cancelled: false })
+    })
+
+    it('should count terminating commands against maxConcurrency', () => {
+      const mockWindow = createMockWindow()
+      spawn.mockImplementation(() => createMockProcess())
+      cliQueueService.configure({ maxConcurrency: 1 })
+
+      const a = cliQueueService.submit({ command: 'cmd-a', projectPath: '/test', featureId: 'feat-a' }, mockWindow as any)
+      cliQueueService.submit({ command: 'cmd-b', projectPath: '/test', featureId: 'feat-b' }, mockWindow as any)
+      cliQueueService.cancel(a.executionId)
+
+      expect(spawn).toHaveBeenCalledTimes(1)
+    })
+
+    it('should start the next command after a timed out process closes', async () => {
+      vi.useFakeTimers()
+
+      const mockWindow = createMockWindow()
+      const timedOut = createMockProcess()
+      spawn.mockReturnValueOnce(timedOut).mockReturnValue(createMockProcess())
+
+      const first = cliQueueService.submit({ command: 'hang', projectPath: '/test' }, mockWindow as any)
+      first.completion.catch(() => {})
+      cliQueueService.submit({ command: 'echo ok', projectPath: '/test' }, mockWindow as any)
+
+      await vi.advanceTimersByTimeAsync(10 * 60 * 1000 + 100)
+      expect(spawn).toHaveBeenCalledTimes(1)
+
+      timedOut.emit('close', null, 'SIGTERM')
+      expect(spawn).toHaveBeenCalledTimes(2)
+
+      vi.useRealTimers()
+    })
+  })
+
+  describe('CQ-019: 统计用量的 json 输出', () => {
+    it('should run feature claude commands with json output unless stream-json is requested', async () => {
+      const { buildSpawnArgs } = await import('../cli-queue.service')
+      expect(buildSpawnArgs({ command: '/review', projectPath: '/test', mode: 'print', featureId: 'F001' }))
+        .toEqual({ file: 'claude', args: ['--print', '--output-format', 'json', '/review'], shell: false })
+      expect(buildSpawnArgs({ command: '/review', projectPath: '/test', mode: 'print' }))
+        .toEqual({ file: 'claude', args: ['--print', '/review'], shell: false })
+      expect(buildSpawnArgs({ command: 'claude --output-format text "hi"', projectPath: '/test', mode: 'print', featureId: 'F001' }))
+        .toEqual({ file: 'claude', args: ['--print', '--output-format', 'text', 'hi'], shell: false })
+      expect(buildSpawnArgs({ command: 'npm test', projectPath: '/test', mode: 'print', featureId: 'F001' }))
+        .toEqual({ file: 'npm', args: ['test'], shell: false })
+    })
+
+    it('should output the result text and record usage and reported duration', async () => {
+      const mockWindow = createMockWindow()
+      const mockProcess = createMockProcess()
+      spawn.mockReturnValue(mockProcess)
+
+      const finished = vi.fn()
+      cliQueueService.on('finished', finished)
+
+      const { executionId, completion } = cliQueueService.submit(
+        { command: '/review', projectPath: '/test', mode: 'print', featureId: 'F001' },
+        mockWindow as any
+      )
+      mockProcess.stdout.emit('data', Buffer.from(JSON.stringify({
+        type: 'result',
+        subtype: 'success',
+        is_error: false,
+        result: 'Review done',
+        duration_ms: 4200,
+        total_cost_usd: 0.01,
+        usage: { input_tokens: 10, output_tokens: 20 },
+        modelUsage: { 'claude-sonnet-4-5': { inputTokens: 10 } }
+      })))
+      mockProcess.emit('close', 0)
+      await completion
+
+      const calls = mockWindow.webContents.send.mock.calls
+      expect(calls.some((call: unknown[]) => call[0] === 'cli:event')).toBe(false)
+      expect(calls).toContainEqual(['cli:output', expect.objectContaining({ executionId, type: 'stdout', content: 'Review done\n' })])
+      expect(finished.mock.calls[0][0]).toMatchObject({
+        stdout: 'Review done\n',
+        model: 'claude-sonnet-4-5',
+        reportedCostUsd: 0.01,
+        reportedDurationMs: 4200,
+        usage: { inputTokens: 10, outputTokens: 20 }
+      })
+    })
+  })
 })
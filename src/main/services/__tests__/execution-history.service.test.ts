@@ -0,0 +1,144 @@
+/**
+ * Execution History Service 单元测试
+ * 对应 60_TEST_PLAN.md EH-001 ~ EH-005
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// 内存文件系统
+const files = new Map<string, string>()
+
+// Mock fs/promises
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn(async (path: string) => {
+    if (!files.has(path)) {
+      throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' })
+    }
+    return files.get(path)
+  }),
+  appendFile: vi.fn(async (path: string, data: string) => {
+    files.set(path, (files.get(path) || '') + data)
+  }),
+  mkdir: vi.fn(async () => undefined)
+}))
+
+const HISTORY_PATH = '/test/project/.claude/state/execution_history.jsonl'
+
+const createEntry = (overrides: Record<string, unknown> = {}) => ({
+  executionId: 'exec-' + Math.random().toString(36).substring(7),
+  command: 'claude --print "/review"',
+  projectPath: '/test/project',
+  mode: 'print',
+  featureId: 'feature-a',
+  stepId: 'step-1',
+  phaseId: 4,
+  status: 'completed',
+  startedAt: '2026-10-01T09:00:00.000Z',
+  endedAt: '2026-10-01T09:01:00.000Z',
+  duration: 60000,
+  exitCode: 0,
+  stdout: 'All good',
+  stderr: '',
+  ...overrides
+})
+
+describe('ExecutionHistoryService', () => {
+  let ExecutionHistoryService: any
+  let executionHistoryService: any
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    vi.resetModules()
+    files.clear()
+
+    const module = await import('../execution-history.service')
+    ExecutionHistoryService = module.ExecutionHistoryService
+
+    ;(ExecutionHistoryService as any).instance = null
+    executionHistoryService = ExecutionHistoryService.getInstance()
+  })
+
+  describe('EH-001: append 追加记录', () => {
+    it('should append one JSON line per execution', async () => {
+      await executionHistoryService.append(createEntry({ executionId: 'exec-1' }))
+      await executionHistoryService.append(createEntry({ executionId: 'exec-2' }))
+
+      const lines = files.get(HISTORY_PATH)!.trim().split('\n')
+      expect(lines).toHaveLength(2)
+      expect(JSON.parse(lines[0]).executionId).toBe('exec-1')
+      expect(JSON.parse(lines[1]).executionId).toBe('exec-2')
+    })
+
+    it('should serialize concurrent appends', async () => {
+      await Promise.all([
+        executionHistoryService.append(createEntry({ executionId: 'exec-1', stdout: 'a'.repeat(1000) })),
+        executionHistoryService.append(createEntry({ executionId: 'exec-2', stdout: 'b'.repeat(1000) }))
+      ])
+
+      const lines = files.get(HISTORY_PATH)!.trim().split('\n')
+      expect(lines.map(line => JSON.parse(line).executionId)).toEqual(['exec-1', 'exec-2'])
+    })
+  })
+
+  describe('EH-002: query 分页', () => {
+    it('should return newest first with total count', async () => {
+      for (let i = 1; i <= 5; i++) {
+        await executionHistoryService.append(createEntry({
+          executionId: `exec-${i}`,
+          startedAt: `2026-10-0${i}T09:00:00.000Z`
+        }))
+      }
+
+      const page = await executionHistoryService.query({ projectPath: '/test/project', offset: 1, limit: 2 })
+
+      expect(page.total).toBe(5)
+      expect(page.entries.map((e: any) => e.executionId)).toEqual(['exec-4', 'exec-3'])
+    })
+
+    it('should return empty page when journal does not exist', async () => {
+      const page = await executionHistoryService.query({ projectPath: '/test/project' })
+      expect(page).toEqual({ entries: [], total: 0, offset: 0, limit: 20 })
+    })
+  })
+
+  describe('EH-003: query 筛选', () => {
+    it('should filter by feature, phase and status', async () => {
+      await executionHistoryService.append(createEntry({ executionId: 'a-ok' }))
+      await executionHistoryService.append(createEntry({ executionId: 'a-fail', status: 'failed', exitCode: 1 }))
+      await executionHistoryService.append(createEntry({ executionId: 'b-ok', featureId: 'feature-b', phaseId: 5 }))
+
+      const failed = await executionHistoryService.query({ projectPath: '/test/project', status: 'failed' })
+      expect(failed.entries.map((e: any) => e.executionId)).toEqual(['a-fail'])
+
+      const featureB = await executionHistoryService.query({ projectPath: '/test/project', featureId: 'feature-b' })
+      expect(featureB.entries.map((e: any) => e.executionId)).toEqual(['b-ok'])
+
+      const phase4 = await executionHistoryService.query({ projectPath: '/test/project', phaseId: 4 })
+      expect(phase4.total).toBe(2)
+    })
+  })
+
+  describe('EH-004: 全文搜索', () => {
+    it('should search command, stdout and stderr case-insensitively', async () => {
+      await executionHistoryService.append(createEntry({ executionId: 'cmd', command: '/start-day' }))
+      await executionHistoryService.append(createEntry({ executionId: 'out', stdout: 'Wrote DESIGN.md' }))
+      await executionHistoryService.append(createEntry({ executionId: 'err', stderr: 'ENOENT: design.md' }))
+
+      const page = await executionHistoryService.query({ projectPath: '/test/project', search: 'design.md' })
+      expect(page.entries.map((e: any) => e.executionId).sort()).toEqual(['err', 'out'])
+
+      const byCommand = await executionHistoryService.query({ projectPath: '/test/project', search: 'START-DAY' })
+      expect(byCommand.entries.map((e: any) => e.executionId)).toEqual(['cmd'])
+    })
+  })
+
+  describe('EH-005: get / 损坏行', () => {
+    it('should find entry by executionId and skip malformed lines', async () => {
+      files.set(HISTORY_PATH, '{not json\n')
+      await executionHistoryService.append(createEntry({ executionId: 'exec-1' }))
+
+      expect(await executionHistoryService.get('/test/project', 'exec-1')).toMatchObject({ executionId: 'exec-1' })
+      expect(await executionHistoryService.get('/test/project', 'missing')).toBeNull()
+    })
+  })
+})
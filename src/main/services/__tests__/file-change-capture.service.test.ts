@@ -0,0 +1,202 @@
+/**
+ * File Change Capture Service 单元测试
+ * 对应 60_TEST_PLAN.md FC-001 ~ FC-006
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createHash } from 'crypto'
+
+// 内存文件系统
+const files = new Map<string, string | Buffer>()
+
+// Mock fs/promises
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn(async (path: string, encoding?: string) => {
+    if (!files.has(path)) {
+      throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' })
+    }
+    const data = files.get(path)!
+    const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data, 'utf-8')
+    return encoding ? buffer.toString('utf-8') : buffer
+  }),
+  writeFile: vi.fn(async (path: string, data: string) => {
+    files.set(path, data)
+  }),
+  mkdir: vi.fn(async () => undefined),
+  access: vi.fn(async (path: string) => {
+    if (!files.has(path)) {
+      throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' })
+    }
+  })
+}))
+
+const PROJECT_PATH = '/test/project'
+const BLOB_DIR = '/test/project/.claude/state/blobs'
+
+const hash = (content: string) => createHash('sha256').update(content).digest('hex')
+
+describe('FileChangeCaptureService', () => {
+  let FileChangeCaptureService: any
+  let computeLineDiff: any
+  let service: any
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    vi.resetModules()
+    files.clear()
+
+    const module = await import('../file-change-capture.service')
+    FileChangeCaptureService = module.FileChangeCaptureService
+    computeLineDiff = module.computeLineDiff
+
+    ;(FileChangeCaptureService as any).instance = null
+    service = FileChangeCaptureService.getInstance()
+  })
+
+  describe('FC-001: 变更分类', () => {
+    it('should classify created, updated and deleted files', async () => {
+      files.set(`${PROJECT_PATH}/src/a.ts`, 'a1\n')
+      files.set(`${PROJECT_PATH}/src/b.ts`, 'b1\n')
+      await service.indexFile(PROJECT_PATH, `${PROJECT_PATH}/src/a.ts`)
+      await service.indexFile(PROJECT_PATH, `${PROJECT_PATH}/src/b.ts`)
+
+      service.begin('exec-1', PROJECT_PATH)
+
+      files.set(`${PROJECT_PATH}/src/a.ts`, 'a2\n')
+      await service.recordChange(PROJECT_PATH, `${PROJECT_PATH}/src/a.ts`, 'update')
+      files.delete(`${PROJECT_PATH}/src/b.ts`)
+      await service.recordChange(PROJECT_PATH, `${PROJECT_PATH}/src/b.ts`, 'delete')
+      files.set(`${PROJECT_PATH}/src/c.ts`, 'c1\n')
+      await service.recordChange(PROJECT_PATH, `${PROJECT_PATH}/src/c.ts`, 'create')
+
+      const changes = await service.complete('exec-1', 0)
+
+      expect(changes).toEqual([
+        { path: 'src/a.ts', type: 'update', beforeHash: hash('a1\n'), afterHash: hash('a2\n'), diffable: true },
+        { path: 'src/b.ts', type: 'delete', beforeHash: hash('b1\n'), afterHash: undefined, diffable: true },
+        { path: 'src/c.ts', type: 'create', beforeHash: undefined, afterHash: hash('c1\n'), diffable: true }
+      ])
+    })
+
+    it('should keep the pre-run version across multiple writes', async () => {
+      files.set(`${PROJECT_PATH}/a.md`, 'v1')
+      await service.indexFile(PROJECT_PATH, `${PROJECT_PATH}/a.md`)
+
+      service.begin('exec-1', PROJECT_PATH)
+      files.set(`${PROJECT_PATH}/a.md`, 'v2')
+      await service.recordChange(PROJECT_PATH, `${PROJECT_PATH}/a.md`, 'update')
+      files.set(`${PROJECT_PATH}/a.md`, 'v3')
+      await service.recordChange(PROJECT_PATH, `${PROJECT_PATH}/a.md`, 'update')
+
+      const [change] = await service.complete('exec-1', 0)
+      expect(change.beforeHash).toBe(hash('v1'))
+      expect(change.afterHash).toBe(hash('v3'))
+    })
+  })
+
+  describe('FC-002: 无净变化', () => {
+    it('should drop files reverted to their original content', async () => {
+      files.set(`${PROJECT_PATH}/a.md`, 'v1')
+      await service.indexFile(PROJECT_PATH, `${PROJECT_PATH}/a.md`)
+
+      service.begin('exec-1', PROJECT_PATH)
+      files.set(`${PROJECT_PATH}/a.md`, 'v2')
+      await service.recordChange(PROJECT_PATH, `${PROJECT_PATH}/a.md`, 'update')
+      files.set(`${PROJECT_PATH}/a.md`, 'v1')
+      await service.recordChange(PROJECT_PATH, `${PROJECT_PATH}/a.md`, 'update')
+
+      files.set(`${PROJECT_PATH}/tmp.txt`, 'x')
+      await service.recordChange(PROJECT_PATH, `${PROJECT_PATH}/tmp.txt`, 'create')
+      files.delete(`${PROJECT_PATH}/tmp.txt`)
+      await service.recordChange(PROJECT_PATH, `${PROJECT_PATH}/tmp.txt`, 'delete')
+
+      expect(await service.complete('exec-1', 0)).toEqual([])
+    })
+
+    it('should ignore changes outside an active capture', async () => {
+      files.set(`${PROJECT_PATH}/a.md`, 'v1')
+      await service.recordChange(PROJECT_PATH, `${PROJECT_PATH}/a.md`, 'create')
+
+      service.begin('exec-1', PROJECT_PATH)
+      expect(await service.complete('exec-1', 0)).toEqual([])
+      expect(await service.complete('unknown', 0)).toEqual([])
+    })
+  })
+
+  describe('FC-003: 应用状态文件', () => {
+    it('should not capture files under .claude/state', async () => {
+      service.begin('exec-1', PROJECT_PATH)
+      files.set(`${PROJECT_PATH}/.claude/state/execution_history.jsonl`, '{}')
+      await service.recordChange(PROJECT_PATH, `${PROJECT_PATH}/.claude/state/execution_history.jsonl`, 'create')
+
+      expect(await service.complete('exec-1', 0)).toEqual([])
+    })
+  })
+
+  describe('FC-004: 内容存储', () => {
+    it('should store before and after content by hash', async () => {
+      files.set(`${PROJECT_PATH}/a.md`, 'old')
+      await service.indexFile(PROJECT_PATH, `${PROJECT_PATH}/a.md`)
+
+      service.begin('exec-1', PROJECT_PATH)
+      files.set(`${PROJECT_PATH}/a.md`, 'new')
+      await service.recordChange(PROJECT_PATH, `${PROJECT_PATH}/a.md`, 'update')
+      await service.complete('exec-1', 0)
+
+      expect(files.get(`${BLOB_DIR}/${hash('old')}`)).toBe('old')
+      expect(await service.readBlob(PROJECT_PATH, hash('new'))).toBe('new')
+      expect(await service.readBlob(PROJECT_PATH, '../secret')).toBeNull()
+    })
+
+    it('should mark binary files as not diffable', async () => {
+      service.begin('exec-1', PROJECT_PATH)
+      files.set(`${PROJECT_PATH}/image.png`, Buffer.from([0x89, 0x00, 0x01]))
+      await service.recordChange(PROJECT_PATH, `${PROJECT_PATH}/image.png`, 'create')
+
+      const [change] = await service.complete('exec-1', 0)
+      expect(change.type).toBe('create')
+      expect(change.diffable).toBe(false)
+      expect([...files.keys()].some(key => key.startsWith(BLOB_DIR))).toBe(false)
+    })
+  })
+
+  describe('FC-005: 并行执行', () => {
+    it('should attribute changes to every active capture of the project', async () => {
+      service.begin('exec-1', PROJECT_PATH)
+      service.begin('exec-2', PROJECT_PATH)
+      service.begin('exec-3', '/other/project')
+
+      files.set(`${PROJECT_PATH}/a.md`, 'x')
+      await service.recordChange(PROJECT_PATH, `${PROJECT_PATH}/a.md`, 'create')
+
+      expect(await service.complete('exec-1', 0)).toHaveLength(1)
+      expect(await service.complete('exec-2', 0)).toHaveLength(1)
+      expect(await service.complete('exec-3', 0)).toEqual([])
+    })
+  })
+
+  describe('FC-006: 行差异', () => {
+    it('should produce added and removed lines with line numbers', () => {
+      const lines = computeLineDiff('a\nb\nc', 'a\nB\nc\nd')
+
+      expect(lines).toEqual([
+        { type: 'context', text: 'a', oldLine: 1, newLine: 1 },
+        { type: 'add', text: 'B', newLine: 2 },
+        { type: 'remove', text: 'b', oldLine: 2 },
+        { type: 'context', text: 'c', oldLine: 3, newLine: 3 },
+        { type: 'add', text: 'd', newLine: 4 }
+      ])
+    })
+
+    it('should fold unchanged lines far from changes', () => {
+      const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n')
+      const after = before.replace('line 10', 'line ten')
+
+      const lines = computeLineDiff(before, after)
+
+      expect(lines[0]).toEqual({ type: 'skip', text: '6 行未变化', count: 6 })
+      expect(lines[lines.length - 1]).toEqual({ type: 'skip', text: '7 行未变化', count: 7 })
+      expect(lines.filter((line: any) => line.type === 'context')).toHaveLength(6)
+    })
+  })
+})
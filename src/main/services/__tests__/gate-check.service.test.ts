@@ -0,0 +1,182 @@
+/**
+ * Gate Check Service 单元测试
+ * 对应 60_TEST_PLAN.md GC-001 ~ GC-005
+ *
+ * 在临时目录中构造 Feature 目录，规则取自内置预设 presets/software-dev/preset.yaml
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join, resolve } from 'path'
+import { parse as parseYaml } from 'yaml'
+
+// Mock Electron：应用目录指向仓库根目录
+vi.mock('electron', () => ({
+  app: { getAppPath: () => resolve(__dirname, '../../../..') }
+}))
+
+describe('GateCheckService', () => {
+  let service: any
+  let evaluateGateRule: any
+  let pathGlobToRegExp: any
+  let projectPath: string
+  let featurePath: string
+
+  const write = (path: string, content = '') => {
+    mkdirSync(join(featurePath, path, '..'), { recursive: true })
+    writeFileSync(join(featurePath, path), content)
+  }
+
+  const readStatus = () => parseYaml(readFileSync(join(featurePath, 'PHASE_GATE_STATUS.yaml'), 'utf-8'))
+
+  beforeEach(async () => {
+    vi.resetModules()
+    const module = await import('../gate-check.service')
+    service = module.gateCheckService
+    evaluateGateRule = module.evaluateGateRule
+    pathGlobToRegExp = module.pathGlobToRegExp
+
+    projectPath = mkdtempSync(join(tmpdir(), 'ha-loop-gate-check-'))
+    featurePath = join(projectPath, 'docs', 'F001')
+    mkdirSync(featurePath, { recursive: true })
+  })
+
+  afterEach(() => {
+    rmSync(projectPath, { recursive: true, force: true })
+  })
+
+  describe('GC-001: 文件规则', () => {
+    it('should check file_exists', async () => {
+      write('10_CONTEXT.md')
+
+      expect(await evaluateGateRule(featurePath, { type: 'file_exists', path: '10_CONTEXT.md' }, 0))
+        .toMatchObject({ status: 'passed', evidence: ['10_CONTEXT.md'] })
+      expect(await evaluateGateRule(featurePath, { type: 'file_exists', path: '40_DESIGN_FINAL.md' }, 1))
+        .toMatchObject({ index: 1, status: 'failed', message: '40_DESIGN_FINAL.md 不存在' })
+    })
+
+    it('should pass file_exists_any when one of the files exists', async () => {
+      write('21_UI_FLOW_SPEC.md')
+      const rule = { type: 'file_exists_any', paths: ['20_API_SPEC.md', '21_UI_FLOW_SPEC.md'] }
+
+      expect(await evaluateGateRule(featurePath, rule, 0)).toMatchObject({ status: 'passed', evidence: ['21_UI_FLOW_SPEC.md'] })
+
+      rmSync(join(featurePath, '21_UI_FLOW_SPEC.md'))
+      expect(await evaluateGateRule(featurePath, rule, 0)).toMatchObject({ status: 'failed', evidence: [] })
+    })
+
+    it('should reject paths outside the feature directory', async () => {
+      writeFileSync(join(projectPath, 'secret.md'), '')
+
+      expect(await evaluateGateRule(featurePath, { type: 'file_exists', path: '../../secret.md' }, 0))
+        .toMatchObject({ status: 'failed', message: expect.stringContaining('超出 Feature 目录') })
+    })
+  })
+
+  describe('GC-002: 内容与通配规则', () => {
+    it('should report matched lines and missing keywords for content_check', async () => {
+      write('10_CONTEXT.md', '# 背景\n\n## 目标\n- 提升效率\n')
+      const result = await evaluateGateRule(featurePath, { type: 'content_check', file: '10_CONTEXT.md', contains: ['目标', '范围'] }, 0)
+
+      expect(result).toMatchObject({
+        status: 'failed',
+        message: '10_CONTEXT.md 缺少 范围',
+        evidence: ['10_CONTEXT.md:3 ## 目标']
+      })
+    })
+
+    it('should match files for glob_match', async () => {
+      write('_demos/list.html')
+      write('_demos/detail.html')
+      write('_demos/notes.md')
+
+      expect(await evaluateGateRule(featurePath, { type: 'glob_match', pattern: '_demos/*.html' }, 0))
+        .toMatchObject({ status: 'passed', evidence: ['_demos/detail.html', '_demos/list.html'] })
+      expect(await evaluateGateRule(featurePath, { type: 'glob_match', pattern: 'src/**/*.ts' }, 0))
+        .toMatchObject({ status: 'failed' })
+    })
+
+    it('should support ** and brace patterns', () => {
+      const matcher = pathGlobToRegExp('src/**/*.{ts,vue}')
+
+      expect(matcher.test('src/a.ts')).toBe(true)
+      expect(matcher.test('src/views/deep/App.vue')).toBe(true)
+      expect(matcher.test('src/a.js')).toBe(false)
+      expect(pathGlobToRegExp('_demos/*.html').test('_demos/sub/a.html')).toBe(false)
+    })
+
+    it('should skip rules that need the CLI', async () => {
+      expect(await evaluateGateRule(featurePath, { type: 'test_pass', command: 'npm run test' }, 0))
+        .toMatchObject({ status: 'skipped' })
+    })
+  })
+
+  describe('GC-003: 预设规则', () => {
+    it('should read rules from the built-in preset', async () => {
+      const { rules, source } = await service.getRules(projectPath, 1)
+
+      expect(source).toMatch(/presets[\\/]software-dev[\\/]preset\.yaml$/)
+      expect(rules).toEqual([
+        { type: 'file_exists', path: '10_CONTEXT.md' },
+        { type: 'content_check', file: '10_CONTEXT.md', contains: ['目标', '范围'] }
+      ])
+    })
+
+    it('should prefer the project preset', async () => {
+      mkdirSync(join(projectPath, '.claude'))
+      writeFileSync(join(projectPath, '.claude', 'preset.yaml'), 'phases:\n  - id: 1\n    gate_rules:\n      auto_check:\n        - type: glob_match\n          pattern: "*.md"\n')
+
+      const { rules, source } = await service.getRules(projectPath, 1)
+
+      expect(source).toBe(join(projectPath, '.claude', 'preset.yaml'))
+      expect(rules).toEqual([{ type: 'glob_match', pattern: '*.md' }])
+    })
+
+    it('should reject phases missing from the preset', async () => {
+      await expect(service.getRules(projectPath, 9)).rejects.toThrow('Phase 9 is not defined')
+    })
+  })
+
+  describe('GC-004: 总体结果', () => {
+    it('should pass when every rule passes', async () => {
+      write('10_CONTEXT.md', '## 目标\n## 范围\n')
+
+      const response = await service.check(projectPath, 'F001', featurePath, 1)
+
+      expect(response).toMatchObject({ featureId: 'F001', phase: 1, status: 'passed' })
+      expect(response.results.map((r: any) => r.status)).toEqual(['passed', 'passed'])
+    })
+
+    it('should be pending when rules need the CLI', async () => {
+      expect((await service.check(projectPath, 'F001', featurePath, 5)).status).toBe('pending')
+    })
+
+    it('should fail when any rule fails', async () => {
+      expect((await service.check(projectPath, 'F001', featurePath, 1)).status).toBe('failed')
+    })
+  })
+
+  describe('GC-005: 写入 PHASE_GATE_STATUS.yaml', () => {
+    it('should update check_status and keep other fields', async () => {
+      write('PHASE_GATE_STATUS.yaml', 'phases:\n  "1":\n    approval_status: pending\n  phase_1:\n    steps: {}\n')
+
+      const response = await service.check(projectPath, 'F001', featurePath, 1)
+      const status = readStatus()
+
+      expect(status.phases['1']).toMatchObject({
+        approval_status: 'pending',
+        check_status: 'failed',
+        checked_at: response.checkedAt
+      })
+      expect(status.phases['1'].check_results[0]).toEqual({
+        type: 'file_exists',
+        status: 'failed',
+        message: '10_CONTEXT.md 不存在',
+        evidence: []
+      })
+      expect(status.phases.phase_1).toEqual({ steps: {} })
+      expect(status.last_updated).toBe(response.checkedAt)
+    })
+  })
+})
@@ -0,0 +1,201 @@
+/**
+ * Git Service 单元测试
+ * 对应 60_TEST_PLAN.md GIT-001 ~ GIT-005
+ *
+ * 在临时目录中创建真实的本地仓库执行
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { execFileSync } from 'child_process'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, readFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+const git = (cwd: string, ...args: string[]) =>
+  execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim()
+
+describe('GitService', () => {
+  let GitService: any
+  let gitService: any
+  let parseStatus: any
+  let buildCommitMessage: any
+  let repo: string
+
+  const write = (path: string, content: string) => {
+    mkdirSync(join(repo, path, '..'), { recursive: true })
+    writeFileSync(join(repo, path), content)
+  }
+
+  const initRepo = () => {
+    git(repo, 'init', '-q', '-b', 'main')
+    git(repo, 'config', 'user.email', 'test@example.com')
+    git(repo, 'config', 'user.name', 'Test')
+    git(repo, 'config', 'commit.gpgsign', 'false')
+  }
+
+  beforeEach(async () => {
+    const module = await import('../git.service')
+    GitService = module.GitService
+    parseStatus = module.parseStatus
+    buildCommitMessage = module.buildCommitMessage
+
+    ;(GitService as any).instance = null
+    gitService = GitService.getInstance()
+
+    repo = mkdtempSync(join(tmpdir(), 'ha-loop-git-'))
+  })
+
+  afterEach(() => {
+    rmSync(repo, { recursive: true, force: true })
+  })
+
+  describe('GIT-001: 仓库状态', () => {
+    it('should report non-repository directories', async () => {
+      const status = await gitService.getStatus(repo)
+      expect(status).toMatchObject({ isRepo: false, files: [], clean: true })
+    })
+
+    it('should list uncommitted changes', async () => {
+      initRepo()
+      write('README.md', 'hello\n')
+      git(repo, 'add', '.')
+      git(repo, 'commit', '-q', '-m', 'init')
+
+      write('README.md', 'changed\n')
+      write('docs/F001/new file.md', 'new\n')
+      git(repo, 'add', 'README.md')
+
+      const status = await gitService.getStatus(repo)
+
+      expect(status.isRepo).toBe(true)
+      expect(status.branch).toBe('main')
+      expect(status.clean).toBe(false)
+      expect(status.files).toEqual([
+        { index: 'M', workingTree: ' ', path: 'README.md' },
+        { index: '?', workingTree: '?', path: 'docs/F001/new file.md' }
+      ])
+    })
+
+    it('should parse upstream, ahead / behind and renames', () => {
+      const status = parseStatus('## main...origin/main [ahead 2, behind 1]\0R  new.md\0old.md\0 M a.ts\0')
+
+      expect(status).toEqual({
+        branch: 'main',
+        upstream: 'origin/main',
+        ahead: 2,
+        behind: 1,
+        clean: false,
+        files: [
+          { index: 'R', workingTree: ' ', path: 'new.md', origPath: 'old.md' },
+          { index: ' ', workingTree: 'M', path: 'a.ts' }
+        ]
+      })
+      expect(parseStatus('## No commits yet on main\0').branch).toBe('main')
+      expect(parseStatus('## HEAD (no branch)\0').detached).toBe(true)
+    })
+  })
+
+  describe('GIT-002: Feature 分支', () => {
+    beforeEach(() => {
+      initRepo()
+      write('README.md', 'hello\n')
+      git(repo, 'add', '.')
+      git(repo, 'commit', '-q', '-m', 'init')
+    })
+
+    it('should create the feature branch on first use', async () => {
+      const result = await gitService.ensureFeatureBranch(repo, 'F001')
+
+      expect(result).toEqual({ branch: 'feature/F001', created: true })
+      expect(git(repo, 'branch', '--show-current')).toBe('feature/F001')
+    })
+
+    it('should switch to an existing feature branch', async () => {
+      git(repo, 'branch', 'feature/F001')
+
+      const result = await gitService.ensureFeatureBranch(repo, 'F001')
+
+      expect(result).toEqual({ branch: 'feature/F001', created: false })
+      expect(git(repo, 'branch', '--show-current')).toBe('feature/F001')
+      expect(await gitService.ensureFeatureBranch(repo, 'F001')).toEqual({ branch: 'feature/F001', created: false })
+    })
+
+    it('should use the configured branch prefix', async () => {
+      await gitService.setSettings(repo, { autoCommit: false, branchPrefix: 'ha/' })
+
+      const result = await gitService.ensureFeatureBranch(repo, 'F001')
+
+      expect(result.branch).toBe('ha/F001')
+    })
+
+    it('should reject invalid branch names', async () => {
+      await expect(gitService.ensureFeatureBranch(repo, 'bad..name')).rejects.toThrow()
+      expect(git(repo, 'branch', '--show-current')).toBe('main')
+    })
+  })
+
+  describe('GIT-003: 提交指定路径', () => {
+    beforeEach(() => {
+      initRepo()
+      write('README.md', 'hello\n')
+      git(repo, 'add', '.')
+      git(repo, 'commit', '-q', '-m', 'init')
+    })
+
+    it('should commit only the given paths', async () => {
+      write('docs/F001/40_DESIGN.md', '# Design\n')
+      write('docs/F001/PHASE_GATE_STATUS.yaml', 'phases: {}\n')
+      write('src/unrelated.ts', 'export {}\n')
+      write('README.md', 'staged by user\n')
+      git(repo, 'add', 'README.md')
+
+      const result = await gitService.commitPaths(
+        repo,
+        [join(repo, 'docs/F001/40_DESIGN.md'), 'docs/F001/PHASE_GATE_STATUS.yaml', 'docs/F001/missing.md'],
+        '[F001][phase 4] design approved'
+      )
+
+      expect(result.committed).toBe(true)
+      expect(result.files).toEqual(['docs/F001/40_DESIGN.md', 'docs/F001/PHASE_GATE_STATUS.yaml'])
+      expect(result.commit).toBe(git(repo, 'rev-parse', 'HEAD'))
+      expect(git(repo, 'log', '-1', '--format=%s')).toBe('[F001][phase 4] design approved')
+      expect(git(repo, 'show', '--name-only', '--format=', 'HEAD').split('\n')).toEqual([
+        'docs/F001/40_DESIGN.md',
+        'docs/F001/PHASE_GATE_STATUS.yaml'
+      ])
+
+      // 用户已暂存与未跟踪的其他改动保持原样
+      const status = await gitService.getStatus(repo)
+      expect(status.files).toContainEqual({ index: 'M', workingTree: ' ', path: 'README.md' })
+      expect(status.files).toContainEqual({ index: '?', workingTree: '?', path: 'src/unrelated.ts' })
+    })
+
+    it('should skip the commit when nothing changed', async () => {
+      const before = git(repo, 'rev-parse', 'HEAD')
+
+      const result = await gitService.commitPaths(repo, ['README.md'], 'noop')
+
+      expect(result).toEqual({ committed: false, message: 'noop', files: [] })
+      expect(git(repo, 'rev-parse', 'HEAD')).toBe(before)
+    })
+  })
+
+  describe('GIT-004: 设置', () => {
+    it('should default to no auto-commit', async () => {
+      expect(await gitService.getSettings(repo)).toEqual({ autoCommit: false, branchPrefix: 'feature/' })
+    })
+
+    it('should persist settings as snake_case YAML', async () => {
+      await gitService.setSettings(repo, { autoCommit: true, branchPrefix: 'feature/' })
+
+      expect(readFileSync(join(repo, '.claude/git.yaml'), 'utf-8')).toContain('auto_commit: true')
+      expect(await gitService.getSettings(repo)).toEqual({ autoCommit: true, branchPrefix: 'feature/' })
+    })
+  })
+
+  describe('GIT-005: 提交信息', () => {
+    it('should build approval commit messages', () => {
+      expect(buildCommitMessage('F001', 4, 'Design')).toBe('[F001][phase 4] design approved')
+    })
+  })
+})
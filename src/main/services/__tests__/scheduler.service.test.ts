@@ -0,0 +1,244 @@
+/**
+ * Scheduler Service 单元测试
+ * 对应 60_TEST_PLAN.md SCH-001 ~ SCH-006
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { parse as parseYaml } from 'yaml'
+
+// 内存文件系统
+const files = new Map<string, string>()
+
+// Mock fs/promises
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn(async (path: string) => {
+    if (!files.has(path)) {
+      throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' })
+    }
+    return files.get(path)
+  }),
+  writeFile: vi.fn(async (path: string, data: string) => {
+    files.set(path, data)
+  }),
+  mkdir: vi.fn(async () => undefined)
+}))
+
+const PROJECT_PATH = '/test/project'
+const SCHEDULE_PATH = '/test/project/.claude/schedule.yaml'
+const STATE_PATH = '/test/project/.claude/state/schedule_state.json'
+
+const SCHEDULE_YAML = `schedules:
+  - id: morning
+    step_id: start-day
+    command: /start-day
+    cron: "0 9 * * 1-5"
+  - id: evening
+    step_id: end-day
+    command: /end-day
+    cron: "30 18 * * 1-5"
+`
+
+// 2026-10-19 为周一（本地时间）
+const at = (day: number, hour: number, minute = 0) => new Date(2026, 9, day, hour, minute)
+
+describe('SchedulerService', () => {
+  let SchedulerService: any
+  let schedulerService: any
+  let runner: ReturnType<typeof vi.fn>
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    vi.resetModules()
+    vi.useFakeTimers()
+    files.clear()
+
+    const module = await import('../scheduler.service')
+    SchedulerService = module.SchedulerService
+
+    ;(SchedulerService as any).instance = null
+    schedulerService = SchedulerService.getInstance()
+    runner = vi.fn(async () => ({ executionId: 'exec-1', status: 'running' }))
+  })
+
+  afterEach(() => {
+    schedulerService.stop()
+    vi.useRealTimers()
+  })
+
+  describe('SCH-001: cron 解析', () => {
+    it('should match lists, ranges, steps and weekdays', async () => {
+      const { parseCron, matchesCron } = await import('../scheduler.service')
+
+      const weekdays = parseCron('30 18 * * 1-5')
+      expect(matchesCron(weekdays, at(19, 18, 30))).toBe(true)
+      expect(matchesCron(weekdays, at(18, 18, 30))).toBe(false) // 周日
+      expect(matchesCron(weekdays, at(19, 18, 31))).toBe(false)
+
+      const quarterly = parseCron('*/15 9,17 * * 0,7')
+      expect(matchesCron(quarterly, at(18, 17, 45))).toBe(true)
+      expect(matchesCron(quarterly, at(18, 17, 50))).toBe(false)
+    })
+
+    it('should treat day fields starting with * as unrestricted', async () => {
+      const { parseCron, matchesCron } = await import('../scheduler.service')
+
+      // 单日且为周一（与标准 cron 一致，*/2 不触发日 / 周的“或”规则）
+      const oddMondays = parseCron('0 9 */2 * 1')
+      expect(matchesCron(oddMondays, at(19, 9))).toBe(true)
+      expect(matchesCron(oddMondays, at(21, 9))).toBe(false) // 周三
+      expect(matchesCron(oddMondays, at(26, 9))).toBe(false) // 双日
+
+      const firstOrMonday = parseCron('0 9 1 * 1')
+      expect(matchesCron(firstOrMonday, at(1, 9))).toBe(true)
+      expect(matchesCron(firstOrMonday, at(26, 9))).toBe(true)
+      expect(matchesCron(firstOrMonday, at(27, 9))).toBe(false)
+    })
+
+    it('should reject malformed expressions', async () => {
+      const { parseCron } = await import('../scheduler.service')
+
+      expect(() => parseCron('0 9 * *')).toThrow('5 fields')
+      expect(() => parseCron('60 9 * * *')).toThrow('Invalid value')
+      expect(() => parseCron('0 9 * * 1-5/0')).toThrow('Invalid step')
+    })
+  })
+
+  describe('SCH-002: nextOccurrence', () => {
+    it('should skip to the next matching weekday', async () => {
+      const { parseCron, nextOccurrence } = await import('../scheduler.service')
+
+      // 周五 19:00 之后的下一次工作日 09:00 为周一
+      const next = nextOccurrence(parseCron('0 9 * * 1-5'), at(23, 19, 0))
+
+      expect(next?.getTime()).toBe(at(26, 9, 0).getTime())
+    })
+  })
+
+  describe('SCH-003: 触发', () => {
+    it('should run due schedules through the runner once per minute', async () => {
+      files.set(SCHEDULE_PATH, SCHEDULE_YAML)
+      vi.setSystemTime(at(19, 8, 59))
+      await schedulerService.start(PROJECT_PATH, runner)
+      const triggered = vi.fn()
+      schedulerService.on('triggered', triggered)
+
+      await schedulerService.tick(at(19, 9, 0))
+      await schedulerService.tick(at(19, 9, 0))
+
+      expect(runner).toHaveBeenCalledTimes(1)
+      expect(runner).toHaveBeenCalledWith({
+        command: '/start-day',
+        projectPath: PROJECT_PATH,
+        featureId: undefined,
+        stepId: 'start-day',
+        mode: 'print',
+        scheduleId: 'morning',
+        argv: { executable: 'claude', args: ['--print', '/start-day'] }
+      })
+      expect(triggered).toHaveBeenCalledWith(expect.objectContaining({
+        record: expect.objectContaining({ executionId: 'exec-1', scheduledAt: at(19, 9, 0).toISOString() })
+      }))
+
+      const state = JSON.parse(files.get(STATE_PATH)!)
+      expect(state.runs.morning.executionId).toBe('exec-1')
+    })
+
+    it('should record runner errors such as policy denial', async () => {
+      files.set(SCHEDULE_PATH, SCHEDULE_YAML)
+      vi.setSystemTime(at(19, 18, 0))
+      runner.mockRejectedValueOnce({ code: 'E-CLI-007', message: 'Command denied by policy' })
+      await schedulerService.start(PROJECT_PATH, runner)
+
+      await schedulerService.tick(at(19, 18, 30))
+
+      const status = await schedulerService.getStatus(PROJECT_PATH)
+      expect(status.runs.evening.error).toBe('Command denied by policy')
+      expect(status.runs.evening.executionId).toBeUndefined()
+    })
+
+    it('should fire on the next minute boundary once started', async () => {
+      files.set(SCHEDULE_PATH, SCHEDULE_YAML)
+      vi.setSystemTime(at(19, 8, 59))
+      await schedulerService.start(PROJECT_PATH, runner)
+
+      await vi.advanceTimersByTimeAsync(61_000)
+
+      expect(runner).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('SCH-004: 错过的触发', () => {
+    it('should report runs missed while the app was closed without running them', async () => {
+      files.set(SCHEDULE_PATH, SCHEDULE_YAML)
+      files.set(STATE_PATH, JSON.stringify({
+        lastCheckedAt: at(16, 8, 0).toISOString(),
+        runs: { morning: { scheduledAt: at(16, 9, 0).toISOString(), triggeredAt: at(16, 9, 0).toISOString() } }
+      }))
+      vi.setSystemTime(at(19, 10, 0))
+      const missedListener = vi.fn()
+      schedulerService.on('missed', missedListener)
+
+      const missed = await schedulerService.start(PROJECT_PATH, runner)
+
+      expect(missed).toEqual([
+        { scheduleId: 'morning', stepId: 'start-day', command: '/start-day', scheduledAt: at(19, 9, 0).toISOString(), count: 1 },
+        { scheduleId: 'evening', stepId: 'end-day', command: '/end-day', scheduledAt: at(16, 18, 30).toISOString(), count: 1 }
+      ])
+      expect(missedListener).toHaveBeenCalledWith({ missed })
+      expect(runner).not.toHaveBeenCalled()
+    })
+
+    it('should not report anything on first open', async () => {
+      files.set(SCHEDULE_PATH, SCHEDULE_YAML)
+      vi.setSystemTime(at(19, 10, 0))
+
+      expect(await schedulerService.start(PROJECT_PATH, runner)).toEqual([])
+      expect(JSON.parse(files.get(STATE_PATH)!).lastCheckedAt).toBe(at(19, 10, 0).toISOString())
+    })
+  })
+
+  describe('SCH-005: 保存计划', () => {
+    it('should persist schedules as YAML and compute next runs', async () => {
+      vi.setSystemTime(at(19, 10, 0))
+      await schedulerService.start(PROJECT_PATH, runner)
+
+      const status = await schedulerService.setSchedules(PROJECT_PATH, {
+        schedules: [{ id: 'evening', stepId: 'end-day', command: '/end-day', cron: '30 18 * * 1-5', enabled: true }]
+      })
+
+      expect(parseYaml(files.get(SCHEDULE_PATH)!)).toEqual({
+        schedules: [{ id: 'evening', step_id: 'end-day', command: '/end-day', cron: '30 18 * * 1-5', enabled: true }]
+      })
+      expect(status.nextRuns.evening).toBe(at(19, 18, 30).toISOString())
+    })
+
+    it('should reject invalid cron without writing', async () => {
+      await expect(schedulerService.setSchedules(PROJECT_PATH, {
+        schedules: [{ id: 'bad', stepId: 'end-day', command: '/end-day', cron: '99 * * * *', enabled: true }]
+      })).rejects.toThrow('Invalid value')
+      expect(files.has(SCHEDULE_PATH)).toBe(false)
+    })
+
+    it('should reject non-slash commands that need policy confirmation', async () => {
+      await expect(schedulerService.setSchedules(PROJECT_PATH, {
+        schedules: [{ id: 'nightly', stepId: 'test', command: 'npm test', cron: '0 2 * * *', enabled: true }]
+      })).rejects.toThrow('must run a slash command')
+      expect(files.has(SCHEDULE_PATH)).toBe(false)
+    })
+  })
+
+  describe('SCH-006: 停用与停止', () => {
+    it('should skip disabled schedules and stop ticking after stop()', async () => {
+      files.set(SCHEDULE_PATH, SCHEDULE_YAML.replace('cron: "0 9 * * 1-5"', 'cron: "0 9 * * 1-5"\n    enabled: false'))
+      vi.setSystemTime(at(19, 8, 0))
+      await schedulerService.start(PROJECT_PATH, runner)
+
+      await schedulerService.tick(at(19, 9, 0))
+      expect(runner).not.toHaveBeenCalled()
+
+      schedulerService.stop()
+      await schedulerService.tick(at(19, 18, 30))
+      expect(runner).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,227 @@
+/**
+ * Session Command Queue Service 单元测试
+ * 对应 60_TEST_PLAN.md SQ-001 ~ SQ-007
+ *
+ * 在临时目录中读写真实的协议文件
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, readFileSync, existsSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+describe('SessionCommandQueueService', () => {
+  let SessionCommandQueueService: any
+  let MAX_FINISHED_COMMANDS: number
+  let queue: any
+  let projectPath: string
+
+  const sessionFile = (suffix: string) => join(projectPath, '.claude', 'gui-sessions', `session-s1${suffix}`)
+  const readCmd = () => JSON.parse(readFileSync(sessionFile('.cmd'), 'utf-8'))
+
+  beforeEach(async () => {
+    vi.resetModules()
+    const module = await import('../session-command-queue.service')
+    SessionCommandQueueService = module.SessionCommandQueueService
+    MAX_FINISHED_COMMANDS = module.MAX_FINISHED_COMMANDS
+
+    ;(SessionCommandQueueService as any).instance = null
+    queue = SessionCommandQueueService.getInstance()
+
+    projectPath = mkdtempSync(join(tmpdir(), 'ha-loop-session-queue-'))
+  })
+
+  afterEach(() => {
+    rmSync(projectPath, { recursive: true, force: true })
+  })
+
+  describe('SQ-001: 按顺序发送', () => {
+    it('should write the first command and queue the rest', () => {
+      const first = queue.enqueue(projectPath, 's1', '/design', { stepId: 'step-1' })
+      const second = queue.enqueue(projectPath, 's1', '/review', { stepId: 'step-2' })
+
+      expect(first).toMatchObject({ duplicate: false, position: 0 })
+      expect(first.command.status).toBe('sent')
+      expect(second).toMatchObject({ duplicate: false, position: 1 })
+      expect(second.command.status).toBe('pending')
+
+      // 第二条命令不会覆盖 .cmd
+      expect(readCmd()).toMatchObject({ cmdId: first.command.cmdId, command: '/design', source: 'gui-button' })
+    })
+
+    it('should dispatch the next command when the current one finishes', () => {
+      const first = queue.enqueue(projectPath, 's1', '/design')
+      const second = queue.enqueue(projectPath, 's1', '/review')
+
+      queue.acknowledge(projectPath, 's1', first.command.cmdId)
+      const done = queue.complete(projectPath, 's1', { cmdId: first.command.cmdId, status: 'success', timestamp: 't1' })
+
+      expect(done).toMatchObject({ status: 'done', endedAt: 't1' })
+      expect(readCmd().cmdId).toBe(second.command.cmdId)
+      expect(queue.list(projectPath, 's1').map((c: any) => c.status)).toEqual(['done', 'sent'])
+    })
+
+    it('should report duplicates of commands still in the queue', () => {
+      const first = queue.enqueue(projectPath, 's1', '/design', { stepId: 'step-1' })
+      const again = queue.enqueue(projectPath, 's1', '/design', { stepId: 'step-1' })
+
+      expect(again).toMatchObject({ duplicate: true, position: 0 })
+      expect(again.command.cmdId).toBe(first.command.cmdId)
+      expect(queue.list(projectPath, 's1')).toHaveLength(1)
+    })
+
+    it('should keep queues separate per session', () => {
+      queue.enqueue(projectPath, 's1', '/design')
+      const other = queue.enqueue(projectPath, 's2', '/design')
+
+      expect(other).toMatchObject({ duplicate: false, position: 0 })
+    })
+  })
+
+  describe('SQ-002: 确认接收', () => {
+    it('should mark sent commands as running', () => {
+      const { command } = queue.enqueue(projectPath, 's1', '/design')
+
+      expect(queue.acknowledge(projectPath, 's1', command.cmdId, 't0')).toMatchObject({ status: 'running', ackAt: 't0' })
+      expect(queue.acknowledge(projectPath, 's1', command.cmdId)).toBeNull()
+      expect(queue.acknowledge(projectPath, 's1', 'cmd-unknown')).toBeNull()
+    })
+
+    it('should ignore results for unknown or finished commands', () => {
+      const { command } = queue.enqueue(projectPath, 's1', '/design')
+      queue.complete(projectPath, 's1', { cmdId: command.cmdId, status: 'failed' })
+
+      expect(queue.complete(projectPath, 's1', { cmdId: command.cmdId, status: 'success' })).toBeNull()
+      expect(queue.complete(projectPath, 's1', { cmdId: 'cmd-unknown', status: 'success' })).toBeNull()
+      expect(queue.list(projectPath, 's1')[0].result.status).toBe('failed')
+    })
+  })
+
+  describe('SQ-003: 取消', () => {
+    it('should cancel pending commands immediately', () => {
+      queue.enqueue(projectPath, 's1', '/design')
+      const { command } = queue.enqueue(projectPath, 's1', '/review')
+
+      expect(queue.cancel(projectPath, 's1', command.cmdId)).toMatchObject({ status: 'cancelled' })
+    })
+
+    it('should withdraw commands the CLI has not picked up and send the next one', () => {
+      const first = queue.enqueue(projectPath, 's1', '/design')
+      const second = queue.enqueue(projectPath, 's1', '/review')
+
+      queue.cancel(projectPath, 's1', first.command.cmdId)
+
+      expect(readCmd().cmdId).toBe(second.command.cmdId)
+    })
+
+    it('should request cancellation of running commands and wait for the CLI', () => {
+      const { command } = queue.enqueue(projectPath, 's1', '/design')
+      queue.acknowledge(projectPath, 's1', command.cmdId)
+
+      expect(queue.cancel(projectPath, 's1', command.cmdId)).toMatchObject({ status: 'cancelling' })
+      expect(JSON.parse(readFileSync(sessionFile('.cancel'), 'utf-8')).cmdId).toBe(command.cmdId)
+
+      const confirmed = queue.complete(projectPath, 's1', { cmdId: command.cmdId, status: 'cancelled' })
+
+      expect(confirmed).toMatchObject({ status: 'cancelled' })
+      expect(existsSync(sessionFile('.cancel'))).toBe(false)
+    })
+
+    it('should force-cancel when cancelling again without confirmation', () => {
+      const first = queue.enqueue(projectPath, 's1', '/design')
+      const second = queue.enqueue(projectPath, 's1', '/review')
+      queue.acknowledge(projectPath, 's1', first.command.cmdId)
+      queue.cancel(projectPath, 's1', first.command.cmdId)
+
+      expect(queue.cancel(projectPath, 's1', first.command.cmdId)).toMatchObject({ status: 'cancelled' })
+      expect(existsSync(sessionFile('.cancel'))).toBe(false)
+      expect(readCmd().cmdId).toBe(second.command.cmdId)
+    })
+
+    it('should return null for unknown commands', () => {
+      expect(queue.cancel(projectPath, 's1', 'cmd-unknown')).toBeNull()
+    })
+  })
+
+  describe('SQ-004: 持久化', () => {
+    it('should restore the queue from disk', () => {
+      const { command } = queue.enqueue(projectPath, 's1', '/design')
+
+      ;(SessionCommandQueueService as any).instance = null
+      const reloaded = SessionCommandQueueService.getInstance()
+
+      expect(reloaded.list(projectPath, 's1')).toEqual([
+        expect.objectContaining({ cmdId: command.cmdId, status: 'sent' })
+      ])
+    })
+
+    it('should keep only the most recent finished commands', () => {
+      for (let i = 0; i < MAX_FINISHED_COMMANDS + 3; i++) {
+        const { command } = queue.enqueue(projectPath, 's1', `/cmd-${i}`)
+        queue.complete(projectPath, 's1', { cmdId: command.cmdId, status: 'success' })
+      }
+
+      const commands = queue.list(projectPath, 's1')
+      expect(commands).toHaveLength(MAX_FINISHED_COMMANDS)
+      expect(commands[0].command).toBe('/cmd-3')
+    })
+  })
+
+  describe('SQ-005: 变更通知', () => {
+    it('should emit change events with the session queue', () => {
+      const listener = vi.fn()
+      queue.on('change', listener)
+
+      const { command } = queue.enqueue(projectPath, 's1', '/design')
+
+      expect(listener).toHaveBeenCalledWith({
+        projectPath,
+        sessionId: 's1',
+        commands: [expect.objectContaining({ cmdId: command.cmdId, status: 'sent' })]
+      })
+    })
+  })
+
+  describe('SQ-006: Session 断开', () => {
+    it('should reroute commands the CLI has not picked up', () => {
+      const first = queue.enqueue(projectPath, 's1', '/design')
+      const second = queue.enqueue(projectPath, 's1', '/review')
+
+      const { rerouted, failed } = queue.evacuate(projectPath, 's1', 's2', 'gone')
+
+      expect(failed).toEqual([])
+      expect(rerouted.map((c: any) => c.cmdId)).toEqual([first.command.cmdId, second.command.cmdId])
+      expect(existsSync(sessionFile('.cmd'))).toBe(false)
+      expect(queue.list(projectPath, 's1')).toEqual([])
+      expect(queue.list(projectPath, 's2').map((c: any) => [c.status, c.reroutedFrom])).toEqual([
+        ['sent', 's1'],
+        ['pending', 's1']
+      ])
+      const cmd = JSON.parse(readFileSync(join(projectPath, '.claude', 'gui-sessions', 'session-s2.cmd'), 'utf-8'))
+      expect(cmd.cmdId).toBe(first.command.cmdId)
+    })
+
+    it('should fail running commands and everything without a target', () => {
+      const first = queue.enqueue(projectPath, 's1', '/design')
+      queue.enqueue(projectPath, 's1', '/review')
+      queue.acknowledge(projectPath, 's1', first.command.cmdId)
+
+      const { rerouted, failed } = queue.evacuate(projectPath, 's1', null, 'gone')
+
+      expect(rerouted).toEqual([])
+      expect(failed.map((c: any) => c.result)).toEqual([
+        expect.objectContaining({ cmdId: first.command.cmdId, status: 'failed', error: 'gone' }),
+        expect.objectContaining({ status: 'failed', error: 'gone' })
+      ])
+      expect(queue.list(projectPath, 's1').every((c: any) => c.status === 'done')).toBe(true)
+    })
+  })
+
+  describe('SQ-007: 非法 Session ID', () => {
+    it('should refuse session ids that escape the sessions directory', () => {
+      expect(() => queue.enqueue(projectPath, '../../escaped', '/design')).toThrow(/Invalid session id/)
+      expect(existsSync(join(projectPath, 'escaped.cmd'))).toBe(false)
+      expect(existsSync(join(projectPath, '.claude', 'session-../escaped.cmd'))).toBe(false)
+    })
+  })
+})
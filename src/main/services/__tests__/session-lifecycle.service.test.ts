@@ -0,0 +1,252 @@
+/**
+ * Session Lifecycle Service 单元测试
+ * 对应 60_TEST_PLAN.md SL-001 ~ SL-006
+ *
+ * 在临时目录中读写真实的协议文件，以假时钟推进心跳时间
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { spawnSync } from 'child_process'
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, existsSync, rmSync, unlinkSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+const START = new Date('2030-01-01T10:00:00.000Z')
+
+/** 已退出进程的 pid */
+const deadPid = () => spawnSync(process.execPath, ['-e', '']).pid
+
+describe('SessionLifecycleService', () => {
+  let service: any
+  let queue: any
+  let resolveSessionStatus: any
+  let projectPath: string
+  let sessionsDir: string
+
+  const writeSession = (id: string, overrides: Record<string, unknown> = {}) => {
+    writeFileSync(join(sessionsDir, `session-${id}.json`), JSON.stringify({
+      id,
+      pid: process.pid,
+      createdAt: START.toISOString(),
+      lastActiveAt: START.toISOString(),
+      heartbeatAt: new Date().toISOString(),
+      terminal: { type: 'console', platform: 'linux', title: 'test' },
+      status: 'active',
+      projectPath,
+      ...overrides
+    }))
+  }
+
+  const writeSettings = (content: string) => writeFileSync(join(projectPath, '.claude', 'session-lifecycle.yaml'), content)
+
+  const advance = (ms: number) => vi.setSystemTime(new Date(Date.now() + ms))
+
+  beforeEach(async () => {
+    vi.resetModules()
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(START)
+
+    const module = await import('../session-lifecycle.service')
+    service = module.sessionLifecycleService
+    resolveSessionStatus = module.resolveSessionStatus
+    queue = (await import('../session-command-queue.service')).sessionCommandQueueService
+
+    projectPath = mkdtempSync(join(tmpdir(), 'ha-loop-session-lifecycle-'))
+    sessionsDir = join(projectPath, '.claude', 'gui-sessions')
+    mkdirSync(sessionsDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    service.stop()
+    vi.useRealTimers()
+    rmSync(projectPath, { recursive: true, force: true })
+  })
+
+  describe('SL-001: 状态判定', () => {
+    const session = (overrides: Record<string, unknown> = {}) => ({
+      id: 's1',
+      pid: process.pid,
+      heartbeatAt: START.toISOString(),
+      status: 'active',
+      ...overrides
+    })
+
+    it('should judge by heartbeat age', () => {
+      const now = START.getTime()
+      expect(resolveSessionStatus(session(), now + 60 * 1000)).toEqual({ status: 'active' })
+      expect(resolveSessionStatus(session(), now + 61 * 1000)).toEqual({ status: 'stale', reason: 'heartbeat' })
+      expect(resolveSessionStatus(session(), now + 301 * 1000)).toEqual({ status: 'disconnected', reason: 'heartbeat' })
+    })
+
+    it('should be disconnected when the process has exited', () => {
+      expect(resolveSessionStatus(session({ pid: deadPid() }), START.getTime()))
+        .toEqual({ status: 'disconnected', reason: 'exited' })
+    })
+
+    it('should trust the socket connection over the pid', () => {
+      expect(resolveSessionStatus(session({ pid: deadPid(), transport: 'socket' }), START.getTime()))
+        .toEqual({ status: 'active' })
+    })
+
+    it('should keep sessions the CLI marked disconnected', () => {
+      expect(resolveSessionStatus(session({ status: 'disconnected' }), START.getTime()))
+        .toEqual({ status: 'disconnected', reason: 'closed' })
+    })
+  })
+
+  describe('SL-002: 状态变化', () => {
+    it('should emit a transition for each status change', async () => {
+      const transitions: any[] = []
+      service.on('transition', (event: any) => transitions.push(event.transition))
+      writeSession('s1')
+
+      expect(await service.sweep(projectPath)).toEqual([])
+
+      advance(61 * 1000)
+      await service.sweep(projectPath)
+      advance(4 * 60 * 1000)
+      await service.sweep(projectPath)
+      await service.sweep(projectPath)
+
+      expect(transitions).toEqual([
+        { sessionId: 's1', from: 'active', to: 'stale', reason: 'heartbeat' },
+        { sessionId: 's1', from: 'stale', to: 'disconnected', reason: 'heartbeat' }
+      ])
+    })
+
+    it('should report sessions that vanished since the last sweep', async () => {
+      writeSession('s1')
+      await service.sweep(projectPath)
+
+      unlinkSync(join(sessionsDir, 'session-s1.json'))
+
+      expect(await service.sweep(projectPath)).toEqual([
+        { sessionId: 's1', from: 'active', to: 'disconnected', reason: 'closed' }
+      ])
+    })
+
+    it('should list sessions with resolved statuses', () => {
+      writeSession('s1', { pid: deadPid() })
+      writeSession('s2')
+
+      expect(service.listSessions(projectPath).map((s: any) => [s.id, s.status, s.transport])).toEqual(
+        expect.arrayContaining([['s1', 'disconnected', 'file'], ['s2', 'active', 'file']])
+      )
+    })
+  })
+
+  describe('SL-003: 断开时的命令', () => {
+    it('should reroute pending commands to another active session', async () => {
+      writeSession('s1')
+      writeSession('s2')
+      const first = queue.enqueue(projectPath, 's1', '/design')
+      const second = queue.enqueue(projectPath, 's1', '/review')
+
+      writeSession('s1', { pid: deadPid() })
+      const [transition] = await service.sweep(projectPath)
+
+      expect(transition).toMatchObject({ sessionId: 's1', to: 'disconnected', reason: 'exited', reroutedTo: 's2' })
+      expect(queue.list(projectPath, 's2').map((c: any) => c.cmdId)).toEqual([first.command.cmdId, second.command.cmdId])
+    })
+
+    it('should fail commands when rerouting is disabled', async () => {
+      writeSettings('reroute_pending: false\n')
+      writeSession('s1')
+      writeSession('s2')
+      const { command } = queue.enqueue(projectPath, 's1', '/design')
+      const failed: any[] = []
+      service.on('failed', (event: any) => failed.push(event))
+
+      writeSession('s1', { status: 'disconnected' })
+      const [transition] = await service.sweep(projectPath)
+
+      expect(transition.reroutedTo).toBeUndefined()
+      expect(failed).toEqual([
+        { projectPath, sessionId: 's1', result: expect.objectContaining({ cmdId: command.cmdId, status: 'failed' }) }
+      ])
+      expect(existsSync(join(sessionsDir, 'session-s1.cmd'))).toBe(false)
+    })
+  })
+
+  describe('SL-004: 保留期清理', () => {
+    it('should archive files of sessions disconnected longer than the retention', async () => {
+      writeSettings('retention_hours: 1\n')
+      writeSession('s1', { status: 'disconnected' })
+      writeFileSync(join(sessionsDir, 'session-s1.result'), '{"cmdId":"cmd-1","status":"success"}')
+      await service.sweep(projectPath)
+      expect(existsSync(join(sessionsDir, 'session-s1.json'))).toBe(true)
+
+      advance(2 * 60 * 60 * 1000)
+      const transitions = await service.sweep(projectPath)
+
+      expect(transitions).toEqual([{ sessionId: 's1', from: 'disconnected', to: 'archived', reason: 'retention' }])
+      expect(existsSync(join(sessionsDir, 'session-s1.json'))).toBe(false)
+      expect(readFileSync(join(sessionsDir, 'archive', 'session-s1.result'), 'utf-8')).toContain('cmd-1')
+    })
+
+    it('should remove files when configured and keep live sessions', async () => {
+      writeSettings('retention_hours: 0\ncleanup: remove\n')
+      writeSession('s1', { status: 'disconnected' })
+      writeSession('s2')
+      advance(1000)
+
+      await service.sweep(projectPath)
+
+      expect(existsSync(join(sessionsDir, 'session-s1.json'))).toBe(false)
+      expect(existsSync(join(sessionsDir, 'archive'))).toBe(false)
+      expect(existsSync(join(sessionsDir, 'session-s2.json'))).toBe(true)
+    })
+  })
+
+  describe('SL-005: 设置', () => {
+    it('should fall back to defaults for missing or invalid settings', async () => {
+      expect(await service.getSettings(projectPath)).toEqual({ retentionHours: 24, cleanup: 'archive', reroutePending: true })
+
+      writeSettings('retention_hours: -1\ncleanup: shred\nreroute_pending: false\n')
+
+      expect(await service.getSettings(projectPath)).toEqual({ retentionHours: 24, cleanup: 'archive', reroutePending: false })
+    })
+  })
+
+  describe('SL-006: Feature 分配', () => {
+    it('should persist assigned features and merge them into the session list', () => {
+      writeSession('s1', { features: ['F001'] })
+      writeSession('s2')
+
+      const sessions = service.assignFeatures(projectPath, 's2', ['F002', ' F002 ', 'F003'])
+
+      expect(sessions.find((s: any) => s.id === 's2').assignedFeatures).toEqual(['F002', 'F003'])
+      expect(sessions.find((s: any) => s.id === 's1')).toMatchObject({ features: ['F001'] })
+      expect(sessions.find((s: any) => s.id === 's1').assignedFeatures).toBeUndefined()
+      expect(JSON.parse(readFileSync(join(sessionsDir, 'bindings.json'), 'utf-8'))).toEqual({ s2: ['F002', 'F003'] })
+
+      service.assignFeatures(projectPath, 's2', [])
+      expect(JSON.parse(readFileSync(join(sessionsDir, 'bindings.json'), 'utf-8'))).toEqual({})
+    })
+
+    it('should reroute commands to a session working on the same feature', async () => {
+      writeSession('s1', { features: ['F001'] })
+      writeSession('s2', { lastActiveAt: new Date(START.getTime() + 1000).toISOString() })
+      writeSession('s3')
+      service.assignFeatures(projectPath, 's3', ['F001'])
+      const { command } = queue.enqueue(projectPath, 's1', '/design')
+
+      writeSession('s1', { features: ['F001'], status: 'disconnected' })
+      const [transition] = await service.sweep(projectPath)
+
+      expect(transition).toMatchObject({ sessionId: 's1', reroutedTo: 's3' })
+      expect(queue.list(projectPath, 's3').map((c: any) => c.cmdId)).toEqual([command.cmdId])
+    })
+
+    it('should drop the assignment when the session is cleaned up', async () => {
+      writeSettings('retention_hours: 0\ncleanup: remove\n')
+      writeSession('s1', { status: 'disconnected' })
+      service.assignFeatures(projectPath, 's1', ['F001'])
+      advance(1000)
+
+      await service.sweep(projectPath)
+
+      expect(JSON.parse(readFileSync(join(sessionsDir, 'bindings.json'), 'utf-8'))).toEqual({})
+    })
+  })
+})
@@ -0,0 +1,235 @@
+/**
+ * Session Socket Service 单元测试
+ * 对应 60_TEST_PLAN.md SS-001 ~ SS-005
+ *
+ * 在临时目录中监听真实的 Unix socket，以 JSON Lines 客户端模拟 CLI
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, readFileSync, existsSync, rmSync } from 'fs'
+import { createConnection, type Socket } from 'net'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+/** 模拟 CLI 的 socket 客户端 */
+interface TestClient {
+  socket: Socket
+  send: (message: object) => void
+  next: () => Promise<any>
+  closed: Promise<void>
+}
+
+function connect(socketPath: string): Promise<TestClient> {
+  return new Promise((resolve, reject) => {
+    const socket = createConnection(socketPath)
+    const messages: any[] = []
+    const waiters: ((message: any) => void)[] = []
+    let buffer = ''
+
+    socket.setEncoding('utf-8')
+    socket.on('data', (chunk: string) => {
+      buffer += chunk
+      let newline = buffer.indexOf('\n')
+      while (newline >= 0) {
+        const message = JSON.parse(buffer.slice(0, newline))
+        buffer = buffer.slice(newline + 1)
+        const waiter = waiters.shift()
+        if (waiter) waiter(message)
+        else messages.push(message)
+        newline = buffer.indexOf('\n')
+      }
+    })
+
+    const closed = new Promise<void>(done => socket.on('close', () => done()))
+    socket.once('error', reject)
+    socket.once('connect', () => resolve({
+      socket,
+      send: message => socket.write(`${JSON.stringify(message)}\n`),
+      next: () => messages.length > 0
+        ? Promise.resolve(messages.shift())
+        : new Promise(done => waiters.push(done)),
+      closed
+    }))
+  })
+}
+
+/** 等待服务发出事件 */
+function once(emitter: any, event: string): Promise<any> {
+  return new Promise(resolve => emitter.once(event, resolve))
+}
+
+const terminal = { type: 'terminal', app: 'Terminal' }
+
+describe.skipIf(process.platform === 'win32')('SessionSocketService', () => {
+  let service: any
+  let queue: any
+  let negotiateVersion: (versions: unknown) => number | null
+  let projectPath: string
+  let socketPath: string
+  const clients: TestClient[] = []
+
+  const register = async (id = 's1', versions = [1]) => {
+    const client = await connect(socketPath)
+    clients.push(client)
+    client.send({ type: 'register', versions, session: { id, pid: 1234, terminal } })
+    return { client, reply: await client.next() }
+  }
+
+  beforeEach(async () => {
+    vi.resetModules()
+    const module = await import('../session-socket.service')
+    service = module.sessionSocketService
+    negotiateVersion = module.negotiateVersion
+    queue = (await import('../session-command-queue.service')).sessionCommandQueueService
+
+    projectPath = mkdtempSync(join(tmpdir(), 'ha-loop-session-socket-'))
+    socketPath = await service.start(projectPath)
+  })
+
+  afterEach(async () => {
+    for (const client of clients.splice(0)) {
+      client.socket.destroy()
+    }
+    await service.stopAll()
+    rmSync(projectPath, { recursive: true, force: true })
+  })
+
+  describe('SS-001: 启动与公告', () => {
+    it('should listen and advertise the socket transport', () => {
+      expect(socketPath).toBe(service.getSocketPath(projectPath))
+
+      const advertisement = JSON.parse(
+        readFileSync(join(projectPath, '.claude', 'gui-sessions', 'transport.json'), 'utf-8')
+      )
+      expect(advertisement).toMatchObject({ version: 1, transports: ['socket', 'file'], socketPath })
+    })
+
+    it('should remove the advertisement when stopped', async () => {
+      await service.stop(projectPath)
+
+      expect(existsSync(join(projectPath, '.claude', 'gui-sessions', 'transport.json'))).toBe(false)
+      expect(service.getSocketPath(projectPath)).toBeNull()
+    })
+  })
+
+  describe('SS-002: 注册与版本协商', () => {
+    it('should welcome a session and list it', async () => {
+      const { reply } = await register()
+
+      expect(reply).toMatchObject({ type: 'welcome', version: 1, transport: 'socket' })
+      expect(service.isConnected(projectPath, 's1')).toBe(true)
+      expect(service.listSessions(projectPath)).toEqual([
+        expect.objectContaining({ id: 's1', pid: 1234, status: 'active', transport: 'socket', projectPath })
+      ])
+    })
+
+    it('should reject a session without a common version', async () => {
+      const { client, reply } = await register('s1', [99])
+
+      expect(reply).toMatchObject({ type: 'error', code: 'unsupported_version', supportedVersions: [1] })
+      await client.closed
+      expect(service.isConnected(projectPath, 's1')).toBe(false)
+    })
+
+    it('should pick the highest common version', () => {
+      expect(negotiateVersion([1, 2, 3])).toBe(1)
+      expect(negotiateVersion([2])).toBeNull()
+      expect(negotiateVersion('1')).toBeNull()
+    })
+
+    it('should require register before other messages', async () => {
+      const client = await connect(socketPath)
+      clients.push(client)
+      client.send({ type: 'heartbeat', timestamp: 't1' })
+
+      expect(await client.next()).toMatchObject({ type: 'error', code: 'not_registered' })
+    })
+  })
+
+  describe('SS-003: CLI 消息', () => {
+    it('should update the heartbeat', async () => {
+      const { client } = await register()
+
+      const changed = once(service, 'change')
+      client.send({ type: 'heartbeat', timestamp: '2026-01-01T10:00:00.000Z' })
+      await changed
+
+      expect(service.listSessions(projectPath)[0].heartbeatAt).toBe('2026-01-01T10:00:00.000Z')
+    })
+
+    it('should emit ack, output and result events', async () => {
+      const { client } = await register()
+
+      const acked = once(service, 'ack')
+      client.send({ type: 'ack', cmdId: 'cmd-1', timestamp: 't1' })
+      expect(await acked).toEqual({ projectPath, sessionId: 's1', cmdId: 'cmd-1', timestamp: 't1' })
+
+      const output = once(service, 'output')
+      client.send({ type: 'output', cmdId: 'cmd-1', stream: 'stderr', content: 'warn', timestamp: 't2' })
+      expect(await output).toEqual({
+        projectPath,
+        sessionId: 's1',
+        entry: { cmdId: 'cmd-1', type: 'stderr', content: 'warn', timestamp: 't2' }
+      })
+
+      const result = once(service, 'result')
+      client.send({ type: 'result', result: { cmdId: 'cmd-1', status: 'success', timestamp: 't3' } })
+      await result
+
+      expect(service.getResult(projectPath, 's1', 'cmd-1')).toMatchObject({ status: 'success' })
+      expect(service.getResult(projectPath, 's1', 'cmd-2')).toBeNull()
+    })
+  })
+
+  describe('SS-004: 命令队列', () => {
+    it('should deliver commands over the socket instead of .cmd', async () => {
+      const { client } = await register()
+
+      const { command } = queue.enqueue(projectPath, 's1', '/design', { stepId: 'step-1' })
+
+      expect(await client.next()).toMatchObject({
+        type: 'command',
+        cmdId: command.cmdId,
+        command: '/design',
+        source: 'gui-button',
+        context: { stepId: 'step-1' }
+      })
+      expect(existsSync(join(projectPath, '.claude', 'gui-sessions', 'session-s1.cmd'))).toBe(false)
+    })
+
+    it('should send cancel for a running command', async () => {
+      const { client } = await register()
+      const { command } = queue.enqueue(projectPath, 's1', '/design')
+      await client.next()
+      queue.acknowledge(projectPath, 's1', command.cmdId)
+
+      const cancelled = queue.cancel(projectPath, 's1', command.cmdId)
+
+      expect(cancelled.status).toBe('cancelling')
+      expect(await client.next()).toMatchObject({ type: 'cancel', cmdId: command.cmdId })
+      expect(existsSync(join(projectPath, '.claude', 'gui-sessions', 'session-s1.cancel'))).toBe(false)
+    })
+  })
+
+  describe('SS-005: 断开连接', () => {
+    it('should remove the session when the connection closes', async () => {
+      const { client } = await register()
+
+      const changed = once(service, 'change')
+      client.socket.end()
+      await changed
+
+      expect(service.isConnected(projectPath, 's1')).toBe(false)
+      expect(service.listSessions(projectPath)).toEqual([])
+    })
+
+    it('should replace the connection when a session reconnects', async () => {
+      const first = await register()
+      const second = await register()
+
+      await first.client.closed
+      expect(second.reply.type).toBe('welcome')
+      expect(service.isConnected(projectPath, 's1')).toBe(true)
+    })
+  })
+})
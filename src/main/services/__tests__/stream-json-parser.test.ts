@@ -0,0 +1,145 @@
+/**
+ * Stream JSON Parser 单元测试
+ * 对应 60_TEST_PLAN.md SJ-001 ~ SJ-006
+ */
+
+import { describe, it, expect } from 'vitest'
+import { StreamJsonParser, parseStreamJsonMessage } from '../stream-json-parser'
+
+const line = (message: unknown) => JSON.stringify(message) + '\n'
+
+describe('StreamJsonParser', () => {
+  describe('SJ-001: assistant 消息', () => {
+    it('should parse text and tool_use blocks', () => {
+      const events = parseStreamJsonMessage({
+        type: 'assistant',
+        message: {
+          content: [
+            { type: 'text', text: 'Reading the design doc' },
+            { type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: 'docs/f/40_DESIGN.md' } }
+          ]
+        }
+      })
+
+      expect(events).toEqual([
+        { kind: 'assistant_text', text: 'Reading the design doc' },
+        { kind: 'tool_use', toolUseId: 'toolu_1', name: 'Read', input: { file_path: 'docs/f/40_DESIGN.md' } }
+      ])
+    })
+
+    it('should emit file_edit for editing tools', () => {
+      const events = parseStreamJsonMessage({
+        type: 'assistant',
+        message: {
+          content: [{ type: 'tool_use', id: 'toolu_2', name: 'Write', input: { file_path: 'a.md', content: 'x' } }]
+        }
+      })
+
+      expect(events[1]).toEqual({ kind: 'file_edit', toolUseId: 'toolu_2', tool: 'Write', filePath: 'a.md' })
+    })
+  })
+
+  describe('SJ-002: tool_result', () => {
+    it('should flatten array content and keep error flag', () => {
+      const events = parseStreamJsonMessage({
+        type: 'user',
+        message: {
+          content: [{
+            type: 'tool_result',
+            tool_use_id: 'toolu_1',
+            content: [{ type: 'text', text: 'line 1' }, { type: 'text', text: 'line 2' }],
+            is_error: true
+          }]
+        }
+      })
+
+      expect(events).toEqual([{ kind: 'tool_result', toolUseId: 'toolu_1', content: 'line 1\nline 2', isError: true }])
+    })
+  })
+
+  describe('SJ-003: result 与 usage', () => {
+    it('should convert usage to camelCase', () => {
+      const [event] = parseStreamJsonMessage({
+        type: 'result',
+        subtype: 'success',
+        is_error: false,
+        result: 'Done',
+        duration_ms: 1200,
+        num_turns: 3,
+        total_cost_usd: 0.0123,
+        usage: {
+          input_tokens: 100,
+          output_tokens: 50,
+          cache_creation_input_tokens: 10,
+          cache_read_input_tokens: 5
+        }
+      })
+
+      expect(event).toEqual({
+        kind: 'result',
+        subtype: 'success',
+        isError: false,
+        result: 'Done',
+        durationMs: 1200,
+        numTurns: 3,
+        totalCostUsd: 0.0123,
+        usage: { inputTokens: 100, outputTokens: 50, cacheCreationInputTokens: 10, cacheReadInputTokens: 5 }
+      })
+    })
+  })
+
+  describe('SJ-004: 分块缓冲', () => {
+    it('should buffer partial lines across chunks', () => {
+      const parser = new StreamJsonParser()
+      const text = line({ type: 'assistant', message: { content: [{ type: 'text', text: 'hello' }] } })
+
+      expect(parser.push(text.slice(0, 20)).events).toEqual([])
+      expect(parser.push(text.slice(20)).events).toEqual([{ kind: 'assistant_text', text: 'hello' }])
+    })
+
+    it('should parse trailing line on flush', () => {
+      const parser = new StreamJsonParser()
+      parser.push(JSON.stringify({ type: 'result', subtype: 'success', is_error: false }))
+
+      expect(parser.flush().events).toMatchObject([{ kind: 'result', subtype: 'success' }])
+    })
+  })
+
+  describe('SJ-005: 非 JSON 行与未知类型', () => {
+    it('should pass through plain text and ignore unknown messages', () => {
+      const parser = new StreamJsonParser()
+      const result = parser.push('Warning: something\n' + line({ type: 'stream_event' }) + '{broken\n')
+
+      expect(result.events).toEqual([])
+      expect(result.passthrough).toBe('Warning: something\n{broken\n')
+    })
+  })
+
+  describe('SJ-006: 字段类型不符', () => {
+    it('should drop fields with unexpected types', () => {
+      expect(parseStreamJsonMessage({
+        type: 'assistant',
+        message: { content: [null, 'text', { type: 'text', text: 42 }, { type: 'tool_use', id: 7, name: 'Write', input: { file_path: ['x'] } }] }
+      })).toEqual([{ kind: 'tool_use', toolUseId: '', name: 'Write', input: { file_path: ['x'] } }])
+
+      expect(parseStreamJsonMessage({
+        type: 'result',
+        subtype: 1,
+        result: { text: 'x' },
+        duration_ms: '1200',
+        usage: { input_tokens: '10', output_tokens: 5 }
+      })).toEqual([{
+        kind: 'result',
+        subtype: 'success',
+        isError: false,
+        result: undefined,
+        durationMs: undefined,
+        numTurns: undefined,
+        totalCostUsd: undefined,
+        usage: { inputTokens: 0, outputTokens: 5, cacheCreationInputTokens: 0, cacheReadInputTokens: 0 }
+      }])
+      expect(parseStreamJsonMessage({ type: 'user', message: { content: 'plain' } })).toEqual([])
+      expect(parseStreamJsonMessage([{ type: 'result' }])).toEqual([])
+    })
+  })
+})
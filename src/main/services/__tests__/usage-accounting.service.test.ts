@@ -0,0 +1,147 @@
+/**
+ * Usage Accounting Service 单元测试
+ * 对应 60_TEST_PLAN.md UA-001 ~ UA-006
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { parse as parseYaml } from 'yaml'
+
+// 内存文件系统
+const files = new Map<string, string>()
+
+// Mock fs/promises
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn(async (path: string) => {
+    if (!files.has(path)) {
+      throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' })
+    }
+    return files.get(path)
+  }),
+  writeFile: vi.fn(async (path: string, data: string) => {
+    files.set(path, data)
+  }),
+  mkdir: vi.fn(async () => undefined)
+}))
+
+const USAGE_PATH = '/test/project/docs/feature-a/91_USAGE_LOG.yaml'
+
+const createEntry = (overrides: Record<string, unknown> = {}) => ({
+  executionId: 'exec-1',
+  command: '/review',
+  projectPath: '/test/project',
+  featureId: 'feature-a',
+  stepId: 'design-review',
+  phaseId: 4,
+  status: 'completed',
+  startedAt: '2026-10-01T09:00:00.000Z',
+  endedAt: '2026-10-01T09:01:00.000Z',
+  duration: 60000,
+  exitCode: 0,
+  stdout: '',
+  stderr: '',
+  model: 'claude-sonnet-4-5',
+  usage: {
+    inputTokens: 1_000_000,
+    outputTokens: 100_000,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0
+  },
+  ...overrides
+})
+
+describe('UsageAccountingService', () => {
+  let UsageAccountingService: any
+  let usageAccountingService: any
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    vi.resetModules()
+    files.clear()
+
+    const module = await import('../usage-accounting.service')
+    UsageAccountingService = module.UsageAccountingService
+
+    ;(UsageAccountingService as any).instance = null
+    usageAccountingService = UsageAccountingService.getInstance()
+  })
+
+  describe('UA-001: estimateCost', () => {
+    it('should price by model substring and fall back to default', async () => {
+      const { estimateCost, DEFAULT_PRICE_TABLE } = await import('../usage-accounting.service')
+      const usage = { inputTokens: 1_000_000, outputTokens: 1_000_000, cacheCreationInputTokens: 0, cacheReadInputTokens: 0 }
+
+      expect(estimateCost(usage, 'claude-opus-4-1', DEFAULT_PRICE_TABLE)).toBe(90)
+      expect(estimateCost(usage, 'claude-3-5-haiku', DEFAULT_PRICE_TABLE)).toBe(4.8)
+      expect(estimateCost(usage, undefined, DEFAULT_PRICE_TABLE)).toBe(18)
+    })
+  })
+
+  describe('UA-002: record 聚合', () => {
+    it('should roll up to feature, phase and step and persist as YAML', async () => {
+      await usageAccountingService.record(createEntry())
+      const summary = await usageAccountingService.record(createEntry({ executionId: 'exec-2', stepId: 'design-doc' }))
+
+      // sonnet: 1M input * $3 + 0.1M output * $15 = $4.5 / 次
+      expect(summary.totals).toMatchObject({ executions: 2, inputTokens: 2_000_000, costUsd: 9, durationMs: 120000 })
+      expect(summary.phases['4'].executions).toBe(2)
+      expect(summary.steps['design-review']).toMatchObject({ executions: 1, costUsd: 4.5, phaseId: 4 })
+
+      const raw = parseYaml(files.get(USAGE_PATH)!)
+      expect(raw.totals.input_tokens).toBe(2_000_000)
+      expect(raw.steps['design-doc'].phase_id).toBe(4)
+    })
+
+    it('should ignore executions without usage or featureId', async () => {
+      expect(await usageAccountingService.record(createEntry({ usage: undefined }))).toBeNull()
+      expect(await usageAccountingService.record(createEntry({ featureId: undefined }))).toBeNull()
+      expect(files.size).toBe(0)
+    })
+  })
+
+  describe('UA-003: 并发写入', () => {
+    it('should not lose updates when recording in parallel', async () => {
+      await Promise.all([
+        usageAccountingService.record(createEntry({ executionId: 'a' })),
+        usageAccountingService.record(createEntry({ executionId: 'b' })),
+        usageAccountingService.record(createEntry({ executionId: 'c' }))
+      ])
+
+      const summary = await usageAccountingService.getFeatureUsage('/test/project', 'feature-a')
+      expect(summary.totals.executions).toBe(3)
+    })
+  })
+
+  describe('UA-004: 价格表', () => {
+    it('should merge project pricing over defaults', async () => {
+      await usageAccountingService.setPriceTable('/test/project', {
+        models: { sonnet: { input: 1, output: 2, cacheWrite: 0, cacheRead: 0 } }
+      })
+
+      const table = await usageAccountingService.getPriceTable('/test/project')
+      expect(table.models.sonnet.input).toBe(1)
+      expect(table.models.opus.input).toBe(15)
+
+      const summary = await usageAccountingService.record(createEntry())
+      expect(summary.totals.costUsd).toBe(1.2)
+    })
+  })
+
+  describe('UA-005: featureId 校验', () => {
+    it('should not write usage outside docs/ for invalid feature ids', async () => {
+      expect(await usageAccountingService.record(createEntry({ featureId: '../../outside' }))).toBeNull()
+      expect(await usageAccountingService.record(createEntry({ featureId: '..' }))).toBeNull()
+      expect(files.size).toBe(0)
+
+      await expect(usageAccountingService.getFeatureUsage('/test/project', '../x')).rejects.toThrow(/Invalid feature id/)
+    })
+  })
+
+  describe('UA-006: 耗时', () => {
+    it('should use the duration reported by the CLI', async () => {
+      const summary = await usageAccountingService.record(createEntry({ duration: 600000, reportedDurationMs: 42000 }))
+
+      expect(summary.totals.durationMs).toBe(42000)
+      expect(summary.steps['design-review'].durationMs).toBe(42000)
+    })
+  })
+})
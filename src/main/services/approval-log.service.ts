@@ -0,0 +1,372 @@
+/**
+ * 审批日志服务
+ * 以哈希链追加写入 .claude/state/approval_log.jsonl，并校验日志是否被改动
+ *
+ * 关键约束：
+ * - 只追加：每条日志记录上一条的 hash（prev_hash，首条为 64 个 0），
+ *   hash 为除 hash / signature 外全部字段（键排序后的 JSON）的 SHA-256
+ * - 本机存在用户密钥（~/.ha-loop-desk/approval_ed25519.pem）时，用 Ed25519 对 hash 签名，公钥随条目保存
+ * - 校验从头遍历：链开始前的旧日志（无 hash）视为未校验；链开始后出现内容被改、顺序被改、
+ *   条目被插入或删除、签名无效时报告第一个断点，断点之后的条目均视为未校验
+ * - 条目自带的公钥只用于验签：公钥未登记给审批人（.claude/roles.yaml keys）的条目视为未校验，
+ *   否则改动条目后重算哈希链并用新密钥签名即可伪造
+ * - 出现签名条目之后、或审批人已登记公钥时，未签名的条目视为未校验
+ * - 本机追加后把最后一条的 hash 记入 ~/.ha-loop-desk/approval_anchors.json，
+ *   校验时链中找不到该 hash 说明末尾的条目被删除
+ * - 最后一行无法解析（或链开始后缺少 hash）时拒绝追加，不会从链首重新开始
+ * - 同一进程内的追加按顺序执行，保证 prev_hash 指向真正的上一条
+ */
+
+import { readFile, writeFile, appendFile, mkdir, rename } from 'fs/promises'
+import { join, dirname } from 'path'
+import { homedir } from 'os'
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify, type KeyObject } from 'crypto'
+import type {
+  ApprovalLogEntry,
+  ApprovalLogRecord,
+  ApprovalLogVerification
+} from '../../shared/types/ipc.types'
+
+/** 审批日志（相对项目目录） */
+const LOG_FILE = join('.claude', 'state', 'approval_log.jsonl')
+
+/** 链首条目的 prev_hash */
+const GENESIS_HASH = '0'.repeat(64)
+
+/** 审批人（小写邮箱）→ 登记的公钥（base64 SPKI） */
+type TrustedKeys = Record<string, string[]>
+
+/** 本机最后追加的条目 */
+interface ApprovalLogAnchor {
+  hash: string
+  line: number
+}
+
+/** 校验选项 */
+interface VerifyChainOptions {
+  trustedKeys?: TrustedKeys
+  anchor?: ApprovalLogAnchor | null
+}
+
+/**
+ * 键排序后的 JSON，保证同一内容得到同一 hash
+ */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalize(item)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * 计算条目 hash（不含 hash 与 signature 字段）
+ */
+function computeEntryHash(entry: ApprovalLogEntry): string {
+  const { hash: _hash, signature: _signature, ...content } = entry
+  return createHash('sha256').update(canonicalize(content)).digest('hex')
+}
+
+/**
+ * 公钥指纹
+ */
+function getKeyId(publicKey: string): string {
+  return createHash('sha256').update(Buffer.from(publicKey, 'base64')).digest('hex').slice(0, 16)
+}
+
+/**
+ * 校验签名
+ */
+function verifySignature(entry: ApprovalLogEntry): boolean {
+  try {
+    const key = createPublicKey({ key: Buffer.from(entry.public_key ?? '', 'base64'), format: 'der', type: 'spki' })
+    return verify(null, Buffer.from(entry.hash ?? ''), key, Buffer.from(entry.signature ?? '', 'base64'))
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 校验日志内容，返回逐条结果与第一个断点
+ */
+function verifyChain(content: string, options: VerifyChainOptions = {}): ApprovalLogVerification {
+  const { trustedKeys = {}, anchor } = options
+  const lines = content.split('\n').filter(line => line.trim() !== '')
+  const records: ApprovalLogRecord[] = []
+  let previousHash: string | null = null
+  let signingStarted = false
+  let anchorFound = false
+  let brokenAt: number | undefined
+  let reason: string | undefined
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1
+    let entry: ApprovalLogEntry | null = null
+    try {
+      entry = JSON.parse(line) as ApprovalLogEntry
+    } catch {
+      // 无法解析的行在下面按断点处理
+    }
+
+    const record = (status: ApprovalLogRecord['status'], recordReason?: string): void => {
+      records.push({ line: lineNumber, entry, status, signed: !!entry?.signature, reason: recordReason })
+    }
+
+    if (brokenAt !== undefined) {
+      record('unverified', `第 ${brokenAt} 行之后的条目无法校验`)
+      return
+    }
+
+    let problem: string | undefined
+    if (!entry || typeof entry !== 'object') {
+      problem = '不是有效的 JSON'
+    } else if (!entry.hash) {
+      if (previousHash === null) {
+        record('unverified', '启用哈希链之前的记录')
+        return
+      }
+      problem = '缺少 hash，可能是插入的条目'
+    } else if (entry.prev_hash !== (previousHash ?? GENESIS_HASH)) {
+      problem = '与上一条不连续，可能有条目被删除、插入或调换'
+    } else if (computeEntryHash(entry) !== entry.hash) {
+      problem = '内容与 hash 不一致，条目已被修改'
+    } else if (entry.signature && !verifySignature(entry)) {
+      problem = '签名无效'
+    }
+
+    if (problem) {
+      brokenAt = lineNumber
+      reason = problem
+      record('broken', problem)
+      return
+    }
+
+    previousHash = entry!.hash!
+    anchorFound = anchorFound || previousHash === anchor?.hash
+
+    const approver = String(entry!.approved_by ?? '').toLowerCase()
+    const keys = trustedKeys[approver] ?? []
+    if (entry!.signature) {
+      signingStarted = true
+      if (!keys.includes(entry!.public_key ?? '')) {
+        record('unverified', `签名公钥（${getKeyId(entry!.public_key ?? '')}）未在 .claude/roles.yaml 中登记给 ${entry!.approved_by}`)
+        return
+      }
+    } else if (signingStarted || keys.length > 0) {
+      record('unverified', keys.length > 0 ? `${entry!.approved_by} 已登记签名公钥，条目却未签名` : '启用签名之后出现未签名的条目')
+      return
+    }
+
+    record('verified')
+  })
+
+  // 链完整时，本机最后写入的条目必须仍在链中
+  if (brokenAt === undefined && anchor && !anchorFound) {
+    brokenAt = lines.length + 1
+    reason = `缺少本机写入的第 ${anchor.line} 条日志，末尾的条目可能被删除`
+  }
+
+  return { valid: brokenAt === undefined, total: lines.length, brokenAt, reason, entries: records }
+}
+
+/**
+ * 审批日志服务（单例）
+ */
+class ApprovalLogService {
+  private static instance: ApprovalLogService | null = null
+
+  /** 串行化追加 */
+  private appendQueue: Promise<unknown> = Promise.resolve()
+
+  private constructor() {}
+
+  static getInstance(): ApprovalLogService {
+    if (!ApprovalLogService.instance) {
+      ApprovalLogService.instance = new ApprovalLogService()
+    }
+    return ApprovalLogService.instance
+  }
+
+  /**
+   * 本机用户签名密钥路径
+   */
+  getKeyPath(): string {
+    return join(homedir(), '.ha-loop-desk', 'approval_ed25519.pem')
+  }
+
+  /**
+   * 本机追加记录路径
+   */
+  getAnchorPath(): string {
+    return join(homedir(), '.ha-loop-desk', 'approval_anchors.json')
+  }
+
+  /**
+   * 读取本机签名密钥的指纹，未创建时返回 null
+   */
+  async getSigningKeyId(): Promise<string | null> {
+    const publicKey = await this.getSigningPublicKey()
+    return publicKey ? getKeyId(publicKey) : null
+  }
+
+  /**
+   * 读取本机签名公钥（base64 SPKI，登记到 .claude/roles.yaml keys），未创建时返回 null
+   */
+  async getSigningPublicKey(): Promise<string | null> {
+    const privateKey = await this.readPrivateKey()
+    return privateKey ? this.exportPublicKey(privateKey) : null
+  }
+
+  /**
+   * 创建本机签名密钥，已存在时直接返回
+   */
+  async createSigningKey(): Promise<{ keyId: string; created: boolean }> {
+    const existing = await this.getSigningKeyId()
+    if (existing) {
+      return { keyId: existing, created: false }
+    }
+
+    const { privateKey } = generateKeyPairSync('ed25519')
+    const keyPath = this.getKeyPath()
+    await mkdir(dirname(keyPath), { recursive: true })
+    await writeFile(keyPath, privateKey.export({ format: 'pem', type: 'pkcs8' }), { encoding: 'utf-8', mode: 0o600 })
+    return { keyId: getKeyId(this.exportPublicKey(privateKey)), created: true }
+  }
+
+  /**
+   * 追加审批日志：补充 prev_hash / hash，有密钥时签名
+   */
+  append(projectPath: string, entry: ApprovalLogEntry): Promise<ApprovalLogEntry> {
+    const task = this.appendQueue.then(() => this.appendChained(projectPath, entry))
+    this.appendQueue = task.catch(() => undefined)
+    return task
+  }
+
+  /**
+   * 检查能否追加审批日志
+   * @throws 最后一条日志无法确定 hash
+   */
+  async checkAppendable(projectPath: string): Promise<void> {
+    await this.appendQueue
+    await this.readLastHash(join(projectPath, LOG_FILE))
+  }
+
+  /**
+   * 校验项目审批日志
+   * @param trustedKeys 审批人登记的公钥，未登记的签名视为未校验
+   */
+  async verify(projectPath: string, trustedKeys: TrustedKeys = {}): Promise<ApprovalLogVerification> {
+    let content = ''
+    try {
+      content = await readFile(join(projectPath, LOG_FILE), 'utf-8')
+    } catch {
+      // 没有日志
+    }
+    const anchors = await this.readAnchors()
+    return verifyChain(content, { trustedKeys, anchor: anchors[projectPath] ?? null })
+  }
+
+  private async appendChained(projectPath: string, entry: ApprovalLogEntry): Promise<ApprovalLogEntry> {
+    const logPath = join(projectPath, LOG_FILE)
+
+    // 确保目录存在
+    await mkdir(dirname(logPath), { recursive: true })
+
+    const { hash: prevHash, line } = await this.readLastHash(logPath)
+    const chained: ApprovalLogEntry = { ...entry, prev_hash: prevHash }
+    const privateKey = await this.readPrivateKey()
+    if (privateKey) {
+      chained.public_key = this.exportPublicKey(privateKey)
+    }
+    chained.hash = computeEntryHash(chained)
+    if (privateKey) {
+      chained.signature = sign(null, Buffer.from(chained.hash), privateKey).toString('base64')
+    }
+
+    await appendFile(logPath, JSON.stringify(chained) + '\n', 'utf-8')
+    await this.writeAnchor(projectPath, { hash: chained.hash, line: line + 1 }).catch((error: Error) => {
+      console.warn('[ApprovalLog] Failed to record anchor:', error.message)
+    })
+    return chained
+  }
+
+  /**
+   * 最后一条日志的 hash 与行数；没有日志或全部是旧格式时从链首开始
+   * @throws 最后一行无法解析，或链开始后最后一条缺少 hash
+   */
+  private async readLastHash(logPath: string): Promise<{ hash: string; line: number }> {
+    let content: string
+    try {
+      content = await readFile(logPath, 'utf-8')
+    } catch {
+      return { hash: GENESIS_HASH, line: 0 }
+    }
+
+    const lines = content.split('\n').filter(line => line.trim() !== '')
+    if (lines.length === 0) {
+      return { hash: GENESIS_HASH, line: 0 }
+    }
+
+    let last: ApprovalLogEntry
+    try {
+      last = JSON.parse(lines[lines.length - 1]) as ApprovalLogEntry
+    } catch {
+      throw new Error(`Approval log line ${lines.length} is not valid JSON; refusing to append`)
+    }
+    if (last?.hash) {
+      return { hash: last.hash, line: lines.length }
+    }
+    const chainStarted = lines.some(line => {
+      try {
+        return !!(JSON.parse(line) as ApprovalLogEntry).hash
+      } catch {
+        return false
+      }
+    })
+    if (chainStarted) {
+      throw new Error(`Approval log line ${lines.length} has no hash after the chain started; refusing to append`)
+    }
+    return { hash: GENESIS_HASH, line: lines.length }
+  }
+
+  private async readAnchors(): Promise<Record<string, ApprovalLogAnchor>> {
+    try {
+      return JSON.parse(await readFile(this.getAnchorPath(), 'utf-8')) as Record<string, ApprovalLogAnchor>
+    } catch {
+      return {}
+    }
+  }
+
+  private async writeAnchor(projectPath: string, anchor: ApprovalLogAnchor): Promise<void> {
+    const anchorPath = this.getAnchorPath()
+    const anchors = await this.readAnchors()
+    anchors[projectPath] = anchor
+    await mkdir(dirname(anchorPath), { recursive: true })
+    await writeFile(`${anchorPath}.tmp`, JSON.stringify(anchors, null, 2), 'utf-8')
+    await rename(`${anchorPath}.tmp`, anchorPath)
+  }
+
+  private async readPrivateKey(): Promise<KeyObject | null> {
+    try {
+      return createPrivateKey(await readFile(this.getKeyPath(), 'utf-8'))
+    } catch {
+      return null
+    }
+  }
+
+  private exportPublicKey(privateKey: KeyObject): string {
+    return createPublicKey(privateKey).export({ format: 'der', type: 'spki' }).toString('base64')
+  }
+}
+
+// 导出单例
+export const approvalLogService = ApprovalLogService.getInstance()
+
+// 导出类型供测试使用
+export { ApprovalLogService, GENESIS_HASH, canonicalize, computeEntryHash, getKeyId, verifyChain }
+export type { TrustedKeys }
@@ -0,0 +1,285 @@
+/**
+ * 审批角色服务
+ * 读取项目角色文件（.claude/roles.yaml），解析 Phase Gate 的审批角色与法定人数，并计算多人审批状态
+ *
+ * 关键约束：
+ * - 未配置角色文件（或文件中没有 members）时返回 null，审批保持单人生效
+ * - 身份为 Git 邮箱，比较时忽略大小写
+ * - Gate 要求的角色依次取自：roles.yaml gates.{phase}.roles → Feature PHASE_GATE.yaml → 预设 gate_rules.approvers
+ * - 法定人数：all（默认，全部角色）| any（任意 1 个角色）| N（任意 N 个角色）；
+ *   未要求具体角色时，N 表示任意 N 名成员
+ * - 一名成员持有多个要求的角色时，一次审批同时计入这些角色
+ * - 每名成员只保留最后一次审批；存在驳回时步骤为 rejected，直到驳回人重新审批
+ * - keys 登记成员的审批签名公钥（base64 SPKI，可多个），审批日志只信任登记过的公钥；
+ *   keys 可单独配置，不要求 members
+ *
+ * 角色文件示例：
+ *   members:
+ *     pm@example.com: [PM]
+ *     arch@example.com: [Architect, Developer]
+ *   keys:
+ *     pm@example.com: MCowBQYDK2VwAyEA...
+ *   quorum: all
+ *   gates:
+ *     2:
+ *       roles: [PM, Architect]
+ *       quorum: 1
+ */
+
+import { readFile } from 'fs/promises'
+import { join } from 'path'
+import { parse as parseYaml } from 'yaml'
+import type { ApprovalQuorumStatus, ApprovalRecord } from '../../shared/types/ipc.types'
+import { gateCheckService } from './gate-check.service'
+
+/** 角色文件（相对项目目录） */
+const ROLES_FILE = join('.claude', 'roles.yaml')
+
+/** Feature 的 Gate 定义文件 */
+const PHASE_GATE_FILE = 'PHASE_GATE.yaml'
+
+/** 法定人数规则 */
+type QuorumRule = ApprovalQuorumStatus['rule']
+
+/** 项目角色配置 */
+export interface ApprovalRoster {
+  /** 身份（小写邮箱）→ 角色 */
+  members: Record<string, string[]>
+  /** 默认法定人数 */
+  quorum: QuorumRule
+  /** 按 Phase 覆盖的角色与法定人数 */
+  gates: Record<string, { roles: string[]; quorum?: QuorumRule }>
+}
+
+/** Gate 的审批要求 */
+export interface GateApprovalRequirement {
+  roles: string[]
+  rule: QuorumRule
+}
+
+/**
+ * 字符串或字符串数组转为列表
+ */
+function toList(value: unknown): string[] {
+  if (typeof value === 'string') return [value.trim()].filter(Boolean)
+  if (!Array.isArray(value)) return []
+  return value
+    .map(item => typeof item === 'string' ? item : (item as { role?: unknown } | null)?.role)
+    .filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+    .map(item => item.trim())
+}
+
+/**
+ * 解析法定人数：all / any / 正整数，其他值返回 undefined
+ */
+function parseQuorumRule(value: unknown): QuorumRule | undefined {
+  if (value === 'all') return 'all'
+  if (value === 'any') return 1
+  const count = Number(value)
+  return Number.isInteger(count) && count > 0 ? count : undefined
+}
+
+/**
+ * 解析 YAML 中保存的审批记录
+ */
+function parseApprovalRecords(value: unknown): ApprovalRecord[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object' && typeof item.user === 'string')
+    .map(item => ({
+      user: item.user as string,
+      roles: toList(item.roles),
+      action: item.action === 'reject' ? 'reject' : 'approve',
+      at: String(item.at ?? '')
+    }))
+}
+
+/**
+ * 记录一名成员的审批，替换其之前的审批
+ */
+function mergeApproval(approvals: ApprovalRecord[], record: ApprovalRecord): ApprovalRecord[] {
+  const user = record.user.toLowerCase()
+  return [...approvals.filter(item => item.user.toLowerCase() !== user), record]
+}
+
+/**
+ * 计算多人审批状态
+ */
+function evaluateQuorum(
+  requirement: GateApprovalRequirement,
+  approvals: ApprovalRecord[],
+  roster: ApprovalRoster | null
+): ApprovalQuorumStatus {
+  const approved = approvals.filter(item => item.action === 'approve')
+  const approvedUsers = new Set(approved.map(item => item.user.toLowerCase()))
+  const approvedRoles = requirement.roles.filter(role => approved.some(item => item.roles.includes(role)))
+  const missingRoles = requirement.roles.filter(role => !approvedRoles.includes(role))
+
+  let met: boolean
+  if (requirement.roles.length === 0) {
+    met = approved.length >= (requirement.rule === 'all' ? 1 : requirement.rule)
+  } else {
+    const needed = requirement.rule === 'all'
+      ? requirement.roles.length
+      : Math.min(requirement.rule, requirement.roles.length)
+    met = approvedRoles.length >= needed
+  }
+
+  const pendingApprovers = Object.entries(roster?.members ?? {})
+    .filter(([user, roles]) => !approvedUsers.has(user) && roles.some(role => missingRoles.includes(role)))
+    .map(([user]) => user)
+
+  return {
+    requiredRoles: requirement.roles,
+    rule: requirement.rule,
+    approvals,
+    approvedRoles,
+    missingRoles,
+    pendingApprovers,
+    met
+  }
+}
+
+/**
+ * 由多人审批状态得出步骤状态
+ */
+function resolveQuorumStatus(quorum: ApprovalQuorumStatus): 'approved' | 'rejected' | 'pending' {
+  if (quorum.approvals.some(item => item.action === 'reject')) return 'rejected'
+  return quorum.met ? 'approved' : 'pending'
+}
+
+/**
+ * 审批角色服务（单例）
+ */
+class ApprovalRolesService {
+  private static instance: ApprovalRolesService | null = null
+
+  private constructor() {}
+
+  static getInstance(): ApprovalRolesService {
+    if (!ApprovalRolesService.instance) {
+      ApprovalRolesService.instance = new ApprovalRolesService()
+    }
+    return ApprovalRolesService.instance
+  }
+
+  /**
+   * 读取项目角色配置，未配置时返回 null
+   * @throws 角色文件不是有效的 YAML
+   */
+  async getRoster(projectPath: string): Promise<ApprovalRoster | null> {
+    let content: string
+    try {
+      content = await readFile(join(projectPath, ROLES_FILE), 'utf-8')
+    } catch {
+      return null
+    }
+
+    const parsed = parseYaml(content) as Record<string, unknown> | null
+    if (!parsed || typeof parsed.members !== 'object' || !parsed.members) {
+      return null
+    }
+
+    const members: ApprovalRoster['members'] = {}
+    for (const [user, roles] of Object.entries(parsed.members as Record<string, unknown>)) {
+      members[user.trim().toLowerCase()] = toList(roles)
+    }
+
+    const gates: ApprovalRoster['gates'] = {}
+    if (parsed.gates && typeof parsed.gates === 'object') {
+      for (const [key, value] of Object.entries(parsed.gates as Record<string, unknown>)) {
+        const gate = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>
+        gates[key.replace(/^phase_/, '')] = { roles: toList(gate.roles), quorum: parseQuorumRule(gate.quorum) }
+      }
+    }
+
+    return { members, quorum: parseQuorumRule(parsed.quorum) ?? 'all', gates }
+  }
+
+  /**
+   * 读取成员登记的审批签名公钥（小写邮箱 → 公钥）
+   * 未配置或角色文件无效时返回空表，此时所有签名均视为未校验
+   */
+  async getTrustedKeys(projectPath: string): Promise<Record<string, string[]>> {
+    let parsed: Record<string, unknown> | null
+    try {
+      parsed = parseYaml(await readFile(join(projectPath, ROLES_FILE), 'utf-8')) as Record<string, unknown> | null
+    } catch {
+      return {}
+    }
+    if (!parsed || typeof parsed.keys !== 'object' || !parsed.keys) {
+      return {}
+    }
+
+    const keys: Record<string, string[]> = {}
+    for (const [user, value] of Object.entries(parsed.keys as Record<string, unknown>)) {
+      keys[user.trim().toLowerCase()] = toList(value)
+    }
+    return keys
+  }
+
+  /**
+   * 解析 Phase Gate 的审批要求
+   */
+  async getRequirement(
+    projectPath: string,
+    featurePath: string,
+    phase: number,
+    roster: ApprovalRoster
+  ): Promise<GateApprovalRequirement> {
+    const gate = roster.gates[String(phase)]
+    const featureGate = await this.getFeatureGate(featurePath, phase)
+
+    let roles = gate?.roles ?? []
+    if (roles.length === 0) roles = featureGate.roles
+    if (roles.length === 0) {
+      roles = await gateCheckService.getApprovers(projectPath, phase).catch(() => [])
+    }
+
+    return {
+      roles: [...new Set(roles)],
+      rule: gate?.quorum ?? featureGate.rule ?? roster.quorum
+    }
+  }
+
+  /**
+   * 审批人在该 Gate 要求中的角色；未要求具体角色时为其全部角色
+   * 返回空数组表示无权审批
+   */
+  getApproverRoles(roster: ApprovalRoster, requirement: GateApprovalRequirement, user: string): string[] {
+    const roles = roster.members[user.toLowerCase()] ?? []
+    return requirement.roles.length === 0
+      ? roles
+      : roles.filter(role => requirement.roles.includes(role))
+  }
+
+  /**
+   * 读取 Feature PHASE_GATE.yaml 中的审批角色
+   * 支持 phase_N / phase_N_xxx 下的 approvals.required_roles（可带 approvals.quorum）与 approvers 两种写法
+   */
+  private async getFeatureGate(featurePath: string, phase: number): Promise<{ roles: string[]; rule?: QuorumRule }> {
+    let parsed: Record<string, unknown> | null
+    try {
+      parsed = parseYaml(await readFile(join(featurePath, PHASE_GATE_FILE), 'utf-8')) as Record<string, unknown> | null
+    } catch {
+      return { roles: [] }
+    }
+
+    const prefix = `phase_${phase}`
+    const key = Object.keys(parsed ?? {}).find(item => item === prefix || item.startsWith(`${prefix}_`))
+    const section = (key && parsed?.[key] && typeof parsed[key] === 'object' ? parsed[key] : {}) as Record<string, unknown>
+    const approvals = (section.approvals && typeof section.approvals === 'object' ? section.approvals : {}) as Record<string, unknown>
+
+    const roles = toList(approvals.required_roles)
+    return {
+      roles: roles.length > 0 ? roles : toList(section.approvers),
+      rule: parseQuorumRule(approvals.quorum)
+    }
+  }
+}
+
+// 导出单例
+export const approvalRolesService = ApprovalRolesService.getInstance()
+
+// 导出类型供测试使用
+export { ApprovalRolesService, evaluateQuorum, mergeApproval, parseApprovalRecords, parseQuorumRule, resolveQuorumStatus }
@@ -0,0 +1,329 @@
+/**
+ * 执行前检查点服务
+ * 在 cc 负责的步骤执行前保存 Feature 文档目录（docs/{featureId}/）的快照，支持预览差异后一键回滚
+ *
+ * 关键约束：
+ * - 快照在执行开始时从磁盘同步读取（不依赖文件监控的基线），不会混入执行期间的写入
+ * - 内容按哈希写入 .claude/state/blobs/（与文件变更捕获共用），清单写入 .claude/state/checkpoints/{executionId}.json
+ * - 大文件 / 二进制文件只记录哈希，回滚时跳过
+ * - 91_USAGE_LOG.yaml 由应用在执行结束后写入，不纳入检查点，回滚时保持不变
+ * - 回滚恢复检查点中的文件，并删除目录中执行后新增的文件
+ * - 清单位于项目内、可被外部修改：root 必须是 docs/{featureId}，路径超出该目录的清单视为无效，回滚不会写入或删除目录外的文件
+ * - 每个项目保留最近 MAX_CHECKPOINTS 个检查点
+ */
+
+import { readFile, writeFile, mkdir, readdir, unlink } from 'fs/promises'
+import { dirname, join, resolve, sep } from 'path'
+import { EventEmitter } from 'events'
+import { fileChangeCaptureService, computeLineDiff, readSnapshot } from './file-change-capture.service'
+import type {
+  CheckpointFileChange,
+  CheckpointRollbackPreview,
+  CheckpointRollbackResult,
+  ExecutionCheckpoint
+} from '../../shared/types/ipc.types'
+
+/** 每个项目保留的检查点数量 */
+const MAX_CHECKPOINTS = 20
+
+/** 不纳入检查点的文件（应用自身写入的记录） */
+const EXCLUDED_FILE_NAMES = ['91_USAGE_LOG.yaml']
+
+/** 可作为目录名的 featureId */
+const FEATURE_ID_PATTERN = /^[\w.-]+$/
+
+/** 检查点元信息 */
+interface CheckpointMeta {
+  featureId: string
+  stepId?: string
+  command: string
+}
+
+/**
+ * 获取检查点清单目录
+ */
+function getCheckpointDir(projectPath: string): string {
+  return join(projectPath, '.claude', 'state', 'checkpoints')
+}
+
+/**
+ * 获取检查点清单路径
+ */
+function getCheckpointPath(projectPath: string, executionId: string): string {
+  return join(getCheckpointDir(projectPath), `${executionId}.json`)
+}
+
+/**
+ * 解析 Feature 目录内的相对路径；超出目录时返回 null
+ */
+function resolveInFeature(featurePath: string, target: string): string | null {
+  const root = resolve(featurePath)
+  const full = resolve(root, target)
+  return full === root || full.startsWith(root + sep) ? full : null
+}
+
+/**
+ * 校验检查点清单：root 必须是 docs/{featureId}，文件路径不得超出该目录
+ * 返回不符合的原因，合法时返回 null
+ */
+function validateCheckpoint(projectPath: string, checkpoint: ExecutionCheckpoint): string | null {
+  if (typeof checkpoint.featureId !== 'string' || !FEATURE_ID_PATTERN.test(checkpoint.featureId) || checkpoint.featureId === '..') {
+    return `invalid featureId ${JSON.stringify(checkpoint.featureId)}`
+  }
+  if (checkpoint.root !== `docs/${checkpoint.featureId}`) {
+    return `root ${JSON.stringify(checkpoint.root)} is not docs/${checkpoint.featureId}`
+  }
+  if (!Array.isArray(checkpoint.files)) {
+    return 'files is not a list'
+  }
+  const featurePath = join(projectPath, checkpoint.root)
+  const escaped = checkpoint.files.find(file =>
+    typeof file?.path !== 'string' || typeof file.hash !== 'string' ||
+    resolveInFeature(featurePath, join(projectPath, file.path)) === null
+  )
+  return escaped ? `path ${JSON.stringify(escaped?.path)} is outside ${checkpoint.root}` : null
+}
+
+/**
+ * 是否纳入检查点
+ */
+function isTracked(relativePath: string): boolean {
+  const name = relativePath.slice(relativePath.lastIndexOf('/') + 1)
+  return !EXCLUDED_FILE_NAMES.includes(name)
+}
+
+/**
+ * 递归列出目录下的文件（项目相对路径）；目录不存在时返回空列表
+ */
+async function listFiles(projectPath: string, relativeDir: string): Promise<string[]> {
+  let entries: Array<{ name: string; isDirectory(): boolean; isFile(): boolean }>
+  try {
+    entries = await readdir(join(projectPath, relativeDir), { withFileTypes: true })
+  } catch {
+    return []
+  }
+
+  const files: string[] = []
+  for (const entry of entries) {
+    const relativePath = `${relativeDir}/${entry.name}`
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(projectPath, relativePath))
+    } else if (entry.isFile() && isTracked(relativePath)) {
+      files.push(relativePath)
+    }
+  }
+  return files
+}
+
+/**
+ * 执行前检查点服务（单例）
+ */
+class CheckpointService extends EventEmitter {
+  private static instance: CheckpointService | null = null
+
+  /** 正在写入的检查点（executionId → 写入完成） */
+  private pending = new Map<string, Promise<ExecutionCheckpoint | null>>()
+
+  private constructor() {
+    super()
+  }
+
+  static getInstance(): CheckpointService {
+    if (!CheckpointService.instance) {
+      CheckpointService.instance = new CheckpointService()
+    }
+    return CheckpointService.instance
+  }
+
+  /**
+   * 创建检查点
+   * 快照在调用时同步取得，内容与清单随后异步写入；失败时返回 null
+   */
+  create(projectPath: string, executionId: string, meta: CheckpointMeta): Promise<ExecutionCheckpoint | null> {
+    if (!FEATURE_ID_PATTERN.test(meta.featureId) || meta.featureId === '..') {
+      return Promise.resolve(null)
+    }
+
+    const root = `docs/${meta.featureId}`
+    const snapshots = [...fileChangeCaptureService.snapshotDirectory(projectPath, root)]
+      .filter(([path]) => isTracked(path))
+      .sort(([a], [b]) => a.localeCompare(b))
+
+    const checkpoint: ExecutionCheckpoint = {
+      executionId,
+      featureId: meta.featureId,
+      stepId: meta.stepId,
+      command: meta.command,
+      createdAt: new Date().toISOString(),
+      root,
+      files: snapshots.map(([path, snapshot]) => ({
+        path,
+        hash: snapshot.hash,
+        restorable: snapshot.content !== undefined
+      }))
+    }
+
+    const write = (async () => {
+      try {
+        for (const [, snapshot] of snapshots) {
+          await fileChangeCaptureService.storeBlob(projectPath, snapshot)
+        }
+        await mkdir(getCheckpointDir(projectPath), { recursive: true })
+        await writeFile(
+          getCheckpointPath(projectPath, executionId),
+          JSON.stringify(checkpoint, null, 2),
+          'utf-8'
+        )
+        await this.prune(projectPath)
+        this.emit('created', checkpoint)
+        return checkpoint
+      } catch (error) {
+        console.warn('[Checkpoint] Failed to create checkpoint:', (error as Error).message)
+        return null
+      } finally {
+        this.pending.delete(executionId)
+      }
+    })()
+
+    this.pending.set(executionId, write)
+    return write
+  }
+
+  /**
+   * 读取检查点；不存在或清单无效时返回 null
+   */
+  async get(projectPath: string, executionId: string): Promise<ExecutionCheckpoint | null> {
+    await this.pending.get(executionId)
+    let checkpoint: ExecutionCheckpoint
+    try {
+      const content = await readFile(getCheckpointPath(projectPath, executionId), 'utf-8')
+      checkpoint = JSON.parse(content) as ExecutionCheckpoint
+    } catch {
+      return null
+    }
+
+    const invalid = validateCheckpoint(projectPath, checkpoint)
+    if (invalid) {
+      console.warn(`[Checkpoint] Ignoring checkpoint ${executionId}: ${invalid}`)
+      return null
+    }
+    return checkpoint
+  }
+
+  /**
+   * 预览回滚：当前文件 → 检查点版本的差异
+   */
+  async preview(projectPath: string, executionId: string): Promise<CheckpointRollbackPreview | null> {
+    const checkpoint = await this.get(projectPath, executionId)
+    if (!checkpoint) return null
+
+    const changes: CheckpointFileChange[] = []
+    const saved = new Set(checkpoint.files.map(file => file.path))
+
+    for (const file of checkpoint.files) {
+      const current = await readSnapshot(join(projectPath, file.path))
+      if (current?.hash === file.hash) continue
+
+      const content = file.restorable
+        ? await fileChangeCaptureService.readBlob(projectPath, file.hash)
+        : null
+      const restorable = content !== null
+      changes.push({
+        path: file.path,
+        type: current ? 'update' : 'create',
+        restorable,
+        lines: restorable && (!current || current.content !== undefined)
+          ? computeLineDiff(current?.content ?? '', content)
+          : []
+      })
+    }
+
+    for (const path of await listFiles(projectPath, checkpoint.root)) {
+      if (saved.has(path)) continue
+      const current = await readSnapshot(join(projectPath, path))
+      changes.push({
+        path,
+        type: 'delete',
+        restorable: true,
+        lines: current?.content !== undefined ? computeLineDiff(current.content, '') : []
+      })
+    }
+
+    return {
+      checkpoint,
+      changes: changes.sort((a, b) => a.path.localeCompare(b.path))
+    }
+  }
+
+  /**
+   * 回滚到检查点
+   */
+  async restore(projectPath: string, executionId: string): Promise<CheckpointRollbackResult | null> {
+    const preview = await this.preview(projectPath, executionId)
+    if (!preview) return null
+
+    const result: CheckpointRollbackResult = { restored: [], removed: [], skipped: [] }
+    const hashes = new Map(preview.checkpoint.files.map(file => [file.path, file.hash]))
+    const featurePath = join(projectPath, preview.checkpoint.root)
+
+    for (const change of preview.changes) {
+      const filePath = resolveInFeature(featurePath, join(projectPath, change.path))
+      if (!filePath) {
+        throw new Error(`${change.path} is outside ${preview.checkpoint.root}`)
+      }
+
+      if (change.type === 'delete') {
+        await unlink(filePath)
+        result.removed.push(change.path)
+        continue
+      }
+
+      const content = change.restorable
+        ? await fileChangeCaptureService.readBlob(projectPath, hashes.get(change.path)!)
+        : null
+      if (content === null) {
+        result.skipped.push(change.path)
+        continue
+      }
+
+      await mkdir(dirname(filePath), { recursive: true })
+      await writeFile(filePath, content, 'utf-8')
+      result.restored.push(change.path)
+    }
+
+    this.emit('restored', { executionId, ...result })
+    return result
+  }
+
+  // ========== 私有方法 ==========
+
+  /**
+   * 只保留最近的 MAX_CHECKPOINTS 个检查点清单
+   * 内容按哈希共用，不随清单删除
+   */
+  private async prune(projectPath: string): Promise<void> {
+    const names = (await readdir(getCheckpointDir(projectPath))).filter(name => name.endsWith('.json'))
+    if (names.length <= MAX_CHECKPOINTS) return
+
+    const checkpoints: Array<{ name: string; createdAt: string }> = []
+    for (const name of names) {
+      try {
+        const content = await readFile(join(getCheckpointDir(projectPath), name), 'utf-8')
+        checkpoints.push({ name, createdAt: (JSON.parse(content) as ExecutionCheckpoint).createdAt })
+      } catch {
+        checkpoints.push({ name, createdAt: '' })
+      }
+    }
+
+    checkpoints.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    for (const { name } of checkpoints.slice(MAX_CHECKPOINTS)) {
+      await unlink(join(getCheckpointDir(projectPath), name)).catch(() => undefined)
+    }
+  }
+}
+
+// 导出单例
+export const checkpointService = CheckpointService.getInstance()
+
+// 导出类型供测试使用
+export { CheckpointService, MAX_CHECKPOINTS }
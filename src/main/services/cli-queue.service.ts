@@ -3,21 +3,46 @@
  * CODE-006: 实现 CLI 命令串行化执行
  *
  * 关键约束（DESIGN 1.3 节）：
- * - 全局队列，任意时刻只执行一个 CLI 命令
+ * - 按 featureId 划分执行通道（lane），同一 Feature 的命令串行执行
+ * - 不同 Feature 的命令可并行，受全局并发上限约束
  * - FIFO 顺序
  * - 支持取消正在排队的命令
+ * - 支持调整排队顺序、清空队列（cli:queueReorder / cli:queueClear）
+ * - 执行结束时发出 'finished' 事件，携带完整输出供执行历史持久化
+ * - outputFormat 为 stream-json 时，将 CLI 输出解析为结构化事件（cli:event）
+ * - 其余带 featureId 的 print 模式 claude 调用以 --output-format json 运行，取出结果文本作为输出，并记录 CLI 报告的用量与耗时
+ * - 以结构化 argv 调用 spawn，不经过 shell；仅 request.shell 为 true（已确认的 bash 命令）时使用 shell
+ * - argv.env 只追加允许列表中的环境变量（ALLOWED_ENV_NAMES / HA_LOOP_ 前缀）
+ * - 取消 / 超时终止整个进程组：先发送 SIGTERM，宽限期（可按步骤配置）后仍未退出则 SIGKILL
+ * - 被取消 / 超时的命令在进程 close 之前继续占用 lane 与并发名额
+ * - 进程结束时发送 cli:complete，携带结束原因（exited / cancelled / timeout）
+ * - 仅 interactive 执行保持 stdin 打开，通过 writeInput 转发用户输入；其余执行 stdin 直接关闭
  */
 
 import { spawn, ChildProcess } from 'child_process'
 import { BrowserWindow } from 'electron'
 import { randomUUID } from 'crypto'
 import { EventEmitter } from 'events'
-import type { CliExecuteRequest, CliOutputEvent } from '../../shared/types/ipc.types'
+import { resolve as resolvePath } from 'path'
+import type {
+  CliArgv,
+  CliCompleteEvent,
+  CliExecuteRequest,
+  CliOutputEvent,
+  CliStreamEvent,
+  CliStreamEventMessage,
+  CliUsage,
+  CliQueueItem,
+  CliQueueConfig,
+  ExecutionHistoryEntry
+} from '../../shared/types/ipc.types'
 import { CLI_CHANNELS } from '../../shared/constants/ipc-channels'
+import { StreamJsonParser } from './stream-json-parser'
 
 /** 队列项 */
 interface QueueItem {
   id: string
+  lane: string
   request: CliExecuteRequest
   window: BrowserWindow
   resolve: (value: ExecutionResult) => void
@@ -25,6 +50,37 @@ interface QueueItem {
   queuedAt: Date
 }
 
+/** 执行中的命令 */
+interface RunningExecution {
+  id: string
+  lane: string
+  process: ChildProcess
+  startedAt: Date
+  request: CliExecuteRequest
+  window: BrowserWindow
+  timeoutId?: NodeJS.Timeout
+  /** 累积的标准输出（写入执行历史） */
+  stdout: string
+  /** 累积的标准错误（写入执行历史） */
+  stderr: string
+  /** 非正常结束原因 */
+  endReason?: 'cancelled' | 'timeout'
+  /** 宽限期后强制终止的定时器 */
+  killTimer?: NodeJS.Timeout
+  /** 是否在宽限期后被强制终止 */
+  forceKilled?: boolean
+  /** 是否已发出结束事件（error 之后 Node 仍会触发 close） */
+  finished?: boolean
+  /** CLI 报告的模型 */
+  model?: string
+  /** CLI 报告的 Token 用量 */
+  usage?: CliUsage
+  /** CLI 报告的费用 */
+  reportedCostUsd?: number
+  /** CLI 报告的执行耗时 */
+  reportedDurationMs?: number
+}
+
 /** 执行结果 */
 interface ExecutionResult {
   executionId: string
@@ -33,33 +89,266 @@ interface ExecutionResult {
   cancelled: boolean
 }
 
+/** 入队结果 */
+interface SubmitResult {
+  executionId: string
+  lane: string
+  /** 0 表示已立即开始执行，>0 表示全局排队位置 */
+  position: number
+  /** 在所属 lane 内的排队位置（0 表示执行中） */
+  lanePosition: number
+  completion: Promise<ExecutionResult>
+}
+
 /** CLI 可执行文件路径 */
 const CLAUDE_CODE_PATH = process.env.CLAUDE_CODE_PATH || 'claude'
 
+/** 未指定 featureId 的命令所属 lane */
+const DEFAULT_LANE = 'default'
+
+/** 默认全局并发上限 */
+const DEFAULT_MAX_CONCURRENCY = 2
+
+/** stream-json 模式追加的 CLI 参数（--print 下输出 stream-json 需要 --verbose） */
+const STREAM_JSON_FLAGS = ['--output-format', 'stream-json', '--verbose']
+
+/** 统计用量追加的 CLI 参数（输出带 usage 的最终结果） */
+const JSON_RESULT_FLAGS = ['--output-format', 'json']
+
+/** 请求可追加的环境变量（其余变量丢弃，避免 NODE_OPTIONS / LD_PRELOAD 等注入子进程） */
+const ALLOWED_ENV_NAMES = ['FEATURE', 'FEATURE_ID', 'STEP_ID', 'PHASE', 'CI', 'DEBUG', 'NO_COLOR', 'TZ', 'LANG', 'LC_ALL']
+
+/** 请求可追加的环境变量前缀 */
+const ALLOWED_ENV_PREFIX = 'HA_LOOP_'
+
+/** spawn 参数 */
+interface SpawnSpec {
+  file: string
+  args: string[]
+  shell: boolean
+}
+
+/**
+ * 按命令行规则拆分参数（不做变量展开、命令替换或通配）
+ * - 单引号内按字面量处理
+ * - 双引号内仅 \" \\ \$ \` 可转义
+ * - 引号外反斜杠转义下一个字符
+ */
+function splitCommandLine(command: string): string[] {
+  const args: string[] = []
+  let current = ''
+  let hasToken = false
+  let quote: '"' | "'" | null = null
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i]
+
+    if (quote === "'") {
+      if (char === "'") {
+        quote = null
+      } else {
+        current += char
+      }
+      continue
+    }
+
+    if (quote === '"') {
+      if (char === '"') {
+        quote = null
+      } else if (char === '\\' && i + 1 < command.length && '"\\$`'.includes(command[i + 1])) {
+        current += command[++i]
+      } else {
+        current += char
+      }
+      continue
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char
+      hasToken = true
+    } else if (char === '\\' && i + 1 < command.length) {
+      current += command[++i]
+      hasToken = true
+    } else if (/\s/.test(char)) {
+      if (hasToken) {
+        args.push(current)
+        current = ''
+        hasToken = false
+      }
+    } else {
+      current += char
+      hasToken = true
+    }
+  }
+
+  if (quote) {
+    throw new Error(`Unterminated ${quote} quote in command: ${command}`)
+  }
+  if (hasToken) {
+    args.push(current)
+  }
+  return args
+}
+
+/**
+ * 判断可执行文件是否为 claude
+ */
+function isClaudeExecutable(executable: string): boolean {
+  return executable === 'claude' || executable === CLAUDE_CODE_PATH
+}
+
+/**
+ * 将请求转换为结构化参数
+ * - 已提供 argv：原样使用
+ * - 以 '/' 开头（slash command）或单个单词（skill 名称）：claude [--print] <command>（整体作为一个参数）
+ * - 其他命令按命令行规则拆分；claude 命令在 print 模式补充 --print
+ */
+function resolveArgv(request: CliExecuteRequest): CliArgv {
+  if (request.argv) {
+    return request.argv
+  }
+
+  const { command } = request
+  if (command.startsWith('/') || (!command.startsWith('claude') && !command.includes(' '))) {
+    return {
+      executable: 'claude',
+      args: request.mode === 'print' ? ['--print', command] : [command]
+    }
+  }
+
+  const [executable = '', ...args] = splitCommandLine(command)
+  if (isClaudeExecutable(executable) && request.mode === 'print' && args[0] !== '--print') {
+    args.unshift('--print')
+  }
+  return { executable, args }
+}
+
+/**
+ * 判断请求是否启用 stream-json 解析
+ * 仅 print 模式下的 claude 命令支持
+ */
+function usesStreamJson(request: CliExecuteRequest): boolean {
+  return request.outputFormat === 'stream-json' &&
+    request.mode === 'print' &&
+    !request.shell &&
+    isClaudeExecutable(resolveArgv(request).executable)
+}
+
+/**
+ * 判断请求是否以 json 输出运行以统计用量
+ * 带 featureId（用量可归属）的 print 模式 claude 命令，且未使用 stream-json、未自行指定输出格式
+ */
+function usesJsonResult(request: CliExecuteRequest): boolean {
+  if (!request.featureId || request.mode !== 'print' || request.shell || usesStreamJson(request)) {
+    return false
+  }
+  const { executable, args } = resolveArgv(request)
+  return isClaudeExecutable(executable) && !args.includes('--output-format')
+}
+
+/**
+ * 将请求转换为 spawn 参数
+ * - shell 模式：command 整体交给 shell（仅限已确认的 bash 任务命令）
+ * - 其他情况：使用结构化参数直接执行，claude 替换为 CLAUDE_CODE_PATH
+ * stream-json 模式下为 claude 命令追加 --output-format stream-json --verbose，统计用量时追加 --output-format json
+ */
+function buildSpawnArgs(request: CliExecuteRequest): SpawnSpec {
+  if (request.shell) {
+    return { file: request.command, args: [], shell: true }
+  }
+
+  const { executable, args } = resolveArgv(request)
+  if (!executable) {
+    throw new Error('Command is empty')
+  }
+  if (!isClaudeExecutable(executable)) {
+    return { file: executable, args: [...args], shell: false }
+  }
+
+  const claudeArgs = [...args]
+  const formatFlags = usesStreamJson(request) ? STREAM_JSON_FLAGS : usesJsonResult(request) ? JSON_RESULT_FLAGS : []
+  if (formatFlags.length > 0 && !claudeArgs.includes('--output-format')) {
+    const printIndex = claudeArgs.indexOf('--print')
+    claudeArgs.splice(printIndex + 1, 0, ...formatFlags)
+  }
+  return { file: CLAUDE_CODE_PATH, args: claudeArgs, shell: false }
+}
+
+/**
+ * 过滤请求追加的环境变量，只保留允许列表中的变量
+ */
+function filterRequestEnv(env: Record<string, string> | undefined): Record<string, string> {
+  const result: Record<string, string> = {}
+  for (const [name, value] of Object.entries(env ?? {})) {
+    if (ALLOWED_ENV_NAMES.includes(name) || (name.startsWith(ALLOWED_ENV_PREFIX) && /^\w+$/.test(name))) {
+      result[name] = value
+    } else {
+      console.warn(`[CLI Queue] Dropped environment variable not in allowlist: ${name}`)
+    }
+  }
+  return result
+}
+
+/**
+ * 获取请求所属 lane
+ */
+function getLaneKey(request: CliExecuteRequest): string {
+  return request.featureId || DEFAULT_LANE
+}
+
 /** 命令超时（默认 10 分钟） */
 const DEFAULT_TIMEOUT = 10 * 60 * 1000
 
+/** 终止命令时 SIGTERM 到 SIGKILL 的默认宽限期 */
+const DEFAULT_KILL_GRACE_PERIOD = 3000
+
+/** 是否以独立进程组启动子进程（Windows 通过 taskkill /T 终止进程树） */
+const USE_PROCESS_GROUP = process.platform !== 'win32'
+
+/**
+ * 终止子进程及其派生的全部进程
+ * - POSIX：子进程以 detached 启动，自身即进程组组长，向 -pid 发送信号
+ * - Windows：taskkill /T 终止进程树，SIGKILL 时追加 /F
+ * 进程组不可用时（如未取得 pid）或 taskkill 无法启动时，退回只终止直接子进程
+ */
+function killProcessTree(child: ChildProcess, signal: NodeJS.Signals): void {
+  if (child.pid) {
+    try {
+      if (USE_PROCESS_GROUP) {
+        process.kill(-child.pid, signal)
+        return
+      }
+      const args = ['/pid', String(child.pid), '/T']
+      if (signal === 'SIGKILL') args.push('/F')
+      // taskkill 启动失败时 Node 会触发 'error'，未监听会导致主进程崩溃
+      spawn('taskkill', args, { stdio: 'ignore' }).on('error', error => {
+        console.warn(`[CLI Queue] Failed to run taskkill: ${error.message}`)
+        child.kill(signal)
+      })
+      return
+    } catch {
+      // 进程组已不存在，退回直接终止
+    }
+  }
+  child.kill(signal)
+}
+
 /**
  * CLI 调用队列服务（单例）
  */
 class CliQueueService extends EventEmitter {
   private static instance: CliQueueService | null = null
 
-  /** 命令队列 */
+  /** 命令队列（全局 FIFO，调度时跳过 lane 被占用的项） */
   private queue: QueueItem[] = []
 
-  /** 当前正在执行的命令 */
-  private currentExecution: {
-    id: string
-    process: ChildProcess
-    startedAt: Date
-    request: CliExecuteRequest
-    window: BrowserWindow
-    timeoutId?: NodeJS.Timeout
-  } | null = null
+  /** 正在执行的命令，按 lane 索引（每个 lane 至多一个） */
+  private running = new Map<string, RunningExecution>()
 
-  /** 是否正在处理 */
-  private isProcessing = false
+  /** 队列配置 */
+  private config: CliQueueConfig = {
+    maxConcurrency: DEFAULT_MAX_CONCURRENCY
+  }
 
   private constructor() {
     super()
@@ -76,36 +365,81 @@ class CliQueueService extends EventEmitter {
   }
 
   /**
-   * 将命令加入队列
+   * 更新队列配置
+   * 提高并发上限后立即尝试调度等待中的命令
    */
-  enqueue(request: CliExecuteRequest, window: BrowserWindow): Promise<ExecutionResult> {
-    return new Promise((resolve, reject) => {
-      const id = randomUUID()
-
-      const item: QueueItem = {
-        id,
-        request,
-        window,
-        resolve,
-        reject,
-        queuedAt: new Date()
-      }
+  configure(config: Partial<CliQueueConfig>): CliQueueConfig {
+    if (config.maxConcurrency !== undefined) {
+      this.config.maxConcurrency = Math.max(1, Math.floor(config.maxConcurrency))
+    }
+    this.processQueue()
+    this.emit('change')
+    return { ...this.config }
+  }
 
-      this.queue.push(item)
-      this.emit('enqueue', { id, position: this.queue.length })
+  /**
+   * 获取队列配置
+   */
+  getConfig(): CliQueueConfig {
+    return { ...this.config }
+  }
 
-      // 发送排队事件
-      const event: CliOutputEvent = {
-        executionId: id,
-        type: 'system',
-        content: `Command queued (position: ${this.queue.length})`,
-        timestamp: new Date().toISOString()
-      }
-      window.webContents.send(CLI_CHANNELS.OUTPUT, event)
+  /**
+   * 将命令加入队列，等待执行完成
+   */
+  enqueue(request: CliExecuteRequest, window: BrowserWindow): Promise<ExecutionResult> {
+    return this.submit(request, window).completion
+  }
 
-      // 尝试处理队列
-      this.processQueue()
+  /**
+   * 将命令加入队列，立即返回 executionId 和排队位置
+   */
+  submit(request: CliExecuteRequest, window: BrowserWindow): SubmitResult {
+    const id = randomUUID()
+    const lane = getLaneKey(request)
+    let resolveFn!: (value: ExecutionResult) => void
+    let rejectFn!: (reason: Error) => void
+    const completion = new Promise<ExecutionResult>((resolve, reject) => {
+      resolveFn = resolve
+      rejectFn = reject
     })
+
+    const item: QueueItem = {
+      id,
+      lane,
+      request,
+      window,
+      resolve: resolveFn,
+      reject: rejectFn,
+      queuedAt: new Date()
+    }
+
+    this.queue.push(item)
+    const position = this.queue.length
+    const lanePosition = this.getLanePosition(item)
+    this.emit('enqueue', { id, lane, position, lanePosition })
+
+    // 发送排队事件
+    const event: CliOutputEvent = {
+      executionId: id,
+      type: 'system',
+      content: `Command queued (lane: ${lane}, position: ${lanePosition})`,
+      timestamp: new Date().toISOString()
+    }
+    window.webContents.send(CLI_CHANNELS.OUTPUT, event)
+
+    // 尝试处理队列
+    this.processQueue()
+    this.emit('change')
+
+    const started = this.running.get(lane)?.id === id
+    return {
+      executionId: id,
+      lane,
+      position: started ? 0 : this.queue.indexOf(item) + 1,
+      lanePosition: started ? 0 : this.getLanePosition(item),
+      completion
+    }
   }
 
   /**
@@ -123,37 +457,171 @@ class CliQueueService extends EventEmitter {
         cancelled: true
       })
       this.emit('cancelled', { id: executionId, wasQueued: true })
+      this.emit('change')
       return true
     }
 
-    // 检查是否正在执行
-    if (this.currentExecution?.id === executionId) {
-      this.cancelCurrentExecution()
+    // 检查是否正在执行（已在终止中的不重复发送信号）
+    const execution = this.findRunning(executionId)
+    if (execution) {
+      if (!execution.endReason) {
+        this.cancelExecution(execution)
+        this.emit('change')
+      }
       return true
     }
 
     return false
   }
 
+  /**
+   * 向执行中命令的 stdin 写入输入（仅 interactive 执行）
+   * @param end 写入后关闭 stdin（发送 EOF）
+   * @returns 命令不在执行中时返回 false
+   */
+  writeInput(executionId: string, input: string, end = false): boolean {
+    const execution = this.findRunning(executionId)
+    if (!execution) {
+      return false
+    }
+
+    const { stdin } = execution.process
+    if (!execution.request.interactive || !stdin || !stdin.writable) {
+      throw new Error('stdin is not open for this execution')
+    }
+
+    if (input) {
+      stdin.write(input)
+
+      // 回显输入，便于在日志中对照问答
+      const inputEvent: CliOutputEvent = {
+        executionId,
+        type: 'stdin',
+        content: input.replace(/\r?\n$/, ''),
+        timestamp: new Date().toISOString()
+      }
+      execution.window.webContents.send(CLI_CHANNELS.OUTPUT, inputEvent)
+    }
+    if (end) {
+      stdin.end()
+    }
+    return true
+  }
+
+  /**
+   * 调整排队命令的位置
+   * @param toIndex 目标位置（0 为下一个执行）
+   */
+  reorder(executionId: string, toIndex: number): boolean {
+    const fromIndex = this.queue.findIndex(item => item.id === executionId)
+    if (fromIndex < 0) {
+      return false
+    }
+
+    const target = Math.max(0, Math.min(toIndex, this.queue.length - 1))
+    const [item] = this.queue.splice(fromIndex, 1)
+    this.queue.splice(target, 0, item)
+
+    this.emit('reordered', { id: executionId, from: fromIndex, to: target })
+    this.emit('change')
+    return true
+  }
+
+  /**
+   * 清空排队中的命令（不影响正在执行的命令）
+   * @returns 被取消的命令数
+   */
+  clearQueue(): number {
+    const cleared = this.queue.splice(0, this.queue.length)
+    for (const item of cleared) {
+      item.resolve({
+        executionId: item.id,
+        exitCode: -1,
+        duration: 0,
+        cancelled: true
+      })
+      this.emit('cancelled', { id: item.id, wasQueued: true })
+    }
+    if (cleared.length > 0) {
+      this.emit('change')
+    }
+    return cleared.length
+  }
+
+  /**
+   * 检查命令是否在队列中（排队或执行中）
+   */
+  has(executionId: string): boolean {
+    return !!this.findRunning(executionId) ||
+      this.queue.some(item => item.id === executionId)
+  }
+
+  /**
+   * 获取队列项列表（执行中在前，其后按排队顺序）
+   */
+  listItems(): CliQueueItem[] {
+    const items: CliQueueItem[] = []
+
+    for (const { id, lane, request, startedAt } of this.running.values()) {
+      items.push({
+        executionId: id,
+        command: request.command,
+        status: 'running',
+        lane,
+        position: 0,
+        lanePosition: 0,
+        featureId: request.featureId,
+        stepId: request.stepId,
+        startedAt: startedAt.toISOString()
+      })
+    }
+
+    this.queue.forEach((item, index) => {
+      items.push({
+        executionId: item.id,
+        command: item.request.command,
+        status: 'queued',
+        lane: item.lane,
+        position: index + 1,
+        lanePosition: this.getLanePosition(item),
+        featureId: item.request.featureId,
+        stepId: item.request.stepId,
+        queuedAt: item.queuedAt.toISOString()
+      })
+    })
+
+    return items
+  }
+
   /**
    * 获取队列状态
    */
   getQueueStatus(): {
     queueLength: number
     currentExecution: { id: string; command: string; startedAt: string } | null
-    queuedCommands: Array<{ id: string; command: string; queuedAt: string }>
+    runningExecutions: Array<{ id: string; lane: string; command: string; startedAt: string }>
+    queuedCommands: Array<{ id: string; lane: string; command: string; queuedAt: string }>
   } {
+    const runningExecutions = Array.from(this.running.values()).map(execution => ({
+      id: execution.id,
+      lane: execution.lane,
+      command: execution.request.command,
+      startedAt: execution.startedAt.toISOString()
+    }))
+
     return {
       queueLength: this.queue.length,
-      currentExecution: this.currentExecution
+      currentExecution: runningExecutions.length > 0
         ? {
-            id: this.currentExecution.id,
-            command: this.currentExecution.request.command,
-            startedAt: this.currentExecution.startedAt.toISOString()
+            id: runningExecutions[0].id,
+            command: runningExecutions[0].command,
+            startedAt: runningExecutions[0].startedAt
           }
         : null,
+      runningExecutions,
       queuedCommands: this.queue.map(item => ({
         id: item.id,
+        lane: item.lane,
         command: item.request.command,
         queuedAt: item.queuedAt.toISOString()
       }))
@@ -162,27 +630,55 @@ class CliQueueService extends EventEmitter {
 
   /**
    * 处理队列
+   * 按 FIFO 顺序启动 lane 空闲的命令，直到达到并发上限
    */
-  private async processQueue(): Promise<void> {
-    // 如果正在处理或队列为空，直接返回
-    if (this.isProcessing || this.queue.length === 0) {
-      return
-    }
+  private processQueue(): void {
+    let index = 0
+
+    while (index < this.queue.length && this.running.size < this.config.maxConcurrency) {
+      const item = this.queue[index]
 
-    this.isProcessing = true
+      if (this.running.has(item.lane)) {
+        index++
+        continue
+      }
 
-    while (this.queue.length > 0) {
-      const item = this.queue.shift()!
+      this.queue.splice(index, 1)
 
-      try {
-        const result = await this.executeCommand(item)
-        item.resolve(result)
-      } catch (error) {
-        item.reject(error as Error)
+      this.executeCommand(item)
+        .then(result => item.resolve(result))
+        .catch(error => item.reject(error as Error))
+        .finally(() => {
+          this.processQueue()
+          this.emit('change')
+        })
+    }
+  }
+
+  /**
+   * 计算命令在所属 lane 中的排队位置（1 为 lane 内下一个）
+   */
+  private getLanePosition(item: QueueItem): number {
+    let position = 0
+    for (const queued of this.queue) {
+      if (queued.lane === item.lane) {
+        position++
       }
+      if (queued === item) break
     }
+    return position
+  }
 
-    this.isProcessing = false
+  /**
+   * 根据 executionId 查找执行中的命令
+   */
+  private findRunning(executionId: string): RunningExecution | undefined {
+    for (const execution of this.running.values()) {
+      if (execution.id === executionId) {
+        return execution
+      }
+    }
+    return undefined
   }
 
   /**
@@ -190,14 +686,21 @@ class CliQueueService extends EventEmitter {
    */
   private executeCommand(item: QueueItem): Promise<ExecutionResult> {
     return new Promise((resolve, reject) => {
-      const { id, request, window } = item
+      const { id, lane, request, window } = item
       const startedAt = new Date()
 
       // 构建命令参数
-      const args = [request.command]
-      if (request.mode === 'print') {
-        args.unshift('--print')
+      let spawnSpec: SpawnSpec
+      try {
+        spawnSpec = buildSpawnArgs(request)
+      } catch (error) {
+        reject(error)
+        return
       }
+      const { file, args, shell } = spawnSpec
+      const cwd = request.argv?.cwd
+        ? resolvePath(request.projectPath, request.argv.cwd)
+        : request.projectPath
 
       // 发送开始事件
       const startEvent: CliOutputEvent = {
@@ -210,35 +713,65 @@ class CliQueueService extends EventEmitter {
 
       try {
         // 创建子进程
-        const childProcess = spawn(CLAUDE_CODE_PATH, args, {
-          cwd: request.projectPath,
-          shell: true,
+        const childProcess = spawn(file, args, {
+          cwd,
+          shell,
+          detached: USE_PROCESS_GROUP,
+          stdio: [request.interactive ? 'pipe' : 'ignore', 'pipe', 'pipe'],
           env: {
             ...process.env,
+            ...filterRequestEnv(request.argv?.env),
             FORCE_COLOR: '1'
           }
         })
 
-        // 设置超时
-        const timeoutId = setTimeout(() => {
-          this.cancelCurrentExecution()
-          reject(new Error('Command timed out'))
-        }, DEFAULT_TIMEOUT)
-
-        // 存储当前执行
-        this.currentExecution = {
+        // 存储执行记录
+        const execution: RunningExecution = {
           id,
+          lane,
           process: childProcess,
           startedAt,
           request,
           window,
-          timeoutId
+          stdout: '',
+          stderr: ''
         }
 
-        this.emit('started', { id, command: request.command })
+        // 设置超时
+        execution.timeoutId = setTimeout(() => {
+          execution.endReason = 'timeout'
+          this.cancelExecution(execution)
+          reject(new Error('Command timed out'))
+        }, DEFAULT_TIMEOUT)
+
+        this.running.set(lane, execution)
+
+        this.emit('started', {
+          id,
+          lane,
+          command: request.command,
+          projectPath: request.projectPath,
+          featureId: request.featureId,
+          stepId: request.stepId,
+          checkpoint: request.checkpoint
+        })
+        this.emit('change')
+
+        // stream-json / json 输出的增量解析器
+        const structured = usesStreamJson(request)
+        const parser = structured || usesJsonResult(request) ? new StreamJsonParser() : null
+
+        // 进程退出后写入 stdin 会触发 EPIPE，忽略即可
+        childProcess.stdin?.on('error', () => {})
 
         // 处理标准输出
         childProcess.stdout?.on('data', (data: Buffer) => {
+          if (parser) {
+            if (structured) execution.stdout += data.toString()
+            this.forwardStreamOutput(execution, parser.push(data.toString()), structured)
+            return
+          }
+          execution.stdout += data.toString()
           const event: CliOutputEvent = {
             executionId: id,
             type: 'stdout',
@@ -250,6 +783,7 @@ class CliQueueService extends EventEmitter {
 
         // 处理标准错误
         childProcess.stderr?.on('data', (data: Buffer) => {
+          execution.stderr += data.toString()
           const event: CliOutputEvent = {
             executionId: id,
             type: 'stderr',
@@ -260,53 +794,196 @@ class CliQueueService extends EventEmitter {
         })
 
         // 处理进程退出
-        childProcess.on('close', (code: number | null) => {
-          clearTimeout(timeoutId)
+        childProcess.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
+          if (execution.finished) return
+          execution.finished = true
+          clearTimeout(execution.timeoutId)
+          clearTimeout(execution.killTimer)
+          if (parser) {
+            this.forwardStreamOutput(execution, parser.flush(), structured)
+          }
           const endTime = new Date()
           const duration = endTime.getTime() - startedAt.getTime()
 
           // 发送完成事件
-          const completeEvent: CliOutputEvent = {
+          const exitEvent: CliOutputEvent = {
             executionId: id,
             type: 'system',
             content: `Process exited with code ${code}`,
             timestamp: endTime.toISOString()
           }
-          window.webContents.send(CLI_CHANNELS.OUTPUT, completeEvent)
+          window.webContents.send(CLI_CHANNELS.OUTPUT, exitEvent)
+
+          const completeEvent: CliCompleteEvent = {
+            executionId: id,
+            exitCode: code ?? -1,
+            duration,
+            reason: execution.endReason || 'exited',
+            signal,
+            forced: !!execution.forceKilled
+          }
+          window.webContents.send(CLI_CHANNELS.COMPLETE, completeEvent)
 
-          this.currentExecution = null
-          this.emit('completed', { id, exitCode: code, duration })
+          this.releaseLane(execution)
+          this.emit('completed', { id, lane, exitCode: code, duration })
+          this.emitFinished(execution, code ?? -1, endTime)
+
+          // 超时的 Promise 已在超时时 reject，需在这里调度后续命令
+          if (execution.endReason === 'timeout') {
+            this.processQueue()
+            this.emit('change')
+          }
 
           resolve({
             executionId: id,
             exitCode: code ?? -1,
             duration,
-            cancelled: false
+            cancelled: execution.endReason === 'cancelled'
           })
         })
 
-        // 处理错误
+        // 处理错误（如可执行文件不存在）
+        // 不使用 'error' 事件名：没有监听器时 EventEmitter 会抛出未捕获异常
         childProcess.on('error', (err: Error) => {
-          clearTimeout(timeoutId)
-          this.currentExecution = null
-          this.emit('error', { id, error: err })
+          if (execution.finished) return
+          execution.finished = true
+          clearTimeout(execution.timeoutId)
+          clearTimeout(execution.killTimer)
+          const endTime = new Date()
+          execution.stderr += err.message
+
+          const errorEvent: CliOutputEvent = {
+            executionId: id,
+            type: 'stderr',
+            content: `Failed to start: ${err.message}`,
+            timestamp: endTime.toISOString()
+          }
+          window.webContents.send(CLI_CHANNELS.OUTPUT, errorEvent)
+
+          const completeEvent: CliCompleteEvent = {
+            executionId: id,
+            exitCode: -1,
+            duration: endTime.getTime() - startedAt.getTime(),
+            reason: execution.endReason || 'exited',
+            signal: null,
+            forced: !!execution.forceKilled
+          }
+          window.webContents.send(CLI_CHANNELS.COMPLETE, completeEvent)
+
+          this.releaseLane(execution)
+          this.emit('spawnError', { id, lane, error: err })
+          this.emitFinished(execution, -1, endTime)
           reject(err)
         })
 
       } catch (error) {
-        this.currentExecution = null
         reject(error)
       }
     })
   }
 
   /**
-   * 取消当前执行
+   * 转发 stream-json / json 解析结果
+   * - stream-json：结构化事件走 cli:event，助手文本与非 JSON 行仍作为 stdout 发送，保证纯文本日志可读
+   * - json（仅为统计用量）：不发送结构化事件，结果文本与非 JSON 行作为 stdout 发送并写入执行历史
+   */
+  private forwardStreamOutput(
+    execution: RunningExecution,
+    parsed: { events: CliStreamEvent[]; passthrough: string },
+    structured: boolean
+  ): void {
+    const { id, window } = execution
+    const timestamp = new Date().toISOString()
+    let text = ''
+
+    for (const event of parsed.events) {
+      if (event.kind === 'init') {
+        execution.model = event.model
+      } else if (event.kind === 'result') {
+        execution.model = execution.model ?? event.model
+        execution.usage = event.usage
+        execution.reportedCostUsd = event.totalCostUsd
+        execution.reportedDurationMs = event.durationMs
+      }
+
+      if (structured) {
+        if (event.kind === 'assistant_text') text += event.text + '\n'
+        const message: CliStreamEventMessage = { executionId: id, event, timestamp }
+        window.webContents.send(CLI_CHANNELS.EVENT, message)
+        this.emit('streamEvent', message)
+      } else if (event.kind === 'result' && event.result) {
+        text += event.result.endsWith('\n') ? event.result : event.result + '\n'
+      }
+    }
+
+    text += parsed.passthrough
+    if (!structured) execution.stdout += text
+
+    if (text) {
+      const outputEvent: CliOutputEvent = {
+        executionId: id,
+        type: 'stdout',
+        content: text,
+        timestamp
+      }
+      window.webContents.send(CLI_CHANNELS.OUTPUT, outputEvent)
+    }
+  }
+
+  /**
+   * 发出执行结束事件（供执行历史持久化）
    */
-  private cancelCurrentExecution(): void {
-    if (!this.currentExecution) return
+  private emitFinished(execution: RunningExecution, exitCode: number, endedAt: Date): void {
+    const { id, request, startedAt } = execution
+    const status: ExecutionHistoryEntry['status'] = execution.endReason ||
+      (exitCode === 0 ? 'completed' : 'failed')
 
-    const { id, process, timeoutId, window, startedAt } = this.currentExecution
+    const entry: ExecutionHistoryEntry = {
+      executionId: id,
+      command: request.command,
+      projectPath: request.projectPath,
+      mode: request.mode,
+      outputFormat: request.outputFormat,
+      argv: request.argv,
+      shell: request.shell || undefined,
+      killGracePeriodMs: request.killGracePeriodMs,
+      interactive: request.interactive || undefined,
+      scheduleId: request.scheduleId,
+      checkpoint: request.checkpoint || undefined,
+      featureId: request.featureId,
+      stepId: request.stepId,
+      phaseId: request.phaseId,
+      status,
+      startedAt: startedAt.toISOString(),
+      endedAt: endedAt.toISOString(),
+      duration: endedAt.getTime() - startedAt.getTime(),
+      exitCode,
+      stdout: execution.stdout,
+      stderr: execution.stderr,
+      model: execution.model,
+      usage: execution.usage,
+      reportedCostUsd: execution.reportedCostUsd,
+      reportedDurationMs: execution.reportedDurationMs
+    }
+    this.emit('finished', entry)
+  }
+
+  /**
+   * 释放 lane（仅当 lane 仍被该执行占用时）
+   */
+  private releaseLane(execution: RunningExecution): void {
+    if (this.running.get(execution.lane) === execution) {
+      this.running.delete(execution.lane)
+    }
+  }
+
+  /**
+   * 取消执行中的命令（终止整个进程组）
+   * @param force 直接 SIGKILL（应用退出时使用）
+   */
+  private cancelExecution(execution: RunningExecution, force = false): void {
+    const { id, process: child, timeoutId, window } = execution
+    execution.endReason = execution.endReason || 'cancelled'
 
     // 清除超时
     if (timeoutId) {
@@ -317,40 +994,63 @@ class CliQueueService extends EventEmitter {
     const cancelEvent: CliOutputEvent = {
       executionId: id,
       type: 'system',
-      content: 'Command cancelled',
+      content: execution.endReason === 'timeout' ? 'Command timed out' : 'Command cancelled',
       timestamp: new Date().toISOString()
     }
     window.webContents.send(CLI_CHANNELS.OUTPUT, cancelEvent)
 
     // 终止进程
     try {
-      process.kill('SIGTERM')
-
-      // 3 秒后强制终止
-      setTimeout(() => {
-        try {
-          process.kill('SIGKILL')
-        } catch {
-          // 进程可能已经退出
-        }
-      }, 3000)
+      if (force) {
+        execution.forceKilled = true
+        killProcessTree(child, 'SIGKILL')
+      } else {
+        killProcessTree(child, 'SIGTERM')
+
+        // 宽限期后仍未退出则强制终止
+        const gracePeriod = execution.request.killGracePeriodMs ?? DEFAULT_KILL_GRACE_PERIOD
+        execution.killTimer = setTimeout(() => {
+          execution.forceKilled = true
+          const escalateEvent: CliOutputEvent = {
+            executionId: id,
+            type: 'system',
+            content: `Process did not exit within ${gracePeriod}ms, sending SIGKILL`,
+            timestamp: new Date().toISOString()
+          }
+          window.webContents.send(CLI_CHANNELS.OUTPUT, escalateEvent)
+          try {
+            killProcessTree(child, 'SIGKILL')
+          } catch {
+            // 进程已经退出但没有触发 close，直接释放 lane
+            this.releaseLane(execution)
+            this.processQueue()
+            this.emit('change')
+          }
+        }, gracePeriod)
+      }
     } catch {
       // 忽略错误
     }
 
+    // lane 保持占用直到进程 close：宽限期内进程树可能仍在运行，不能启动同一 Feature 的下一条命令
     this.emit('cancelled', { id, wasQueued: false })
-    this.currentExecution = null
   }
 
   /**
    * 清理所有命令
    */
   cleanup(): void {
-    // 取消当前执行
-    this.cancelCurrentExecution()
+    // 先清空队列，避免强制终止后调度新的命令
+    const queued = this.queue
+    this.queue = []
+
+    // 强制终止所有执行中的命令；队列已清空，直接释放 lane
+    for (const execution of Array.from(this.running.values())) {
+      this.cancelExecution(execution, true)
+      this.releaseLane(execution)
+    }
 
-    // 清空队列
-    for (const item of this.queue) {
+    for (const item of queued) {
       item.resolve({
         executionId: item.id,
         exitCode: -1,
@@ -358,7 +1058,6 @@ class CliQueueService extends EventEmitter {
         cancelled: true
       })
     }
-    this.queue = []
 
     this.emit('cleanup')
   }
@@ -368,4 +1067,5 @@ class CliQueueService extends EventEmitter {
 export const cliQueueService = CliQueueService.getInstance()
 
 // 导出类型供测试使用
-export { CliQueueService, QueueItem, ExecutionResult }
+export { CliQueueService, buildSpawnArgs, usesStreamJson, usesJsonResult, splitCommandLine, isClaudeExecutable, filterRequestEnv }
+export type { QueueItem, ExecutionResult, SubmitResult }
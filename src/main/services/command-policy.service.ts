@@ -0,0 +1,228 @@
+/**
+ * 命令策略服务
+ * 在 cli:execute 启动进程前，按项目策略文件 .claude/command_policy.yaml 判定是否放行
+ *
+ * 关键约束：
+ * - 仅约束非 claude 的命令（shell 命令、bash 任务、其他可执行文件）；claude 调用不受限制
+ * - 规则按 deny > confirm > allow 的优先级匹配，同级按文件中的顺序取第一条
+ * - 未匹配任何规则时使用 default；策略文件不存在时默认需确认
+ * - 含 shell 元字符（; & | ` $( > < 换行）的命令行可能串接任意命令：allow 规则不匹配，
+ *   default 为 allow 时也降为需确认
+ * - 策略文件损坏时一律拒绝，避免因配置错误放开限制
+ *
+ * 策略文件示例：
+ *   default: confirm
+ *   rules:
+ *     - id: allow-tests
+ *       pattern: "npm test*"
+ *       action: allow
+ *     - id: no-recursive-delete
+ *       regex: "\\brm\\s+-[a-z]*r"
+ *       action: deny
+ *       reason: 禁止递归删除
+ */
+
+import { readFile } from 'fs/promises'
+import { join } from 'path'
+import { parse as parseYaml } from 'yaml'
+import { EventEmitter } from 'events'
+import type {
+  CliPolicyCheckRequest,
+  CommandPolicy,
+  CommandPolicyAction,
+  CommandPolicyDecision,
+  CommandPolicyRule
+} from '../../shared/types/ipc.types'
+import { buildSpawnArgs, isClaudeExecutable } from './cli-queue.service'
+
+/** 策略文件不存在时的默认策略 */
+const DEFAULT_POLICY: CommandPolicy = {
+  default: 'confirm',
+  rules: []
+}
+
+/** 合法的动作 */
+const POLICY_ACTIONS: CommandPolicyAction[] = ['allow', 'confirm', 'deny']
+
+/** 匹配优先级（数值越小越优先） */
+const ACTION_PRIORITY: Record<CommandPolicyAction, number> = {
+  deny: 0,
+  confirm: 1,
+  allow: 2
+}
+
+/** 可串接其他命令或重定向的 shell 元字符 */
+const SHELL_METACHARACTERS = /[;&|`<>\r\n]|\$\(/
+
+/**
+ * 命令行是否包含 shell 元字符
+ */
+function hasShellMetacharacters(commandLine: string): boolean {
+  return SHELL_METACHARACTERS.test(commandLine)
+}
+
+/**
+ * 获取策略文件路径
+ */
+function getPolicyPath(projectPath: string): string {
+  return join(projectPath, '.claude', 'command_policy.yaml')
+}
+
+/**
+ * 将通配符模式转换为正则（* 匹配任意字符，? 匹配单个字符，整串匹配）
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*'
+      if (char === '?') return '.'
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    })
+    .join('')
+  return new RegExp(`^${source}$`, 's')
+}
+
+/**
+ * 判断规则是否匹配命令行
+ * 非法正则视为不匹配
+ */
+function matchesRule(rule: CommandPolicyRule, commandLine: string): boolean {
+  try {
+    if (rule.regex && new RegExp(rule.regex).test(commandLine)) {
+      return true
+    }
+  } catch {
+    console.warn(`[CommandPolicy] Invalid regex in rule ${rule.id ?? rule.regex}`)
+  }
+  return !!rule.pattern && globToRegExp(rule.pattern).test(commandLine)
+}
+
+/**
+ * 按策略判定命令行
+ * 含 shell 元字符的命令行只匹配 deny / confirm 规则，不会被放行
+ */
+function evaluateCommandPolicy(
+  policy: CommandPolicy,
+  commandLine: string
+): { action: CommandPolicyAction; rule?: CommandPolicyRule } {
+  const compound = hasShellMetacharacters(commandLine)
+  const matched = policy.rules
+    .filter(rule => !(compound && rule.action === 'allow') && matchesRule(rule, commandLine))
+    .sort((a, b) => ACTION_PRIORITY[a.action] - ACTION_PRIORITY[b.action])[0]
+
+  if (matched) {
+    return { action: matched.action, rule: matched }
+  }
+  return { action: compound && policy.default === 'allow' ? 'confirm' : policy.default }
+}
+
+/**
+ * 校验并规范化策略文件内容
+ */
+function normalizePolicy(raw: unknown): CommandPolicy {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Policy file must be a mapping')
+  }
+
+  const { default: stance = DEFAULT_POLICY.default, rules = [] } = raw as Record<string, unknown>
+  if (!POLICY_ACTIONS.includes(stance as CommandPolicyAction)) {
+    throw new Error(`Invalid default action: ${String(stance)}`)
+  }
+  if (!Array.isArray(rules)) {
+    throw new Error('rules must be a list')
+  }
+
+  return {
+    default: stance as CommandPolicyAction,
+    rules: rules.map((rule, index) => {
+      const { id, pattern, regex, action, reason } = (rule ?? {}) as Record<string, unknown>
+      if (!POLICY_ACTIONS.includes(action as CommandPolicyAction)) {
+        throw new Error(`Invalid action in rule #${index + 1}: ${String(action)}`)
+      }
+      if (typeof pattern !== 'string' && typeof regex !== 'string') {
+        throw new Error(`Rule #${index + 1} needs a pattern or regex`)
+      }
+      return {
+        id: typeof id === 'string' ? id : `rule-${index + 1}`,
+        pattern: typeof pattern === 'string' ? pattern : undefined,
+        regex: typeof regex === 'string' ? regex : undefined,
+        action: action as CommandPolicyAction,
+        reason: typeof reason === 'string' ? reason : undefined
+      }
+    })
+  }
+}
+
+/**
+ * 命令策略服务（单例）
+ */
+class CommandPolicyService extends EventEmitter {
+  private static instance: CommandPolicyService | null = null
+
+  private constructor() {
+    super()
+  }
+
+  static getInstance(): CommandPolicyService {
+    if (!CommandPolicyService.instance) {
+      CommandPolicyService.instance = new CommandPolicyService()
+    }
+    return CommandPolicyService.instance
+  }
+
+  /**
+   * 读取项目策略
+   * @returns policy 为生效策略；策略文件损坏时 error 为原因，policy 为全部拒绝
+   */
+  async getPolicy(projectPath: string): Promise<{ policy: CommandPolicy; source: string | null; error?: string }> {
+    const policyPath = getPolicyPath(projectPath)
+
+    let content: string
+    try {
+      content = await readFile(policyPath, 'utf-8')
+    } catch {
+      return { policy: { ...DEFAULT_POLICY, rules: [] }, source: null }
+    }
+
+    try {
+      return { policy: normalizePolicy(parseYaml(content)), source: policyPath }
+    } catch (error) {
+      const message = (error as Error).message
+      console.warn(`[CommandPolicy] Invalid policy file ${policyPath}: ${message}`)
+      return { policy: { default: 'deny', rules: [] }, source: policyPath, error: message }
+    }
+  }
+
+  /**
+   * 判定一次执行请求
+   */
+  async evaluate(request: CliPolicyCheckRequest): Promise<CommandPolicyDecision> {
+    const spec = buildSpawnArgs(request)
+    const commandLine = spec.shell ? spec.file : [spec.file, ...spec.args].join(' ')
+
+    // claude 调用不受策略约束
+    if (!spec.shell && isClaudeExecutable(spec.file)) {
+      return { action: 'allow', commandLine, exempt: true, source: null }
+    }
+
+    const { policy, source, error } = await this.getPolicy(request.projectPath)
+    const { action, rule } = evaluateCommandPolicy(policy, commandLine)
+
+    return {
+      action,
+      commandLine,
+      exempt: false,
+      rule,
+      source,
+      policyError: error,
+      compound: hasShellMetacharacters(commandLine)
+    }
+  }
+}
+
+// 导出单例
+export const commandPolicyService = CommandPolicyService.getInstance()
+
+// 导出类型供测试使用
+export { CommandPolicyService, evaluateCommandPolicy, hasShellMetacharacters, DEFAULT_POLICY }
@@ -0,0 +1,153 @@
+/**
+ * 执行历史服务
+ * 将每次 CLI 执行追加写入 .claude/state/execution_history.jsonl
+ *
+ * 关键约束：
+ * - 只追加，不改写已有记录（用于审计与复现失败）
+ * - 记录完整的 stdout / stderr 以及 Step / Feature / Phase 上下文
+ * - 查询时跳过损坏的行，不影响其余记录
+ */
+
+import { readFile, appendFile, mkdir } from 'fs/promises'
+import { join } from 'path'
+import { EventEmitter } from 'events'
+import type {
+  ExecutionHistoryEntry,
+  ExecutionHistoryQuery,
+  ExecutionHistoryPage
+} from '../../shared/types/ipc.types'
+
+/** 默认每页条数 */
+const DEFAULT_PAGE_SIZE = 20
+
+/** 每页条数上限 */
+const MAX_PAGE_SIZE = 100
+
+/**
+ * 获取历史日志文件路径
+ */
+function getHistoryPath(projectPath: string): string {
+  return join(projectPath, '.claude', 'state', 'execution_history.jsonl')
+}
+
+/**
+ * 判断记录是否匹配查询条件
+ */
+function matchesQuery(entry: ExecutionHistoryEntry, query: ExecutionHistoryQuery): boolean {
+  if (query.featureId && entry.featureId !== query.featureId) return false
+  if (query.stepId && entry.stepId !== query.stepId) return false
+  if (query.phaseId !== undefined && entry.phaseId !== query.phaseId) return false
+  if (query.status && entry.status !== query.status) return false
+  if (query.since && entry.startedAt < query.since) return false
+  if (query.until && entry.startedAt > query.until) return false
+
+  if (query.search) {
+    const keyword = query.search.toLowerCase()
+    const haystacks = [entry.command, entry.stdout, entry.stderr]
+    if (!haystacks.some(text => text.toLowerCase().includes(keyword))) {
+      return false
+    }
+  }
+
+  return true
+}
+
+/**
+ * 执行历史服务（单例）
+ */
+class ExecutionHistoryService extends EventEmitter {
+  private static instance: ExecutionHistoryService | null = null
+
+  /** 按项目串行化写入，避免并发执行的记录交错 */
+  private writeChains = new Map<string, Promise<void>>()
+
+  private constructor() {
+    super()
+  }
+
+  static getInstance(): ExecutionHistoryService {
+    if (!ExecutionHistoryService.instance) {
+      ExecutionHistoryService.instance = new ExecutionHistoryService()
+    }
+    return ExecutionHistoryService.instance
+  }
+
+  /**
+   * 追加一条执行记录
+   */
+  append(entry: ExecutionHistoryEntry): Promise<void> {
+    const { projectPath } = entry
+    const previous = this.writeChains.get(projectPath) || Promise.resolve()
+
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const historyPath = getHistoryPath(projectPath)
+        await mkdir(join(projectPath, '.claude', 'state'), { recursive: true })
+        await appendFile(historyPath, JSON.stringify(entry) + '\n', 'utf-8')
+        this.emit('appended', entry)
+      })
+
+    this.writeChains.set(projectPath, next)
+    return next
+  }
+
+  /**
+   * 分页查询执行记录（按开始时间倒序）
+   */
+  async query(query: ExecutionHistoryQuery): Promise<ExecutionHistoryPage> {
+    const offset = Math.max(0, query.offset ?? 0)
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, query.limit ?? DEFAULT_PAGE_SIZE))
+
+    const matched = (await this.readAll(query.projectPath))
+      .filter(entry => matchesQuery(entry, query))
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+
+    return {
+      entries: matched.slice(offset, offset + limit),
+      total: matched.length,
+      offset,
+      limit
+    }
+  }
+
+  /**
+   * 获取单条执行记录
+   */
+  async get(projectPath: string, executionId: string): Promise<ExecutionHistoryEntry | null> {
+    const entries = await this.readAll(projectPath)
+    return entries.find(entry => entry.executionId === executionId) || null
+  }
+
+  /**
+   * 读取全部记录（等待未完成的写入）
+   */
+  private async readAll(projectPath: string): Promise<ExecutionHistoryEntry[]> {
+    await this.writeChains.get(projectPath)?.catch(() => undefined)
+
+    let content: string
+    try {
+      content = await readFile(getHistoryPath(projectPath), 'utf-8')
+    } catch {
+      // 文件不存在视为无记录
+      return []
+    }
+
+    const entries: ExecutionHistoryEntry[] = []
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue
+      try {
+        entries.push(JSON.parse(line) as ExecutionHistoryEntry)
+      } catch {
+        console.warn('[ExecutionHistory] Skipping malformed line')
+      }
+    }
+    return entries
+  }
+}
+
+// 导出单例
+export const executionHistoryService = ExecutionHistoryService.getInstance()
+
+// 导出类型供测试使用
+export { ExecutionHistoryService }
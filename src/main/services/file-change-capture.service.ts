@@ -0,0 +1,401 @@
+/**
+ * 执行期间的文件变更捕获服务
+ * 基于 file.handler 的项目文件监控，记录每次执行期间新建 / 修改 / 删除的文件及前后内容哈希
+ * 监控只覆盖 docs/ 与 .claude/，源码等其他目录的变更不会被捕获
+ *
+ * 关键约束：
+ * - 打开项目时建立基线（哈希 + 小文本文件内容），之后每次文件事件都更新基线，
+ *   因此执行开始时无需重新扫描，变更前的内容取自事件发生前的基线
+ * - 同一项目并行执行多个命令时，期间的变更会同时记入各自的执行（无法区分来源）
+ * - 执行结束后等待 CAPTURE_SETTLE_MS，收集写入稳定后才到达的文件事件
+ * - 前后内容按哈希写入 .claude/state/blobs/，供执行详情中与执行前版本做差异对比
+ * - 超过 MAX_SNAPSHOT_BYTES 或二进制文件只记录哈希，不保留内容
+ * - .claude/state/ 下的文件由应用自身写入，不参与捕获
+ */
+
+import { readFile, writeFile, mkdir, access } from 'fs/promises'
+import { readFileSync, readdirSync } from 'fs'
+import { createHash } from 'crypto'
+import { join, relative, sep } from 'path'
+import { EventEmitter } from 'events'
+import type {
+  ExecutionFileChange,
+  FileChangeEvent,
+  FileDiffLine
+} from '../../shared/types/ipc.types'
+
+/** 保留内容的文件大小上限 */
+const MAX_SNAPSHOT_BYTES = 256 * 1024
+
+/** 执行结束后等待文件事件到达的时间（需大于监控的写入稳定阈值） */
+const CAPTURE_SETTLE_MS = 500
+
+/** 差异上下文行数 */
+const DIFF_CONTEXT_LINES = 3
+
+/** 逐行比较的规模上限（行数乘积），超过时整体视为替换 */
+const MAX_DIFF_CELLS = 4_000_000
+
+/** 文件快照 */
+interface FileSnapshot {
+  hash: string
+  /** 小文本文件的内容 */
+  content?: string
+}
+
+/** 执行期间单个文件的变更（首次变更前与最后一次变更后） */
+interface PendingChange {
+  before: FileSnapshot | null
+  after: FileSnapshot | null
+}
+
+/** 进行中的捕获 */
+interface ActiveCapture {
+  projectPath: string
+  changes: Map<string, PendingChange>
+}
+
+/**
+ * 获取内容存储目录
+ */
+function getBlobDir(projectPath: string): string {
+  return join(projectPath, '.claude', 'state', 'blobs')
+}
+
+/**
+ * 计算内容哈希
+ */
+function hashContent(content: Buffer | string): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+/**
+ * 转换为项目相对路径（统一使用 /）
+ */
+function toRelativePath(projectPath: string, filePath: string): string {
+  return relative(projectPath, filePath).split(sep).join('/')
+}
+
+/**
+ * 是否为应用自身的状态文件
+ */
+function isInternalPath(relativePath: string): boolean {
+  return relativePath.startsWith('.claude/state/')
+}
+
+/**
+ * 读取文件快照；文件不存在时返回 null
+ */
+async function readSnapshot(filePath: string): Promise<FileSnapshot | null> {
+  let buffer: Buffer
+  try {
+    buffer = await readFile(filePath)
+  } catch {
+    return null
+  }
+
+  return toSnapshot(buffer)
+}
+
+/**
+ * 由文件内容生成快照（大文件 / 二进制文件只记录哈希）
+ */
+function toSnapshot(buffer: Buffer): FileSnapshot {
+  const snapshot: FileSnapshot = { hash: hashContent(buffer) }
+  if (buffer.length <= MAX_SNAPSHOT_BYTES && !buffer.includes(0)) {
+    snapshot.content = buffer.toString('utf-8')
+  }
+  return snapshot
+}
+
+/**
+ * 同步读取目录下全部文件的快照（项目相对路径 → 快照）；目录不存在时跳过
+ */
+function readDirectorySnapshotsSync(projectPath: string, relativeDir: string, result: Map<string, FileSnapshot>): void {
+  let entries: Array<{ name: string; isDirectory(): boolean; isFile(): boolean }>
+  try {
+    entries = readdirSync(join(projectPath, relativeDir), { withFileTypes: true })
+  } catch {
+    return
+  }
+
+  for (const entry of entries) {
+    const relativePath = `${relativeDir}/${entry.name}`
+    if (entry.isDirectory()) {
+      readDirectorySnapshotsSync(projectPath, relativePath, result)
+    } else if (entry.isFile()) {
+      try {
+        result.set(relativePath, toSnapshot(readFileSync(join(projectPath, relativePath))))
+      } catch {
+        // 读取期间被删除
+      }
+    }
+  }
+}
+
+/**
+ * 按行计算差异（最长公共子序列），只保留变更附近的上下文
+ */
+function computeLineDiff(before: string, after: string): FileDiffLine[] {
+  const oldLines = before === '' ? [] : before.split('\n')
+  const newLines = after === '' ? [] : after.split('\n')
+  const n = oldLines.length
+  const m = newLines.length
+
+  const full: FileDiffLine[] = []
+  if (n * m > MAX_DIFF_CELLS) {
+    oldLines.forEach((text, i) => full.push({ type: 'remove', text, oldLine: i + 1 }))
+    newLines.forEach((text, j) => full.push({ type: 'add', text, newLine: j + 1 }))
+  } else {
+    // lcs[i][j]：oldLines[i..] 与 newLines[j..] 的公共子序列长度
+    const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1))
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = oldLines[i] === newLines[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < n || j < m) {
+      if (i < n && j < m && oldLines[i] === newLines[j]) {
+        full.push({ type: 'context', text: oldLines[i], oldLine: i + 1, newLine: j + 1 })
+        i++
+        j++
+      } else if (j < m && (i >= n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+        full.push({ type: 'add', text: newLines[j], newLine: j + 1 })
+        j++
+      } else {
+        full.push({ type: 'remove', text: oldLines[i], oldLine: i + 1 })
+        i++
+      }
+    }
+  }
+
+  // 折叠远离变更的上下文
+  const keep = full.map(() => false)
+  full.forEach((line, index) => {
+    if (line.type === 'context') return
+    const from = Math.max(0, index - DIFF_CONTEXT_LINES)
+    const to = Math.min(full.length - 1, index + DIFF_CONTEXT_LINES)
+    for (let k = from; k <= to; k++) keep[k] = true
+  })
+
+  const result: FileDiffLine[] = []
+  let skipped = 0
+  full.forEach((line, index) => {
+    if (keep[index]) {
+      if (skipped > 0) {
+        result.push({ type: 'skip', text: `${skipped} 行未变化`, count: skipped })
+        skipped = 0
+      }
+      result.push(line)
+    } else {
+      skipped++
+    }
+  })
+  if (skipped > 0) {
+    result.push({ type: 'skip', text: `${skipped} 行未变化`, count: skipped })
+  }
+  return result
+}
+
+/**
+ * 文件变更捕获服务（单例）
+ */
+class FileChangeCaptureService extends EventEmitter {
+  private static instance: FileChangeCaptureService | null = null
+
+  /** 按项目的文件基线（项目相对路径 → 快照） */
+  private baselines = new Map<string, Map<string, FileSnapshot>>()
+
+  /** 进行中的捕获（executionId → 捕获） */
+  private captures = new Map<string, ActiveCapture>()
+
+  /** 按项目串行处理文件事件，保证基线更新顺序 */
+  private eventChains = new Map<string, Promise<void>>()
+
+  private constructor() {
+    super()
+  }
+
+  static getInstance(): FileChangeCaptureService {
+    if (!FileChangeCaptureService.instance) {
+      FileChangeCaptureService.instance = new FileChangeCaptureService()
+    }
+    return FileChangeCaptureService.instance
+  }
+
+  /**
+   * 记入基线（打开项目时的初始扫描）
+   */
+  indexFile(projectPath: string, filePath: string): Promise<void> {
+    return this.enqueue(projectPath, async () => {
+      const relativePath = toRelativePath(projectPath, filePath)
+      if (isInternalPath(relativePath)) return
+
+      const snapshot = await readSnapshot(filePath)
+      if (snapshot) {
+        this.getBaseline(projectPath).set(relativePath, snapshot)
+      }
+    })
+  }
+
+  /**
+   * 处理文件事件：更新基线并记入进行中的执行
+   */
+  recordChange(projectPath: string, filePath: string, type: FileChangeEvent['type']): Promise<void> {
+    return this.enqueue(projectPath, async () => {
+      const relativePath = toRelativePath(projectPath, filePath)
+      if (isInternalPath(relativePath)) return
+
+      const baseline = this.getBaseline(projectPath)
+      const previous = baseline.get(relativePath) ?? null
+      const current = type === 'delete' ? null : await readSnapshot(filePath)
+
+      if (current) {
+        baseline.set(relativePath, current)
+      } else {
+        baseline.delete(relativePath)
+      }
+
+      for (const capture of this.captures.values()) {
+        if (capture.projectPath !== projectPath) continue
+        const pending = capture.changes.get(relativePath)
+        if (pending) {
+          pending.after = current
+        } else {
+          capture.changes.set(relativePath, { before: previous, after: current })
+        }
+      }
+    })
+  }
+
+  /**
+   * 开始捕获一次执行
+   */
+  begin(executionId: string, projectPath: string): void {
+    this.captures.set(executionId, { projectPath, changes: new Map() })
+  }
+
+  /**
+   * 结束捕获，写入前后内容并返回变更列表
+   * 未开始捕获的执行返回空列表
+   */
+  async complete(executionId: string, settleMs = CAPTURE_SETTLE_MS): Promise<ExecutionFileChange[]> {
+    const capture = this.captures.get(executionId)
+    if (!capture) return []
+
+    if (settleMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, settleMs))
+    }
+    await (this.eventChains.get(capture.projectPath) ?? Promise.resolve())
+    this.captures.delete(executionId)
+
+    const changes: ExecutionFileChange[] = []
+    for (const [path, { before, after }] of capture.changes) {
+      // 执行期间新建又删除、或改动后恢复原样的文件不计入
+      if (before?.hash === after?.hash) continue
+
+      const type: ExecutionFileChange['type'] = !before ? 'create' : !after ? 'delete' : 'update'
+      const snapshots = [before, after].filter((item): item is FileSnapshot => item !== null)
+      for (const snapshot of snapshots) {
+        await this.storeBlob(capture.projectPath, snapshot)
+      }
+
+      changes.push({
+        path,
+        type,
+        beforeHash: before?.hash,
+        afterHash: after?.hash,
+        diffable: snapshots.every(snapshot => snapshot.content !== undefined)
+      })
+    }
+
+    return changes.sort((a, b) => a.path.localeCompare(b.path))
+  }
+
+  /**
+   * 从磁盘同步读取目录的当前快照（用于执行开始时的检查点）
+   * 不使用基线：基线由文件事件异步建立，打开项目后不久或写入稳定前可能不完整
+   * 返回项目相对路径 → 快照
+   */
+  snapshotDirectory(projectPath: string, relativeDir: string): Map<string, FileSnapshot> {
+    const result = new Map<string, FileSnapshot>()
+    readDirectorySnapshotsSync(projectPath, relativeDir.replace(/\/+$/, ''), result)
+    return result
+  }
+
+  /**
+   * 按哈希写入内容（已存在或无内容时跳过）
+   */
+  async storeBlob(projectPath: string, snapshot: FileSnapshot): Promise<void> {
+    if (snapshot.content === undefined) return
+
+    const blobPath = join(getBlobDir(projectPath), snapshot.hash)
+    try {
+      await access(blobPath)
+      return
+    } catch {
+      // 不存在，继续写入
+    }
+
+    try {
+      await mkdir(getBlobDir(projectPath), { recursive: true })
+      await writeFile(blobPath, snapshot.content, 'utf-8')
+    } catch (error) {
+      console.warn('[FileChangeCapture] Failed to store blob:', (error as Error).message)
+    }
+  }
+
+  /**
+   * 读取已存储的内容；不存在时返回 null
+   */
+  async readBlob(projectPath: string, hash: string): Promise<string | null> {
+    if (!/^[0-9a-f]{64}$/.test(hash)) return null
+    try {
+      return await readFile(join(getBlobDir(projectPath), hash), 'utf-8')
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * 清除项目基线（停止监控时）
+   */
+  reset(projectPath: string): void {
+    this.baselines.delete(projectPath)
+    this.eventChains.delete(projectPath)
+  }
+
+  // ========== 私有方法 ==========
+
+  private getBaseline(projectPath: string): Map<string, FileSnapshot> {
+    let baseline = this.baselines.get(projectPath)
+    if (!baseline) {
+      baseline = new Map()
+      this.baselines.set(projectPath, baseline)
+    }
+    return baseline
+  }
+
+  private enqueue(projectPath: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.eventChains.get(projectPath) || Promise.resolve()
+    const next = previous
+      .then(task)
+      .catch((error: Error) => {
+        console.warn('[FileChangeCapture] Failed to process file event:', error.message)
+      })
+    this.eventChains.set(projectPath, next)
+    return next
+  }
+}
+
+// 导出单例
+export const fileChangeCaptureService = FileChangeCaptureService.getInstance()
+
+// 导出类型供测试使用
+export { FileChangeCaptureService, computeLineDiff, hashContent, readSnapshot, MAX_SNAPSHOT_BYTES }
+export type { FileSnapshot }
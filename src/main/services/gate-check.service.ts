@@ -0,0 +1,350 @@
+/**
+ * Gate 自动检查服务
+ * 按预设（preset.yaml）中各 Phase 的 gate_rules.auto_check 检查 Feature 目录，结果写入 PHASE_GATE_STATUS.yaml
+ *
+ * 关键约束：
+ * - 规则来源：项目的 .claude/preset.yaml 优先，不存在时使用内置预设 presets/software-dev/preset.yaml
+ * - 支持的规则：file_exists / file_exists_any / content_check（contains）/ glob_match；
+ *   其他类型（custom、test_pass 等）标记为 skipped，需在 CLI 中执行 /check-gate
+ * - 规则中的路径均相对于 Feature 目录，超出 Feature 目录的路径视为失败
+ * - 总体结果：有失败为 failed；否则有 skipped 为 pending；全部通过为 passed
+ * - 写入 phases.{phase}.check_status / checked_at / check_results，其余内容保持不变
+ *
+ * 预设示例：
+ *   phases:
+ *     - id: 1
+ *       gate_rules:
+ *         auto_check:
+ *           - type: "file_exists"
+ *             path: "10_CONTEXT.md"
+ *           - type: "content_check"
+ *             file: "10_CONTEXT.md"
+ *             contains: ["目标", "范围"]
+ */
+
+import { readFile, writeFile, stat, readdir } from 'fs/promises'
+import { join, relative, resolve, sep } from 'path'
+import { app } from 'electron'
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml'
+import type {
+  GateAutoCheckRule,
+  GateCheckResponse,
+  GateRuleResult
+} from '../../shared/types/ipc.types'
+
+/** 内置预设 */
+const DEFAULT_PRESET = join('software-dev', 'preset.yaml')
+
+/** Gate 状态文件 */
+const GATE_STATUS_FILE = 'PHASE_GATE_STATUS.yaml'
+
+/** glob_match 遍历时跳过的目录 */
+const IGNORED_DIRS = new Set(['node_modules', '.git'])
+
+/** 每条规则最多列出的依据 */
+const MAX_EVIDENCE = 10
+
+/** 依据中单行内容的最大长度 */
+const MAX_LINE_LENGTH = 80
+
+/**
+ * 将路径通配符转换为正则
+ * ** 匹配任意层目录，* / ? 不跨目录，{a,b} 匹配任一候选
+ */
+function pathGlobToRegExp(pattern: string): RegExp {
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '*' && pattern[i + 1] === '*') {
+      // **/ 可匹配零层目录
+      const slash = pattern[i + 2] === '/'
+      source += slash ? '(?:.*/)?' : '.*'
+      i += slash ? 2 : 1
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i)
+      if (end < 0) {
+        source += '\\{'
+        continue
+      }
+      const options = pattern.slice(i + 1, end).split(',')
+      source += `(?:${options.map(option => option.replace(/[.+^${}()|[\]\\]/g, '\\$&')).join('|')})`
+      i = end
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * 解析 Feature 目录内的相对路径；超出目录时返回 null
+ */
+function resolveInFeature(featurePath: string, target: string): string | null {
+  const root = resolve(featurePath)
+  const full = resolve(root, target)
+  return full === root || full.startsWith(root + sep) ? full : null
+}
+
+/**
+ * 文件是否存在（不含目录）
+ */
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await stat(filePath)).isFile()
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 列出目录下的全部文件（posix 风格相对路径）
+ */
+async function listFiles(root: string, dir = root): Promise<string[]> {
+  let entries
+  try {
+    entries = await readdir(dir, { withFileTypes: true })
+  } catch {
+    return []
+  }
+
+  const files: string[] = []
+  for (const entry of entries) {
+    const full = join(dir, entry.name)
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRS.has(entry.name)) {
+        files.push(...await listFiles(root, full))
+      }
+    } else if (entry.isFile()) {
+      files.push(relative(root, full).split(sep).join('/'))
+    }
+  }
+  return files.sort()
+}
+
+/**
+ * 截断过长的行
+ */
+function truncate(line: string): string {
+  const trimmed = line.trim()
+  return trimmed.length > MAX_LINE_LENGTH ? `${trimmed.slice(0, MAX_LINE_LENGTH)}…` : trimmed
+}
+
+/**
+ * 检查单条规则
+ */
+async function evaluateGateRule(
+  featurePath: string,
+  rule: GateAutoCheckRule,
+  index: number
+): Promise<GateRuleResult> {
+  const result = (status: GateRuleResult['status'], message: string, evidence: string[] = []): GateRuleResult =>
+    ({ index, type: rule.type, status, message, evidence: evidence.slice(0, MAX_EVIDENCE) })
+
+  switch (rule.type) {
+    case 'file_exists': {
+      if (!rule.path) return result('failed', '规则缺少 path')
+      const filePath = resolveInFeature(featurePath, rule.path)
+      if (!filePath) return result('failed', `路径超出 Feature 目录: ${rule.path}`)
+      return await isFile(filePath)
+        ? result('passed', `${rule.path} 存在`, [rule.path])
+        : result('failed', `${rule.path} 不存在`)
+    }
+
+    case 'file_exists_any': {
+      const paths = rule.paths ?? []
+      if (paths.length === 0) return result('failed', '规则缺少 paths')
+      const found: string[] = []
+      for (const path of paths) {
+        const filePath = resolveInFeature(featurePath, path)
+        if (filePath && await isFile(filePath)) found.push(path)
+      }
+      return found.length > 0
+        ? result('passed', `找到 ${found.join('、')}`, found)
+        : result('failed', `${paths.join('、')} 均不存在`)
+    }
+
+    case 'content_check': {
+      if (!rule.file) return result('failed', '规则缺少 file')
+      const filePath = resolveInFeature(featurePath, rule.file)
+      if (!filePath) return result('failed', `路径超出 Feature 目录: ${rule.file}`)
+
+      let content: string
+      try {
+        content = await readFile(filePath, 'utf-8')
+      } catch {
+        return result('failed', `${rule.file} 不存在`)
+      }
+
+      const lines = content.split(/\r?\n/)
+      const evidence: string[] = []
+      const missing: string[] = []
+      for (const keyword of rule.contains ?? []) {
+        const lineIndex = lines.findIndex(line => line.includes(keyword))
+        if (lineIndex < 0) {
+          missing.push(keyword)
+        } else {
+          evidence.push(`${rule.file}:${lineIndex + 1} ${truncate(lines[lineIndex])}`)
+        }
+      }
+      return missing.length === 0
+        ? result('passed', `${rule.file} 包含 ${(rule.contains ?? []).join('、') || '内容'}`, evidence)
+        : result('failed', `${rule.file} 缺少 ${missing.join('、')}`, evidence)
+    }
+
+    case 'glob_match': {
+      if (!rule.pattern) return result('failed', '规则缺少 pattern')
+      const matcher = pathGlobToRegExp(rule.pattern)
+      const matched = (await listFiles(featurePath)).filter(file => matcher.test(file))
+      return matched.length > 0
+        ? result('passed', `${rule.pattern} 匹配 ${matched.length} 个文件`, matched)
+        : result('failed', `没有文件匹配 ${rule.pattern}`)
+    }
+
+    default:
+      return result('skipped', `${rule.type} 规则不支持自动检查，请在 CLI 中执行 /check-gate`)
+  }
+}
+
+/**
+ * 汇总总体结果
+ */
+function summarizeResults(results: GateRuleResult[]): GateCheckResponse['status'] {
+  if (results.some(item => item.status === 'failed')) return 'failed'
+  if (results.some(item => item.status === 'skipped')) return 'pending'
+  return 'passed'
+}
+
+/**
+ * Gate 自动检查服务（单例）
+ */
+class GateCheckService {
+  private static instance: GateCheckService | null = null
+
+  private constructor() {}
+
+  static getInstance(): GateCheckService {
+    if (!GateCheckService.instance) {
+      GateCheckService.instance = new GateCheckService()
+    }
+    return GateCheckService.instance
+  }
+
+  /**
+   * 读取预设中的 Phase 配置
+   * @throws 预设无法读取或未定义该 Phase
+   */
+  private async getPhaseConfig(projectPath: string, phase: number): Promise<{ config: Record<string, unknown>; source: string }> {
+    const candidates = [
+      join(projectPath, '.claude', 'preset.yaml'),
+      join(app.getAppPath(), 'presets', DEFAULT_PRESET)
+    ]
+
+    for (const source of candidates) {
+      let content: string
+      try {
+        content = await readFile(source, 'utf-8')
+      } catch {
+        continue
+      }
+
+      const preset = parseYaml(content) as { phases?: Array<Record<string, unknown>> } | null
+      const config = preset?.phases?.find(item => Number(item.id) === phase)
+      if (!config) {
+        throw new Error(`Phase ${phase} is not defined in ${source}`)
+      }
+      return { config, source }
+    }
+
+    throw new Error('No preset found')
+  }
+
+  /**
+   * 读取 Phase 的自动检查规则
+   * @throws 预设无法读取或未定义该 Phase
+   */
+  async getRules(projectPath: string, phase: number): Promise<{ rules: GateAutoCheckRule[]; source: string }> {
+    const { config, source } = await this.getPhaseConfig(projectPath, phase)
+
+    const gateRules = config.gate_rules as { auto_check?: unknown } | undefined
+    const rules = Array.isArray(gateRules?.auto_check)
+      ? (gateRules.auto_check as unknown[]).filter((rule): rule is GateAutoCheckRule =>
+          !!rule && typeof (rule as GateAutoCheckRule).type === 'string')
+      : []
+    return { rules, source }
+  }
+
+  /**
+   * 读取 Phase 的审批角色（gate_rules.approvers）
+   * @throws 预设无法读取或未定义该 Phase
+   */
+  async getApprovers(projectPath: string, phase: number): Promise<string[]> {
+    const { config } = await this.getPhaseConfig(projectPath, phase)
+
+    const gateRules = config.gate_rules as { approvers?: unknown } | undefined
+    return Array.isArray(gateRules?.approvers)
+      ? gateRules.approvers.filter((role): role is string => typeof role === 'string')
+      : []
+  }
+
+  /**
+   * 检查 Feature 目录并更新 PHASE_GATE_STATUS.yaml
+   */
+  async check(projectPath: string, featureId: string, featurePath: string, phase: number): Promise<GateCheckResponse> {
+    const { rules, source } = await this.getRules(projectPath, phase)
+
+    const results: GateRuleResult[] = []
+    for (const [index, rule] of rules.entries()) {
+      results.push(await evaluateGateRule(featurePath, rule, index))
+    }
+
+    const response: GateCheckResponse = {
+      featureId,
+      phase,
+      status: summarizeResults(results),
+      results,
+      checkedAt: new Date().toISOString(),
+      rulesSource: source
+    }
+    await this.writeCheckStatus(featurePath, response)
+    return response
+  }
+
+  /**
+   * 写入检查结果
+   */
+  private async writeCheckStatus(featurePath: string, response: GateCheckResponse): Promise<void> {
+    const statusPath = join(featurePath, GATE_STATUS_FILE)
+
+    let content: Record<string, unknown> = {}
+    try {
+      content = (parseYaml(await readFile(statusPath, 'utf-8')) as Record<string, unknown> | null) ?? {}
+    } catch {
+      // 文件不存在，创建新的
+    }
+
+    const phases = (content.phases && typeof content.phases === 'object' ? content.phases : {}) as Record<string, unknown>
+    const phaseKey = String(response.phase)
+    const previous = (phases[phaseKey] && typeof phases[phaseKey] === 'object' ? phases[phaseKey] : {}) as Record<string, unknown>
+
+    phases[phaseKey] = {
+      ...previous,
+      check_status: response.status,
+      checked_at: response.checkedAt,
+      check_results: response.results.map(({ type, status, message, evidence }) => ({ type, status, message, evidence }))
+    }
+    content.phases = phases
+    content.last_updated = response.checkedAt
+
+    await writeFile(statusPath, stringifyYaml(content), 'utf-8')
+  }
+}
+
+// 导出单例
+export const gateCheckService = GateCheckService.getInstance()
+
+// 导出类型供测试使用
+export { GateCheckService, evaluateGateRule, pathGlobToRegExp, summarizeResults }
@@ -0,0 +1,261 @@
+/**
+ * Git 服务
+ * 为打开的项目提供仓库状态、按 Feature 建立 / 切换分支、Gate 审批通过后自动提交交付物
+ *
+ * 关键约束：
+ * - 以参数数组调用 git（execFile），不经过 shell
+ * - 设置保存在 .claude/git.yaml（auto_commit / branch_prefix），默认不自动提交
+ * - 提交只包含指定路径（git commit --only），不会带上用户已暂存的其他改动；指定路径没有变更时跳过
+ * - 切换分支由 git 自身保护未提交的改动，冲突时报错而不是丢弃改动
+ * - 状态中的路径相对仓库根目录（项目可能位于仓库子目录）
+ *
+ * 设置文件示例：
+ *   auto_commit: true
+ *   branch_prefix: feature/
+ */
+
+import { execFile } from 'child_process'
+import { access, readFile, writeFile, mkdir } from 'fs/promises'
+import { isAbsolute, join } from 'path'
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml'
+import { EventEmitter } from 'events'
+import type {
+  GitCommitResult,
+  GitFeatureBranchResult,
+  GitFileStatus,
+  GitSettings,
+  GitStatus
+} from '../../shared/types/ipc.types'
+
+/** 默认设置 */
+const DEFAULT_GIT_SETTINGS: GitSettings = {
+  autoCommit: false,
+  branchPrefix: 'feature/'
+}
+
+/** git 输出上限 */
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024
+
+/** git 命令失败 */
+class GitCommandError extends Error {
+  constructor(
+    message: string,
+    public readonly args: string[],
+    public readonly exitCode?: number
+  ) {
+    super(message)
+    this.name = 'GitCommandError'
+  }
+}
+
+/**
+ * 执行 git 命令，返回 stdout
+ */
+function runGit(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      'git',
+      args,
+      {
+        cwd,
+        maxBuffer: MAX_OUTPUT_BYTES,
+        // 禁止凭据提示，避免后台命令挂起
+        env: { ...process.env, GIT_TERMINAL_PROMPT: '0' }
+      },
+      (error, stdout, stderr) => {
+        if (error) {
+          const exitCode = typeof error.code === 'number' ? error.code : undefined
+          reject(new GitCommandError((stderr || error.message).trim(), args, exitCode))
+          return
+        }
+        resolve(stdout)
+      }
+    )
+  })
+}
+
+/**
+ * 获取设置文件路径
+ */
+function getSettingsPath(projectPath: string): string {
+  return join(projectPath, '.claude', 'git.yaml')
+}
+
+/**
+ * 解析 git status --porcelain=v1 -b -z 的输出
+ */
+function parseStatus(output: string): Omit<GitStatus, 'isRepo'> {
+  const entries = output.split('\0')
+  const status: Omit<GitStatus, 'isRepo'> = { ahead: 0, behind: 0, files: [], clean: true }
+
+  let index = 0
+  const header = entries[0]?.startsWith('## ') ? entries[index++].slice(3) : ''
+  if (header.startsWith('HEAD (no branch)')) {
+    status.detached = true
+  } else if (header) {
+    // 形如 "main...origin/main [ahead 1, behind 2]" 或 "No commits yet on main"
+    const match = header.match(/^(?:No commits yet on |Initial commit on )?(.+?)(?:\.\.\.(\S+))?(?: \[(.+)\])?$/)
+    if (match) {
+      status.branch = match[1]
+      status.upstream = match[2]
+      status.ahead = Number(match[3]?.match(/ahead (\d+)/)?.[1] ?? 0)
+      status.behind = Number(match[3]?.match(/behind (\d+)/)?.[1] ?? 0)
+    }
+  }
+
+  while (index < entries.length) {
+    const entry = entries[index++]
+    if (entry.length < 4) continue
+
+    const file: GitFileStatus = {
+      index: entry[0],
+      workingTree: entry[1],
+      path: entry.slice(3)
+    }
+    // 重命名 / 复制时下一项为原路径
+    if (file.index === 'R' || file.index === 'C') {
+      file.origPath = entries[index++]
+    }
+    status.files.push(file)
+  }
+
+  status.clean = status.files.length === 0
+  return status
+}
+
+/**
+ * 生成审批提交信息，如 "[F001][phase 4] design approved"
+ */
+function buildCommitMessage(featureId: string, phase: number, subject: string): string {
+  return `[${featureId}][phase ${phase}] ${subject.toLowerCase()} approved`
+}
+
+/**
+ * Git 服务（单例）
+ */
+class GitService extends EventEmitter {
+  private static instance: GitService | null = null
+
+  private constructor() {
+    super()
+  }
+
+  static getInstance(): GitService {
+    if (!GitService.instance) {
+      GitService.instance = new GitService()
+    }
+    return GitService.instance
+  }
+
+  /**
+   * 项目目录是否位于 Git 仓库中
+   */
+  async isRepo(projectPath: string): Promise<boolean> {
+    try {
+      return (await runGit(projectPath, ['rev-parse', '--is-inside-work-tree'])).trim() === 'true'
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * 获取仓库状态；非 Git 仓库时返回 isRepo: false
+   */
+  async getStatus(projectPath: string): Promise<GitStatus> {
+    if (!(await this.isRepo(projectPath))) {
+      return { isRepo: false, ahead: 0, behind: 0, files: [], clean: true }
+    }
+
+    const output = await runGit(projectPath, ['status', '--porcelain=v1', '-b', '-z', '--untracked-files=all'])
+    return { isRepo: true, ...parseStatus(output) }
+  }
+
+  /**
+   * 读取项目 Git 设置
+   */
+  async getSettings(projectPath: string): Promise<GitSettings> {
+    let raw: Record<string, unknown> | null = null
+    try {
+      raw = parseYaml(await readFile(getSettingsPath(projectPath), 'utf-8')) as Record<string, unknown> | null
+    } catch {
+      // 文件不存在或格式错误时使用默认设置
+    }
+
+    return {
+      autoCommit: typeof raw?.auto_commit === 'boolean' ? raw.auto_commit : DEFAULT_GIT_SETTINGS.autoCommit,
+      branchPrefix: typeof raw?.branch_prefix === 'string' ? raw.branch_prefix : DEFAULT_GIT_SETTINGS.branchPrefix
+    }
+  }
+
+  /**
+   * 保存项目 Git 设置
+   */
+  async setSettings(projectPath: string, settings: GitSettings): Promise<GitSettings> {
+    await mkdir(join(projectPath, '.claude'), { recursive: true })
+    await writeFile(
+      getSettingsPath(projectPath),
+      stringifyYaml({ auto_commit: settings.autoCommit, branch_prefix: settings.branchPrefix }),
+      'utf-8'
+    )
+    return { ...settings }
+  }
+
+  /**
+   * 切换到 Feature 分支，不存在时从当前 HEAD 新建
+   */
+  async ensureFeatureBranch(projectPath: string, featureId: string): Promise<GitFeatureBranchResult> {
+    const { branchPrefix } = await this.getSettings(projectPath)
+    const branch = (await runGit(projectPath, ['check-ref-format', '--branch', `${branchPrefix}${featureId}`])).trim()
+
+    const status = await this.getStatus(projectPath)
+    if (status.branch === branch) {
+      return { branch, created: false }
+    }
+
+    const exists = await runGit(projectPath, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`])
+      .then(() => true, () => false)
+
+    await runGit(projectPath, exists ? ['switch', branch] : ['switch', '-c', branch])
+    this.emit('branch', { projectPath, branch, created: !exists })
+    return { branch, created: !exists }
+  }
+
+  /**
+   * 提交指定路径（文件或目录）的变更
+   * 不存在的路径会被忽略；没有变更时返回 committed: false
+   */
+  async commitPaths(projectPath: string, paths: string[], message: string): Promise<GitCommitResult> {
+    const existing: string[] = []
+    for (const path of paths) {
+      try {
+        await access(isAbsolute(path) ? path : join(projectPath, path))
+        existing.push(path)
+      } catch {
+        // 忽略不存在的路径
+      }
+    }
+    if (existing.length === 0) {
+      return { committed: false, message, files: [] }
+    }
+
+    await runGit(projectPath, ['add', '-A', '--', ...existing])
+    const files = (await runGit(projectPath, ['diff', '--cached', '--name-only', '-z', '--', ...existing]))
+      .split('\0')
+      .filter(Boolean)
+    if (files.length === 0) {
+      return { committed: false, message, files: [] }
+    }
+
+    await runGit(projectPath, ['commit', '--only', '-m', message, '--', ...existing])
+    const commit = (await runGit(projectPath, ['rev-parse', 'HEAD'])).trim()
+
+    this.emit('commit', { projectPath, commit, message, files })
+    return { committed: true, commit, message, files }
+  }
+}
+
+// 导出单例
+export const gitService = GitService.getInstance()
+
+// 导出类型供测试使用
+export { GitService, GitCommandError, parseStatus, buildCommitMessage, DEFAULT_GIT_SETTINGS }
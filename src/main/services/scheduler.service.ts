@@ -0,0 +1,534 @@
+/**
+ * 定时计划服务
+ * 项目打开期间按 .claude/schedule.yaml 中的 cron 表达式触发框架步骤（如工作日 09:00 /start-day、18:30 /end-day）
+ *
+ * 关键约束：
+ * - 触发经由常规 CLI 执行路径（模板校验、命令策略、执行队列、执行历史）
+ * - 只允许 slash command：其他命令受命令策略约束，默认需要人工确认，无人值守时必然失败，因此创建时即拒绝
+ * - 应用关闭期间错过的触发不补跑，只在下次打开项目时报告
+ * - 同一计划每分钟最多触发一次；触发记录保存在 .claude/state/schedule_state.json
+ * - cron 为 5 段（分 时 日 月 周），支持 * / 数字 / 列表 / 范围 / 步长，周日为 0 或 7，按本地时间计算
+ *
+ * 计划文件示例：
+ *   schedules:
+ *     - id: morning
+ *       step_id: start-day
+ *       command: /start-day
+ *       cron: "0 9 * * 1-5"
+ *     - id: evening
+ *       step_id: end-day
+ *       command: /end-day
+ *       cron: "30 18 * * 1-5"
+ */
+
+import { readFile, writeFile, mkdir } from 'fs/promises'
+import { join } from 'path'
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml'
+import { EventEmitter } from 'events'
+import type {
+  CliExecuteRequest,
+  CliExecuteResponse,
+  MissedScheduleRun,
+  ScheduleEntry,
+  ScheduleRunRecord,
+  ScheduleTable,
+  SchedulerStatus
+} from '../../shared/types/ipc.types'
+
+/** 各字段取值范围：分 时 日 月 周 */
+const CRON_FIELD_RANGES: Array<[number, number]> = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]]
+
+/** 错过触发的回溯上限 */
+const MAX_MISSED_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000
+
+/** 计算下次触发时间的前瞻上限 */
+const MAX_LOOKAHEAD_MS = 366 * 24 * 60 * 60 * 1000
+
+/** 每分钟检查时相对整分钟的偏移，避免计时器提前触发落在上一分钟 */
+const TICK_OFFSET_MS = 500
+
+/** 解析后的 cron 表达式 */
+interface CronSchedule {
+  minutes: Set<number>
+  hours: Set<number>
+  days: Set<number>
+  months: Set<number>
+  weekdays: Set<number>
+  /** 日 / 周字段是否受限（标准 cron：两者都受限时满足其一即可；以 * 开头的字段（如每隔 N 天）视为不受限） */
+  dayRestricted: boolean
+  weekdayRestricted: boolean
+}
+
+/** 持久化的触发状态 */
+interface ScheduleState {
+  /** 上次打开项目（或修改计划）的时间，错过的触发从此后开始计算 */
+  lastCheckedAt: string | null
+  runs: Record<string, ScheduleRunRecord>
+}
+
+/** 计划文件中的原始条目（snake_case，与其他 YAML 配置保持一致） */
+interface RawScheduleEntry {
+  id?: unknown
+  step_id?: unknown
+  command?: unknown
+  cron?: unknown
+  enabled?: unknown
+  feature_id?: unknown
+}
+
+/** 执行入口（由 IPC 层注入，走 cli:execute 的同一路径） */
+export type ScheduleRunner = (request: CliExecuteRequest) => Promise<CliExecuteResponse>
+
+/**
+ * 获取计划文件路径
+ */
+function getSchedulePath(projectPath: string): string {
+  return join(projectPath, '.claude', 'schedule.yaml')
+}
+
+/**
+ * 获取触发状态文件路径
+ */
+function getStatePath(projectPath: string): string {
+  return join(projectPath, '.claude', 'state', 'schedule_state.json')
+}
+
+/**
+ * 解析单个 cron 字段
+ */
+function parseCronField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : Number(stepText)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in cron field: ${part}`)
+    }
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      start = min
+      end = max
+    } else {
+      const [from, to] = range.split('-')
+      start = Number(from)
+      // "5/15" 表示从 5 开始到上限
+      end = to !== undefined ? Number(to) : stepText !== undefined ? max : start
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid value in cron field: ${part}`)
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+/**
+ * 解析 5 段 cron 表达式
+ */
+function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields: ${expression}`)
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, index) =>
+    parseCronField(field, CRON_FIELD_RANGES[index])
+  )
+  if (weekdays.has(7)) weekdays.add(0)
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    dayRestricted: !fields[2].startsWith('*'),
+    weekdayRestricted: !fields[4].startsWith('*')
+  }
+}
+
+/**
+ * 判断日期（日 / 周）是否匹配
+ */
+function matchesDay(cron: CronSchedule, date: Date): boolean {
+  const dayMatch = cron.days.has(date.getDate())
+  const weekdayMatch = cron.weekdays.has(date.getDay())
+  if (cron.dayRestricted && cron.weekdayRestricted) {
+    return dayMatch || weekdayMatch
+  }
+  return dayMatch && weekdayMatch
+}
+
+/**
+ * 判断某一分钟是否匹配
+ */
+function matchesCron(cron: CronSchedule, date: Date): boolean {
+  return cron.minutes.has(date.getMinutes()) &&
+    cron.hours.has(date.getHours()) &&
+    cron.months.has(date.getMonth() + 1) &&
+    matchesDay(cron, date)
+}
+
+/**
+ * 计算 after 之后（不含）的下一次触发时间
+ */
+function nextOccurrence(cron: CronSchedule, after: Date, limit = after.getTime() + MAX_LOOKAHEAD_MS): Date | null {
+  const date = new Date(after)
+  date.setSeconds(0, 0)
+  date.setMinutes(date.getMinutes() + 1)
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1)
+      date.setHours(0, 0, 0, 0)
+    } else if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1)
+      date.setHours(0, 0, 0, 0)
+    } else if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0)
+    } else if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0)
+    } else {
+      return date
+    }
+  }
+
+  return null
+}
+
+/**
+ * 统计 (from, to] 之间错过的触发
+ */
+function findMissedRuns(
+  schedule: ScheduleEntry,
+  from: Date,
+  to: Date
+): MissedScheduleRun | null {
+  const cron = parseCron(schedule.cron)
+  const start = new Date(Math.max(from.getTime(), to.getTime() - MAX_MISSED_LOOKBACK_MS))
+
+  let count = 0
+  let latest: Date | null = null
+  let cursor = nextOccurrence(cron, start, to.getTime())
+  while (cursor) {
+    count++
+    latest = cursor
+    cursor = nextOccurrence(cron, cursor, to.getTime())
+  }
+
+  if (!latest) return null
+  return {
+    scheduleId: schedule.id,
+    stepId: schedule.stepId,
+    command: schedule.command,
+    scheduledAt: latest.toISOString(),
+    count
+  }
+}
+
+/**
+ * 校验并规范化计划文件内容
+ */
+function normalizeSchedules(raw: unknown): ScheduleEntry[] {
+  const list = (raw as { schedules?: unknown } | null)?.schedules ?? []
+  if (!Array.isArray(list)) {
+    throw new Error('schedules must be a list')
+  }
+
+  return list.map((item: RawScheduleEntry, index) => {
+    const { id, step_id, command, cron, enabled, feature_id } = item ?? {}
+    if (typeof id !== 'string' || typeof command !== 'string' || typeof cron !== 'string') {
+      throw new Error(`Schedule #${index + 1} needs id, command and cron`)
+    }
+    if (!command.trim().startsWith('/')) {
+      throw new Error(
+        `Schedule "${id}" must run a slash command (e.g. /end-day): "${command}" needs policy confirmation and cannot run unattended`
+      )
+    }
+    parseCron(cron)
+    return {
+      id,
+      stepId: typeof step_id === 'string' ? step_id : id,
+      command,
+      cron,
+      enabled: enabled !== false,
+      featureId: typeof feature_id === 'string' ? feature_id : undefined
+    }
+  })
+}
+
+/**
+ * 转换为计划文件格式
+ */
+function toRawSchedules(schedules: ScheduleEntry[]): { schedules: RawScheduleEntry[] } {
+  return {
+    schedules: schedules.map(schedule => ({
+      id: schedule.id,
+      step_id: schedule.stepId,
+      command: schedule.command,
+      cron: schedule.cron,
+      enabled: schedule.enabled,
+      ...(schedule.featureId ? { feature_id: schedule.featureId } : {})
+    }))
+  }
+}
+
+/**
+ * 构建计划对应的执行请求
+ * / 开头的命令与框架步骤一致，以 claude --print 执行
+ */
+function buildScheduleRequest(schedule: ScheduleEntry, projectPath: string): CliExecuteRequest {
+  const command = schedule.command.trim()
+  return {
+    command,
+    projectPath,
+    featureId: schedule.featureId,
+    stepId: schedule.stepId,
+    mode: 'print',
+    scheduleId: schedule.id,
+    ...(command.startsWith('/') ? { argv: { executable: 'claude', args: ['--print', command] } } : {})
+  }
+}
+
+/**
+ * 定时计划服务（单例）
+ */
+class SchedulerService extends EventEmitter {
+  private static instance: SchedulerService | null = null
+
+  /** 当前项目（未打开项目时不触发） */
+  private projectPath: string | null = null
+
+  private runner: ScheduleRunner | null = null
+
+  private schedules: ScheduleEntry[] = []
+
+  private state: ScheduleState = { lastCheckedAt: null, runs: {} }
+
+  /** 本次打开项目时发现的错过触发 */
+  private missed: MissedScheduleRun[] = []
+
+  private timer: ReturnType<typeof setTimeout> | null = null
+
+  private constructor() {
+    super()
+  }
+
+  static getInstance(): SchedulerService {
+    if (!SchedulerService.instance) {
+      SchedulerService.instance = new SchedulerService()
+    }
+    return SchedulerService.instance
+  }
+
+  /**
+   * 读取项目计划（文件不存在时为空）
+   */
+  async getSchedules(projectPath: string): Promise<ScheduleEntry[]> {
+    let content: string
+    try {
+      content = await readFile(getSchedulePath(projectPath), 'utf-8')
+    } catch {
+      return []
+    }
+
+    try {
+      return normalizeSchedules(parseYaml(content))
+    } catch (error) {
+      console.warn(`[Scheduler] Invalid schedule file: ${(error as Error).message}`)
+      return []
+    }
+  }
+
+  /**
+   * 保存项目计划
+   * cron 无效时抛出错误，不写入文件
+   */
+  async setSchedules(projectPath: string, table: ScheduleTable): Promise<SchedulerStatus> {
+    const schedules = normalizeSchedules(toRawSchedules(table.schedules))
+
+    await mkdir(join(projectPath, '.claude'), { recursive: true })
+    await writeFile(getSchedulePath(projectPath), stringifyYaml(toRawSchedules(schedules)), 'utf-8')
+
+    if (projectPath === this.projectPath) {
+      this.schedules = schedules
+      // 新增的计划不应把修改前的时间算作错过
+      this.state.lastCheckedAt = new Date().toISOString()
+      await this.saveState()
+    }
+
+    return this.getStatus(projectPath)
+  }
+
+  /**
+   * 打开项目时启动：报告错过的触发并开始按分钟检查
+   */
+  async start(projectPath: string, runner: ScheduleRunner): Promise<MissedScheduleRun[]> {
+    this.stop()
+    this.projectPath = projectPath
+    this.runner = runner
+    this.schedules = await this.getSchedules(projectPath)
+    this.state = await this.loadState(projectPath)
+
+    const now = new Date()
+    this.missed = this.state.lastCheckedAt
+      ? this.schedules
+        .filter(schedule => schedule.enabled)
+        .map(schedule => {
+          const lastRun = this.state.runs[schedule.id]?.scheduledAt
+          const from = lastRun && lastRun > this.state.lastCheckedAt! ? lastRun : this.state.lastCheckedAt!
+          return findMissedRuns(schedule, new Date(from), now)
+        })
+        .filter((run): run is MissedScheduleRun => run !== null)
+      : []
+
+    this.state.lastCheckedAt = now.toISOString()
+    await this.saveState()
+
+    if (this.missed.length > 0) {
+      this.emit('missed', { missed: this.missed })
+    }
+
+    this.scheduleTick()
+    return this.missed
+  }
+
+  /**
+   * 停止检查（关闭项目 / 退出应用）
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    this.projectPath = null
+    this.runner = null
+    this.schedules = []
+    this.missed = []
+  }
+
+  /**
+   * 获取计划状态
+   */
+  async getStatus(projectPath: string): Promise<SchedulerStatus> {
+    const isCurrent = projectPath === this.projectPath
+    const schedules = isCurrent ? this.schedules : await this.getSchedules(projectPath)
+    const state = isCurrent ? this.state : await this.loadState(projectPath)
+
+    const now = new Date()
+    const nextRuns: Record<string, string | null> = {}
+    for (const schedule of schedules) {
+      nextRuns[schedule.id] = schedule.enabled
+        ? nextOccurrence(parseCron(schedule.cron), now)?.toISOString() ?? null
+        : null
+    }
+
+    return {
+      schedules,
+      runs: { ...state.runs },
+      nextRuns,
+      missed: isCurrent ? [...this.missed] : []
+    }
+  }
+
+  /**
+   * 检查当前分钟需要触发的计划
+   */
+  async tick(now = new Date()): Promise<void> {
+    const projectPath = this.projectPath
+    if (!projectPath) return
+
+    const minute = new Date(now)
+    minute.setSeconds(0, 0)
+    const scheduledAt = minute.toISOString()
+
+    const due = this.schedules.filter(schedule =>
+      schedule.enabled &&
+      this.state.runs[schedule.id]?.scheduledAt !== scheduledAt &&
+      matchesCron(parseCron(schedule.cron), minute)
+    )
+
+    for (const schedule of due) {
+      await this.trigger(schedule, projectPath, scheduledAt)
+    }
+  }
+
+  // ========== 私有方法 ==========
+
+  /**
+   * 触发单个计划
+   */
+  private async trigger(schedule: ScheduleEntry, projectPath: string, scheduledAt: string): Promise<void> {
+    const record: ScheduleRunRecord = { scheduledAt, triggeredAt: new Date().toISOString() }
+    let response: CliExecuteResponse | undefined
+
+    try {
+      if (!this.runner) throw new Error('Scheduler is not started')
+      response = await this.runner(buildScheduleRequest(schedule, projectPath))
+      record.executionId = response.executionId
+    } catch (error) {
+      record.error = (error as { message?: string }).message || String(error)
+      console.warn(`[Scheduler] Schedule ${schedule.id} failed to start: ${record.error}`)
+    }
+
+    // 项目已切换时不再写入
+    if (projectPath !== this.projectPath) return
+
+    this.state.runs[schedule.id] = record
+    await this.saveState()
+    this.emit('triggered', { schedule, record, response })
+  }
+
+  /**
+   * 在下一个整分钟检查
+   */
+  private scheduleTick(): void {
+    const delay = 60_000 - (Date.now() % 60_000) + TICK_OFFSET_MS
+    this.timer = setTimeout(() => {
+      this.tick()
+        .catch((error: Error) => console.error('[Scheduler] Tick failed:', error.message))
+        .finally(() => {
+          if (this.projectPath) this.scheduleTick()
+        })
+    }, delay)
+  }
+
+  /**
+   * 读取触发状态
+   */
+  private async loadState(projectPath: string): Promise<ScheduleState> {
+    try {
+      const parsed = JSON.parse(await readFile(getStatePath(projectPath), 'utf-8')) as Partial<ScheduleState>
+      return { lastCheckedAt: parsed.lastCheckedAt ?? null, runs: parsed.runs ?? {} }
+    } catch {
+      return { lastCheckedAt: null, runs: {} }
+    }
+  }
+
+  /**
+   * 写入触发状态
+   */
+  private async saveState(): Promise<void> {
+    if (!this.projectPath) return
+    try {
+      await mkdir(join(this.projectPath, '.claude', 'state'), { recursive: true })
+      await writeFile(getStatePath(this.projectPath), JSON.stringify(this.state, null, 2), 'utf-8')
+    } catch (error) {
+      console.error('[Scheduler] Failed to save state:', (error as Error).message)
+    }
+  }
+}
+
+// 导出单例
+export const schedulerService = SchedulerService.getInstance()
+
+// 导出类型供测试使用
+export { SchedulerService, parseCron, matchesCron, nextOccurrence, findMissedRuns, buildScheduleRequest }
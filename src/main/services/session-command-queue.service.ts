@@ -0,0 +1,406 @@
+/**
+ * CLI Session 命令队列服务
+ * 为每个 Session 维护按顺序执行的命令队列，避免新命令覆盖尚未执行的 .cmd
+ *
+ * 关键约束：
+ * - 每个 Session 同一时间只有一条命令写入 session-{id}.cmd，结束（.result）后才发送下一条
+ * - FIFO 顺序；相同命令（同一步骤）仍在队列中时视为重复，不再入队
+ * - 取消：排队中的命令直接移除；已写入 .cmd 但 CLI 未确认接收的命令撤回 .cmd；
+ *   执行中的命令写入 session-{id}.cancel，等待 CLI 以 status: cancelled 的 .result 确认；
+ *   对 cancelling 的命令再次取消时强制结束（CLI 无响应时释放队列）
+ * - 队列持久化到 session-{id}.queue，已结束的命令保留最近 MAX_FINISHED_COMMANDS 条
+ * - 文件读写均为同步操作，保证队列状态与 .cmd 一致
+ * - 通过 socket 连接的 Session 以 command / cancel 消息代替 .cmd / .cancel 文件，队列语义不变
+ * - Session 断开时（evacuate）：CLI 未确认接收的命令转交给其他 Session，已开始执行的命令无法确认是否完成，
+ *   以 failed 结束
+ *
+ * CLI 端约定：
+ * - 接收命令后写入 session-{id}.ack：{"cmdId":"cmd-...","timestamp":"..."}
+ * - 检测到 session-{id}.cancel（{"cmdId":"cmd-...","timestamp":"..."}）后停止执行，
+ *   写入 {"cmdId":"cmd-...","status":"cancelled"} 到 .result
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { randomUUID } from 'crypto'
+import { EventEmitter } from 'events'
+import type {
+  SessionCommand,
+  SessionCommandStatus,
+  SessionExecutionResult,
+  SessionSendCommandRequest
+} from '../../shared/types/ipc.types'
+import type { SessionCommandPayload } from '../../shared/types/session-protocol.types'
+import { sessionSocketService } from './session-socket.service'
+
+// Session 目录名（与 session.handler 一致）
+const SESSIONS_DIR = '.claude/gui-sessions'
+
+/** 可拼入协议文件名的 Session ID */
+const SESSION_ID_PATTERN = /^[\w-]+$/
+
+// 协议文件后缀
+const CMD_FILE = '.cmd'
+const CANCEL_FILE = '.cancel'
+const QUEUE_FILE = '.queue'
+
+/** 保留的已结束命令数量 */
+const MAX_FINISHED_COMMANDS = 20
+
+/** 已结束的状态 */
+const FINISHED_STATUSES: SessionCommandStatus[] = ['done', 'cancelled']
+
+/** 已发送给 CLI 的状态 */
+const DISPATCHED_STATUSES: SessionCommandStatus[] = ['sent', 'running', 'cancelling']
+
+/** 清空断开 Session 的结果 */
+interface EvacuateResult {
+  /** 转交给其他 Session 的命令 */
+  rerouted: SessionCommand[]
+  /** 以 failed 结束的命令 */
+  failed: SessionCommand[]
+}
+
+/** 入队结果 */
+interface EnqueueResult {
+  command: SessionCommand
+  /** 与队列中已有命令重复 */
+  duplicate: boolean
+  /** 在未结束命令中的位置（0 为已发送给 CLI） */
+  position: number
+}
+
+/**
+ * 获取 Session 协议文件路径
+ * @throws sessionId 含路径分隔符等非法字符
+ */
+function getSessionFilePath(projectPath: string, sessionId: string, suffix: string): string {
+  if (!SESSION_ID_PATTERN.test(sessionId)) {
+    throw new Error(`Invalid session id: ${sessionId}`)
+  }
+  return path.join(projectPath, SESSIONS_DIR, `session-${sessionId}${suffix}`)
+}
+
+/**
+ * 是否已结束
+ */
+function isFinished(command: SessionCommand): boolean {
+  return FINISHED_STATUSES.includes(command.status)
+}
+
+/**
+ * 读取协议文件（.cmd / .cancel）中的命令 ID；文件不存在或格式错误时返回 null
+ */
+function readProtocolCmdId(filePath: string): string | null {
+  try {
+    return (JSON.parse(fs.readFileSync(filePath, 'utf-8')) as { cmdId?: string }).cmdId ?? null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Session 命令队列服务（单例）
+ */
+class SessionCommandQueueService extends EventEmitter {
+  private static instance: SessionCommandQueueService | null = null
+
+  /** 已加载的队列（projectPath + sessionId → 命令列表） */
+  private queues = new Map<string, SessionCommand[]>()
+
+  private constructor() {
+    super()
+  }
+
+  static getInstance(): SessionCommandQueueService {
+    if (!SessionCommandQueueService.instance) {
+      SessionCommandQueueService.instance = new SessionCommandQueueService()
+    }
+    return SessionCommandQueueService.instance
+  }
+
+  /**
+   * 命令入队；Session 空闲时立即写入 .cmd
+   */
+  enqueue(
+    projectPath: string,
+    sessionId: string,
+    command: string,
+    context?: SessionSendCommandRequest['context']
+  ): EnqueueResult {
+    const commands = this.load(projectPath, sessionId)
+    const active = commands.filter(item => !isFinished(item))
+
+    const existing = active.find(item =>
+      item.command === command && item.context?.stepId === context?.stepId
+    )
+    if (existing) {
+      return { command: existing, duplicate: true, position: active.indexOf(existing) }
+    }
+
+    const item: SessionCommand = {
+      cmdId: `cmd-${randomUUID()}`,
+      sessionId,
+      command,
+      context,
+      status: 'pending',
+      queuedAt: new Date().toISOString()
+    }
+    commands.push(item)
+    try {
+      this.dispatch(projectPath, sessionId, commands)
+    } catch (error) {
+      // 写入 .cmd 失败时不保留该命令
+      commands.pop()
+      throw error
+    }
+    this.commit(projectPath, sessionId, commands)
+
+    return { command: item, duplicate: false, position: active.length }
+  }
+
+  /**
+   * 获取 Session 的命令队列（按入队顺序）
+   */
+  list(projectPath: string, sessionId: string): SessionCommand[] {
+    return this.load(projectPath, sessionId).map(item => ({ ...item }))
+  }
+
+  /**
+   * CLI 确认接收命令（.ack 或首次输出）
+   */
+  acknowledge(projectPath: string, sessionId: string, cmdId: string, timestamp?: string): SessionCommand | null {
+    const commands = this.load(projectPath, sessionId)
+    const item = commands.find(command => command.cmdId === cmdId)
+    if (!item || item.status !== 'sent') return null
+
+    item.status = 'running'
+    item.ackAt = timestamp || new Date().toISOString()
+    this.commit(projectPath, sessionId, commands)
+    return { ...item }
+  }
+
+  /**
+   * 命令执行结束（.result），发送下一条命令
+   */
+  complete(projectPath: string, sessionId: string, result: SessionExecutionResult): SessionCommand | null {
+    const commands = this.load(projectPath, sessionId)
+    const item = commands.find(command => command.cmdId === result.cmdId)
+    if (!item || !DISPATCHED_STATUSES.includes(item.status)) return null
+
+    item.status = result.status === 'cancelled' ? 'cancelled' : 'done'
+    item.result = result
+    item.endedAt = result.timestamp || new Date().toISOString()
+    this.removeProtocolFile(projectPath, sessionId, CANCEL_FILE, item.cmdId)
+
+    this.dispatchNext(projectPath, sessionId, commands)
+    this.commit(projectPath, sessionId, commands)
+    return { ...item }
+  }
+
+  /**
+   * 取消命令
+   * @returns 取消后的命令；命令不存在时返回 null，已结束的命令原样返回
+   */
+  cancel(projectPath: string, sessionId: string, cmdId: string): SessionCommand | null {
+    const commands = this.load(projectPath, sessionId)
+    const item = commands.find(command => command.cmdId === cmdId)
+    if (!item) return null
+    if (isFinished(item)) return { ...item }
+
+    const now = new Date().toISOString()
+    const viaSocket = sessionSocketService.isConnected(projectPath, sessionId)
+    if (item.status === 'running') {
+      // 执行中：请求 CLI 停止，等待确认
+      if (!sessionSocketService.send(projectPath, sessionId, { type: 'cancel', cmdId, timestamp: now })) {
+        fs.writeFileSync(
+          getSessionFilePath(projectPath, sessionId, CANCEL_FILE),
+          JSON.stringify({ cmdId, timestamp: now }, null, 2)
+        )
+      }
+      item.status = 'cancelling'
+    } else {
+      if (item.status === 'sent') {
+        if (viaSocket) {
+          // 已通过 socket 送达但未确认，通知 CLI 丢弃
+          sessionSocketService.send(projectPath, sessionId, { type: 'cancel', cmdId, timestamp: now })
+        }
+        this.removeProtocolFile(projectPath, sessionId, CMD_FILE, cmdId)
+      } else if (item.status === 'cancelling') {
+        this.removeProtocolFile(projectPath, sessionId, CANCEL_FILE, cmdId)
+      }
+      item.status = 'cancelled'
+      item.endedAt = now
+      this.dispatchNext(projectPath, sessionId, commands)
+    }
+
+    this.commit(projectPath, sessionId, commands)
+    return { ...item }
+  }
+
+  /**
+   * 清空已断开 Session 的未结束命令
+   * 未确认接收的命令（pending / sent）转交给 targetSessionId 的队列末尾，cmdId 不变；
+   * 没有目标 Session 或已开始执行的命令以 failed 结束
+   */
+  evacuate(projectPath: string, sessionId: string, targetSessionId: string | null, error: string): EvacuateResult {
+    const commands = this.load(projectPath, sessionId)
+    const target = targetSessionId ? this.load(projectPath, targetSessionId) : null
+    const now = new Date().toISOString()
+    const rerouted: SessionCommand[] = []
+    const failed: SessionCommand[] = []
+
+    for (const item of commands.filter(command => !isFinished(command))) {
+      if (item.status === 'sent') {
+        this.removeProtocolFile(projectPath, sessionId, CMD_FILE, item.cmdId)
+      } else if (item.status === 'cancelling') {
+        this.removeProtocolFile(projectPath, sessionId, CANCEL_FILE, item.cmdId)
+      }
+
+      if (target && targetSessionId && (item.status === 'pending' || item.status === 'sent')) {
+        commands.splice(commands.indexOf(item), 1)
+        const moved: SessionCommand = {
+          cmdId: item.cmdId,
+          sessionId: targetSessionId,
+          command: item.command,
+          context: item.context,
+          status: 'pending',
+          queuedAt: item.queuedAt,
+          reroutedFrom: sessionId
+        }
+        target.push(moved)
+        rerouted.push({ ...moved })
+      } else {
+        item.status = 'done'
+        item.endedAt = now
+        item.result = { cmdId: item.cmdId, status: 'failed', timestamp: now, error }
+        failed.push({ ...item })
+      }
+    }
+
+    if (rerouted.length === 0 && failed.length === 0) {
+      return { rerouted, failed }
+    }
+
+    this.commit(projectPath, sessionId, commands)
+    if (target && targetSessionId && rerouted.length > 0) {
+      this.dispatchNext(projectPath, targetSessionId, target)
+      this.commit(projectPath, targetSessionId, target)
+    }
+    return { rerouted, failed }
+  }
+
+  /**
+   * 清除已加载的队列（停止监听时）
+   */
+  reset(projectPath?: string): void {
+    if (!projectPath) {
+      this.queues.clear()
+      return
+    }
+    for (const key of this.queues.keys()) {
+      if (key.startsWith(`${projectPath}\0`)) {
+        this.queues.delete(key)
+      }
+    }
+  }
+
+  // ========== 私有方法 ==========
+
+  /**
+   * 没有已发送的命令时，发送第一条排队命令（socket 连接时发送消息，否则写入 .cmd）
+   */
+  private dispatch(projectPath: string, sessionId: string, commands: SessionCommand[]): void {
+    if (commands.some(item => DISPATCHED_STATUSES.includes(item.status))) return
+
+    const next = commands.find(item => item.status === 'pending')
+    if (!next) return
+
+    const payload: SessionCommandPayload = {
+      cmdId: next.cmdId,
+      timestamp: new Date().toISOString(),
+      command: next.command,
+      source: 'gui-button',
+      context: next.context || {}
+    }
+
+    if (!sessionSocketService.send(projectPath, sessionId, { type: 'command', ...payload })) {
+      const cmdFilePath = getSessionFilePath(projectPath, sessionId, CMD_FILE)
+      fs.mkdirSync(path.dirname(cmdFilePath), { recursive: true, mode: 0o700 })
+      fs.writeFileSync(cmdFilePath, JSON.stringify(payload, null, 2))
+    }
+
+    next.status = 'sent'
+    next.sentAt = new Date().toISOString()
+  }
+
+  /**
+   * 发送下一条命令；失败时保留在队列中，下次入队或结束时重试
+   */
+  private dispatchNext(projectPath: string, sessionId: string, commands: SessionCommand[]): void {
+    try {
+      this.dispatch(projectPath, sessionId, commands)
+    } catch (error) {
+      console.warn('[SessionQueue] Failed to dispatch command:', (error as Error).message)
+    }
+  }
+
+  /**
+   * 删除仍属于指定命令的协议文件
+   */
+  private removeProtocolFile(projectPath: string, sessionId: string, suffix: string, cmdId: string): void {
+    const filePath = getSessionFilePath(projectPath, sessionId, suffix)
+    if (readProtocolCmdId(filePath) === cmdId) {
+      try {
+        fs.unlinkSync(filePath)
+      } catch {
+        // 已被 CLI 删除
+      }
+    }
+  }
+
+  /**
+   * 加载队列：优先使用内存中的队列，其次读取 .queue 文件
+   */
+  private load(projectPath: string, sessionId: string): SessionCommand[] {
+    const key = `${projectPath}\0${sessionId}`
+    let commands = this.queues.get(key)
+    if (!commands) {
+      try {
+        const content = fs.readFileSync(getSessionFilePath(projectPath, sessionId, QUEUE_FILE), 'utf-8')
+        const parsed = JSON.parse(content) as { commands?: SessionCommand[] }
+        commands = Array.isArray(parsed.commands) ? parsed.commands : []
+      } catch {
+        commands = []
+      }
+      this.queues.set(key, commands)
+    }
+    return commands
+  }
+
+  /**
+   * 裁剪已结束的命令、持久化并通知变更
+   */
+  private commit(projectPath: string, sessionId: string, commands: SessionCommand[]): void {
+    const finished = commands.filter(isFinished)
+    const excess = new Set(finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_COMMANDS)))
+    const kept = commands.filter(item => !excess.has(item))
+    commands.splice(0, commands.length, ...kept)
+
+    try {
+      const queuePath = getSessionFilePath(projectPath, sessionId, QUEUE_FILE)
+      fs.mkdirSync(path.dirname(queuePath), { recursive: true, mode: 0o700 })
+      fs.writeFileSync(queuePath, JSON.stringify({ commands }, null, 2))
+    } catch (error) {
+      console.warn('[SessionQueue] Failed to persist queue:', (error as Error).message)
+    }
+
+    this.emit('change', { projectPath, sessionId, commands: this.list(projectPath, sessionId) })
+  }
+}
+
+// 导出单例
+export const sessionCommandQueueService = SessionCommandQueueService.getInstance()
+
+// 导出类型供测试使用
+export { SessionCommandQueueService, MAX_FINISHED_COMMANDS }
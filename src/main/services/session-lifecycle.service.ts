@@ -0,0 +1,516 @@
+/**
+ * CLI Session 生命周期服务
+ * 判定 Session 存活状态，定时巡检状态变化，处理断开 Session 的命令，并清理超过保留期的协议文件
+ *
+ * 关键约束：
+ * - 状态判定：CLI 标记 disconnected 或进程（pid）已退出时立即为 disconnected；
+ *   否则按心跳：超过 STALE_AFTER_MS 为 stale，超过 DISCONNECTED_AFTER_MS 为 disconnected
+ * - 通过 socket 连接的 Session 以连接为准，连接关闭后在下一次巡检时判定为断开（留出改用文件协议的时间）
+ * - 巡检在监听期间每 SWEEP_INTERVAL_MS 执行一次；每次状态变化发出 'transition' 事件
+ * - Session 变为 disconnected 时：CLI 未确认接收的命令转交给其他活跃 Session（reroute_pending），
+ *   优先负责相同 Feature 的 Session，其次最近活跃的；其余命令以 failed 结束，每条发出 'failed' 事件
+ * - GUI 分配的 Feature 保存在 gui-sessions/bindings.json（sessionId → featureId[]），列出 Session 时合并为 assignedFeatures
+ * - 断开超过保留期（retention_hours）的 Session：协议文件移入 archive/ 或直接删除（cleanup），同时移除其 Feature 分配
+ * - 设置保存在 .claude/session-lifecycle.yaml，文件不存在时使用默认设置
+ *
+ * 设置文件示例：
+ *   retention_hours: 24
+ *   cleanup: archive   # archive | remove
+ *   reroute_pending: true
+ *
+ * 事件：
+ * - 'transition'  { projectPath, transition }   SessionTransition
+ * - 'failed'      { projectPath, sessionId, result }
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { readFile } from 'fs/promises'
+import { EventEmitter } from 'events'
+import { parse as parseYaml } from 'yaml'
+import type {
+  Session,
+  SessionExecutionResult,
+  SessionStatus,
+  SessionTransition
+} from '../../shared/types/ipc.types'
+import { sessionCommandQueueService } from './session-command-queue.service'
+import { sessionSocketService } from './session-socket.service'
+
+// Session 目录名（与 session.handler 一致）
+const SESSIONS_DIR = '.claude/gui-sessions'
+
+/** 归档目录（Session 目录下） */
+const ARCHIVE_DIR = 'archive'
+
+/** GUI 分配的 Feature（Session 目录下） */
+const BINDINGS_FILE = 'bindings.json'
+
+/** 协议文件名：session-{id}.{后缀} */
+const PROTOCOL_FILE_PATTERN = /^session-([\w-]+)\.(json|cmd|ack|cancel|queue|events|result)$/
+
+/** 心跳超时：stale */
+const STALE_AFTER_MS = 60 * 1000
+
+/** 心跳超时：disconnected */
+const DISCONNECTED_AFTER_MS = 5 * 60 * 1000
+
+/** 巡检间隔 */
+const SWEEP_INTERVAL_MS = 30 * 1000
+
+/** 生命周期设置 */
+interface SessionLifecycleSettings {
+  /** 断开后保留协议文件的时长（小时） */
+  retentionHours: number
+  /** 超过保留期后的处理方式 */
+  cleanup: 'archive' | 'remove'
+  /** 断开时把未确认接收的命令转交给其他 Session */
+  reroutePending: boolean
+}
+
+/** 默认设置 */
+const DEFAULT_LIFECYCLE_SETTINGS: SessionLifecycleSettings = {
+  retentionHours: 24,
+  cleanup: 'archive',
+  reroutePending: true
+}
+
+/** 带判定原因的 Session 状态 */
+interface ResolvedStatus {
+  status: SessionStatus
+  reason?: SessionTransition['reason']
+}
+
+/**
+ * 进程是否存在；无法判断时视为存在
+ */
+function isProcessAlive(pid: number): boolean {
+  if (!Number.isInteger(pid) || pid <= 0) return true
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    // EPERM：进程存在但属于其他用户
+    return (error as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
+
+/**
+ * 判定 Session 状态
+ */
+function resolveSessionStatus(session: Session, now = Date.now()): ResolvedStatus {
+  if (session.status === 'disconnected') {
+    return { status: 'disconnected', reason: 'closed' }
+  }
+  if (session.transport !== 'socket' && !isProcessAlive(session.pid)) {
+    return { status: 'disconnected', reason: 'exited' }
+  }
+
+  const heartbeatAge = now - new Date(session.heartbeatAt).getTime()
+  if (heartbeatAge > DISCONNECTED_AFTER_MS) {
+    return { status: 'disconnected', reason: 'heartbeat' }
+  }
+  if (heartbeatAge > STALE_AFTER_MS) {
+    return { status: 'stale', reason: 'heartbeat' }
+  }
+  return { status: 'active' }
+}
+
+/**
+ * 获取 Session 目录
+ */
+function getSessionsDir(projectPath: string): string {
+  return path.join(projectPath, SESSIONS_DIR)
+}
+
+/**
+ * 读取 Feature 分配；不存在或格式错误时返回空对象
+ */
+function readBindings(sessionsDir: string): Record<string, string[]> {
+  try {
+    const raw = JSON.parse(fs.readFileSync(path.join(sessionsDir, BINDINGS_FILE), 'utf-8')) as Record<string, unknown>
+    const bindings: Record<string, string[]> = {}
+    for (const [sessionId, featureIds] of Object.entries(raw ?? {})) {
+      if (Array.isArray(featureIds)) {
+        bindings[sessionId] = featureIds.filter((id): id is string => typeof id === 'string')
+      }
+    }
+    return bindings
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * 写入 Feature 分配
+ */
+function writeBindings(sessionsDir: string, bindings: Record<string, string[]>): void {
+  fs.mkdirSync(sessionsDir, { recursive: true, mode: 0o700 })
+  fs.writeFileSync(path.join(sessionsDir, BINDINGS_FILE), JSON.stringify(bindings, null, 2))
+}
+
+/**
+ * Session 负责的 Feature：CLI 声明与 GUI 分配的并集
+ */
+function getSessionFeatures(session: Session): string[] {
+  return [...new Set([...(session.features ?? []), ...(session.assignedFeatures ?? [])])]
+}
+
+/**
+ * 读取 Session 元信息文件；不存在或格式错误时返回 null
+ */
+function readSessionFile(filePath: string): Session | null {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Session
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 按 Session 分组的协议文件（sessionId → 文件名）
+ */
+function groupProtocolFiles(sessionsDir: string): Map<string, string[]> {
+  const groups = new Map<string, string[]>()
+  let files: string[]
+  try {
+    files = fs.readdirSync(sessionsDir)
+  } catch {
+    return groups
+  }
+
+  for (const file of files) {
+    const match = file.match(PROTOCOL_FILE_PATTERN)
+    if (!match) continue
+    const group = groups.get(match[1]) ?? []
+    group.push(file)
+    groups.set(match[1], group)
+  }
+  return groups
+}
+
+/**
+ * CLI Session 生命周期服务（单例）
+ */
+class SessionLifecycleService extends EventEmitter {
+  private static instance: SessionLifecycleService | null = null
+
+  /** 巡检定时器（projectPath → 定时器） */
+  private timers = new Map<string, NodeJS.Timeout>()
+
+  /** 上次巡检时的状态（projectPath → sessionId → 状态） */
+  private statuses = new Map<string, Map<string, SessionStatus>>()
+
+  /** 正在进行的巡检，避免并发 */
+  private sweeping = new Map<string, Promise<SessionTransition[]>>()
+
+  private constructor() {
+    super()
+  }
+
+  static getInstance(): SessionLifecycleService {
+    if (!SessionLifecycleService.instance) {
+      SessionLifecycleService.instance = new SessionLifecycleService()
+    }
+    return SessionLifecycleService.instance
+  }
+
+  /**
+   * 开始定时巡检项目的 Session（立即执行一次）
+   */
+  start(projectPath: string, intervalMs = SWEEP_INTERVAL_MS): void {
+    if (this.timers.has(projectPath)) return
+
+    const run = () => {
+      this.sweep(projectPath).catch(error => {
+        console.warn('[SessionLifecycle] Sweep failed:', (error as Error).message)
+      })
+    }
+    this.timers.set(projectPath, setInterval(run, intervalMs))
+    run()
+  }
+
+  /**
+   * 停止巡检；不指定项目时停止全部
+   */
+  stop(projectPath?: string): void {
+    for (const [key, timer] of this.timers) {
+      if (!projectPath || key === projectPath) {
+        clearInterval(timer)
+        this.timers.delete(key)
+        this.statuses.delete(key)
+      }
+    }
+  }
+
+  /**
+   * 项目的 Session 列表（已判定状态）
+   * 通过 socket 连接的 Session 优先（同一 Session 可能同时写有 session-*.json）
+   */
+  listSessions(projectPath: string): Session[] {
+    return this.collectSessions(projectPath, Date.now()).map(({ session }) => session)
+  }
+
+  /**
+   * 替换 Session 在 GUI 中分配的 Feature；featureIds 为空时移除分配
+   * @returns 更新后的 Session 列表
+   */
+  assignFeatures(projectPath: string, sessionId: string, featureIds: string[]): Session[] {
+    const sessionsDir = getSessionsDir(projectPath)
+    const bindings = readBindings(sessionsDir)
+    const unique = [...new Set(featureIds.map(id => id.trim()).filter(Boolean))]
+    if (unique.length > 0) {
+      bindings[sessionId] = unique
+    } else {
+      delete bindings[sessionId]
+    }
+    writeBindings(sessionsDir, bindings)
+    return this.listSessions(projectPath)
+  }
+
+  /**
+   * 巡检一次：发出状态变化、处理断开 Session 的命令、清理超过保留期的文件
+   * @returns 本次的状态变化
+   */
+  async sweep(projectPath: string): Promise<SessionTransition[]> {
+    const pending = this.sweeping.get(projectPath)
+    if (pending) return pending
+
+    const run = this.runSweep(projectPath).finally(() => this.sweeping.delete(projectPath))
+    this.sweeping.set(projectPath, run)
+    return run
+  }
+
+  /**
+   * 读取生命周期设置
+   */
+  async getSettings(projectPath: string): Promise<SessionLifecycleSettings> {
+    let raw: Record<string, unknown> | null = null
+    try {
+      raw = parseYaml(await readFile(path.join(projectPath, '.claude', 'session-lifecycle.yaml'), 'utf-8')) as Record<string, unknown> | null
+    } catch {
+      // 文件不存在或格式错误时使用默认设置
+    }
+
+    return {
+      retentionHours: typeof raw?.retention_hours === 'number' && raw.retention_hours >= 0
+        ? raw.retention_hours
+        : DEFAULT_LIFECYCLE_SETTINGS.retentionHours,
+      cleanup: raw?.cleanup === 'remove' || raw?.cleanup === 'archive'
+        ? raw.cleanup
+        : DEFAULT_LIFECYCLE_SETTINGS.cleanup,
+      reroutePending: typeof raw?.reroute_pending === 'boolean'
+        ? raw.reroute_pending
+        : DEFAULT_LIFECYCLE_SETTINGS.reroutePending
+    }
+  }
+
+  // ========== 私有方法 ==========
+
+  /**
+   * 读取 Session 并判定状态，按最后活跃时间排序（最近的在前）
+   */
+  private collectSessions(projectPath: string, now: number): Array<{ session: Session; reason?: SessionTransition['reason'] }> {
+    const entries: Array<{ session: Session; reason?: SessionTransition['reason'] }> = []
+    const sessionsDir = getSessionsDir(projectPath)
+    const bindings = readBindings(sessionsDir)
+    const add = (session: Session) => {
+      const { status, reason } = resolveSessionStatus(session, now)
+      const assignedFeatures = bindings[session.id]
+      entries.push({
+        session: { ...session, status, ...(assignedFeatures?.length ? { assignedFeatures } : {}) },
+        reason
+      })
+    }
+
+    const socketSessions = sessionSocketService.listSessions(projectPath)
+    socketSessions.forEach(add)
+    const socketIds = new Set(socketSessions.map(session => session.id))
+
+    for (const [sessionId, files] of groupProtocolFiles(sessionsDir)) {
+      if (socketIds.has(sessionId) || !files.includes(`session-${sessionId}.json`)) continue
+      const session = readSessionFile(path.join(sessionsDir, `session-${sessionId}.json`))
+      if (session) {
+        add({ ...session, transport: session.transport ?? 'file' })
+      }
+    }
+
+    return entries.sort((a, b) =>
+      new Date(b.session.lastActiveAt).getTime() - new Date(a.session.lastActiveAt).getTime()
+    )
+  }
+
+  /**
+   * 执行巡检（见 sweep）
+   */
+  private async runSweep(projectPath: string): Promise<SessionTransition[]> {
+    const settings = await this.getSettings(projectPath)
+    const now = Date.now()
+    const sessionsDir = getSessionsDir(projectPath)
+    let known = this.statuses.get(projectPath)
+    if (!known) {
+      known = new Map()
+      this.statuses.set(projectPath, known)
+    }
+
+    const entries = this.collectSessions(projectPath, now)
+    const sessions = entries.map(({ session }) => session)
+    const transitions: SessionTransition[] = []
+    const disconnect = (transition: SessionTransition) => {
+      const reroutedTo = this.releaseCommands(projectPath, transition.sessionId, sessions, settings)
+      return reroutedTo ? { ...transition, reroutedTo } : transition
+    }
+
+    for (const { session, reason } of entries) {
+      const from = known.get(session.id) ?? null
+      known.set(session.id, session.status)
+
+      // 首次发现的活跃 Session 由目录监听通知，无需发出变化
+      if (from === session.status || (from === null && session.status === 'active')) continue
+
+      const transition: SessionTransition = { sessionId: session.id, from, to: session.status, reason: reason ?? 'heartbeat' }
+      transitions.push(this.publish(projectPath, session.status === 'disconnected' ? disconnect(transition) : transition))
+    }
+
+    // 上次巡检时存在、现在已消失的 Session（socket 连接关闭或文件被删除）
+    for (const [sessionId, status] of known) {
+      if (status === 'disconnected' || sessions.some(session => session.id === sessionId)) continue
+      known.set(sessionId, 'disconnected')
+      transitions.push(this.publish(projectPath, disconnect({ sessionId, from: status, to: 'disconnected', reason: 'closed' })))
+    }
+
+    // 清理超过保留期的 Session 文件
+    const retentionMs = settings.retentionHours * 60 * 60 * 1000
+    for (const [sessionId, files] of groupProtocolFiles(sessionsDir)) {
+      const session = sessions.find(item => item.id === sessionId)
+      if (session && session.status !== 'disconnected') continue
+      if (sessionSocketService.isConnected(projectPath, sessionId)) continue
+      if (now - this.getLastActivity(sessionsDir, files, session) <= retentionMs) continue
+
+      // 没有元信息文件的残留命令（如 socket Session 的队列）也需要结束
+      if (!session && known.get(sessionId) === undefined) {
+        this.releaseCommands(projectPath, sessionId, [], { ...settings, reroutePending: false })
+      }
+
+      this.cleanupFiles(sessionsDir, files, settings.cleanup)
+      this.removeBinding(sessionsDir, sessionId)
+      known.delete(sessionId)
+      transitions.push(this.publish(projectPath, {
+        sessionId,
+        from: session?.status ?? null,
+        to: settings.cleanup === 'archive' ? 'archived' : 'removed',
+        reason: 'retention'
+      }))
+    }
+
+    return transitions
+  }
+
+  /**
+   * 转交或结束断开 Session 的命令
+   * @returns 转交的目标 Session ID
+   */
+  private releaseCommands(
+    projectPath: string,
+    sessionId: string,
+    sessions: Session[],
+    settings: SessionLifecycleSettings
+  ): string | undefined {
+    const target = settings.reroutePending ? this.findRerouteTarget(sessionId, sessions) : undefined
+
+    const { rerouted, failed } = sessionCommandQueueService.evacuate(
+      projectPath,
+      sessionId,
+      target?.id ?? null,
+      'CLI session disconnected before the command finished'
+    )
+    for (const command of failed) {
+      this.emit('failed', { projectPath, sessionId, result: command.result as SessionExecutionResult })
+    }
+    return rerouted.length > 0 ? target?.id : undefined
+  }
+
+  /**
+   * 转交目标：负责相同 Feature 的活跃 Session 优先，其次最近活跃的（sessions 已按最后活跃时间排序）
+   */
+  private findRerouteTarget(sessionId: string, sessions: Session[]): Session | undefined {
+    const candidates = sessions.filter(session => session.id !== sessionId && session.status === 'active')
+    const source = sessions.find(session => session.id === sessionId)
+    const features = source ? getSessionFeatures(source) : []
+    return candidates.find(session => getSessionFeatures(session).some(id => features.includes(id))) ?? candidates[0]
+  }
+
+  /**
+   * 移除已清理 Session 的 Feature 分配
+   */
+  private removeBinding(sessionsDir: string, sessionId: string): void {
+    const bindings = readBindings(sessionsDir)
+    if (!(sessionId in bindings)) return
+    delete bindings[sessionId]
+    try {
+      writeBindings(sessionsDir, bindings)
+    } catch (error) {
+      console.warn(`[SessionLifecycle] Failed to update ${BINDINGS_FILE}:`, (error as Error).message)
+    }
+  }
+
+  /**
+   * Session 最后活动时间：心跳与协议文件修改时间中最晚的
+   */
+  private getLastActivity(sessionsDir: string, files: string[], session?: Session): number {
+    let latest = session ? new Date(session.heartbeatAt).getTime() || 0 : 0
+    for (const file of files) {
+      try {
+        latest = Math.max(latest, fs.statSync(path.join(sessionsDir, file)).mtimeMs)
+      } catch {
+        // 已被删除
+      }
+    }
+    return latest
+  }
+
+  /**
+   * 归档或删除协议文件
+   */
+  private cleanupFiles(sessionsDir: string, files: string[], cleanup: SessionLifecycleSettings['cleanup']): void {
+    const archiveDir = path.join(sessionsDir, ARCHIVE_DIR)
+    if (cleanup === 'archive') {
+      fs.mkdirSync(archiveDir, { recursive: true, mode: 0o700 })
+    }
+
+    for (const file of files) {
+      try {
+        if (cleanup === 'archive') {
+          fs.renameSync(path.join(sessionsDir, file), path.join(archiveDir, file))
+        } else {
+          fs.unlinkSync(path.join(sessionsDir, file))
+        }
+      } catch (error) {
+        console.warn(`[SessionLifecycle] Failed to ${cleanup} ${file}:`, (error as Error).message)
+      }
+    }
+  }
+
+  /**
+   * 发出状态变化
+   */
+  private publish(projectPath: string, transition: SessionTransition): SessionTransition {
+    console.log(`[SessionLifecycle] ${transition.sessionId}: ${transition.from ?? 'new'} → ${transition.to} (${transition.reason})`)
+    this.emit('transition', { projectPath, transition })
+    return transition
+  }
+}
+
+// 导出单例
+export const sessionLifecycleService = SessionLifecycleService.getInstance()
+
+// 导出类型供测试使用
+export {
+  SessionLifecycleService,
+  resolveSessionStatus,
+  isProcessAlive,
+  DEFAULT_LIFECYCLE_SETTINGS,
+  STALE_AFTER_MS,
+  DISCONNECTED_AFTER_MS
+}
+export type { SessionLifecycleSettings }
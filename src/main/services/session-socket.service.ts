@@ -0,0 +1,475 @@
+/**
+ * CLI Session socket 通信服务
+ * 在主进程中为每个打开的项目监听本地 socket（Windows 为命名管道），
+ * 以 JSON Lines 协议与 CLI Session 交换注册、心跳、命令、确认与结果（见 session-protocol.types）
+ *
+ * 关键约束：
+ * - 与文件协议语义一致，文件协议始终保留作为回退；socket 启动失败时只公告 file
+ * - 通信方式与 socket 路径公告在 .claude/gui-sessions/transport.json，停止时删除
+ * - 连接的第一条消息必须是 register，按双方支持的最高协议版本协商；无共同版本时回复错误并断开
+ * - 连接断开即视为 Session 断开，从列表中移除
+ * - 本服务只负责传输，命令队列与输出转发由 session.handler 订阅事件完成
+ *
+ * 事件：
+ * - 'change'  { projectPath }                               Session 注册 / 心跳 / 断开
+ * - 'ack'     { projectPath, sessionId, cmdId, timestamp }
+ * - 'output'  { projectPath, sessionId, entry }
+ * - 'result'  { projectPath, sessionId, result }
+ */
+
+import * as fs from 'fs'
+import * as net from 'net'
+import * as os from 'os'
+import * as path from 'path'
+import { createHash } from 'crypto'
+import { EventEmitter } from 'events'
+import type {
+  Session,
+  SessionExecutionResult,
+  SessionOutputEntry
+} from '../../shared/types/ipc.types'
+import {
+  SESSION_PROTOCOL_VERSION,
+  SUPPORTED_SESSION_PROTOCOL_VERSIONS,
+  type SessionClientMessage,
+  type SessionServerMessage,
+  type SessionTransportAdvertisement
+} from '../../shared/types/session-protocol.types'
+
+// Session 目录名（与 session.handler 一致）
+const SESSIONS_DIR = '.claude/gui-sessions'
+
+/** 通信方式公告文件 */
+const TRANSPORT_FILE = 'transport.json'
+
+/** 期望的心跳间隔 */
+const HEARTBEAT_INTERVAL_MS = 15000
+
+/** 单行消息上限，超过时断开连接 */
+const MAX_LINE_BYTES = 1024 * 1024
+
+/** 输出类型 */
+const OUTPUT_TYPES: SessionOutputEntry['type'][] = ['stdout', 'stderr', 'system']
+
+/** 项目的 socket 服务 */
+interface ProjectServer {
+  server: net.Server
+  socketPath: string
+  connections: Set<net.Socket>
+}
+
+/** 通过 socket 注册的 Session */
+interface SocketSession {
+  session: Session
+  socket: net.Socket
+  /** 协商的协议版本 */
+  version: number
+}
+
+/**
+ * 获取项目的 socket 路径
+ * Unix socket 路径长度有限（约 104 字节），按项目路径哈希放在临时目录
+ */
+function getSocketPath(projectPath: string): string {
+  const hash = createHash('sha256').update(path.resolve(projectPath)).digest('hex').slice(0, 12)
+  return process.platform === 'win32'
+    ? `\\\\.\\pipe\\ha-loop-desk-${hash}`
+    : path.join(os.tmpdir(), `ha-loop-desk-${hash}.sock`)
+}
+
+/**
+ * 获取通信方式公告文件路径
+ */
+function getTransportFilePath(projectPath: string): string {
+  return path.join(projectPath, SESSIONS_DIR, TRANSPORT_FILE)
+}
+
+/**
+ * 选择双方都支持的最高协议版本；没有时返回 null
+ */
+function negotiateVersion(versions: unknown): number | null {
+  if (!Array.isArray(versions)) return null
+  const common = versions.filter((version): version is number =>
+    typeof version === 'number' && SUPPORTED_SESSION_PROTOCOL_VERSIONS.includes(version)
+  )
+  return common.length > 0 ? Math.max(...common) : null
+}
+
+/**
+ * CLI Session socket 通信服务（单例）
+ */
+class SessionSocketService extends EventEmitter {
+  private static instance: SessionSocketService | null = null
+
+  /** 按项目的 socket 服务 */
+  private servers = new Map<string, ProjectServer>()
+
+  /** 正在启动的 socket 服务（projectPath → 启动结果） */
+  private starting = new Map<string, Promise<string | null>>()
+
+  /** 已注册的 Session（projectPath → sessionId → Session） */
+  private sessions = new Map<string, Map<string, SocketSession>>()
+
+  /** 通过 socket 收到的最近结果（projectPath + sessionId → 结果） */
+  private results = new Map<string, SessionExecutionResult>()
+
+  private constructor() {
+    super()
+  }
+
+  static getInstance(): SessionSocketService {
+    if (!SessionSocketService.instance) {
+      SessionSocketService.instance = new SessionSocketService()
+    }
+    return SessionSocketService.instance
+  }
+
+  /**
+   * 为项目启动 socket 服务并公告通信方式
+   * 启动失败时只公告文件协议
+   * @returns socket 路径；启动失败时返回 null
+   */
+  async start(projectPath: string): Promise<string | null> {
+    const existing = this.servers.get(projectPath)
+    if (existing) return existing.socketPath
+
+    let pending = this.starting.get(projectPath)
+    if (!pending) {
+      pending = this.listenProject(projectPath).finally(() => this.starting.delete(projectPath))
+      this.starting.set(projectPath, pending)
+    }
+    return pending
+  }
+
+  /**
+   * 停止项目的 socket 服务，断开所有 Session
+   * 服务正在启动时等待启动完成后再停止
+   */
+  async stop(projectPath: string): Promise<void> {
+    await this.starting.get(projectPath)
+
+    const entry = this.servers.get(projectPath)
+    if (!entry) return
+
+    this.servers.delete(projectPath)
+    for (const socket of entry.connections) {
+      socket.destroy()
+    }
+    await new Promise<void>(resolve => entry.server.close(() => resolve()))
+
+    this.sessions.delete(projectPath)
+    for (const key of this.results.keys()) {
+      if (key.startsWith(`${projectPath}\0`)) {
+        this.results.delete(key)
+      }
+    }
+
+    try {
+      fs.unlinkSync(getTransportFilePath(projectPath))
+    } catch {
+      // 公告文件已不存在
+    }
+    this.emit('change', { projectPath })
+  }
+
+  /**
+   * 停止所有项目的 socket 服务
+   */
+  async stopAll(): Promise<void> {
+    const projectPaths = new Set([...this.servers.keys(), ...this.starting.keys()])
+    await Promise.all([...projectPaths].map(projectPath => this.stop(projectPath)))
+  }
+
+  /**
+   * 获取 socket 路径；未启动时返回 null
+   */
+  getSocketPath(projectPath: string): string | null {
+    return this.servers.get(projectPath)?.socketPath ?? null
+  }
+
+  /**
+   * 通过 socket 连接的 Session 列表
+   */
+  listSessions(projectPath: string): Session[] {
+    return [...(this.sessions.get(projectPath)?.values() ?? [])].map(entry => ({ ...entry.session }))
+  }
+
+  /**
+   * Session 是否通过 socket 连接
+   */
+  isConnected(projectPath: string, sessionId: string): boolean {
+    return this.sessions.get(projectPath)?.has(sessionId) ?? false
+  }
+
+  /**
+   * 向 Session 发送消息
+   * @returns Session 未通过 socket 连接时返回 false
+   */
+  send(projectPath: string, sessionId: string, message: SessionServerMessage): boolean {
+    const entry = this.sessions.get(projectPath)?.get(sessionId)
+    if (!entry || entry.socket.destroyed) return false
+
+    entry.socket.write(`${JSON.stringify(message)}\n`)
+    return true
+  }
+
+  /**
+   * 获取通过 socket 收到的指定命令的结果
+   */
+  getResult(projectPath: string, sessionId: string, cmdId: string): SessionExecutionResult | null {
+    const result = this.results.get(`${projectPath}\0${sessionId}`)
+    return result?.cmdId === cmdId ? result : null
+  }
+
+  // ========== 私有方法 ==========
+
+  /**
+   * 创建项目的 socket 服务并写入公告
+   */
+  private async listenProject(projectPath: string): Promise<string | null> {
+    const socketPath = getSocketPath(projectPath)
+    const connections = new Set<net.Socket>()
+    const server = net.createServer(socket => this.handleConnection(projectPath, socket, connections))
+
+    try {
+      await this.listen(server, socketPath)
+    } catch (error) {
+      console.warn(`[SessionSocket] Failed to listen on ${socketPath}:`, (error as Error).message)
+      this.advertise(projectPath, null)
+      return null
+    }
+
+    this.servers.set(projectPath, { server, socketPath, connections })
+    this.advertise(projectPath, socketPath)
+    console.log(`[SessionSocket] Listening: ${socketPath}`)
+    return socketPath
+  }
+
+  /**
+   * 监听 socket；Unix 下先清理上次异常退出留下的 socket 文件
+   */
+  private async listen(server: net.Server, socketPath: string): Promise<void> {
+    if (process.platform !== 'win32') {
+      try {
+        fs.unlinkSync(socketPath)
+      } catch {
+        // 不存在
+      }
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(socketPath, () => {
+        server.off('error', reject)
+        resolve()
+      })
+    })
+  }
+
+  /**
+   * 写入通信方式公告
+   */
+  private advertise(projectPath: string, socketPath: string | null): void {
+    const advertisement: SessionTransportAdvertisement = {
+      version: SESSION_PROTOCOL_VERSION,
+      transports: socketPath ? ['socket', 'file'] : ['file'],
+      socketPath: socketPath ?? undefined,
+      pid: process.pid,
+      updatedAt: new Date().toISOString()
+    }
+
+    try {
+      fs.mkdirSync(path.join(projectPath, SESSIONS_DIR), { recursive: true, mode: 0o700 })
+      fs.writeFileSync(getTransportFilePath(projectPath), JSON.stringify(advertisement, null, 2))
+    } catch (error) {
+      console.warn('[SessionSocket] Failed to write transport advertisement:', (error as Error).message)
+    }
+  }
+
+  /**
+   * 处理新连接：按行解析消息
+   */
+  private handleConnection(projectPath: string, socket: net.Socket, connections: Set<net.Socket>): void {
+    connections.add(socket)
+    socket.setEncoding('utf-8')
+
+    let buffer = ''
+    let sessionId: string | null = null
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk
+      let newline = buffer.indexOf('\n')
+      while (newline >= 0) {
+        const line = buffer.slice(0, newline).trim()
+        buffer = buffer.slice(newline + 1)
+        if (line) {
+          sessionId = this.handleLine(projectPath, socket, sessionId, line)
+        }
+        if (socket.destroyed) return
+        newline = buffer.indexOf('\n')
+      }
+
+      if (Buffer.byteLength(buffer) > MAX_LINE_BYTES) {
+        this.reply(socket, { type: 'error', code: 'invalid_message', message: 'Message too large' })
+        socket.destroy()
+      }
+    })
+
+    socket.on('close', () => {
+      connections.delete(socket)
+      const sessions = this.sessions.get(projectPath)
+      if (sessionId && sessions?.get(sessionId)?.socket === socket) {
+        sessions.delete(sessionId)
+        this.emit('change', { projectPath })
+      }
+    })
+
+    socket.on('error', error => {
+      console.warn('[SessionSocket] Connection error:', error.message)
+    })
+  }
+
+  /**
+   * 处理一条消息
+   * @returns 连接对应的 Session ID（注册后）
+   */
+  private handleLine(projectPath: string, socket: net.Socket, sessionId: string | null, line: string): string | null {
+    let message: SessionClientMessage
+    try {
+      message = JSON.parse(line) as SessionClientMessage
+    } catch {
+      this.reply(socket, { type: 'error', code: 'invalid_message', message: 'Invalid JSON' })
+      return sessionId
+    }
+
+    if (message.type === 'register') {
+      return this.register(projectPath, socket, message)
+    }
+
+    const entry = sessionId ? this.sessions.get(projectPath)?.get(sessionId) : undefined
+    if (!sessionId || !entry) {
+      this.reply(socket, { type: 'error', code: 'not_registered', message: 'Send register first' })
+      return sessionId
+    }
+
+    const now = new Date().toISOString()
+    switch (message.type) {
+      case 'heartbeat':
+        entry.session.heartbeatAt = message.timestamp || now
+        this.emit('change', { projectPath })
+        break
+
+      case 'ack':
+        entry.session.lastActiveAt = now
+        this.emit('ack', { projectPath, sessionId, cmdId: message.cmdId, timestamp: message.timestamp || now })
+        break
+
+      case 'output':
+        if (typeof message.cmdId !== 'string' || typeof message.content !== 'string') break
+        this.emit('output', {
+          projectPath,
+          sessionId,
+          entry: {
+            cmdId: message.cmdId,
+            type: message.stream && OUTPUT_TYPES.includes(message.stream) ? message.stream : 'stdout',
+            content: message.content,
+            timestamp: message.timestamp || now
+          }
+        })
+        break
+
+      case 'result':
+        if (typeof message.result?.cmdId !== 'string') break
+        entry.session.lastActiveAt = now
+        this.results.set(`${projectPath}\0${sessionId}`, message.result)
+        this.emit('result', { projectPath, sessionId, result: message.result })
+        break
+
+      default:
+        this.reply(socket, { type: 'error', code: 'invalid_message', message: 'Unknown message type' })
+    }
+    return sessionId
+  }
+
+  /**
+   * 注册 Session 并协商协议版本
+   */
+  private register(
+    projectPath: string,
+    socket: net.Socket,
+    message: Extract<SessionClientMessage, { type: 'register' }>
+  ): string | null {
+    const version = negotiateVersion(message.versions)
+    if (version === null) {
+      this.reply(socket, {
+        type: 'error',
+        code: 'unsupported_version',
+        message: 'No common protocol version, fall back to the file protocol',
+        supportedVersions: SUPPORTED_SESSION_PROTOCOL_VERSIONS
+      })
+      socket.end()
+      return null
+    }
+
+    const info = message.session
+    if (!info || typeof info.id !== 'string' || !/^[\w-]+$/.test(info.id)) {
+      this.reply(socket, { type: 'error', code: 'invalid_message', message: 'Invalid session id' })
+      socket.end()
+      return null
+    }
+
+    const now = new Date().toISOString()
+    let sessions = this.sessions.get(projectPath)
+    if (!sessions) {
+      sessions = new Map()
+      this.sessions.set(projectPath, sessions)
+    }
+
+    // 同一 Session 重新连接时替换旧连接
+    const previous = sessions.get(info.id)
+    if (previous && previous.socket !== socket) {
+      previous.socket.destroy()
+    }
+
+    sessions.set(info.id, {
+      socket,
+      version,
+      session: {
+        id: info.id,
+        pid: info.pid,
+        createdAt: info.createdAt || now,
+        lastActiveAt: now,
+        heartbeatAt: now,
+        terminal: info.terminal,
+        status: 'active',
+        projectPath,
+        transport: 'socket',
+        ...(Array.isArray(info.features) ? { features: info.features.filter(id => typeof id === 'string') } : {})
+      }
+    })
+
+    this.reply(socket, {
+      type: 'welcome',
+      version,
+      transport: 'socket',
+      heartbeatIntervalMs: HEARTBEAT_INTERVAL_MS
+    })
+    this.emit('change', { projectPath })
+    return info.id
+  }
+
+  /**
+   * 回复消息（连接已断开时忽略）
+   */
+  private reply(socket: net.Socket, message: SessionServerMessage): void {
+    if (!socket.destroyed) {
+      socket.write(`${JSON.stringify(message)}\n`)
+    }
+  }
+}
+
+// 导出单例
+export const sessionSocketService = SessionSocketService.getInstance()
+
+// 导出类型供测试使用
+export { SessionSocketService, getSocketPath, negotiateVersion, HEARTBEAT_INTERVAL_MS }
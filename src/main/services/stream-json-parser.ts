@@ -0,0 +1,206 @@
+/**
+ * Claude CLI stream-json 输出解析
+ * 将 `claude --print --output-format stream-json --verbose` 的逐行 JSON 转换为 CliStreamEvent
+ * `--output-format json` 的输出是单条 result 消息，同样适用
+ *
+ * 约束：
+ * - stdout 分块可能截断在行中间，需缓冲到换行符再解析
+ * - 非 JSON 行原样透传（作为普通 stdout 显示）
+ * - 未识别的消息类型直接忽略，不报错
+ */
+
+import type { CliStreamEvent, CliUsage } from '../../shared/types/ipc.types'
+
+/** 会修改文件的工具及其路径参数 */
+const FILE_EDIT_TOOLS: Record<string, string> = {
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  Write: 'file_path',
+  NotebookEdit: 'notebook_path'
+}
+
+/** 单次解析结果 */
+interface ParseResult {
+  events: CliStreamEvent[]
+  /** 非 JSON 行（保留换行） */
+  passthrough: string
+}
+
+/** 解析后的 JSON 对象 */
+type JsonObject = Record<string, unknown>
+
+/**
+ * 是否为 JSON 对象（不含数组）
+ */
+function isJsonObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * 取字符串字段；类型不符时返回 undefined
+ */
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined
+}
+
+/**
+ * 取数值字段；类型不符时返回 undefined
+ */
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+}
+
+/**
+ * 取内容块列表；类型不符时返回空列表
+ */
+function contentBlocks(message: unknown): JsonObject[] {
+  const content = isJsonObject(message) ? message.content : undefined
+  return Array.isArray(content) ? content.filter(isJsonObject) : []
+}
+
+/**
+ * 取 modelUsage 中的第一个模型名
+ */
+function firstModel(modelUsage: unknown): string | undefined {
+  return isJsonObject(modelUsage) ? Object.keys(modelUsage)[0] : undefined
+}
+
+/**
+ * 将 tool_result 的 content 统一为字符串
+ */
+function stringifyToolResultContent(content: unknown): string {
+  if (typeof content === 'string') return content
+  if (Array.isArray(content)) {
+    return content
+      .map(block => isJsonObject(block) && 'text' in block ? String(block.text) : '')
+      .filter(Boolean)
+      .join('\n')
+  }
+  return content === undefined || content === null ? '' : JSON.stringify(content)
+}
+
+/**
+ * 转换 usage 字段（snake_case → camelCase）
+ */
+function toUsage(usage: unknown): CliUsage | undefined {
+  if (!isJsonObject(usage)) return undefined
+  return {
+    inputTokens: optionalNumber(usage.input_tokens) ?? 0,
+    outputTokens: optionalNumber(usage.output_tokens) ?? 0,
+    cacheCreationInputTokens: optionalNumber(usage.cache_creation_input_tokens) ?? 0,
+    cacheReadInputTokens: optionalNumber(usage.cache_read_input_tokens) ?? 0
+  }
+}
+
+/**
+ * 将一条 stream-json 消息转换为事件列表
+ */
+function parseStreamJsonMessage(message: unknown): CliStreamEvent[] {
+  if (!isJsonObject(message)) return []
+
+  switch (message.type) {
+    case 'system':
+      return message.subtype === 'init'
+        ? [{ kind: 'init', sessionId: optionalString(message.session_id), model: optionalString(message.model) }]
+        : []
+
+    case 'assistant': {
+      const events: CliStreamEvent[] = []
+      for (const block of contentBlocks(message.message)) {
+        const text = optionalString(block.text)
+        if (block.type === 'text' && text) {
+          events.push({ kind: 'assistant_text', text })
+        } else if (block.type === 'tool_use') {
+          const toolUseId = optionalString(block.id) ?? ''
+          const name = optionalString(block.name) ?? ''
+          const input = isJsonObject(block.input) ? block.input : {}
+          events.push({ kind: 'tool_use', toolUseId, name, input })
+
+          const pathKey = FILE_EDIT_TOOLS[name]
+          const filePath = pathKey ? optionalString(input[pathKey]) : undefined
+          if (filePath) {
+            events.push({ kind: 'file_edit', toolUseId, tool: name, filePath })
+          }
+        }
+      }
+      return events
+    }
+
+    case 'user':
+      return contentBlocks(message.message)
+        .filter(block => block.type === 'tool_result')
+        .map(block => ({
+          kind: 'tool_result',
+          toolUseId: optionalString(block.tool_use_id) ?? '',
+          content: stringifyToolResultContent(block.content),
+          isError: !!block.is_error
+        }))
+
+    case 'result':
+      return [{
+        kind: 'result',
+        subtype: optionalString(message.subtype) ?? 'success',
+        isError: !!message.is_error,
+        result: optionalString(message.result),
+        durationMs: optionalNumber(message.duration_ms),
+        numTurns: optionalNumber(message.num_turns),
+        totalCostUsd: optionalNumber(message.total_cost_usd),
+        usage: toUsage(message.usage),
+        model: firstModel(message.modelUsage)
+      }]
+
+    default:
+      return []
+  }
+}
+
+/**
+ * 增量解析器（每个执行一个实例）
+ */
+class StreamJsonParser {
+  private buffer = ''
+
+  /**
+   * 追加一段 stdout，返回已完整的行解析出的事件
+   */
+  push(chunk: string): ParseResult {
+    this.buffer += chunk
+    const lines = this.buffer.split('\n')
+    this.buffer = lines.pop() ?? ''
+    return this.parseLines(lines)
+  }
+
+  /**
+   * 进程结束时解析剩余缓冲
+   */
+  flush(): ParseResult {
+    const rest = this.buffer
+    this.buffer = ''
+    return rest ? this.parseLines([rest]) : { events: [], passthrough: '' }
+  }
+
+  private parseLines(lines: string[]): ParseResult {
+    const events: CliStreamEvent[] = []
+    let passthrough = ''
+
+    for (const line of lines) {
+      const trimmed = line.trim()
+      if (!trimmed) continue
+
+      if (trimmed.startsWith('{')) {
+        try {
+          events.push(...parseStreamJsonMessage(JSON.parse(trimmed)))
+          continue
+        } catch {
+          // 不是合法 JSON，按普通输出处理
+        }
+      }
+      passthrough += line + '\n'
+    }
+
+    return { events, passthrough }
+  }
+}
+
+export { StreamJsonParser, parseStreamJsonMessage }
+export type { ParseResult }
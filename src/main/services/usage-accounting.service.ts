@@ -0,0 +1,314 @@
+/**
+ * 用量统计服务
+ * 汇总 Claude CLI 报告的 Token 用量，按 Step / Phase / Feature 聚合并估算费用
+ *
+ * 关键约束：
+ * - 仅统计带 usage 的执行（CLI 最终结果中报告；带 featureId 的 claude 调用始终以 stream-json / json 输出运行）
+ * - 耗时取 CLI 报告的 duration_ms，不含排队与终止等待；CLI 未报告时退回墙钟耗时
+ * - 汇总写入 docs/{featureId}/91_USAGE_LOG.yaml，与 90_PROGRESS_LOG.yaml 并列
+ * - 未指定 featureId、或 featureId 不能作为目录名的执行不落盘
+ * - 价格表可通过 .claude/pricing.yaml 覆盖
+ */
+
+import { readFile, writeFile, mkdir } from 'fs/promises'
+import { join } from 'path'
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml'
+import { EventEmitter } from 'events'
+import type {
+  CliUsage,
+  ExecutionHistoryEntry,
+  FeatureUsageSummary,
+  ModelPrice,
+  PriceTable,
+  UsageTotals
+} from '../../shared/types/ipc.types'
+
+/** 默认价格表（USD / 百万 tokens） */
+const DEFAULT_PRICE_TABLE: PriceTable = {
+  models: {
+    opus: { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+    sonnet: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+    haiku: { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+    default: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 }
+  }
+}
+
+/** 可作为目录名的 featureId */
+const FEATURE_ID_PATTERN = /^[\w.-]+$/
+
+/** YAML 中的累计字段（snake_case，与 PROGRESS_LOG 保持一致） */
+interface RawUsageTotals {
+  executions?: number
+  input_tokens?: number
+  output_tokens?: number
+  cache_creation_input_tokens?: number
+  cache_read_input_tokens?: number
+  duration_ms?: number
+  cost_usd?: number
+  phase_id?: number
+}
+
+interface RawUsageLog {
+  meta?: { feature_id?: string; last_updated?: string }
+  totals?: RawUsageTotals
+  phases?: Record<string, RawUsageTotals>
+  steps?: Record<string, RawUsageTotals>
+}
+
+/**
+ * 空累计
+ */
+function emptyTotals(): UsageTotals {
+  return {
+    executions: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    durationMs: 0,
+    costUsd: 0
+  }
+}
+
+/**
+ * 按模型 ID 查找价格（子串匹配，不区分大小写）
+ */
+function findModelPrice(table: PriceTable, model?: string): ModelPrice {
+  const normalized = (model || '').toLowerCase()
+  for (const [key, price] of Object.entries(table.models)) {
+    if (key !== 'default' && normalized.includes(key.toLowerCase())) {
+      return price
+    }
+  }
+  return table.models.default || DEFAULT_PRICE_TABLE.models.default
+}
+
+/**
+ * 估算单次执行费用（USD）
+ */
+function estimateCost(usage: CliUsage, model: string | undefined, table: PriceTable): number {
+  const price = findModelPrice(table, model)
+  const cost = (
+    usage.inputTokens * price.input +
+    usage.outputTokens * price.output +
+    usage.cacheCreationInputTokens * price.cacheWrite +
+    usage.cacheReadInputTokens * price.cacheRead
+  ) / 1_000_000
+  return Math.round(cost * 1_000_000) / 1_000_000
+}
+
+/**
+ * 累加一次执行
+ */
+function addToTotals(totals: UsageTotals, usage: CliUsage, durationMs: number, costUsd: number): void {
+  totals.executions += 1
+  totals.inputTokens += usage.inputTokens
+  totals.outputTokens += usage.outputTokens
+  totals.cacheCreationInputTokens += usage.cacheCreationInputTokens
+  totals.cacheReadInputTokens += usage.cacheReadInputTokens
+  totals.durationMs += durationMs
+  totals.costUsd = Math.round((totals.costUsd + costUsd) * 1_000_000) / 1_000_000
+}
+
+function fromRawTotals(raw: RawUsageTotals | undefined): UsageTotals {
+  return {
+    executions: raw?.executions ?? 0,
+    inputTokens: raw?.input_tokens ?? 0,
+    outputTokens: raw?.output_tokens ?? 0,
+    cacheCreationInputTokens: raw?.cache_creation_input_tokens ?? 0,
+    cacheReadInputTokens: raw?.cache_read_input_tokens ?? 0,
+    durationMs: raw?.duration_ms ?? 0,
+    costUsd: raw?.cost_usd ?? 0
+  }
+}
+
+function toRawTotals(totals: UsageTotals): RawUsageTotals {
+  return {
+    executions: totals.executions,
+    input_tokens: totals.inputTokens,
+    output_tokens: totals.outputTokens,
+    cache_creation_input_tokens: totals.cacheCreationInputTokens,
+    cache_read_input_tokens: totals.cacheReadInputTokens,
+    duration_ms: totals.durationMs,
+    cost_usd: totals.costUsd
+  }
+}
+
+/**
+ * featureId 能否作为 docs/ 下的目录名（禁止路径分隔符与 ..）
+ */
+function isValidFeatureId(featureId: string): boolean {
+  return FEATURE_ID_PATTERN.test(featureId) && featureId !== '..'
+}
+
+/**
+ * 获取 Feature 用量文件路径
+ */
+function getUsageLogPath(projectPath: string, featureId: string): string {
+  return join(projectPath, 'docs', featureId, '91_USAGE_LOG.yaml')
+}
+
+/**
+ * 获取价格表文件路径
+ */
+function getPricingPath(projectPath: string): string {
+  return join(projectPath, '.claude', 'pricing.yaml')
+}
+
+/**
+ * 用量统计服务（单例）
+ */
+class UsageAccountingService extends EventEmitter {
+  private static instance: UsageAccountingService | null = null
+
+  /** 按文件串行化写入，避免并行执行的汇总互相覆盖 */
+  private writeChains = new Map<string, Promise<unknown>>()
+
+  private constructor() {
+    super()
+  }
+
+  static getInstance(): UsageAccountingService {
+    if (!UsageAccountingService.instance) {
+      UsageAccountingService.instance = new UsageAccountingService()
+    }
+    return UsageAccountingService.instance
+  }
+
+  /**
+   * 记录一次执行的用量
+   * @returns 更新后的 Feature 汇总；无 usage、无 featureId 或 featureId 无效时返回 null
+   */
+  record(entry: ExecutionHistoryEntry): Promise<FeatureUsageSummary | null> {
+    const { usage, featureId, projectPath } = entry
+    if (!usage || !featureId || !isValidFeatureId(featureId)) {
+      return Promise.resolve(null)
+    }
+
+    const usagePath = getUsageLogPath(projectPath, featureId)
+    const previous = this.writeChains.get(usagePath) || Promise.resolve()
+
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const table = await this.getPriceTable(projectPath)
+        const costUsd = estimateCost(usage, entry.model, table)
+        const summary = await this.getFeatureUsage(projectPath, featureId)
+        const durationMs = entry.reportedDurationMs ?? entry.duration
+
+        addToTotals(summary.totals, usage, durationMs, costUsd)
+
+        if (entry.phaseId !== undefined) {
+          const key = String(entry.phaseId)
+          summary.phases[key] = summary.phases[key] || emptyTotals()
+          addToTotals(summary.phases[key], usage, durationMs, costUsd)
+        }
+
+        if (entry.stepId) {
+          const step = summary.steps[entry.stepId] || { ...emptyTotals(), phaseId: entry.phaseId }
+          addToTotals(step, usage, durationMs, costUsd)
+          summary.steps[entry.stepId] = step
+        }
+
+        summary.lastUpdated = entry.endedAt
+        await this.writeFeatureUsage(projectPath, summary)
+        this.emit('recorded', { featureId, summary })
+        return summary
+      })
+
+    this.writeChains.set(usagePath, next)
+    return next
+  }
+
+  /**
+   * 读取 Feature 用量汇总（文件不存在时返回空汇总）
+   * @throws featureId 不能作为目录名
+   */
+  async getFeatureUsage(projectPath: string, featureId: string): Promise<FeatureUsageSummary> {
+    if (!isValidFeatureId(featureId)) {
+      throw new Error(`Invalid feature id: ${featureId}`)
+    }
+
+    const summary: FeatureUsageSummary = {
+      featureId,
+      totals: emptyTotals(),
+      phases: {},
+      steps: {},
+      lastUpdated: null
+    }
+
+    let raw: RawUsageLog | null = null
+    try {
+      const content = await readFile(getUsageLogPath(projectPath, featureId), 'utf-8')
+      raw = parseYaml(content) as RawUsageLog
+    } catch {
+      return summary
+    }
+    if (!raw) return summary
+
+    summary.totals = fromRawTotals(raw.totals)
+    summary.lastUpdated = raw.meta?.last_updated ?? null
+    for (const [phaseId, totals] of Object.entries(raw.phases || {})) {
+      summary.phases[phaseId] = fromRawTotals(totals)
+    }
+    for (const [stepId, totals] of Object.entries(raw.steps || {})) {
+      summary.steps[stepId] = { ...fromRawTotals(totals), phaseId: totals.phase_id }
+    }
+    return summary
+  }
+
+  /**
+   * 读取价格表（项目配置覆盖默认值）
+   */
+  async getPriceTable(projectPath: string): Promise<PriceTable> {
+    try {
+      const content = await readFile(getPricingPath(projectPath), 'utf-8')
+      const parsed = parseYaml(content) as Partial<PriceTable> | null
+      return {
+        models: { ...DEFAULT_PRICE_TABLE.models, ...(parsed?.models || {}) }
+      }
+    } catch {
+      return { models: { ...DEFAULT_PRICE_TABLE.models } }
+    }
+  }
+
+  /**
+   * 保存价格表
+   */
+  async setPriceTable(projectPath: string, table: PriceTable): Promise<PriceTable> {
+    await mkdir(join(projectPath, '.claude'), { recursive: true })
+    await writeFile(getPricingPath(projectPath), stringifyYaml(table), 'utf-8')
+    return this.getPriceTable(projectPath)
+  }
+
+  /**
+   * 写入 Feature 用量汇总
+   */
+  private async writeFeatureUsage(projectPath: string, summary: FeatureUsageSummary): Promise<void> {
+    const raw: RawUsageLog = {
+      meta: {
+        feature_id: summary.featureId,
+        last_updated: summary.lastUpdated ?? new Date().toISOString()
+      },
+      totals: toRawTotals(summary.totals),
+      phases: Object.fromEntries(
+        Object.entries(summary.phases).map(([phaseId, totals]) => [phaseId, toRawTotals(totals)])
+      ),
+      steps: Object.fromEntries(
+        Object.entries(summary.steps).map(([stepId, totals]) => [
+          stepId,
+          { ...toRawTotals(totals), ...(totals.phaseId !== undefined ? { phase_id: totals.phaseId } : {}) }
+        ])
+      )
+    }
+
+    await mkdir(join(projectPath, 'docs', summary.featureId), { recursive: true })
+    await writeFile(getUsageLogPath(projectPath, summary.featureId), stringifyYaml(raw), 'utf-8')
+  }
+}
+
+// 导出单例
+export const usageAccountingService = UsageAccountingService.getInstance()
+
+// 导出类型供测试使用
+export { UsageAccountingService, estimateCost, isValidFeatureId, DEFAULT_PRICE_TABLE }
@@ -11,11 +11,25 @@ const ALLOWED_CHANNELS = {
   invoke: [
     'cli:execute',
     'cli:cancel',
+    'cli:input',
+    'cli:queueList',
+    'cli:queueReorder',
+    'cli:queueClear',
+    'cli:queueConfigure',
+    'cli:historyQuery',
+    'cli:historyGet',
+    'cli:historyRerun',
+    'cli:historyDiff',
+    'cli:checkpointPreview',
+    'cli:checkpointRestore',
+    'cli:policyCheck',
     'project:open',
     'project:state',
     'file:read',
     'approval:submit',
     'approval:status',
+    'approval:history',
+    'approval:createSigningKey',
     'dialog:openFolder',
     'shell:openTerminal',
     // Session 相关通道
@@ -24,16 +38,44 @@ const ALLOWED_CHANNELS = {
     'session:waitResult',
     'session:startWatch',
     'session:stopWatch',
+    'session:queue',
+    'session:cancelCommand',
+    'session:assignFeatures',
     // Dashboard 相关通道
     'dashboard:getFeatures',
-    'dashboard:getStandup'
+    'dashboard:getStandup',
+    // 用量统计相关通道
+    'usage:getFeature',
+    'usage:getPricing',
+    'usage:setPricing',
+    // 定时计划相关通道
+    'scheduler:list',
+    'scheduler:save',
+    // Git 相关通道
+    'git:status',
+    'git:featureBranch',
+    'git:settings',
+    'git:settingsSave',
+    'gate:check'
   ],
   on: [
     'cli:output',
+    'cli:event',
+    'cli:complete',
+    'cli:queueChange',
     'file:change',
     'project:state-change',
     // Session 变更事件
-    'session:change'
+    'session:change',
+    // Session 命令输出事件
+    'session:output',
+    // Session 命令队列变更事件
+    'session:queueChange',
+    // 用量变更事件
+    'usage:change',
+    // 定时计划触发 / 错过事件
+    'scheduler:triggered',
+    'scheduler:missed'
   ]
 } as const
 
@@ -5,3 +5,11 @@
 export { useIpc, useProjectIpc, useCliIpc, useFileIpc, useApprovalIpc } from './useIpc'
 export { useCliOutput } from './useCliOutput'
 export { useFileWatch } from './useFileWatch'
+export { useCliQueue } from './useCliQueue'
+export { useExecutionHistory } from './useExecutionHistory'
+export { useFeatureUsage } from './useFeatureUsage'
+export { useCommandPolicy } from './useCommandPolicy'
+export { usePipelineRunner } from './usePipelineRunner'
+export { useScheduler } from './useScheduler'
+export { useGit } from './useGit'
+export { useApprovalHistory } from './useApprovalHistory'
@@ -0,0 +1,62 @@
+/**
+ * 审批历史 composable
+ * 封装 approval:history（审批日志哈希链校验结果）与 approval:createSigningKey（本机签名密钥）
+ */
+
+import { ref } from 'vue'
+import type {
+  ApprovalHistoryRequest,
+  ApprovalHistoryResponse,
+  ApprovalSigningKeyResponse
+} from '@shared/types/ipc.types'
+
+/**
+ * 审批历史 composable
+ */
+export function useApprovalHistory() {
+  /** 最近一次查询结果 */
+  const history = ref<ApprovalHistoryResponse | null>(null)
+
+  /** 加载状态 */
+  const isLoading = ref(false)
+
+  /** 错误信息 */
+  const error = ref<string | null>(null)
+
+  /**
+   * 加载 Feature 的审批历史
+   */
+  async function load(featureId: string): Promise<void> {
+    isLoading.value = true
+    error.value = null
+
+    try {
+      const request: ApprovalHistoryRequest = { featureId }
+      history.value = await window.electronAPI.invoke<ApprovalHistoryResponse>('approval:history', request)
+    } catch (e: any) {
+      error.value = e.message || '加载审批历史失败'
+      console.error('[ApprovalHistory] Load failed:', e)
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  /**
+   * 创建本机签名密钥，失败时抛出错误
+   */
+  async function createSigningKey(): Promise<ApprovalSigningKeyResponse> {
+    const response = await window.electronAPI.invoke<ApprovalSigningKeyResponse>('approval:createSigningKey')
+    if (history.value) {
+      history.value = { ...history.value, signingKeyId: response.keyId }
+    }
+    return response
+  }
+
+  return {
+    history,
+    isLoading,
+    error,
+    load,
+    createSigningKey
+  }
+}
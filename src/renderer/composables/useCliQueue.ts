@@ -0,0 +1,140 @@
+/**
+ * CLI 执行队列 composable
+ * 订阅 cli:queueChange 并封装队列控制（排序、取消、清空）
+ */
+
+import { ref, computed, onMounted, onUnmounted } from 'vue'
+import type { CliQueueItem, CliQueueListResponse, CliQueueClearResponse } from '@shared/types/ipc.types'
+
+interface UseCliQueueOptions {
+  /** 自动订阅（默认 true） */
+  autoSubscribe?: boolean
+}
+
+/**
+ * CLI 执行队列 composable
+ */
+export function useCliQueue(options: UseCliQueueOptions = {}) {
+  const { autoSubscribe = true } = options
+
+  /** 订阅状态 */
+  const isSubscribed = ref(false)
+
+  /** 队列项（执行中在前） */
+  const items = ref<CliQueueItem[]>([])
+
+  /** 执行中的命令 */
+  const runningItems = computed(() => items.value.filter(item => item.status === 'running'))
+
+  /** 排队中的命令 */
+  const queuedItems = computed(() => items.value.filter(item => item.status === 'queued'))
+
+  /** 取消订阅函数 */
+  let unsubscribe: (() => void) | null = null
+
+  /**
+   * 拉取最新队列
+   */
+  async function refresh(): Promise<void> {
+    try {
+      const response = await window.electronAPI.invoke<CliQueueListResponse>('cli:queueList')
+      items.value = response?.items || []
+    } catch (e) {
+      console.error('[CliQueue] List failed:', e)
+    }
+  }
+
+  /**
+   * 调整排队位置（toIndex 为排队区内的下标，0 为下一个执行）
+   */
+  async function move(executionId: string, toIndex: number): Promise<boolean> {
+    try {
+      const response = await window.electronAPI.invoke<CliQueueListResponse>('cli:queueReorder', {
+        executionId,
+        toIndex
+      })
+      items.value = response?.items || items.value
+      return true
+    } catch (e) {
+      console.error('[CliQueue] Reorder failed:', e)
+      return false
+    }
+  }
+
+  /**
+   * 取消单个命令（执行中或排队中）
+   */
+  async function cancel(executionId: string): Promise<boolean> {
+    try {
+      await window.electronAPI.invoke('cli:cancel', { executionId })
+      return true
+    } catch (e) {
+      console.error('[CliQueue] Cancel failed:', e)
+      return false
+    }
+  }
+
+  /**
+   * 清空排队中的命令
+   */
+  async function clear(): Promise<number> {
+    try {
+      const response = await window.electronAPI.invoke<CliQueueClearResponse>('cli:queueClear')
+      return response?.cleared ?? 0
+    } catch (e) {
+      console.error('[CliQueue] Clear failed:', e)
+      return 0
+    }
+  }
+
+  /**
+   * 开始订阅
+   */
+  function subscribe(): void {
+    if (isSubscribed.value) return
+
+    unsubscribe = window.electronAPI.on('cli:queueChange', (_event, data) => {
+      items.value = (data as CliQueueListResponse).items
+    })
+
+    isSubscribed.value = true
+    refresh()
+  }
+
+  /**
+   * 停止订阅
+   */
+  function unsubscribeNow(): void {
+    if (!isSubscribed.value) return
+
+    if (unsubscribe) {
+      unsubscribe()
+      unsubscribe = null
+    }
+
+    isSubscribed.value = false
+  }
+
+  onMounted(() => {
+    if (autoSubscribe) {
+      subscribe()
+    }
+  })
+
+  onUnmounted(() => {
+    unsubscribeNow()
+  })
+
+  return {
+    isSubscribed,
+    items,
+    runningItems,
+    queuedItems,
+    refresh,
+    move,
+    cancel,
+    clear,
+    subscribe,
+    unsubscribe: unsubscribeNow
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * 命令策略 composable
+ * 执行前调用 cli:policyCheck，需确认或被拒绝时通过 CommandPolicyDialog 展示命中的规则
+ */
+
+import { ref } from 'vue'
+import type { CliPolicyCheckRequest, CommandPolicyDecision } from '@shared/types/ipc.types'
+
+/** 授权结果 */
+export interface CommandPolicyAuthorization {
+  /** 是否继续执行 */
+  allowed: boolean
+  /** 是否经用户确认（需随 cli:execute 一并提交） */
+  policyConfirmed: boolean
+}
+
+/**
+ * 命令策略 composable
+ */
+export function useCommandPolicy() {
+  /** 当前展示的判定结果 */
+  const decision = ref<CommandPolicyDecision | null>(null)
+
+  /** 对话框是否显示 */
+  const dialogVisible = ref(false)
+
+  /** 等待用户选择的 resolve */
+  let settle: ((confirmed: boolean) => void) | null = null
+
+  /**
+   * 查询命令策略
+   */
+  async function check(request: CliPolicyCheckRequest): Promise<CommandPolicyDecision | null> {
+    try {
+      return await window.electronAPI.invoke<CommandPolicyDecision>('cli:policyCheck', request)
+    } catch (e) {
+      console.error('[CommandPolicy] Check failed:', e)
+      return null
+    }
+  }
+
+  /**
+   * 执行前授权
+   * - allow：直接放行
+   * - confirm：弹出对话框，用户确认后放行
+   * - deny：弹出对话框说明命中的规则，不放行
+   * 预检失败时放行，由主进程在 cli:execute 中最终裁决
+   */
+  async function authorize(request: CliPolicyCheckRequest): Promise<CommandPolicyAuthorization> {
+    const result = await check(request)
+    if (!result || result.action === 'allow') {
+      return { allowed: true, policyConfirmed: false }
+    }
+
+    decision.value = result
+    dialogVisible.value = true
+
+    const confirmed = await new Promise<boolean>(resolve => {
+      settle = resolve
+    })
+
+    return {
+      allowed: confirmed && result.action === 'confirm',
+      policyConfirmed: confirmed && result.action === 'confirm'
+    }
+  }
+
+  /**
+   * 关闭对话框并返回用户选择
+   */
+  function resolveDialog(confirmed: boolean): void {
+    dialogVisible.value = false
+    settle?.(confirmed)
+    settle = null
+  }
+
+  return {
+    decision,
+    dialogVisible,
+    check,
+    authorize,
+    resolveDialog
+  }
+}
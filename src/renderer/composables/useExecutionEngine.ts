@@ -87,8 +87,8 @@ export function useExecutionEngine(
       }))
   }
 
-  // 加载执行清单
-  async function loadExecutionList() {
+  // 加载执行清单（silent 时不切换 loading，用于流水线运行中刷新状态）
+  async function loadExecutionList(options: { silent?: boolean } = {}) {
     const phaseId = phaseIdRef()
     const featureId = featureIdRef()
 
@@ -96,7 +96,7 @@ export function useExecutionEngine(
       return
     }
 
-    loading.value = true
+    loading.value = !options.silent
     error.value = null
     localDataWarning.value = null
 
@@ -111,12 +111,8 @@ export function useExecutionEngine(
         localTasks
       )
 
-      // 加载分组后的执行清单
-      groupedList.value = await executionEngine.getGroupedExecutionListWithLocalTasks(
-        phaseId,
-        featureId,
-        localTasks
-      )
+      // 分组（与执行清单共用同一组对象，执行中的状态变化同步到卡片）
+      groupedList.value = executionEngine.groupExecutionList(executionList.value)
 
       // 如果没有本地任务，显示提示
       if (localTasks.length === 0) {
@@ -0,0 +1,159 @@
+/**
+ * 执行历史 composable
+ * 封装 cli:historyQuery / cli:historyGet 的分页、筛选与全文搜索，以及 cli:historyDiff 文件差异
+ * 和 cli:checkpointPreview / cli:checkpointRestore 执行前检查点回滚
+ */
+
+import { ref, reactive, computed } from 'vue'
+import type {
+  CheckpointRollbackPreview,
+  CheckpointRollbackResult,
+  ExecutionFileDiff,
+  ExecutionHistoryEntry,
+  ExecutionHistoryPage,
+  ExecutionHistoryQuery
+} from '@shared/types/ipc.types'
+
+/** 可由界面调整的筛选条件 */
+export type ExecutionHistoryFilters = Omit<ExecutionHistoryQuery, 'projectPath' | 'offset' | 'limit'>
+
+/**
+ * 执行历史 composable
+ */
+export function useExecutionHistory(pageSize = 20) {
+  /** 当前页记录 */
+  const entries = ref<ExecutionHistoryEntry[]>([])
+
+  /** 匹配的记录总数 */
+  const total = ref(0)
+
+  /** 当前页码（从 1 开始） */
+  const page = ref(1)
+
+  /** 加载状态 */
+  const isLoading = ref(false)
+
+  /** 错误信息 */
+  const error = ref<string | null>(null)
+
+  /** 筛选条件 */
+  const filters = reactive<ExecutionHistoryFilters>({})
+
+  /** 总页数 */
+  const pageCount = computed(() => Math.max(1, Math.ceil(total.value / pageSize)))
+
+  /**
+   * 加载指定页
+   */
+  async function load(projectPath: string, targetPage = page.value): Promise<void> {
+    isLoading.value = true
+    error.value = null
+
+    try {
+      const query: ExecutionHistoryQuery = {
+        projectPath,
+        ...filters,
+        search: filters.search || undefined,
+        offset: (targetPage - 1) * pageSize,
+        limit: pageSize
+      }
+      const response = await window.electronAPI.invoke<ExecutionHistoryPage>('cli:historyQuery', query)
+      entries.value = response.entries
+      total.value = response.total
+      page.value = targetPage
+    } catch (e: any) {
+      error.value = e.message || '加载执行历史失败'
+      console.error('[ExecutionHistory] Query failed:', e)
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  /**
+   * 获取单条记录（含完整输出）
+   */
+  async function getEntry(projectPath: string, executionId: string): Promise<ExecutionHistoryEntry | null> {
+    try {
+      return await window.electronAPI.invoke<ExecutionHistoryEntry>('cli:historyGet', {
+        projectPath,
+        executionId
+      })
+    } catch (e) {
+      console.error('[ExecutionHistory] Get failed:', e)
+      return null
+    }
+  }
+
+  /**
+   * 获取执行期间某个文件相对执行前版本的差异
+   */
+  async function getFileDiff(
+    projectPath: string,
+    executionId: string,
+    path: string
+  ): Promise<ExecutionFileDiff | null> {
+    try {
+      return await window.electronAPI.invoke<ExecutionFileDiff>('cli:historyDiff', {
+        projectPath,
+        executionId,
+        path
+      })
+    } catch (e) {
+      console.error('[ExecutionHistory] Diff failed:', e)
+      return null
+    }
+  }
+
+  /**
+   * 预览回滚到执行前检查点的差异
+   */
+  async function previewRollback(
+    projectPath: string,
+    executionId: string
+  ): Promise<CheckpointRollbackPreview | null> {
+    try {
+      return await window.electronAPI.invoke<CheckpointRollbackPreview>('cli:checkpointPreview', {
+        projectPath,
+        executionId
+      })
+    } catch (e) {
+      console.error('[ExecutionHistory] Rollback preview failed:', e)
+      return null
+    }
+  }
+
+  /**
+   * 回滚到执行前检查点，失败时抛出错误
+   */
+  async function rollback(projectPath: string, executionId: string): Promise<CheckpointRollbackResult> {
+    return window.electronAPI.invoke<CheckpointRollbackResult>('cli:checkpointRestore', {
+      projectPath,
+      executionId
+    })
+  }
+
+  /**
+   * 重置筛选条件
+   */
+  function resetFilters(): void {
+    for (const key of Object.keys(filters) as Array<keyof ExecutionHistoryFilters>) {
+      delete filters[key]
+    }
+  }
+
+  return {
+    entries,
+    total,
+    page,
+    pageCount,
+    isLoading,
+    error,
+    filters,
+    load,
+    getEntry,
+    getFileDiff,
+    previewRollback,
+    rollback,
+    resetFilters
+  }
+}
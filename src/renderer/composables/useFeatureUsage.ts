@@ -0,0 +1,67 @@
+/**
+ * Feature 用量 composable
+ * 拉取 usage:getFeature 并订阅 usage:change
+ */
+
+import { ref, watch, onMounted, onUnmounted, type Ref } from 'vue'
+import type { FeatureUsageSummary, UsageChangeEvent } from '@shared/types/ipc.types'
+
+/**
+ * Feature 用量 composable
+ * @param featureId 当前 Feature（为空时清空汇总）
+ */
+export function useFeatureUsage(featureId: Ref<string | null | undefined>) {
+  /** 当前 Feature 的用量汇总 */
+  const summary = ref<FeatureUsageSummary | null>(null)
+
+  /** 取消订阅函数 */
+  let unsubscribe: (() => void) | null = null
+
+  /**
+   * 拉取最新汇总
+   */
+  async function refresh(): Promise<void> {
+    const id = featureId.value
+    if (!id) {
+      summary.value = null
+      return
+    }
+
+    try {
+      const result = await window.electronAPI.invoke<FeatureUsageSummary>('usage:getFeature', { featureId: id })
+      // Feature 已切换时丢弃过期结果
+      if (featureId.value === id) {
+        summary.value = result
+      }
+    } catch (e) {
+      console.error('[FeatureUsage] Load failed:', e)
+      summary.value = null
+    }
+  }
+
+  watch(featureId, () => {
+    refresh()
+  })
+
+  onMounted(() => {
+    unsubscribe = window.electronAPI.on('usage:change', (_event, data) => {
+      const change = data as UsageChangeEvent
+      if (change.featureId === featureId.value) {
+        summary.value = change.summary
+      }
+    })
+    refresh()
+  })
+
+  onUnmounted(() => {
+    if (unsubscribe) {
+      unsubscribe()
+      unsubscribe = null
+    }
+  })
+
+  return {
+    summary,
+    refresh
+  }
+}
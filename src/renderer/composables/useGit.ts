@@ -0,0 +1,73 @@
+/**
+ * Git composable
+ * 封装 git:status / git:featureBranch / git:settings / git:settingsSave
+ * 状态在组件实例间共享（预检栏与 Git 面板显示同一份状态）
+ */
+
+import { ref } from 'vue'
+import type {
+  GitFeatureBranchResult,
+  GitSettings,
+  GitStatus
+} from '@shared/types/ipc.types'
+
+/** 当前项目的仓库状态；未打开项目时为 null */
+const status = ref<GitStatus | null>(null)
+
+/** 当前项目的 Git 设置 */
+const settings = ref<GitSettings | null>(null)
+
+const isLoading = ref(false)
+
+/**
+ * Git composable
+ */
+export function useGit() {
+  /**
+   * 拉取仓库状态与设置
+   */
+  async function refresh(): Promise<void> {
+    isLoading.value = true
+    try {
+      const [nextStatus, nextSettings] = await Promise.all([
+        window.electronAPI.invoke<GitStatus>('git:status'),
+        window.electronAPI.invoke<GitSettings>('git:settings')
+      ])
+      status.value = nextStatus
+      settings.value = nextSettings
+    } catch (e) {
+      console.error('[Git] Status failed:', e)
+      status.value = null
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  /**
+   * 创建或切换到 Feature 分支
+   * @throws 切换失败（如未提交的改动与目标分支冲突）时抛出主进程错误
+   */
+  async function switchFeatureBranch(featureId: string): Promise<GitFeatureBranchResult> {
+    const result = await window.electronAPI.invoke<GitFeatureBranchResult>('git:featureBranch', { featureId })
+    await refresh()
+    return result
+  }
+
+  /**
+   * 保存 Git 设置
+   */
+  async function saveSettings(next: GitSettings): Promise<GitSettings> {
+    const result = await window.electronAPI.invoke<GitSettings>('git:settingsSave', next)
+    settings.value = result
+    return result
+  }
+
+  return {
+    status,
+    settings,
+    isLoading,
+    refresh,
+    switchFeatureBranch,
+    saveSettings
+  }
+}
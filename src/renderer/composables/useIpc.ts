@@ -87,6 +87,8 @@ export function useFileIpc() {
 export function useApprovalIpc() {
   return {
     submit: useIpc('approval:submit'),
-    status: useIpc('approval:status')
+    status: useIpc('approval:status'),
+    history: useIpc('approval:history'),
+    createSigningKey: useIpc('approval:createSigningKey')
   }
 }
@@ -0,0 +1,75 @@
+/**
+ * 流水线运行 composable
+ * 包装 executionEngine.runPipeline，提供响应式的运行进度与取消
+ */
+
+import { ref, computed } from 'vue'
+import { executionEngine } from '../services/executionEngine'
+import type {
+  ExecutionItem,
+  PipelineDefinition,
+  PipelineHooks,
+  PipelineRun,
+} from '../types/workflow.types'
+
+/**
+ * 流水线运行 composable
+ */
+export function usePipelineRunner() {
+  /** 当前（或最近一次）运行 */
+  const run = ref<PipelineRun | null>(null)
+
+  /** 是否正在运行 */
+  const isRunning = computed(() => run.value?.status === 'running')
+
+  /** 是否已请求取消 */
+  const cancelRequested = ref(false)
+
+  /**
+   * 启动流水线（同一时间只运行一条）
+   */
+  async function start(
+    pipeline: PipelineDefinition,
+    items: ExecutionItem[],
+    hooks: Omit<PipelineHooks, 'onProgress' | 'isCancelled'>
+  ): Promise<PipelineRun | null> {
+    if (isRunning.value) return null
+
+    cancelRequested.value = false
+    return executionEngine.runPipeline(pipeline, items, {
+      ...hooks,
+      // 复制一份，避免引擎内部对象变化不触发更新
+      onProgress: progress => {
+        run.value = { ...progress, steps: progress.steps.map(step => ({ ...step })) }
+      },
+      isCancelled: () => cancelRequested.value,
+    })
+  }
+
+  /**
+   * 请求取消（当前步骤结束后停止）
+   */
+  function cancel(): void {
+    if (isRunning.value) {
+      cancelRequested.value = true
+    }
+  }
+
+  /**
+   * 清除已结束的运行记录
+   */
+  function clear(): void {
+    if (!isRunning.value) {
+      run.value = null
+    }
+  }
+
+  return {
+    run,
+    isRunning,
+    cancelRequested,
+    start,
+    cancel,
+    clear,
+  }
+}
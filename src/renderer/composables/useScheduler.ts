@@ -0,0 +1,99 @@
+/**
+ * 定时计划 composable
+ * 读写 scheduler:list / scheduler:save，订阅计划触发与错过触发事件
+ */
+
+import { ref, onMounted, onUnmounted } from 'vue'
+import type {
+  MissedScheduleRun,
+  ScheduleEntry,
+  ScheduleMissedEvent,
+  ScheduleTriggeredEvent,
+  SchedulerStatus
+} from '@shared/types/ipc.types'
+
+/** 已提示过的错过触发（跨组件实例，避免重复提示） */
+const reportedMissed = new Set<string>()
+
+export interface UseSchedulerOptions {
+  /** 计划已触发 */
+  onTriggered?: (event: ScheduleTriggeredEvent) => void
+  /** 发现应用关闭期间错过的触发（每条只回调一次） */
+  onMissed?: (missed: MissedScheduleRun[]) => void
+}
+
+/**
+ * 定时计划 composable
+ */
+export function useScheduler(options: UseSchedulerOptions = {}) {
+  /** 计划与触发状态；未打开项目时为 null */
+  const status = ref<SchedulerStatus | null>(null)
+
+  /** 取消订阅函数 */
+  let unsubscribeTriggered: (() => void) | null = null
+  let unsubscribeMissed: (() => void) | null = null
+
+  /**
+   * 过滤出尚未提示的错过触发并回调
+   */
+  function reportMissed(missed: MissedScheduleRun[]): void {
+    if (!options.onMissed) return
+
+    const fresh = missed.filter(run => !reportedMissed.has(`${run.scheduleId}@${run.scheduledAt}`))
+    if (fresh.length === 0) return
+
+    fresh.forEach(run => reportedMissed.add(`${run.scheduleId}@${run.scheduledAt}`))
+    options.onMissed(fresh)
+  }
+
+  /**
+   * 拉取最新状态
+   */
+  async function refresh(): Promise<void> {
+    try {
+      status.value = await window.electronAPI.invoke<SchedulerStatus>('scheduler:list')
+      reportMissed(status.value.missed)
+    } catch {
+      // 未打开项目时不显示定时计划
+      status.value = null
+    }
+  }
+
+  /**
+   * 保存计划
+   * @throws 计划无效（如 cron 表达式错误）时抛出主进程错误
+   */
+  async function save(schedules: ScheduleEntry[]): Promise<SchedulerStatus> {
+    const result = await window.electronAPI.invoke<SchedulerStatus>('scheduler:save', { schedules })
+    status.value = result
+    return result
+  }
+
+  onMounted(() => {
+    unsubscribeTriggered = window.electronAPI.on('scheduler:triggered', (_event, data) => {
+      const triggered = data as ScheduleTriggeredEvent
+      if (status.value) {
+        status.value.runs[triggered.schedule.id] = triggered.record
+      }
+      options.onTriggered?.(triggered)
+      refresh()
+    })
+    unsubscribeMissed = window.electronAPI.on('scheduler:missed', (_event, data) => {
+      reportMissed((data as ScheduleMissedEvent).missed)
+    })
+    refresh()
+  })
+
+  onUnmounted(() => {
+    unsubscribeTriggered?.()
+    unsubscribeTriggered = null
+    unsubscribeMissed?.()
+    unsubscribeMissed = null
+  })
+
+  return {
+    status,
+    refresh,
+    save
+  }
+}
@@ -5,7 +5,16 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { executionEngine } from '../executionEngine'
 import { configLoader } from '../configLoader'
-import type { ExecutionItem, FrameworkStep, FeatureTask, PhaseConfig, GateStatus } from '../../types/workflow.types'
+import type {
+  ExecutionItem,
+  FrameworkStep,
+  FeatureTask,
+  PhaseConfig,
+  GateStatus,
+  PipelineDefinition,
+  PipelineItemOutcome,
+  FailureRecovery,
+} from '../../types/workflow.types'
 
 // Mock configLoader
 vi.mock('../configLoader', () => ({
@@ -540,6 +549,335 @@ describe('ExecutionEngine', () => {
     })
   })
 
+  // ========== Command templating ==========
+
+  describe('command templating', () => {
+    it('EE-029: should render framework step command with context variables', async () => {
+      vi.mocked(configLoader.getFrameworkSteps).mockResolvedValue(
+        mockFrameworkSteps.map(step =>
+          step.id === 'check-gate' ? { ...step, command: '/check-gate {{featureId}} --phase {{phaseId}}' } : step
+        )
+      )
+
+      const list = await executionEngine.buildExecutionList(5, 'coding-GUI')
+      const checkGate = list.find(item => item.id === 'check-gate')
+
+      expect(checkGate?.command).toBe('/check-gate coding-GUI --phase 5')
+      expect(checkGate?.commandTemplate).toBe('/check-gate {{featureId}} --phase {{phaseId}}')
+      expect(checkGate?.commandError).toBeUndefined()
+    })
+
+    it('EE-030: should render task command value before building claude command', async () => {
+      vi.mocked(configLoader.loadFeatureTasks).mockResolvedValue([
+        {
+          id: 'CODE-004',
+          task: '评审设计',
+          status: 'pending',
+          command: { type: 'slash_command', value: '/review {{featureDocsPath}}/40_DESIGN.md {{taskId}} {{phaseName}}' },
+        },
+      ])
+
+      const list = await executionEngine.buildExecutionList(5, 'coding-GUI')
+      const task = list.find(item => item.id === 'CODE-004')
+
+      expect(task?.command).toBe('claude /review docs/coding-GUI/40_DESIGN.md CODE-004 Code')
+      expect(task?.commandError).toBeUndefined()
+    })
+
+    it('EE-031: should mark unknown variables as command error', async () => {
+      vi.mocked(configLoader.loadFeatureTasks).mockResolvedValue([
+        { id: 'CODE-005', task: '执行脚本', status: 'pending', command: { type: 'bash', value: 'npm run {{script}}' } },
+      ])
+
+      const list = await executionEngine.buildExecutionList(5, 'coding-GUI')
+      const task = list.find(item => item.id === 'CODE-005')
+
+      expect(task?.command).toBe('npm run {{script}}')
+      expect(task?.commandError).toContain('{{script}}')
+    })
+
+    it('EE-032: should leave commands without placeholders untouched', async () => {
+      const list = await executionEngine.buildExecutionList(5, 'coding-GUI')
+      const startDay = list.find(item => item.id === 'start-day')
+
+      expect(startDay?.command).toBe('/start-day')
+      expect(startDay?.commandTemplate).toBeUndefined()
+    })
+  })
+
+  // ========== Structured argv ==========
+
+  describe('structured argv', () => {
+    it('EE-033: should pass task title as a single argument', async () => {
+      vi.mocked(configLoader.loadFeatureTasks).mockResolvedValue([
+        { id: 'CODE-006', task: '修复 "引号" 与 $(whoami)', status: 'pending' },
+      ])
+
+      const list = await executionEngine.buildExecutionList(5, 'coding-GUI')
+      const task = list.find(item => item.id === 'CODE-006')
+
+      expect(task?.argv).toEqual({
+        executable: 'claude',
+        args: ['--print', '请帮我完成任务: 修复 "引号" 与 $(whoami)'],
+      })
+      expect(task?.rawShell).toBeUndefined()
+    })
+
+    it('EE-034: should mark bash task commands as raw shell', async () => {
+      vi.mocked(configLoader.loadFeatureTasks).mockResolvedValue([
+        { id: 'CODE-007', task: '运行测试', status: 'pending', command: { type: 'bash', value: 'npm test' } },
+      ])
+
+      const list = await executionEngine.buildExecutionList(5, 'coding-GUI')
+      const task = list.find(item => item.id === 'CODE-007')
+
+      expect(task?.command).toBe('npm test')
+      expect(task?.rawShell).toBe(true)
+      expect(task?.argv).toBeUndefined()
+    })
+
+    it('EE-035: should build argv for slash command framework steps', async () => {
+      const list = await executionEngine.buildExecutionList(5, 'coding-GUI')
+      const startDay = list.find(item => item.id === 'start-day')
+
+      expect(startDay?.argv).toEqual({ executable: 'claude', args: ['--print', '/start-day'] })
+    })
+  })
+
+  // ========== pipelines ==========
+
+  describe('pipelines', () => {
+    const morning: PipelineDefinition = {
+      id: 'morning',
+      name: '晨间流水线',
+      steps: [
+        { step: 'start-day' },
+        { tasks: { owner: 'cc' } },
+        { step: 'check-gate' },
+      ],
+    }
+
+    const buildList = async () => {
+      vi.mocked(configLoader.loadFeatureTasks).mockResolvedValue([
+        { id: 'CODE-001', task: '已完成', status: 'done', owner: 'cc' },
+        { id: 'CODE-002', task: '实现服务层', status: 'pending', owner: 'cc' },
+        { id: 'CODE-003', task: '人工确认', status: 'pending', owner: 'human' },
+        { id: 'CODE-004', task: '编写测试', status: 'pending', owner: 'cc' },
+      ])
+      return executionEngine.buildExecutionList(5, 'coding-GUI')
+    }
+
+    const createHooks = (outcomes: Record<string, PipelineItemOutcome> = {}) => ({
+      execute: vi.fn(async (item: ExecutionItem) => outcomes[item.id] || 'succeeded'),
+      showConfirm: vi.fn(async () => true),
+      showToast: vi.fn(),
+    })
+
+    it('EE-036: should resolve steps and pending cc-owned tasks in order', async () => {
+      const list = await buildList()
+
+      const steps = executionEngine.resolvePipeline(morning, list)
+
+      expect(steps.map(item => item.id)).toEqual(['start-day', 'CODE-002', 'CODE-004', 'check-gate'])
+    })
+
+    it('EE-037: should run steps in order and mark blocked prerequisites', async () => {
+      const list = await buildList()
+      const hooks = createHooks()
+
+      const run = await executionEngine.runPipeline({ ...morning, on_failure: 'continue' }, list, hooks)
+
+      expect(hooks.execute.mock.calls.map(([item]) => item.id)).toEqual(['start-day', 'CODE-002', 'CODE-004'])
+      expect(run.steps.map(step => step.status)).toEqual(['succeeded', 'succeeded', 'succeeded', 'blocked'])
+      expect(run.status).toBe('failed')
+    })
+
+    it('EE-038: should stop after a failed step by default', async () => {
+      const list = await buildList()
+      const hooks = createHooks({ 'CODE-002': 'failed' })
+
+      const run = await executionEngine.runPipeline(morning, list, hooks)
+
+      expect(hooks.execute).toHaveBeenCalledTimes(2)
+      expect(run.steps.map(step => step.status)).toEqual(['succeeded', 'failed', 'skipped', 'skipped'])
+      expect(run.status).toBe('failed')
+    })
+
+    it('EE-039: should continue after a failed step when configured', async () => {
+      const list = await buildList()
+      const hooks = createHooks({ 'CODE-002': 'failed' })
+
+      const run = await executionEngine.runPipeline(
+        { ...morning, steps: morning.steps.slice(0, 2), on_failure: 'continue' },
+        list,
+        hooks
+      )
+
+      expect(run.steps.map(step => step.status)).toEqual(['succeeded', 'failed', 'succeeded'])
+    })
+
+    it('EE-040: should respect rerun policy and cancellation', async () => {
+      const list = await buildList()
+      const verified = list.map(item =>
+        item.id === 'start-day'
+          ? { ...item, status: 'verified' as const, rerunPolicy: { strategy: 'block' as const, block_message: '今日已执行' } }
+          : item
+      )
+      const hooks = createHooks({ 'CODE-002': 'cancelled' })
+
+      const run = await executionEngine.runPipeline(morning, verified, hooks)
+
+      expect(hooks.showToast).toHaveBeenCalledWith('今日已执行')
+      expect(run.steps.map(step => step.status)).toEqual(['skipped', 'cancelled', 'skipped', 'skipped'])
+      expect(run.steps[2].reason).toBe('流水线已取消')
+      expect(run.status).toBe('cancelled')
+    })
+
+    it('EE-041: should re-read item status before each step', async () => {
+      const list = await buildList()
+      const hooks = createHooks()
+      const reload = vi.fn(async () =>
+        hooks.execute.mock.calls.length >= 3
+          ? list.map(item => (item.id === 'check-gate' ? { ...item, status: 'ready' as const } : item))
+          : list
+      )
+
+      const run = await executionEngine.runPipeline(morning, list, { ...hooks, reload })
+
+      expect(reload).toHaveBeenCalledTimes(4)
+      expect(run.steps[3].status).toBe('succeeded')
+      expect(run.status).toBe('completed')
+    })
+  })
+
+  // ========== failure recovery ==========
+
+  describe('failure recovery', () => {
+    const recovery: FailureRecovery = {
+      suggestion: '检查网络后重试',
+      fallback_command: '/start-day --offline {{featureId}}',
+      log_path: 'logs/{{featureId}}/start-day.log',
+      retry: { max_attempts: 3, backoff_ms: 100 },
+    }
+
+    const buildStartDay = async (overrides: Partial<FailureRecovery> = {}) => {
+      vi.mocked(configLoader.getFrameworkSteps).mockResolvedValue(
+        mockFrameworkSteps.map(step =>
+          step.id === 'start-day' ? { ...step, failure_recovery: { ...recovery, ...overrides } } : step
+        )
+      )
+      const list = await executionEngine.buildExecutionList(5, 'coding-GUI')
+      return list.find(item => item.id === 'start-day') as ExecutionItem
+    }
+
+    const createHooks = (outcomes: PipelineItemOutcome[]) => {
+      const statuses: string[] = []
+      return {
+        statuses,
+        execute: vi.fn(async (_item: ExecutionItem) => outcomes.shift() || 'succeeded'),
+        confirmFallback: vi.fn(async () => false),
+        readLog: vi.fn(async (_path: string) => 'ECONNRESET'),
+        sleep: vi.fn(async (_ms: number) => {}),
+        onStatusChange: vi.fn((item: ExecutionItem) => { statuses.push(item.status) }),
+      }
+    }
+
+    it('EE-042: should render fallback command and log path', async () => {
+      const startDay = await buildStartDay()
+
+      expect(startDay.failureRecovery?.fallback_command).toBe('/start-day --offline coding-GUI')
+      expect(startDay.failureRecovery?.log_path).toBe('logs/coding-GUI/start-day.log')
+    })
+
+    it('EE-043: should retry with exponential backoff until success', async () => {
+      const startDay = await buildStartDay()
+      const hooks = createHooks(['failed', 'failed', 'succeeded'])
+
+      const result = await executionEngine.executeWithRecovery(startDay, hooks)
+
+      expect(result).toEqual({ outcome: 'succeeded', attempts: 3, recoveredByFallback: false })
+      expect(hooks.sleep.mock.calls.map(call => call[0])).toEqual([100, 200])
+      expect(hooks.statuses).toEqual(['running', 'failed', 'running', 'failed', 'running', 'generated'])
+      expect(startDay.failure).toBeUndefined()
+    })
+
+    it('EE-044: should attach log and offer fallback after retries are exhausted', async () => {
+      const startDay = await buildStartDay()
+      const hooks = createHooks(['failed', 'failed', 'failed'])
+
+      const result = await executionEngine.executeWithRecovery(startDay, hooks)
+
+      expect(result.outcome).toBe('failed')
+      expect(hooks.execute).toHaveBeenCalledTimes(3)
+      expect(hooks.readLog).toHaveBeenCalledWith('logs/coding-GUI/start-day.log')
+      expect(hooks.confirmFallback).toHaveBeenCalledWith(startDay, result.failure)
+      expect(startDay.status).toBe('failed')
+      expect(startDay.failure).toMatchObject({
+        attempts: 3,
+        suggestion: '检查网络后重试',
+        logPath: 'logs/coding-GUI/start-day.log',
+        logContent: 'ECONNRESET',
+      })
+    })
+
+    it('EE-045: should run fallback automatically and mark the step generated', async () => {
+      const startDay = await buildStartDay({ auto_fallback: true, retry: undefined })
+      const hooks = createHooks(['failed', 'succeeded'])
+
+      const result = await executionEngine.executeWithRecovery(startDay, hooks)
+
+      expect(hooks.confirmFallback).not.toHaveBeenCalled()
+      expect(hooks.execute.mock.calls[1][0].command).toBe('/start-day --offline coding-GUI')
+      expect(hooks.execute.mock.calls[1][0].argv).toEqual({
+        executable: 'claude',
+        args: ['--print', '/start-day --offline coding-GUI'],
+      })
+      expect(result).toMatchObject({ outcome: 'succeeded', attempts: 1, recoveredByFallback: true })
+      expect(startDay.failure?.fallbackOutcome).toBe('succeeded')
+      expect(hooks.statuses).toEqual(['running', 'failed', 'running', 'generated'])
+    })
+
+    it('EE-046: should restore status when an attempt is cancelled', async () => {
+      const startDay = await buildStartDay()
+      const initialStatus = startDay.status
+      const hooks = createHooks(['cancelled'])
+
+      const result = await executionEngine.executeWithRecovery(startDay, hooks)
+
+      expect(result.outcome).toBe('cancelled')
+      expect(startDay.status).toBe(initialStatus)
+      expect(hooks.confirmFallback).not.toHaveBeenCalled()
+    })
+
+    it('EE-047: should inherit failure recovery from the matching phase tool', async () => {
+      vi.mocked(configLoader.loadPhaseConfig).mockResolvedValue({
+        ...mockPhaseConfig,
+        tools: [
+          {
+            name: 'run-tests',
+            type: 'slash-command',
+            command: '/run-tests',
+            description: '运行测试',
+            phases: [5],
+            priority: 'required',
+            status: 'implemented',
+            owner: 'cc',
+            execution_mode: 'non_interactive',
+            failure_recovery: { suggestion: '查看测试日志', log_path: 'logs/{{taskId}}.log' },
+          },
+        ],
+      })
+      vi.mocked(configLoader.loadFeatureTasks).mockResolvedValue([
+        { id: 'CODE-008', task: '跑测试', status: 'pending', command: { type: 'slash_command', value: '/run-tests --all' } },
+      ])
+
+      const list = await executionEngine.buildExecutionList(5, 'coding-GUI')
+      const task = list.find(item => item.id === 'CODE-008')
+
+      expect(task?.failureRecovery).toEqual({ suggestion: '查看测试日志', log_path: 'logs/CODE-008.log' })
+    })
+  })
+
   // ========== Integration scenarios ==========
 
   describe('Integration scenarios', () => {
@@ -0,0 +1,148 @@
+/**
+ * SessionChannel 单元测试
+ * 对应 60_TEST_PLAN.md SC-001 ~ SC-003
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { Session } from '../../../shared/types/ipc.types'
+import { createSessionChannel } from '../sessionChannel'
+
+// Mock window.electronAPI
+const mockInvoke = vi.fn()
+const mockOn = vi.fn(() => vi.fn())  // Returns unsubscribe function
+
+vi.stubGlobal('window', {
+  electronAPI: {
+    invoke: mockInvoke,
+    on: mockOn
+  }
+})
+
+const createSession = (id: string, overrides: Partial<Session> = {}): Session => ({
+  id,
+  pid: 1,
+  createdAt: '2030-01-01T10:00:00.000Z',
+  lastActiveAt: '2030-01-01T10:00:00.000Z',
+  heartbeatAt: '2030-01-01T10:00:00.000Z',
+  terminal: { type: 'console', platform: 'linux', title: 'test' },
+  status: 'active',
+  projectPath: '/project',
+  ...overrides
+})
+
+describe('SessionChannel', () => {
+  let channel: ReturnType<typeof createSessionChannel>
+
+  const init = async (sessions: Session[]) => {
+    mockInvoke.mockImplementation(async (channelName: string) =>
+      channelName === 'session:list' ? { sessions } : undefined
+    )
+    await channel.init('/project')
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    channel = createSessionChannel()
+  })
+
+  describe('SC-001: 按 Feature 路由', () => {
+    it('should route to the session declaring or assigned the feature', async () => {
+      await init([
+        createSession('s1', { features: ['F001'] }),
+        createSession('s2', { assignedFeatures: ['F002'] })
+      ])
+      channel.connect('s1')
+
+      expect(channel.routeCommand({ featureId: 'F002' })).toMatchObject({ sessionId: 's2', reason: 'feature' })
+      expect(channel.routeCommand({ featureId: 'F001' })).toMatchObject({ sessionId: 's1', reason: 'feature' })
+    })
+
+    it('should prefer the connected, then active session among several', async () => {
+      await init([
+        createSession('s1', { features: ['F001'], status: 'stale' }),
+        createSession('s2', { features: ['F001'] }),
+        createSession('s3', { assignedFeatures: ['F001'] })
+      ])
+
+      expect(channel.routeCommand({ featureId: 'F001' }).sessionId).toBe('s2')
+
+      channel.connect('s3')
+      expect(channel.routeCommand({ featureId: 'F001' }).sessionId).toBe('s3')
+    })
+
+    it('should ignore disconnected sessions', async () => {
+      await init([
+        createSession('s1', { features: ['F001'], status: 'disconnected' }),
+        createSession('s2')
+      ])
+      channel.connect('s2')
+
+      expect(channel.routeCommand({ featureId: 'F001' })).toMatchObject({ sessionId: 's2', reason: 'current' })
+    })
+  })
+
+  describe('SC-002: 无法路由时', () => {
+    it('should ask for a session when the current one works on another feature', async () => {
+      await init([createSession('s1', { features: ['F001'] }), createSession('s2')])
+      channel.connect('s1')
+
+      const route = channel.routeCommand({ featureId: 'F002' })
+
+      expect(route).toMatchObject({ sessionId: null, reason: 'unmatched' })
+      expect(route.candidates.map(s => s.id)).toEqual(['s1', 's2'])
+    })
+
+    it('should ask for a session when not connected but sessions are bound to features', async () => {
+      await init([createSession('s1', { features: ['F001'] })])
+
+      expect(channel.routeCommand({ featureId: 'F002' })).toMatchObject({ sessionId: null, reason: 'unmatched' })
+    })
+
+    it('should keep the current session for unbound sessions or commands without feature', async () => {
+      await init([createSession('s1', { features: ['F001'] }), createSession('s2')])
+
+      expect(channel.routeCommand({})).toMatchObject({ sessionId: null, reason: 'none' })
+
+      channel.connect('s1')
+      expect(channel.routeCommand({})).toMatchObject({ sessionId: 's1', reason: 'current' })
+
+      channel.connect('s2')
+      expect(channel.routeCommand({ featureId: 'F002' })).toMatchObject({ sessionId: 's2', reason: 'current' })
+    })
+  })
+
+  describe('SC-003: 发送与分配', () => {
+    it('should send the command to the routed session', async () => {
+      await init([createSession('s1'), createSession('s2', { features: ['F001'] })])
+      channel.connect('s1')
+      mockInvoke.mockResolvedValueOnce({ cmdId: 'cmd-1', status: 'sent', retryCount: 0 })
+
+      await channel.sendCommand('/design', { featureId: 'F001' }, 's2')
+
+      expect(mockInvoke).toHaveBeenLastCalledWith('session:sendCommand', {
+        sessionId: 's2',
+        projectPath: '/project',
+        command: '/design',
+        context: { featureId: 'F001' }
+      })
+    })
+
+    it('should update sessions after assigning features', async () => {
+      await init([createSession('s1')])
+      const updated = [createSession('s1', { assignedFeatures: ['F001'] })]
+      mockInvoke.mockResolvedValueOnce({ sessions: updated })
+      const onChange = vi.fn()
+      channel.onSessionChange(onChange)
+
+      await channel.assignFeatures('s1', ['F001'])
+
+      expect(mockInvoke).toHaveBeenLastCalledWith('session:assignFeatures', {
+        projectPath: '/project',
+        sessionId: 's1',
+        featureIds: ['F001']
+      })
+      expect(channel.routeCommand({ featureId: 'F001' })).toMatchObject({ sessionId: 's1', reason: 'feature' })
+      expect(onChange).toHaveBeenCalledWith(updated)
+    })
+  })
+})
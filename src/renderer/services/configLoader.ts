@@ -19,6 +19,7 @@ import type {
   ProgressLog,
   PhaseInput,
   PhaseReference,
+  PipelineDefinition,
 } from '../types/workflow.types'
 import { CACHE_CONFIG } from '../config/github'
 import {
@@ -118,7 +119,7 @@ const DEFAULT_FRAMEWORK_STEPS: FrameworkStep[] = [
     id: 'check-gate',
     name: 'Gate 检查',
     icon: 'clipboard-check',
-    command: '/check-gate',
+    command: '/check-gate {{featureId}}',
     position: 'after_tasks',
     applicable_phases: [0, 1, 2, 3, 4, 5, 6, 7],
     description: '检查阶段通过条件',
@@ -186,6 +187,20 @@ const DEFAULT_PHASES: PhaseMetadata[] = [
   { id: 7, name: 'Deploy', display_name: '部署发布', description: '发布到生产环境', has_expert_review: false, color: '#ec4899' },
 ]
 
+const DEFAULT_PIPELINES: PipelineDefinition[] = [
+  {
+    id: 'morning',
+    name: '晨间流水线',
+    description: '每日开始 → 本阶段待处理的 cc 任务 → Gate 检查',
+    on_failure: 'stop',
+    steps: [
+      { step: 'start-day' },
+      { tasks: { owner: 'cc' } },
+      { step: 'check-gate' },
+    ],
+  },
+]
+
 // 默认配置已移至 progressLogParser.ts（PHASE_OBJECTIVES, PHASE_INPUTS, PHASE_REFERENCES）
 
 // ============================================================
@@ -216,6 +231,7 @@ class ConfigLoader {
           version: doc.parsedContent.version || '1.0',
           framework_steps: doc.parsedContent.framework_steps || DEFAULT_FRAMEWORK_STEPS,
           phases: doc.parsedContent.phases || DEFAULT_PHASES,
+          pipelines: doc.parsedContent.pipelines || DEFAULT_PIPELINES,
         }
         this.cache.set(cacheKey, template)
         return template
@@ -228,6 +244,7 @@ class ConfigLoader {
       version: '1.0',
       framework_steps: DEFAULT_FRAMEWORK_STEPS,
       phases: DEFAULT_PHASES,
+      pipelines: DEFAULT_PIPELINES,
     }
     this.cache.set(cacheKey, defaultTemplate)
     return defaultTemplate
@@ -448,6 +465,14 @@ class ConfigLoader {
     )
   }
 
+  /**
+   * 获取工作流模板中定义的流水线
+   */
+  async getPipelines(): Promise<PipelineDefinition[]> {
+    const template = await this.loadWorkflowTemplate()
+    return template.pipelines || DEFAULT_PIPELINES
+  }
+
   /**
    * 清除缓存
    */
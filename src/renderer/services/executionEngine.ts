@@ -12,15 +12,41 @@ import {
   canExecute,
   type PrerequisiteContext,
 } from '../utils/executionStatus'
+import {
+  buildTemplateContext,
+  hasTemplateVariables,
+  renderCommandTemplate,
+  type CommandTemplateContext,
+} from '../utils/commandTemplate'
 import type {
   ExecutionItem,
   ExecutionStatus,
+  FailureRecord,
+  FailureRecovery,
   FrameworkStep,
   FeatureTask,
   PhaseGateStatus,
+  PipelineDefinition,
+  PipelineHooks,
+  PipelineRun,
+  RecoveryHooks,
+  RecoveryResult,
   RerunPolicy,
+  ToolConfig,
 } from '../types/workflow.types'
 
+/** 流水线按条件选择任务时默认包含的状态 */
+const PIPELINE_TASK_STATUSES: ExecutionStatus[] = ['pending', 'ready', 'failed']
+
+/** 重试间隔默认倍数 */
+const DEFAULT_BACKOFF_MULTIPLIER = 2
+
+/** ExecutionItem 中与命令相关的字段 */
+type CommandFields = Pick<
+  ExecutionItem,
+  'command' | 'commandTemplate' | 'commandError' | 'argv' | 'rawShell'
+>
+
 // ============================================================
 // ExecutionEngine 类
 // ============================================================
@@ -55,30 +81,36 @@ class ExecutionEngine {
       phaseHasExpertReview: phaseConfig.hasExpertReview,
     }
 
+    const templateContext = buildTemplateContext({
+      featureId,
+      phaseId,
+      phaseName: phaseConfig.name,
+    })
+
     // 3. 构建执行清单
     const executionList: ExecutionItem[] = []
 
     // 3.1 before_tasks 框架步骤
     const beforeTaskSteps = frameworkSteps.filter(s => s.position === 'before_tasks')
     for (const step of beforeTaskSteps) {
-      executionList.push(this.frameworkStepToExecutionItem(step, context))
+      executionList.push(this.frameworkStepToExecutionItem(step, context, templateContext))
     }
 
     // 3.2 Feature 任务
     for (const task of featureTasks) {
-      executionList.push(this.featureTaskToExecutionItem(task))
+      executionList.push(this.featureTaskToExecutionItem(task, templateContext, phaseConfig.tools))
     }
 
     // 3.3 after_tasks 框架步骤
     const afterTaskSteps = frameworkSteps.filter(s => s.position === 'after_tasks')
     for (const step of afterTaskSteps) {
-      executionList.push(this.frameworkStepToExecutionItem(step, context))
+      executionList.push(this.frameworkStepToExecutionItem(step, context, templateContext))
     }
 
     // 3.4 end 框架步骤
     const endSteps = frameworkSteps.filter(s => s.position === 'end')
     for (const step of endSteps) {
-      const item = this.frameworkStepToExecutionItem(step, context)
+      const item = this.frameworkStepToExecutionItem(step, context, templateContext)
       // end-day 始终可执行
       if (step.id === 'end-day') {
         item.status = 'ready'
@@ -99,7 +131,18 @@ class ExecutionEngine {
     endSteps: ExecutionItem[]
   }> {
     const list = await this.buildExecutionList(phaseId, featureId)
+    return this.groupExecutionList(list)
+  }
 
+  /**
+   * 按位置分组执行清单（分组中的项与清单为同一对象）
+   */
+  groupExecutionList(list: ExecutionItem[]): {
+    beforeTasks: ExecutionItem[]
+    tasks: ExecutionItem[]
+    afterTasks: ExecutionItem[]
+    endSteps: ExecutionItem[]
+  } {
     // 根据位置分组
     const beforeTasks: ExecutionItem[] = []
     const tasks: ExecutionItem[] = []
@@ -230,14 +273,269 @@ class ExecutionEngine {
     }
   }
 
+  // ========== 流水线 ==========
+
+  /**
+   * 按流水线定义从执行清单中选出步骤
+   * 按定义顺序展开，重复项只保留第一次；不适用于当前阶段的步骤忽略
+   */
+  resolvePipeline(pipeline: PipelineDefinition, items: ExecutionItem[]): ExecutionItem[] {
+    const selected: ExecutionItem[] = []
+    const seen = new Set<string>()
+
+    const add = (item: ExecutionItem) => {
+      if (seen.has(item.id)) return
+      seen.add(item.id)
+      selected.push(item)
+    }
+
+    for (const selector of pipeline.steps) {
+      if (selector.step) {
+        const item = items.find(i => i.id === selector.step)
+        if (item) add(item)
+      } else if (selector.tasks) {
+        const { owner, status = PIPELINE_TASK_STATUSES } = selector.tasks
+        items
+          .filter(i => i.type === 'task')
+          .filter(i => !owner || i.owner === owner)
+          .filter(i => status.includes(i.status))
+          .forEach(add)
+      }
+    }
+
+    return selected
+  }
+
+  /**
+   * 顺序运行流水线
+   * - 每步执行前（可选）重新加载执行清单，前置条件未满足的步骤记为 blocked
+   * - 已执行过的步骤按 rerun_policy 处理，被阻止或未确认时跳过
+   * - 步骤失败或阻塞时按 on_failure 停止或继续；步骤被取消时整条流水线取消
+   */
+  async runPipeline(
+    pipeline: PipelineDefinition,
+    items: ExecutionItem[],
+    hooks: PipelineHooks
+  ): Promise<PipelineRun> {
+    const selected = this.resolvePipeline(pipeline, items)
+    const run: PipelineRun = {
+      pipelineId: pipeline.id,
+      name: pipeline.name,
+      onFailure: pipeline.on_failure || 'stop',
+      status: 'running',
+      steps: selected.map(item => ({ itemId: item.id, name: item.name, status: 'pending' })),
+      startedAt: new Date().toISOString(),
+    }
+    const notify = () => hooks.onProgress?.(run)
+    notify()
+
+    let failed = false
+
+    for (let index = 0; index < run.steps.length; index++) {
+      const stepRun = run.steps[index]
+
+      if (hooks.isCancelled?.()) {
+        run.status = 'cancelled'
+        break
+      }
+
+      const current = hooks.reload ? await hooks.reload() : items
+      const item = current.find(i => i.id === stepRun.itemId) || selected[index]
+
+      let stepFailed = false
+      if (!item.command || item.commandError) {
+        stepRun.status = 'failed'
+        stepRun.reason = item.commandError || '没有可执行的命令'
+        stepFailed = true
+      } else if (item.status === 'blocked') {
+        stepRun.status = 'blocked'
+        stepRun.reason = '前置条件未满足'
+        stepFailed = true
+      } else if (item.status === 'running') {
+        stepRun.status = 'skipped'
+        stepRun.reason = '正在执行中'
+      } else if (!(await this.handleRerunPolicy(item, hooks.showConfirm, hooks.showToast))) {
+        stepRun.status = 'skipped'
+        stepRun.reason = '重复执行策略未允许'
+      } else {
+        stepRun.status = 'running'
+        notify()
+
+        const outcome = await hooks.execute(item)
+        stepRun.status = outcome
+        if (outcome === 'cancelled') {
+          run.status = 'cancelled'
+          notify()
+          break
+        }
+        stepFailed = outcome === 'failed'
+      }
+
+      failed = failed || stepFailed
+      notify()
+
+      if (stepFailed && run.onFailure === 'stop') {
+        break
+      }
+    }
+
+    // 未执行的步骤
+    for (const stepRun of run.steps) {
+      if (stepRun.status === 'pending') {
+        stepRun.status = 'skipped'
+        stepRun.reason = run.status === 'cancelled' ? '流水线已取消' : '前序步骤失败，流水线已停止'
+      }
+    }
+
+    if (run.status === 'running') {
+      run.status = failed ? 'failed' : 'completed'
+    }
+    run.endedAt = new Date().toISOString()
+    notify()
+
+    return run
+  }
+
+  // ========== 失败恢复 ==========
+
+  /**
+   * 执行步骤并按 failure_recovery 处理失败
+   * - 按 retry.max_attempts 重试，间隔按 backoff_ms × backoff_multiplier^n 递增
+   * - 重试耗尽后生成失败记录并附带 log_path 日志；有 fallback_command 时自动执行或询问后执行
+   * - 状态依次经过 running → failed → running（重试 / fallback）→ generated
+   */
+  async executeWithRecovery(item: ExecutionItem, hooks: RecoveryHooks): Promise<RecoveryResult> {
+    const recovery = item.failureRecovery
+    const maxAttempts = Math.max(1, recovery?.retry?.max_attempts ?? 1)
+    const sleep = hooks.sleep || ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)))
+    const initialStatus = item.status
+
+    const setStatus = (status: ExecutionStatus) => {
+      item.status = status
+      hooks.onStatusChange?.(item)
+    }
+
+    let attempts = 0
+    while (attempts < maxAttempts) {
+      if (attempts > 0) {
+        const delay = this.getRetryDelay(recovery, attempts)
+        if (delay > 0) await sleep(delay)
+      }
+
+      attempts++
+      setStatus('running')
+      const outcome = await hooks.execute(item)
+
+      if (outcome === 'succeeded') {
+        item.failure = undefined
+        setStatus('generated')
+        return { outcome, attempts, recoveredByFallback: false }
+      }
+      if (outcome === 'cancelled') {
+        setStatus(initialStatus)
+        return { outcome, attempts, recoveredByFallback: false }
+      }
+      setStatus('failed')
+    }
+
+    // 重试耗尽：记录失败并附带日志
+    const failure: FailureRecord = {
+      attempts,
+      failedAt: new Date().toISOString(),
+      suggestion: recovery?.suggestion,
+      logPath: recovery?.log_path,
+    }
+    if (recovery?.log_path && hooks.readLog) {
+      try {
+        failure.logContent = (await hooks.readLog(recovery.log_path)) ?? undefined
+      } catch {
+        // 日志不存在时只保留路径
+      }
+    }
+    item.failure = failure
+
+    const fallbackItem = this.buildFallbackItem(item)
+    if (!fallbackItem) {
+      return { outcome: 'failed', attempts, recoveredByFallback: false, failure }
+    }
+
+    const runFallback = recovery?.auto_fallback ||
+      (await hooks.confirmFallback?.(item, failure)) === true
+    if (!runFallback) {
+      return { outcome: 'failed', attempts, recoveredByFallback: false, failure }
+    }
+
+    setStatus('running')
+    const fallbackOutcome = await hooks.execute(fallbackItem)
+    failure.fallbackOutcome = fallbackOutcome
+
+    if (fallbackOutcome === 'succeeded') {
+      setStatus('generated')
+      return { outcome: 'succeeded', attempts, recoveredByFallback: true, failure }
+    }
+
+    setStatus('failed')
+    return { outcome: fallbackOutcome, attempts, recoveredByFallback: false, failure }
+  }
+
   // ========== 私有方法 ==========
 
+  /**
+   * 第 n 次重试前的等待时间
+   */
+  private getRetryDelay(recovery: FailureRecovery | undefined, retryIndex: number): number {
+    const { backoff_ms = 0, backoff_multiplier = DEFAULT_BACKOFF_MULTIPLIER } = recovery?.retry || {}
+    return backoff_ms * Math.pow(backoff_multiplier, retryIndex - 1)
+  }
+
+  /**
+   * 构建 fallback_command 对应的执行项（沿用原步骤的 ID，便于日志归属）
+   */
+  private buildFallbackItem(item: ExecutionItem): ExecutionItem | null {
+    const fallback = item.failureRecovery?.fallback_command
+    if (!fallback) return null
+
+    return {
+      ...item,
+      name: `${item.name}（fallback）`,
+      command: undefined,
+      commandTemplate: undefined,
+      commandError: undefined,
+      argv: undefined,
+      rawShell: undefined,
+      ...this.buildStepCommand(fallback, {}),
+    }
+  }
+
+  /**
+   * 渲染 failure_recovery 中的命令与日志路径
+   * 模板无法渲染时保留原值（执行 fallback 时会因占位符残留被拒绝）
+   */
+  private renderFailureRecovery(
+    recovery: FailureRecovery | undefined,
+    templateContext: CommandTemplateContext
+  ): FailureRecovery | undefined {
+    if (!recovery) return undefined
+
+    const render = (value: string | undefined) =>
+      value && hasTemplateVariables(value)
+        ? renderCommandTemplate(value, templateContext).command
+        : value
+
+    return {
+      ...recovery,
+      fallback_command: render(recovery.fallback_command),
+      log_path: render(recovery.log_path),
+    }
+  }
+
   /**
    * 将 FrameworkStep 转换为 ExecutionItem
    */
   private frameworkStepToExecutionItem(
     step: FrameworkStep,
-    context: PrerequisiteContext
+    context: PrerequisiteContext,
+    templateContext: CommandTemplateContext
   ): ExecutionItem {
     const status = computeFrameworkStepStatus(step, context)
 
@@ -246,7 +544,7 @@ class ExecutionEngine {
       name: step.name,
       type: 'framework',
       icon: step.icon,
-      command: step.command,
+      ...this.buildStepCommand(step.command, templateContext),
       status,
       executionMode: step.execution_mode,
       rerunPolicy: step.rerun_policy,
@@ -254,65 +552,137 @@ class ExecutionEngine {
       expectedArtifacts: step.expected_artifacts,
       owner: step.owner,
       description: step.description,
-      failureRecovery: step.failure_recovery,
+      failureRecovery: this.renderFailureRecovery(step.failure_recovery, templateContext),
+      killGracePeriodMs: step.kill_grace_period_ms,
     }
   }
 
   /**
    * 将 FeatureTask 转换为 ExecutionItem
+   * 任务命令对应阶段工具时沿用该工具的 failure_recovery
    */
-  private featureTaskToExecutionItem(task: FeatureTask): ExecutionItem {
+  private featureTaskToExecutionItem(
+    task: FeatureTask,
+    templateContext: CommandTemplateContext,
+    tools: ToolConfig[] = []
+  ): ExecutionItem {
     const status = mapTaskStatus(task.status)
 
-    // 构建命令字符串
-    const command = this.buildCommandString(task)
+    // 构建命令字符串（任务级上下文补充 taskId）
+    const taskContext = { ...templateContext, taskId: task.id }
+    const command = this.buildCommandString(task, taskContext)
+
+    const toolCommand = task.command?.value.trim().split(/\s+/)[0]
+    const tool = toolCommand ? tools.find(t => t.command === toolCommand) : undefined
 
     return {
       id: task.id,
       name: task.name || task.task,
       type: 'task',
-      command,
+      ...command,
       status,
       executionMode: 'hybrid', // Feature 任务默认 hybrid
       rerunPolicy: { strategy: 'allow' },
-      owner: 'hybrid',
+      owner: task.owner || 'hybrid',
       description: task.notes,
+      failureRecovery: this.renderFailureRecovery(tool?.failure_recovery, taskContext),
       artifacts: task.artifacts,
     }
   }
 
   /**
-   * 根据 TaskCommand 构建可执行的命令字符串
+   * 渲染命令模板
+   * 不含占位符的命令原样返回；渲染失败时保留模板并记录错误
    */
-  private buildCommandString(task: FeatureTask): string | undefined {
+  private renderCommand(
+    template: string | undefined,
+    templateContext: CommandTemplateContext
+  ): CommandFields {
+    if (!template || !hasTemplateVariables(template)) {
+      return { command: template }
+    }
+
+    const result = renderCommandTemplate(template, templateContext)
+    return {
+      command: result.command,
+      commandTemplate: template,
+      commandError: result.error,
+    }
+  }
+
+  /**
+   * 构建框架步骤命令
+   * Slash command 整体作为 claude 的一个参数传递，不经 shell 拆分
+   */
+  private buildStepCommand(
+    template: string | undefined,
+    templateContext: CommandTemplateContext
+  ): CommandFields {
+    const fields = this.renderCommand(template, templateContext)
+    if (fields.command?.startsWith('/') && !fields.commandError) {
+      fields.argv = { executable: 'claude', args: ['--print', fields.command] }
+    }
+    return fields
+  }
+
+  /**
+   * 根据 TaskCommand 构建可执行的命令
+   * TaskCommand.value 先按模板渲染；command 为展示用字符串，argv 为实际执行参数
+   * 只有 bash 类型以 shell 执行，其余均不经 shell，任务标题中的引号或 $() 不会被解释
+   */
+  private buildCommandString(
+    task: FeatureTask,
+    templateContext: CommandTemplateContext
+  ): CommandFields {
     const { command } = task
 
     if (!command) {
       // 没有配置命令，返回默认的任务提示命令
       // 使用任务描述作为提示内容
-      return `claude --print "请帮我完成任务: ${task.task}"`
+      const prompt = `请帮我完成任务: ${task.task}`
+      return {
+        command: `claude --print "${prompt}"`,
+        argv: { executable: 'claude', args: ['--print', prompt] },
+      }
     }
 
+    const { command: rendered = '', commandTemplate, commandError } = this.renderCommand(
+      command.value,
+      templateContext
+    )
+    const fields: CommandFields = { commandTemplate, commandError }
+
     switch (command.type) {
       case 'slash_command':
         // Slash command: 直接使用 claude 执行
-        return `claude ${command.value}`
+        fields.command = `claude ${rendered}`
+        fields.argv = { executable: 'claude', args: ['--print', rendered] }
+        break
 
       case 'skill':
         // Skill: 使用 claude --skill
-        return `claude --skill ${command.value}`
+        fields.command = `claude --skill ${rendered}`
+        fields.argv = { executable: 'claude', args: ['--print', '--skill', rendered] }
+        break
 
       case 'subagent':
         // Subagent: 使用 claude --subagent
-        return `claude --subagent ${command.value}`
+        fields.command = `claude --subagent ${rendered}`
+        fields.argv = { executable: 'claude', args: ['--print', '--subagent', rendered] }
+        break
 
       case 'bash':
-        // Bash: 直接执行 shell 命令
-        return command.value
+        // Bash: 直接执行 shell 命令（执行前需用户确认）
+        fields.command = rendered
+        fields.rawShell = true
+        break
 
       default:
-        return `claude --print "${command.value}"`
+        fields.command = `claude --print "${rendered}"`
+        fields.argv = { executable: 'claude', args: ['--print', rendered] }
     }
+
+    return fields
   }
 
   // ========== 本地数据方法（不请求 GitHub）==========
@@ -345,30 +715,36 @@ class ExecutionEngine {
       phaseHasExpertReview: phaseConfig.hasExpertReview,
     }
 
+    const templateContext = buildTemplateContext({
+      featureId,
+      phaseId,
+      phaseName: phaseConfig.name,
+    })
+
     // 构建执行清单
     const executionList: ExecutionItem[] = []
 
     // before_tasks 框架步骤
     const beforeTaskSteps = frameworkSteps.filter(s => s.position === 'before_tasks')
     for (const step of beforeTaskSteps) {
-      executionList.push(this.frameworkStepToExecutionItem(step, context))
+      executionList.push(this.frameworkStepToExecutionItem(step, context, templateContext))
     }
 
     // 本地 Feature 任务
     for (const task of localTasks) {
-      executionList.push(this.featureTaskToExecutionItem(task))
+      executionList.push(this.featureTaskToExecutionItem(task, templateContext, phaseConfig.tools))
     }
 
     // after_tasks 框架步骤
     const afterTaskSteps = frameworkSteps.filter(s => s.position === 'after_tasks')
     for (const step of afterTaskSteps) {
-      executionList.push(this.frameworkStepToExecutionItem(step, context))
+      executionList.push(this.frameworkStepToExecutionItem(step, context, templateContext))
     }
 
     // end 框架步骤
     const endSteps = frameworkSteps.filter(s => s.position === 'end')
     for (const step of endSteps) {
-      const item = this.frameworkStepToExecutionItem(step, context)
+      const item = this.frameworkStepToExecutionItem(step, context, templateContext)
       if (step.id === 'end-day') {
         item.status = 'ready'
       }
@@ -392,32 +768,7 @@ class ExecutionEngine {
     endSteps: ExecutionItem[]
   }> {
     const list = await this.buildExecutionListWithLocalTasks(phaseId, featureId, localTasks)
-
-    const beforeTasks: ExecutionItem[] = []
-    const tasks: ExecutionItem[] = []
-    const afterTasks: ExecutionItem[] = []
-    const endSteps: ExecutionItem[] = []
-
-    let inTaskSection = false
-
-    for (const item of list) {
-      if (item.type === 'task') {
-        inTaskSection = true
-        tasks.push(item)
-      } else if (item.type === 'framework') {
-        if (item.id === 'start-day') {
-          beforeTasks.push(item)
-        } else if (item.id === 'end-day') {
-          endSteps.push(item)
-        } else if (inTaskSection || afterTaskIds.includes(item.id)) {
-          afterTasks.push(item)
-        } else {
-          beforeTasks.push(item)
-        }
-      }
-    }
-
-    return { beforeTasks, tasks, afterTasks, endSteps }
+    return this.groupExecutionList(list)
   }
 }
 
@@ -1,6 +1,11 @@
 /**
  * SessionChannel 服务
  * 提供 GUI-CLI Session 通信能力
+ *
+ * 多个 Session 并存时按 Feature 路由命令（routeCommand）：
+ * - 有 Session 负责命令的 Feature（CLI 声明或 GUI 分配）时发往该 Session
+ * - 否则发往当前连接的 Session，前提是它没有负责其他 Feature
+ * - 无法确定目标时返回 unmatched，由调用方让用户选择 Session
  */
 
 import { ref, computed, type Ref } from 'vue'
@@ -12,7 +17,13 @@ import type {
   SessionSendCommandResponse,
   SessionWaitResultRequest,
   SessionExecutionResult,
-  SessionChangeEvent
+  SessionChangeEvent,
+  SessionCommand,
+  SessionQueueListRequest,
+  SessionQueueListResponse,
+  SessionCancelCommandRequest,
+  SessionQueueChangeEvent,
+  SessionAssignFeaturesRequest
 } from '../../shared/types/ipc.types'
 import { SESSION_CHANNELS } from '../../shared/constants/ipc-channels'
 
@@ -33,11 +44,37 @@ export interface CommandContext {
  */
 export interface CommandResult {
   cmdId: string
-  status: 'sent' | 'received' | 'duplicate' | 'timeout' | 'error'
+  status: 'sent' | 'queued' | 'received' | 'duplicate' | 'timeout' | 'error'
   retryCount: number
+  /** 在队列中的位置（0 为已发送给 CLI） */
+  position?: number
   error?: string
 }
 
+/**
+ * 命令路由结果
+ */
+export interface CommandRoute {
+  /** 目标 Session；需要用户选择或未连接时为 null */
+  sessionId: string | null
+  /**
+   * feature：负责该 Feature 的 Session
+   * current：当前连接的 Session
+   * unmatched：没有负责该 Feature 的 Session，且当前 Session 负责其他 Feature（或未连接）
+   * none：未连接且没有 Session 负责任何 Feature
+   */
+  reason: 'feature' | 'current' | 'unmatched' | 'none'
+  /** 可选择的 Session（未断开的） */
+  candidates: Session[]
+}
+
+/**
+ * Session 负责的 Feature：CLI 声明与 GUI 分配的并集
+ */
+export function getSessionFeatures(session: Session): string[] {
+  return [...new Set([...(session.features ?? []), ...(session.assignedFeatures ?? [])])]
+}
+
 /**
  * SessionChannel 类
  * 管理与 CLI Session 的通信
@@ -55,11 +92,15 @@ class SessionChannel {
   // 变更回调
   private changeCallbacks: Set<(sessions: Session[]) => void> = new Set()
 
+  // 命令队列（按 Session ID）
+  private commandQueues: Ref<Record<string, SessionCommand[]>> = ref({})
+
   // 是否已初始化监听
   private isWatching = false
 
   // IPC 事件取消订阅函数
   private unsubscribeChange: (() => void) | null = null
+  private unsubscribeQueueChange: (() => void) | null = null
 
   /**
    * 是否已连接
@@ -90,6 +131,14 @@ class SessionChannel {
     return this.currentSessionId
   }
 
+  /**
+   * 当前 Session 的命令队列（响应式）
+   */
+  get currentCommands(): SessionCommand[] {
+    if (!this.currentSessionId.value) return []
+    return this.commandQueues.value[this.currentSessionId.value] || []
+  }
+
   /**
    * 初始化
    */
@@ -106,6 +155,7 @@ class SessionChannel {
     this.stopWatch()
     this.changeCallbacks.clear()
     this.sessions.value = []
+    this.commandQueues.value = {}
     this.currentSessionId.value = null
     this.projectPath.value = null
   }
@@ -176,11 +226,62 @@ class SessionChannel {
     }
   }
 
+  /**
+   * 为命令选择目标 Session
+   * 多个 Session 负责同一 Feature 时，当前连接的优先，其次 active 的，其次最近活跃的
+   */
+  routeCommand(context?: CommandContext): CommandRoute {
+    const candidates = this.sessions.value.filter(s => s.status !== 'disconnected')
+    const featureId = context?.featureId
+    const current = candidates.find(s => s.id === this.currentSessionId.value)
+
+    if (featureId) {
+      const bound = candidates.filter(s => getSessionFeatures(s).includes(featureId))
+      const target = bound.find(s => s.id === current?.id) ?? bound.find(s => s.status === 'active') ?? bound[0]
+      if (target) {
+        return { sessionId: target.id, reason: 'feature', candidates }
+      }
+    }
+
+    if (current) {
+      return !featureId || getSessionFeatures(current).length === 0
+        ? { sessionId: current.id, reason: 'current', candidates }
+        : { sessionId: null, reason: 'unmatched', candidates }
+    }
+
+    const routed = featureId && candidates.some(s => getSessionFeatures(s).length > 0)
+    return { sessionId: null, reason: routed ? 'unmatched' : 'none', candidates }
+  }
+
+  /**
+   * 为 Session 分配 Feature（整体替换）
+   */
+  async assignFeatures(sessionId: string, featureIds: string[]): Promise<Session[]> {
+    if (!this.projectPath.value) {
+      throw new Error('未打开项目')
+    }
+
+    const request: SessionAssignFeaturesRequest = {
+      projectPath: this.projectPath.value,
+      sessionId,
+      featureIds
+    }
+    const response = await window.electronAPI.invoke(SESSION_CHANNELS.ASSIGN_FEATURES, request) as SessionListResponse
+    this.sessions.value = response?.sessions || []
+    this.changeCallbacks.forEach(cb => cb(this.sessions.value))
+    return this.sessions.value
+  }
+
   /**
    * 发送命令
+   * @param sessionId 目标 Session，默认当前连接的 Session（见 routeCommand）
    */
-  async sendCommand(command: string, context?: CommandContext): Promise<CommandResult> {
-    if (!this.isConnected || !this.projectPath.value || !this.currentSessionId.value) {
+  async sendCommand(
+    command: string,
+    context?: CommandContext,
+    sessionId: string | null = this.currentSessionId.value
+  ): Promise<CommandResult> {
+    if (!this.projectPath.value || !sessionId) {
       return {
         cmdId: '',
         status: 'error',
@@ -191,7 +292,7 @@ class SessionChannel {
 
     try {
       const request: SessionSendCommandRequest = {
-        sessionId: this.currentSessionId.value,
+        sessionId,
         projectPath: this.projectPath.value,
         command,
         context
@@ -257,6 +358,52 @@ class SessionChannel {
     }
   }
 
+  /**
+   * 刷新当前 Session 的命令队列
+   */
+  async refreshCommands(): Promise<SessionCommand[]> {
+    if (!this.projectPath.value || !this.currentSessionId.value) {
+      return []
+    }
+
+    try {
+      const request: SessionQueueListRequest = {
+        projectPath: this.projectPath.value,
+        sessionId: this.currentSessionId.value
+      }
+
+      const response = await window.electronAPI?.invoke(
+        SESSION_CHANNELS.COMMAND_QUEUE,
+        request
+      ) as SessionQueueListResponse
+
+      const commands = response?.commands || []
+      this.commandQueues.value = { ...this.commandQueues.value, [request.sessionId]: commands }
+      return commands
+    } catch (error) {
+      console.error('[SessionChannel] Failed to list commands:', error)
+      return []
+    }
+  }
+
+  /**
+   * 取消当前 Session 中的命令
+   * 执行中的命令返回 cancelling，需等待 CLI 确认
+   */
+  async cancelCommand(cmdId: string): Promise<SessionCommand> {
+    if (!this.projectPath.value || !this.currentSessionId.value) {
+      throw new Error('未连接到 CLI Session')
+    }
+
+    const request: SessionCancelCommandRequest = {
+      projectPath: this.projectPath.value,
+      sessionId: this.currentSessionId.value,
+      cmdId
+    }
+
+    return await window.electronAPI.invoke(SESSION_CHANNELS.CANCEL_COMMAND, request) as SessionCommand
+  }
+
   /**
    * 监听 Session 变化
    */
@@ -283,11 +430,14 @@ class SessionChannel {
       const event = data as SessionChangeEvent
       this.sessions.value = event.sessions
 
-      // 检查当前连接状态
+      // 检查当前连接状态；断开时命令已转交给其他 Session 的，改为连接该 Session
       if (this.currentSessionId.value) {
         const current = this.sessions.value.find(s => s.id === this.currentSessionId.value)
         if (!current || current.status === 'disconnected') {
-          this.currentSessionId.value = null
+          const transition = event.transition
+          this.currentSessionId.value = transition?.sessionId === this.currentSessionId.value && transition.reroutedTo
+            ? transition.reroutedTo
+            : null
         }
       }
 
@@ -301,6 +451,16 @@ class SessionChannel {
       handleChange
     ) || null
 
+    // 订阅命令队列变更
+    this.unsubscribeQueueChange = window.electronAPI?.on(
+      SESSION_CHANNELS.COMMAND_QUEUE_CHANGE as 'session:queueChange',
+      (_event: unknown, data: unknown) => {
+        const event = data as SessionQueueChangeEvent
+        if (event.projectPath !== this.projectPath.value) return
+        this.commandQueues.value = { ...this.commandQueues.value, [event.sessionId]: event.commands }
+      }
+    ) || null
+
     this.isWatching = true
     console.log('[SessionChannel] Started watching')
   }
@@ -316,6 +476,10 @@ class SessionChannel {
       this.unsubscribeChange()
       this.unsubscribeChange = null
     }
+    if (this.unsubscribeQueueChange) {
+      this.unsubscribeQueueChange()
+      this.unsubscribeQueueChange = null
+    }
 
     // 停止主进程的文件监听
     window.electronAPI?.invoke(SESSION_CHANNELS.STOP_WATCH, {
@@ -281,6 +281,138 @@ describe('useLogStore', () => {
     })
   })
 
+  describe('waitForExecution', () => {
+    it('should resolve once the execution reaches a terminal status', async () => {
+      mockInvoke.mockResolvedValue({
+        executionId: 'exec-123',
+        status: 'running'
+      })
+      await logStore.executeCommand('/start-day', '/test/project')
+
+      const waiting = logStore.waitForExecution('exec-123')
+      logStore.executions.get('exec-123')!.status = 'completed'
+
+      await expect(waiting).resolves.toBe('completed')
+    })
+  })
+
+  describe('sendInput', () => {
+    it('should invoke cli:input and expose canSendInput for interactive executions', async () => {
+      mockInvoke.mockResolvedValue({
+        executionId: 'exec-123',
+        status: 'running'
+      })
+      await logStore.executeCommand('/design', '/test/project', 'step-1', undefined, undefined, { interactive: true })
+
+      expect(logStore.canSendInput).toBe(true)
+
+      mockInvoke.mockResolvedValue({ success: true, executionId: 'exec-123' })
+      const sent = await logStore.sendInput('exec-123', 'yes\n')
+
+      expect(sent).toBe(true)
+      expect(mockInvoke).toHaveBeenLastCalledWith('cli:input', { executionId: 'exec-123', input: 'yes\n', end: false })
+    })
+  })
+
+  describe('cli:complete subscription', () => {
+    it('should mark execution status from completion reason', async () => {
+      mockInvoke.mockResolvedValue({
+        executionId: 'exec-123',
+        status: 'running'
+      })
+      await logStore.executeCommand('long-running', '/test/project')
+
+      logStore.subscribeToCliEvents()
+      const completeCall = (mockOn.mock.calls as unknown[][]).find(call => call[0] === 'cli:complete')
+      expect(completeCall).toBeDefined()
+
+      const listener = completeCall![1] as (event: unknown, data: unknown) => void
+      listener({}, { executionId: 'exec-123', exitCode: -1, duration: 100, reason: 'timeout', signal: 'SIGTERM' })
+
+      expect(logStore.executions.get('exec-123')?.status).toBe('timeout')
+      expect(logStore.executions.get('exec-123')?.exitCode).toBe(-1)
+    })
+  })
+
+  describe('session:output subscription', () => {
+    it('should append CLI session output and finish on result', () => {
+      logStore.trackExecution(
+        { executionId: 'cmd-1', status: 'queued' },
+        { command: '/design', stepId: 'step-1', sessionId: 'session-a' }
+      )
+
+      logStore.subscribeToSessionOutput()
+      const outputCall = (mockOn.mock.calls as unknown[][]).find(call => call[0] === 'session:output')
+      expect(outputCall).toBeDefined()
+      const listener = outputCall![1] as (event: unknown, data: unknown) => void
+
+      listener({}, { sessionId: 'session-a', cmdId: 'cmd-1', type: 'stdout', content: 'working', timestamp: 't1' })
+      expect(logStore.executions.get('cmd-1')?.status).toBe('running')
+
+      // 其他 Session 或未登记的命令忽略
+      listener({}, { sessionId: 'session-b', cmdId: 'cmd-1', type: 'stdout', content: 'other', timestamp: 't2' })
+      listener({}, { sessionId: 'session-a', cmdId: 'cmd-2', type: 'stdout', content: 'unknown', timestamp: 't2' })
+
+      listener({}, {
+        sessionId: 'session-a',
+        cmdId: 'cmd-1',
+        type: 'system',
+        content: 'Session command failed',
+        timestamp: 't3',
+        result: { cmdId: 'cmd-1', status: 'failed' }
+      })
+
+      expect(logStore.logs.map(l => l.content)).toEqual(['$ /design', 'working', 'Session command failed'])
+      expect(logStore.executions.get('cmd-1')?.status).toBe('failed')
+      expect(logStore.executions.get('cmd-1')?.endedAt).toBe('t3')
+    })
+
+    it('should end session commands withdrawn before the CLI picked them up', () => {
+      logStore.trackExecution(
+        { executionId: 'cmd-1', status: 'queued' },
+        { command: '/design', sessionId: 'session-a' }
+      )
+
+      logStore.subscribeToSessionOutput()
+      const queueCall = (mockOn.mock.calls as unknown[][]).find(call => call[0] === 'session:queueChange')
+      expect(queueCall).toBeDefined()
+      const listener = queueCall![1] as (event: unknown, data: unknown) => void
+
+      listener({}, {
+        projectPath: '/test/project',
+        sessionId: 'session-a',
+        commands: [{ cmdId: 'cmd-1', sessionId: 'session-a', command: '/design', status: 'cancelled', queuedAt: 't0', endedAt: 't1' }]
+      })
+
+      expect(logStore.executions.get('cmd-1')?.status).toBe('cancelled')
+      expect(logStore.executions.get('cmd-1')?.endedAt).toBe('t1')
+    })
+
+    it('should follow session commands rerouted to another session', () => {
+      logStore.trackExecution(
+        { executionId: 'cmd-1', status: 'queued' },
+        { command: '/design', sessionId: 'session-a' }
+      )
+
+      logStore.subscribeToSessionOutput()
+      const queueCall = (mockOn.mock.calls as unknown[][]).find(call => call[0] === 'session:queueChange')
+      const outputCall = (mockOn.mock.calls as unknown[][]).find(call => call[0] === 'session:output')
+      const queueListener = queueCall![1] as (event: unknown, data: unknown) => void
+      const outputListener = outputCall![1] as (event: unknown, data: unknown) => void
+
+      queueListener({}, {
+        projectPath: '/test/project',
+        sessionId: 'session-b',
+        commands: [{ cmdId: 'cmd-1', sessionId: 'session-b', command: '/design', status: 'sent', queuedAt: 't0', reroutedFrom: 'session-a' }]
+      })
+      outputListener({}, { sessionId: 'session-b', cmdId: 'cmd-1', type: 'stdout', content: 'working', timestamp: 't2' })
+
+      expect(logStore.executions.get('cmd-1')?.sessionId).toBe('session-b')
+      expect(logStore.executions.get('cmd-1')?.status).toBe('running')
+      expect(logStore.logs.map(l => l.content)).toContain('working')
+    })
+  })
+
   describe('unsubscribeFromCliOutput', () => {
     it('should unsubscribe from cli:output events', () => {
       const unsubscribeFn = vi.fn()
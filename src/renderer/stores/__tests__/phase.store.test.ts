@@ -194,6 +194,40 @@ describe('usePhaseStore', () => {
     })
   })
 
+  describe('checkGate', () => {
+    beforeEach(() => {
+      projectStore.currentProject = {
+        id: '/test/project',
+        name: 'Test',
+        path: '/test/project',
+        activeFeatureId: 'feature1',
+        features: [{ id: 'feature1', name: 'Feature 1', path: '/path', currentPhase: 1, phases: [], createdAt: '', updatedAt: '' }],
+        config: { version: '1.0.0', autoSave: true }
+      }
+    })
+
+    it('should check the gate and keep the result', async () => {
+      const response = { featureId: 'feature1', phase: 2, status: 'passed', results: [], checkedAt: 'now', rulesSource: 'preset.yaml' }
+      mockInvoke
+        .mockResolvedValueOnce(response)
+        .mockResolvedValueOnce({ project: projectStore.currentProject })
+
+      const result = await phaseStore.checkGate(2)
+
+      expect(result).toEqual(response)
+      expect(phaseStore.lastGateCheck).toEqual(response)
+      expect(phaseStore.checkingGate).toBe(false)
+      expect(mockInvoke).toHaveBeenCalledWith('gate:check', { featureId: 'feature1', phase: 2 })
+    })
+
+    it('should set gateCheckError on failure', async () => {
+      mockInvoke.mockRejectedValue(new Error('No preset found'))
+
+      expect(await phaseStore.checkGate(1)).toBeNull()
+      expect(phaseStore.gateCheckError).toBe('No preset found')
+    })
+  })
+
   describe('canApproveStep', () => {
     it('should return true for generated step with canApprove', () => {
       const step = { id: 'KICK-001', name: 'Step', status: 'generated' as const, canApprove: true }
@@ -4,25 +4,77 @@
  */
 
 import { defineStore } from 'pinia'
-import { ref, computed, onUnmounted } from 'vue'
-import type { CliOutputEvent, CliExecuteRequest, CliExecuteResponse } from '@shared/types/ipc.types'
+import { ref, computed, watch, onUnmounted } from 'vue'
+import type {
+  CliCompleteEvent,
+  CliOutputEvent,
+  CliStreamEvent,
+  CliStreamEventMessage,
+  CliExecuteRequest,
+  CliExecuteResponse,
+  ExecutionHistoryEntry,
+  SessionExecutionResult,
+  SessionOutputEvent,
+  SessionQueueChangeEvent
+} from '@shared/types/ipc.types'
 
 interface LogEntry {
   id: string
   executionId: string
-  type: 'stdout' | 'stderr' | 'system' | 'command'
+  type: 'stdout' | 'stderr' | 'system' | 'command' | 'stdin'
   content: string
   timestamp: string
 }
 
+interface StreamEventEntry {
+  id: string
+  executionId: string
+  event: CliStreamEvent
+  timestamp: string
+}
+
 interface Execution {
   id: string
   command: string
-  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'timeout'
   startedAt: string
   endedAt?: string
   exitCode?: number
   stepId?: string
+  featureId?: string
+  phaseId?: number
+  /** 交互执行（stdin 保持打开） */
+  interactive?: boolean
+  /** 发送到 CLI Session 执行时的 Session ID（executionId 即 cmdId） */
+  sessionId?: string
+}
+
+/** 执行结束状态 */
+const TERMINAL_STATUSES: Execution['status'][] = ['completed', 'failed', 'cancelled', 'timeout']
+
+/** Session 执行结果 → 执行状态 */
+const SESSION_RESULT_STATUS: Record<SessionExecutionResult['status'], Execution['status']> = {
+  success: 'completed',
+  failed: 'failed',
+  timeout: 'timeout',
+  cancelled: 'cancelled'
+}
+
+/** Session 命令请求取消后的提示 */
+const CANCEL_REQUESTED_LOG = 'Cancel requested, waiting for CLI session to confirm'
+
+/** stream-json 开关的 localStorage 键 */
+const STREAM_JSON_STORAGE_KEY = 'cliStreamJson'
+
+/**
+ * 读取 stream-json 开关
+ */
+function loadStreamJsonSetting(): boolean {
+  try {
+    return localStorage.getItem(STREAM_JSON_STORAGE_KEY) === 'true'
+  } catch {
+    return false
+  }
 }
 
 export const useLogStore = defineStore('log', () => {
@@ -45,12 +97,30 @@ export const useLogStore = defineStore('log', () => {
   /** 自动滚动 */
   const autoScroll = ref(true)
 
+  /** 结构化事件（stream-json 模式），按执行 ID 分组 */
+  const streamEvents = ref<Map<string, StreamEventEntry[]>>(new Map())
+
+  /** 是否以 stream-json 模式执行 claude 命令（持久化到 localStorage） */
+  const streamJsonEnabled = ref(loadStreamJsonSetting())
+
   /** 最大日志条目数 */
   const MAX_LOGS = 10000
 
   // CLI 输出订阅取消函数
   let unsubscribe: (() => void) | null = null
 
+  // CLI 结构化事件订阅取消函数
+  let unsubscribeEvents: (() => void) | null = null
+
+  // CLI 完成事件订阅取消函数
+  let unsubscribeComplete: (() => void) | null = null
+
+  // Session 命令输出订阅取消函数
+  let unsubscribeSessionOutput: (() => void) | null = null
+
+  // Session 命令队列变更订阅取消函数
+  let unsubscribeSessionQueue: (() => void) | null = null
+
   // ============================================================
   // Getters
   // ============================================================
@@ -67,6 +137,12 @@ export const useLogStore = defineStore('log', () => {
     return executions.value.get(activeExecutionId.value)
   })
 
+  /** 当前执行的结构化事件 */
+  const currentEvents = computed<StreamEventEntry[]>(() => {
+    if (!activeExecutionId.value) return []
+    return streamEvents.value.get(activeExecutionId.value) || []
+  })
+
   /** 是否有正在执行的命令 */
   const isExecuting = computed(() => {
     return Array.from(executions.value.values()).some(
@@ -74,6 +150,12 @@ export const useLogStore = defineStore('log', () => {
     )
   })
 
+  /** 当前执行是否可接收输入（交互执行且正在运行） */
+  const canSendInput = computed(() => {
+    const execution = currentExecution.value
+    return !!execution?.interactive && execution.status === 'running'
+  })
+
   /** 获取指定 Step 的日志 */
   function getLogsForStep(stepId: string): LogEntry[] {
     const executionIds = Array.from(executions.value.entries())
@@ -89,18 +171,29 @@ export const useLogStore = defineStore('log', () => {
 
   /**
    * 执行 CLI 命令
+   * spawnOptions.argv 提供时按结构化参数执行；shell 仅用于已确认的 bash 命令
+   * 命令策略要求确认的命令需带 policyConfirmed；killGracePeriodMs 为取消时强制终止前的宽限期
+   * interactive 为 true 时保持 stdin 打开，可通过 sendInput 回答 CLI 的追问
+   * checkpoint 为 true 时执行前为 Feature 文档目录创建检查点
    */
   async function executeCommand(
     command: string,
     projectPath: string,
-    stepId?: string
+    stepId?: string,
+    featureId?: string,
+    phaseId?: number,
+    spawnOptions?: Pick<CliExecuteRequest, 'argv' | 'shell' | 'policyConfirmed' | 'killGracePeriodMs' | 'interactive' | 'checkpoint'>
   ): Promise<string | null> {
     try {
       const request: CliExecuteRequest = {
         command,
         projectPath,
+        featureId,
         stepId,
-        mode: 'print'
+        phaseId,
+        mode: 'print',
+        outputFormat: streamJsonEnabled.value ? 'stream-json' : undefined,
+        ...spawnOptions
       }
 
       const response = await window.electronAPI.invoke<CliExecuteResponse>(
@@ -108,35 +201,73 @@ export const useLogStore = defineStore('log', () => {
         request
       )
 
-      const executionId = response.executionId
+      trackExecution(response, { command, stepId, featureId, phaseId, interactive: spawnOptions?.interactive })
+      return response.executionId
+    } catch (e) {
+      console.error('[LogStore] Execute failed:', e)
+      return null
+    }
+  }
 
-      // 记录执行
-      executions.value.set(executionId, {
-        id: executionId,
-        command,
-        status: response.status,
-        startedAt: response.startedAt || new Date().toISOString(),
-        stepId
-      })
-
-      // 添加命令日志
-      addLog({
-        executionId,
-        type: 'command',
-        content: `$ ${command}`,
-        timestamp: new Date().toISOString()
-      })
-
-      // 设置为当前活跃执行
-      activeExecutionId.value = executionId
+  /**
+   * 以相同参数重新执行历史命令
+   */
+  async function rerunExecution(
+    entry: ExecutionHistoryEntry,
+    policyConfirmed?: boolean
+  ): Promise<string | null> {
+    try {
+      const response = await window.electronAPI.invoke<CliExecuteResponse>(
+        'cli:historyRerun',
+        { projectPath: entry.projectPath, executionId: entry.executionId, policyConfirmed }
+      )
 
-      return executionId
+      trackExecution(response, entry)
+      return response.executionId
     } catch (e) {
-      console.error('[LogStore] Execute failed:', e)
+      console.error('[LogStore] Rerun failed:', e)
       return null
     }
   }
 
+  /**
+   * 记录新提交的执行并设为当前活跃执行
+   * activate 为 false 时只记录（如定时计划在后台触发的执行）
+   */
+  function trackExecution(
+    response: CliExecuteResponse,
+    context: Pick<Execution, 'command' | 'stepId' | 'featureId' | 'phaseId' | 'interactive' | 'sessionId'>,
+    activate = true
+  ): void {
+    const executionId = response.executionId
+
+    // 记录执行
+    executions.value.set(executionId, {
+      id: executionId,
+      command: context.command,
+      status: response.status,
+      startedAt: response.startedAt || new Date().toISOString(),
+      stepId: context.stepId,
+      featureId: context.featureId,
+      phaseId: context.phaseId,
+      interactive: context.interactive,
+      sessionId: context.sessionId
+    })
+
+    // 添加命令日志
+    addLog({
+      executionId,
+      type: 'command',
+      content: `$ ${context.command}`,
+      timestamp: new Date().toISOString()
+    })
+
+    // 设置为当前活跃执行
+    if (activate) {
+      activeExecutionId.value = executionId
+    }
+  }
+
   /**
    * 取消执行
    */
@@ -157,6 +288,43 @@ export const useLogStore = defineStore('log', () => {
     }
   }
 
+  /**
+   * 等待执行结束
+   * @returns 结束状态（completed / failed / cancelled / timeout）
+   */
+  function waitForExecution(executionId: string): Promise<Execution['status']> {
+    const current = executions.value.get(executionId)?.status
+    if (current && TERMINAL_STATUSES.includes(current)) {
+      return Promise.resolve(current)
+    }
+
+    return new Promise(resolve => {
+      const stop = watch(
+        () => executions.value.get(executionId)?.status,
+        status => {
+          if (status && TERMINAL_STATUSES.includes(status)) {
+            stop()
+            resolve(status)
+          }
+        }
+      )
+    })
+  }
+
+  /**
+   * 向执行中的交互命令发送输入
+   * @param end 发送后关闭 stdin（EOF）
+   */
+  async function sendInput(executionId: string, input: string, end = false): Promise<boolean> {
+    try {
+      await window.electronAPI.invoke('cli:input', { executionId, input, end })
+      return true
+    } catch (e) {
+      console.error('[LogStore] Send input failed:', e)
+      return false
+    }
+  }
+
   /**
    * 添加日志条目
    */
@@ -185,6 +353,14 @@ export const useLogStore = defineStore('log', () => {
       timestamp: event.timestamp
     })
 
+    // 排队的命令开始执行
+    if (event.type === 'system' && event.content.startsWith('Starting:')) {
+      const execution = executions.value.get(event.executionId)
+      if (execution && execution.status === 'queued') {
+        execution.status = 'running'
+      }
+    }
+
     // 检查是否完成
     if (event.type === 'system' && event.content.includes('exited with code')) {
       const execution = executions.value.get(event.executionId)
@@ -199,6 +375,172 @@ export const useLogStore = defineStore('log', () => {
     }
   }
 
+  /**
+   * 处理 CLI 结构化事件
+   */
+  function handleCliEvent(message: CliStreamEventMessage): void {
+    const entries = streamEvents.value.get(message.executionId) || []
+    entries.push({
+      id: `event-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      ...message
+    })
+    streamEvents.value.set(message.executionId, entries)
+  }
+
+  /**
+   * 处理 CLI 完成事件
+   * 以主进程给出的结束原因为准，区分取消、超时与正常退出
+   */
+  function handleCliComplete(event: CliCompleteEvent): void {
+    const execution = executions.value.get(event.executionId)
+    if (!execution) return
+
+    if (event.reason === 'exited') {
+      execution.status = event.exitCode === 0 ? 'completed' : 'failed'
+    } else {
+      execution.status = event.reason
+    }
+    execution.exitCode = event.exitCode
+    execution.endedAt = execution.endedAt || new Date().toISOString()
+  }
+
+  /**
+   * 订阅 CLI 结构化事件（stream-json 事件与完成事件）
+   */
+  function subscribeToCliEvents(): void {
+    if (unsubscribeEvents) return // 已订阅
+
+    unsubscribeEvents = window.electronAPI.on('cli:event', (_event, data) => {
+      handleCliEvent(data as CliStreamEventMessage)
+    })
+    unsubscribeComplete = window.electronAPI.on('cli:complete', (_event, data) => {
+      handleCliComplete(data as CliCompleteEvent)
+    })
+  }
+
+  /**
+   * 取消订阅 CLI 结构化事件
+   */
+  function unsubscribeFromCliEvents(): void {
+    if (unsubscribeEvents) {
+      unsubscribeEvents()
+      unsubscribeEvents = null
+    }
+    if (unsubscribeComplete) {
+      unsubscribeComplete()
+      unsubscribeComplete = null
+    }
+  }
+
+  /**
+   * 处理 CLI Session 的命令输出
+   * 只记录通过 trackExecution 登记过的命令；附带结果时结束执行
+   */
+  function handleSessionOutput(event: SessionOutputEvent): void {
+    const execution = executions.value.get(event.cmdId)
+    if (!execution || execution.sessionId !== event.sessionId) return
+
+    addLog({
+      executionId: event.cmdId,
+      type: event.type,
+      content: event.content,
+      timestamp: event.timestamp
+    })
+
+    if (event.result) {
+      execution.status = SESSION_RESULT_STATUS[event.result.status] ?? 'failed'
+      execution.endedAt = event.timestamp
+    } else if (execution.status === 'queued') {
+      // 收到第一段输出，CLI 已开始执行
+      execution.status = 'running'
+    }
+  }
+
+  /**
+   * 处理 CLI Session 命令队列变更
+   * 发送前撤回的命令没有执行结果，按队列状态结束执行；转交给其他 Session 的命令改为跟踪新 Session
+   */
+  function handleSessionQueueChange(event: SessionQueueChangeEvent): void {
+    for (const command of event.commands) {
+      const execution = executions.value.get(command.cmdId)
+      if (!execution) continue
+      if (TERMINAL_STATUSES.includes(execution.status)) continue
+
+      // 原 Session 断开，命令已转交给其他 Session
+      if (execution.sessionId !== event.sessionId) {
+        if (command.reroutedFrom !== execution.sessionId) continue
+        execution.sessionId = event.sessionId
+        addLog({
+          executionId: command.cmdId,
+          type: 'system',
+          content: `CLI session disconnected, rerouted to session ${event.sessionId.slice(0, 8)}`,
+          timestamp: new Date().toISOString()
+        })
+      }
+
+      // CLI 确认取消时以 session:output 中的执行结果为准
+      if (command.status === 'cancelled' && !command.result) {
+        execution.status = 'cancelled'
+        execution.endedAt = command.endedAt || new Date().toISOString()
+        addLog({
+          executionId: command.cmdId,
+          type: 'system',
+          content: 'Command cancelled',
+          timestamp: execution.endedAt
+        })
+      } else if (command.status === 'cancelling') {
+        if (!logs.value.some(log => log.executionId === command.cmdId && log.content === CANCEL_REQUESTED_LOG)) {
+          addLog({
+            executionId: command.cmdId,
+            type: 'system',
+            content: CANCEL_REQUESTED_LOG,
+            timestamp: new Date().toISOString()
+          })
+        }
+      }
+    }
+  }
+
+  /**
+   * 订阅 CLI Session 的命令输出与队列变更
+   */
+  function subscribeToSessionOutput(): void {
+    if (unsubscribeSessionOutput) return // 已订阅
+
+    unsubscribeSessionOutput = window.electronAPI.on('session:output', (_event, data) => {
+      handleSessionOutput(data as SessionOutputEvent)
+    })
+    unsubscribeSessionQueue = window.electronAPI.on('session:queueChange', (_event, data) => {
+      handleSessionQueueChange(data as SessionQueueChangeEvent)
+    })
+  }
+
+  /**
+   * 取消订阅 CLI Session 的命令输出与队列变更
+   */
+  function unsubscribeFromSessionOutput(): void {
+    if (unsubscribeSessionOutput) {
+      unsubscribeSessionOutput()
+      unsubscribeSessionOutput = null
+    }
+    if (unsubscribeSessionQueue) {
+      unsubscribeSessionQueue()
+      unsubscribeSessionQueue = null
+    }
+  }
+
+  /**
+   * 切换 stream-json 模式
+   */
+  function setStreamJsonEnabled(enabled: boolean): void {
+    streamJsonEnabled.value = enabled
+    try {
+      localStorage.setItem(STREAM_JSON_STORAGE_KEY, String(enabled))
+    } catch {
+      // 忽略存储错误
+    }
+  }
+
   /**
    * 订阅 CLI 输出
    */
@@ -240,8 +582,10 @@ export const useLogStore = defineStore('log', () => {
   function clearLogs(executionId?: string): void {
     if (executionId) {
       logs.value = logs.value.filter(log => log.executionId !== executionId)
+      streamEvents.value.delete(executionId)
     } else {
       logs.value = []
+      streamEvents.value.clear()
     }
   }
 
@@ -251,20 +595,27 @@ export const useLogStore = defineStore('log', () => {
   function reset(): void {
     logs.value = []
     executions.value.clear()
+    streamEvents.value.clear()
     activeExecutionId.value = null
     isDrawerOpen.value = false
     unsubscribeFromCliOutput()
+    unsubscribeFromCliEvents()
+    unsubscribeFromSessionOutput()
   }
 
   // 组件卸载时取消订阅
   onUnmounted(() => {
     unsubscribeFromCliOutput()
+    unsubscribeFromCliEvents()
+    unsubscribeFromSessionOutput()
   })
 
   return {
     // State
     logs,
     executions,
+    streamEvents,
+    streamJsonEnabled,
     activeExecutionId,
     isDrawerOpen,
     autoScroll,
@@ -272,15 +623,26 @@ export const useLogStore = defineStore('log', () => {
     // Getters
     currentLogs,
     currentExecution,
+    currentEvents,
     isExecuting,
+    canSendInput,
     getLogsForStep,
 
     // Actions
     executeCommand,
+    rerunExecution,
+    trackExecution,
     cancelExecution,
+    waitForExecution,
+    sendInput,
     addLog,
     subscribeToCliOutput,
     unsubscribeFromCliOutput,
+    subscribeToCliEvents,
+    unsubscribeFromCliEvents,
+    subscribeToSessionOutput,
+    unsubscribeFromSessionOutput,
+    setStreamJsonEnabled,
     toggleDrawer,
     setActiveExecution,
     clearLogs,
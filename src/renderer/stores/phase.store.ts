@@ -6,7 +6,12 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import type { Phase, Step, StepStatus } from '@shared/types/project.types'
-import type { ApprovalSubmitRequest, ApprovalSubmitResponse } from '@shared/types/ipc.types'
+import type {
+  ApprovalSubmitRequest,
+  ApprovalSubmitResponse,
+  GateCheckRequest,
+  GateCheckResponse
+} from '@shared/types/ipc.types'
 import { useProjectStore } from './project.store'
 
 export const usePhaseStore = defineStore('phase', () => {
@@ -26,6 +31,18 @@ export const usePhaseStore = defineStore('phase', () => {
   /** 审批错误 */
   const approvalError = ref<string | null>(null)
 
+  /** 最近一次成功的审批响应（含自动提交结果） */
+  const lastApproval = ref<ApprovalSubmitResponse | null>(null)
+
+  /** 是否正在检查 Gate */
+  const checkingGate = ref(false)
+
+  /** Gate 检查错误 */
+  const gateCheckError = ref<string | null>(null)
+
+  /** 最近一次 Gate 检查结果 */
+  const lastGateCheck = ref<GateCheckResponse | null>(null)
+
   // ============================================================
   // Getters
   // ============================================================
@@ -114,6 +131,7 @@ export const usePhaseStore = defineStore('phase', () => {
       )
 
       if (response.success) {
+        lastApproval.value = response
         // 刷新项目状态以获取最新数据
         await projectStore.refreshState()
         return true
@@ -128,6 +146,35 @@ export const usePhaseStore = defineStore('phase', () => {
     }
   }
 
+  /**
+   * 按预设规则自动检查当前 Feature 的 Phase Gate
+   * 结果写入 PHASE_GATE_STATUS.yaml 的 check_status
+   */
+  async function checkGate(phase: number): Promise<GateCheckResponse | null> {
+    const featureId = projectStore.activeFeature?.id
+    if (!featureId) {
+      gateCheckError.value = 'No active feature'
+      return null
+    }
+
+    checkingGate.value = true
+    gateCheckError.value = null
+
+    try {
+      const request: GateCheckRequest = { featureId, phase }
+      const response = await window.electronAPI.invoke<GateCheckResponse>('gate:check', request)
+      lastGateCheck.value = response
+      // 刷新项目状态以获取最新数据
+      await projectStore.refreshState()
+      return response
+    } catch (e) {
+      gateCheckError.value = (e as Error).message
+      return null
+    } finally {
+      checkingGate.value = false
+    }
+  }
+
   /**
    * 更新 Step 状态（本地）
    */
@@ -185,6 +232,10 @@ export const usePhaseStore = defineStore('phase', () => {
     currentStepId.value = null
     approvingStepId.value = null
     approvalError.value = null
+    lastApproval.value = null
+    checkingGate.value = false
+    gateCheckError.value = null
+    lastGateCheck.value = null
   }
 
   return {
@@ -193,6 +244,10 @@ export const usePhaseStore = defineStore('phase', () => {
     currentStepId,
     approvingStepId,
     approvalError,
+    lastApproval,
+    checkingGate,
+    gateCheckError,
+    lastGateCheck,
 
     // Getters
     phases,
@@ -205,6 +260,7 @@ export const usePhaseStore = defineStore('phase', () => {
     setCurrentPhase,
     setCurrentStep,
     approveStep,
+    checkGate,
     updateStepStatus,
     canApproveStep,
     isStepLocked,
@@ -3,6 +3,8 @@
  * 基于 40_DESIGN_FINAL.md v1.1
  */
 
+import type { UsageTotals } from '@shared/types/ipc.types'
+
 // ============================================================
 // Feature 信息
 // ============================================================
@@ -29,6 +31,8 @@ export interface FeatureInfo {
   progress: number
   phases: PhaseStatus[]
   lastUpdated: string | null
+  /** Token 用量与估算费用 */
+  usage?: UsageTotals
 }
 
 // ============================================================
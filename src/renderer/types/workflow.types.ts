@@ -3,6 +3,8 @@
  * 基于 WORKFLOW_CONFIG_SYSTEM_DESIGN.md v1.1
  */
 
+import type { CliArgv } from '@shared/types/ipc.types'
+
 // ============================================================
 // 执行状态（FSM）
 // ============================================================
@@ -62,10 +64,25 @@ export interface ExpectedArtifact {
   required: boolean
 }
 
+/**
+ * 失败重试策略
+ */
+export interface RetryPolicy {
+  /** 最多执行次数（含首次），默认 1 即不重试 */
+  max_attempts: number
+  /** 首次重试前的等待时间（毫秒），默认 0 */
+  backoff_ms?: number
+  /** 每次重试后等待时间的倍数，默认 2 */
+  backoff_multiplier?: number
+}
+
 export interface FailureRecovery {
   suggestion: string
   fallback_command?: string
   log_path?: string
+  /** 重试耗尽后自动执行 fallback_command（否则询问用户） */
+  auto_fallback?: boolean
+  retry?: RetryPolicy
 }
 
 export interface FrameworkStep {
@@ -86,6 +103,8 @@ export interface FrameworkStep {
   verify: Verify
 
   failure_recovery?: FailureRecovery
+  /** 取消 / 超时时 SIGTERM 到 SIGKILL 的宽限期（毫秒），未配置时使用默认值 */
+  kill_grace_period_ms?: number
 }
 
 export interface PhaseMetadata {
@@ -101,6 +120,35 @@ export interface WorkflowTemplate {
   version: string
   framework_steps: FrameworkStep[]
   phases: PhaseMetadata[]
+  pipelines?: PipelineDefinition[]
+}
+
+// ============================================================
+// 流水线（批量顺序执行）
+// ============================================================
+
+export type PipelineFailureStrategy = 'stop' | 'continue'
+
+/**
+ * 流水线步骤选择器（step 与 tasks 二选一）
+ */
+export interface PipelineStepSelector {
+  /** 框架步骤或任务 ID */
+  step?: string
+  /** 按条件选择当前阶段的 Feature 任务，status 缺省为可执行状态 */
+  tasks?: {
+    owner?: Owner
+    status?: ExecutionStatus[]
+  }
+}
+
+export interface PipelineDefinition {
+  id: string
+  name: string
+  description?: string
+  steps: PipelineStepSelector[]
+  /** 步骤失败后停止或继续，默认 stop */
+  on_failure?: PipelineFailureStrategy
 }
 
 // ============================================================
@@ -186,6 +234,7 @@ export interface FeatureTask {
   notes?: string
   artifacts?: FeatureTaskArtifact[]
   command?: TaskCommand
+  owner?: Owner
 }
 
 export interface FeaturePhase {
@@ -234,7 +283,18 @@ export interface ExecutionItem {
   name: string
   type: 'framework' | 'task'
   icon?: string
+  /** 渲染后的命令（{{变量}} 已替换） */
   command?: string
+  /** 原始命令模板（仅当包含 {{变量}} 时保留） */
+  commandTemplate?: string
+  /** 模板渲染错误（存在时禁止执行） */
+  commandError?: string
+  /** 结构化参数（直接传给 spawn，不经 shell） */
+  argv?: CliArgv
+  /** 以 shell 执行 command（仅 bash 任务命令，执行前需确认） */
+  rawShell?: boolean
+  /** 终止进程时的宽限期（毫秒） */
+  killGracePeriodMs?: number
   status: ExecutionStatus
   executionMode: ExecutionMode
   rerunPolicy: RerunPolicy
@@ -243,6 +303,8 @@ export interface ExecutionItem {
   owner?: Owner
   description?: string
   failureRecovery?: FailureRecovery
+  /** 最近一次失败记录 */
+  failure?: FailureRecord
   // 任务特有字段
   artifacts?: FeatureTaskArtifact[]
   notes?: string
@@ -264,3 +326,98 @@ export interface PhaseConfig {
   references: PhaseReference[]
   tools: ToolConfig[]
 }
+
+// ============================================================
+// 流水线运行状态
+// ============================================================
+
+/** 单个步骤的执行结果 */
+export type PipelineItemOutcome = 'succeeded' | 'failed' | 'cancelled'
+
+export type PipelineStepStatus =
+  | 'pending'
+  | 'running'
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled'
+  | 'blocked'      // 前置条件未满足
+  | 'skipped'      // 重复执行策略阻止，或流水线已停止
+
+export interface PipelineStepRun {
+  itemId: string
+  name: string
+  status: PipelineStepStatus
+  reason?: string
+}
+
+export interface PipelineRun {
+  pipelineId: string
+  name: string
+  onFailure: PipelineFailureStrategy
+  status: 'running' | 'completed' | 'failed' | 'cancelled'
+  steps: PipelineStepRun[]
+  startedAt: string
+  endedAt?: string
+}
+
+/**
+ * 流水线运行回调
+ */
+export interface PipelineHooks {
+  /** 执行单个步骤并等待其结束 */
+  execute: (item: ExecutionItem) => Promise<PipelineItemOutcome>
+  showConfirm: (message: string) => Promise<boolean>
+  showToast: (message: string) => void
+  /** 每步执行前重新加载执行清单，以最新状态判断前置条件 */
+  reload?: () => Promise<ExecutionItem[]>
+  onProgress?: (run: PipelineRun) => void
+  /** 返回 true 时在当前步骤结束后停止 */
+  isCancelled?: () => boolean
+}
+
+// ============================================================
+// 失败恢复
+// ============================================================
+
+/**
+ * 执行失败记录（重试耗尽后生成）
+ */
+export interface FailureRecord {
+  /** 已执行次数（不含 fallback） */
+  attempts: number
+  failedAt: string
+  suggestion?: string
+  /** failure_recovery.log_path */
+  logPath?: string
+  /** 日志文件内容（读取失败时为空） */
+  logContent?: string
+  /** 是否执行了 fallback_command 及其结果 */
+  fallbackOutcome?: PipelineItemOutcome
+}
+
+/**
+ * 带失败恢复的执行回调
+ */
+export interface RecoveryHooks {
+  /** 执行单个步骤（或其 fallback）并等待结束 */
+  execute: (item: ExecutionItem) => Promise<PipelineItemOutcome>
+  /** 询问是否执行 fallback（auto_fallback 为 false 时） */
+  confirmFallback?: (item: ExecutionItem, failure: FailureRecord) => Promise<boolean>
+  /** 读取 log_path 指向的日志 */
+  readLog?: (path: string) => Promise<string | null>
+  /** 等待重试间隔（测试时可替换） */
+  sleep?: (ms: number) => Promise<void>
+  /** 状态变化（failed → running → generated） */
+  onStatusChange?: (item: ExecutionItem) => void
+}
+
+/**
+ * 带失败恢复的执行结果
+ */
+export interface RecoveryResult {
+  outcome: PipelineItemOutcome
+  attempts: number
+  /** 最终成功是否来自 fallback */
+  recoveredByFallback: boolean
+  failure?: FailureRecord
+}
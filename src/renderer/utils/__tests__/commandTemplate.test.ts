@@ -0,0 +1,66 @@
+/**
+ * commandTemplate.ts 单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildTemplateContext,
+  formatTemplateDate,
+  hasTemplateVariables,
+  renderCommandTemplate,
+} from '../commandTemplate'
+
+const context = buildTemplateContext({
+  featureId: 'F001',
+  phaseId: 4,
+  phaseName: 'Design',
+  taskId: 'T-1',
+  now: new Date(2025, 0, 5),
+})
+
+describe('commandTemplate', () => {
+  it('should build context with docs path and local date', () => {
+    expect(context.featureDocsPath).toBe('docs/F001')
+    expect(context.today).toBe('2025-01-05')
+    expect(formatTemplateDate(new Date(2024, 11, 31))).toBe('2024-12-31')
+  })
+
+  it('should detect placeholders', () => {
+    expect(hasTemplateVariables('/check-gate {{featureId}}')).toBe(true)
+    expect(hasTemplateVariables('/check-gate')).toBe(false)
+    expect(hasTemplateVariables('docs/{feature}/REVIEW.md')).toBe(false)
+  })
+
+  it('should render all supported variables', () => {
+    const result = renderCommandTemplate(
+      '/check-gate {{featureId}} --phase {{ phaseId }} {{phaseName}} {{featureDocsPath}} {{taskId}} {{today}}',
+      context
+    )
+
+    expect(result.error).toBeUndefined()
+    expect(result.command).toBe('/check-gate F001 --phase 4 Design docs/F001 T-1 2025-01-05')
+    expect(result.variables).toEqual(['featureId', 'phaseId', 'phaseName', 'featureDocsPath', 'taskId', 'today'])
+  })
+
+  it('should reject unknown variables', () => {
+    const result = renderCommandTemplate('/check-gate {{feature}} {{featureId}}', context)
+
+    expect(result.unknownVariables).toEqual(['feature'])
+    expect(result.command).toBe('/check-gate {{feature}} F001')
+    expect(result.error).toContain('{{feature}}')
+  })
+
+  it('should report variables missing from context', () => {
+    const result = renderCommandTemplate('/review {{taskId}}', buildTemplateContext({ featureId: 'F001' }))
+
+    expect(result.missingVariables).toEqual(['taskId'])
+    expect(result.error).toContain('{{taskId}}')
+  })
+
+  it('should keep phase 0 as a valid value', () => {
+    const result = renderCommandTemplate('/start-day {{phaseId}}', buildTemplateContext({ phaseId: 0 }))
+
+    expect(result.error).toBeUndefined()
+    expect(result.command).toBe('/start-day 0')
+  })
+})
@@ -0,0 +1,43 @@
+/**
+ * usageFormat.ts 单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { formatTokens, formatCost, formatAiDuration, totalTokens, describeUsage } from '../usageFormat'
+
+const usage = {
+  executions: 2,
+  inputTokens: 1200,
+  outputTokens: 3400,
+  cacheCreationInputTokens: 500,
+  cacheReadInputTokens: 1_500_000,
+  durationMs: 5_400_000,
+  costUsd: 1.234
+}
+
+describe('usageFormat', () => {
+  it('should format tokens with k / M suffix', () => {
+    expect(formatTokens(999)).toBe('999')
+    expect(formatTokens(1234)).toBe('1.2k')
+    expect(formatTokens(2_500_000)).toBe('2.5M')
+  })
+
+  it('should format cost', () => {
+    expect(formatCost(0)).toBe('$0')
+    expect(formatCost(0.004)).toBe('<$0.01')
+    expect(formatCost(0.1234)).toBe('$0.123')
+    expect(formatCost(12.345)).toBe('$12.35')
+  })
+
+  it('should format AI duration', () => {
+    expect(formatAiDuration(30_000)).toBe('30s')
+    expect(formatAiDuration(25 * 60_000)).toBe('25m')
+    expect(formatAiDuration(5_400_000)).toBe('1h 30m')
+  })
+
+  it('should sum all token kinds and describe usage', () => {
+    expect(totalTokens(usage)).toBe(1_505_100)
+    expect(describeUsage(usage)).toContain('2 次执行')
+    expect(describeUsage(usage)).toContain('约 $1.23')
+  })
+})
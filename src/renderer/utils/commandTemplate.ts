@@ -0,0 +1,131 @@
+/**
+ * 命令模板渲染
+ * 解析 FrameworkStep.command / TaskCommand.value 中的 {{变量}} 占位符
+ *
+ * 支持的变量：
+ * - featureId        当前 Feature ID
+ * - phaseId          当前阶段编号
+ * - phaseName        当前阶段名称（如 Design）
+ * - featureDocsPath  Feature 文档目录（docs/{featureId}）
+ * - taskId           当前任务 ID（仅 Feature 任务）
+ * - today            当天日期（YYYY-MM-DD）
+ *
+ * 未知变量或当前上下文中缺失的变量都视为错误，命令不可执行
+ */
+
+/** 支持的模板变量 */
+export const TEMPLATE_VARIABLES = [
+  'featureId',
+  'phaseId',
+  'phaseName',
+  'featureDocsPath',
+  'taskId',
+  'today',
+] as const
+
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number]
+
+/** 模板渲染上下文 */
+export type CommandTemplateContext = Partial<Record<TemplateVariable, string | number>>
+
+/** 渲染结果 */
+export interface CommandTemplateResult {
+  /** 渲染后的命令（有错误时保留无法解析的占位符） */
+  command: string
+  /** 模板中出现的全部变量（去重） */
+  variables: string[]
+  /** 不受支持的变量 */
+  unknownVariables: string[]
+  /** 受支持但当前上下文没有值的变量 */
+  missingVariables: string[]
+  /** 错误描述，无错误时为 undefined */
+  error?: string
+}
+
+/** 占位符：{{ name }}，允许两侧空白 */
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}\s]*)\s*\}\}/g
+
+/**
+ * 格式化本地日期为 YYYY-MM-DD
+ */
+export function formatTemplateDate(date: Date): string {
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${year}-${month}-${day}`
+}
+
+/**
+ * 构建执行上下文
+ */
+export function buildTemplateContext(options: {
+  featureId?: string
+  phaseId?: number
+  phaseName?: string
+  taskId?: string
+  now?: Date
+}): CommandTemplateContext {
+  const { featureId, phaseId, phaseName, taskId, now = new Date() } = options
+  return {
+    featureId,
+    phaseId,
+    phaseName,
+    featureDocsPath: featureId ? `docs/${featureId}` : undefined,
+    taskId,
+    today: formatTemplateDate(now),
+  }
+}
+
+/**
+ * 判断命令是否包含模板占位符
+ */
+export function hasTemplateVariables(template: string): boolean {
+  return new RegExp(PLACEHOLDER_PATTERN.source).test(template)
+}
+
+/**
+ * 渲染命令模板
+ */
+export function renderCommandTemplate(
+  template: string,
+  context: CommandTemplateContext
+): CommandTemplateResult {
+  const variables = new Set<string>()
+  const unknown = new Set<string>()
+  const missing = new Set<string>()
+
+  const command = template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    variables.add(name)
+
+    if (!(TEMPLATE_VARIABLES as readonly string[]).includes(name)) {
+      unknown.add(name)
+      return placeholder
+    }
+
+    const value = context[name as TemplateVariable]
+    if (value === undefined || value === null || value === '') {
+      missing.add(name)
+      return placeholder
+    }
+
+    return String(value)
+  })
+
+  const unknownVariables = [...unknown]
+  const missingVariables = [...missing]
+
+  let error: string | undefined
+  if (unknownVariables.length > 0) {
+    error = `未知的模板变量: ${unknownVariables.map(v => `{{${v}}}`).join(', ')}`
+  } else if (missingVariables.length > 0) {
+    error = `当前上下文缺少变量: ${missingVariables.map(v => `{{${v}}}`).join(', ')}`
+  }
+
+  return {
+    command,
+    variables: [...variables],
+    unknownVariables,
+    missingVariables,
+    error,
+  }
+}
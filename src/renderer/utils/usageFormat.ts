@@ -0,0 +1,62 @@
+/**
+ * Token 用量与费用格式化
+ */
+
+import type { UsageTotals } from '@shared/types/ipc.types'
+
+// ============================================================
+// 格式化
+// ============================================================
+
+/**
+ * 格式化 Token 数（1234 → 1.2k，1234567 → 1.2M）
+ */
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`
+  return String(tokens)
+}
+
+/**
+ * 格式化费用（USD）
+ * 小于 1 美元时保留更多小数位
+ */
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0'
+  if (usd < 0.01) return '<$0.01'
+  return usd < 1 ? `$${usd.toFixed(3)}` : `$${usd.toFixed(2)}`
+}
+
+/**
+ * 格式化累计 AI 时长（毫秒）
+ */
+export function formatAiDuration(ms: number): string {
+  if (ms < 60000) return `${Math.round(ms / 1000)}s`
+  const minutes = Math.round(ms / 60000)
+  if (minutes < 60) return `${minutes}m`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+/**
+ * 总 Token 数（输入 + 输出 + 缓存）
+ */
+export function totalTokens(usage: UsageTotals): number {
+  return usage.inputTokens +
+    usage.outputTokens +
+    usage.cacheCreationInputTokens +
+    usage.cacheReadInputTokens
+}
+
+/**
+ * 单行摘要，用于 tooltip
+ */
+export function describeUsage(usage: UsageTotals): string {
+  return [
+    `${usage.executions} 次执行`,
+    `输入 ${formatTokens(usage.inputTokens)}`,
+    `输出 ${formatTokens(usage.outputTokens)}`,
+    `缓存 ${formatTokens(usage.cacheCreationInputTokens + usage.cacheReadInputTokens)}`,
+    `AI 时长 ${formatAiDuration(usage.durationMs)}`,
+    `约 ${formatCost(usage.costUsd)}`
+  ].join(' · ')
+}
@@ -0,0 +1,257 @@
+/**
+ * Session Agent 单元测试
+ * 对应 60_TEST_PLAN.md SA-001 ~ SA-005
+ *
+ * 在临时目录中读写真实的协议文件；文件协议使用假定时器，socket 协议连接真实的 socket 服务
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, readFileSync, writeFileSync, existsSync, mkdirSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { SessionAgent, type SessionCommandExecutor } from '../session-agent'
+
+const terminal = { type: 'console' as const, platform: 'linux' as const, title: 'test' }
+
+const echo: SessionCommandExecutor = async (command, { output }) => {
+  output('stdout', `run ${command.command}`)
+  return { status: 'success', output: command.command }
+}
+
+describe('SessionAgent', () => {
+  let projectPath: string
+  let agent: SessionAgent | null
+
+  const sessionFile = (suffix: string) => join(projectPath, '.claude', 'gui-sessions', `session-s1${suffix}`)
+  const readFile = (suffix: string) => JSON.parse(readFileSync(sessionFile(suffix), 'utf-8'))
+  const writeCmd = (cmdId: string, command = '/design') => writeFileSync(sessionFile('.cmd'), JSON.stringify({
+    cmdId,
+    timestamp: new Date().toISOString(),
+    command,
+    source: 'gui-button',
+    context: {}
+  }))
+
+  const createAgent = (options: Partial<ConstructorParameters<typeof SessionAgent>[0]> = {}) => {
+    agent = new SessionAgent({
+      projectPath,
+      sessionId: 's1',
+      terminal,
+      transport: 'file',
+      executor: echo,
+      heartbeatIntervalMs: 1000,
+      pollIntervalMs: 100,
+      ...options
+    })
+    return agent
+  }
+
+  beforeEach(() => {
+    projectPath = mkdtempSync(join(tmpdir(), 'ha-loop-session-agent-'))
+    agent = null
+  })
+
+  afterEach(async () => {
+    await agent?.stop()
+    vi.useRealTimers()
+    rmSync(projectPath, { recursive: true, force: true })
+  })
+
+  describe('SA-001: 文件协议注册与心跳', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'setInterval', 'clearTimeout', 'clearInterval', 'Date'] })
+      vi.setSystemTime(new Date('2026-01-01T10:00:00.000Z'))
+    })
+
+    it('should register the session and keep the heartbeat fresh', async () => {
+      expect(await createAgent().start()).toBe('file')
+      expect(readFile('.json')).toMatchObject({
+        id: 's1',
+        pid: process.pid,
+        status: 'active',
+        transport: 'file',
+        heartbeatAt: '2026-01-01T10:00:00.000Z',
+        terminal
+      })
+
+      await vi.advanceTimersByTimeAsync(1000)
+
+      expect(readFile('.json').heartbeatAt).toBe('2026-01-01T10:00:01.000Z')
+    })
+
+    it('should declare the features it works on', async () => {
+      await createAgent({ features: ['F001', 'F002'] }).start()
+
+      expect(readFile('.json').features).toEqual(['F001', 'F002'])
+    })
+
+    it('should mark the session disconnected when stopped', async () => {
+      await createAgent().start()
+      await agent!.stop()
+
+      expect(readFile('.json').status).toBe('disconnected')
+    })
+  })
+
+  describe('SA-002: 执行命令', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'setInterval', 'clearTimeout', 'clearInterval', 'Date'] })
+    })
+
+    it('should acknowledge, report output and write the result', async () => {
+      await createAgent().start()
+      writeCmd('cmd-1')
+
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(readFile('.ack').cmdId).toBe('cmd-1')
+      expect(JSON.parse(readFileSync(sessionFile('.events'), 'utf-8').trim())).toMatchObject({
+        cmdId: 'cmd-1',
+        type: 'stdout',
+        content: 'run /design'
+      })
+      expect(readFile('.result')).toMatchObject({ cmdId: 'cmd-1', status: 'success', output: '/design' })
+    })
+
+    it('should execute each command only once', async () => {
+      const executor = vi.fn(echo)
+      await createAgent({ executor }).start()
+      writeCmd('cmd-1')
+
+      await vi.advanceTimersByTimeAsync(500)
+      writeCmd('cmd-2', '/review')
+      await vi.advanceTimersByTimeAsync(500)
+
+      expect(executor.mock.calls.map(([command]) => command.cmdId)).toEqual(['cmd-1', 'cmd-2'])
+    })
+
+    it('should report executor errors as failed', async () => {
+      await createAgent({ executor: async () => { throw new Error('boom') } }).start()
+      writeCmd('cmd-1')
+
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(readFile('.result')).toMatchObject({ cmdId: 'cmd-1', status: 'failed', error: 'boom' })
+    })
+  })
+
+  describe('SA-003: 取消', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'setInterval', 'clearTimeout', 'clearInterval', 'Date'] })
+    })
+
+    it('should abort the running command when .cancel appears', async () => {
+      const executor: SessionCommandExecutor = (_command, { signal }) => new Promise(resolve => {
+        signal.addEventListener('abort', () => resolve({ status: 'failed', error: 'aborted' }))
+      })
+      await createAgent({ executor }).start()
+      writeCmd('cmd-1')
+      await vi.advanceTimersByTimeAsync(100)
+      expect(agent!.isBusy()).toBe(true)
+
+      writeFileSync(sessionFile('.cancel'), JSON.stringify({ cmdId: 'cmd-1', timestamp: 't1' }))
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(readFile('.result')).toMatchObject({ cmdId: 'cmd-1', status: 'cancelled' })
+      expect(agent!.isBusy()).toBe(false)
+    })
+  })
+
+  describe('SA-004: 模拟故障', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'setInterval', 'clearTimeout', 'clearInterval', 'Date'] })
+    })
+
+    it('should delay the ack and drop it when configured', async () => {
+      await createAgent({ simulation: { ackDelayMs: 1000 } }).start()
+      writeCmd('cmd-1')
+
+      await vi.advanceTimersByTimeAsync(100)
+      expect(existsSync(sessionFile('.ack'))).toBe(false)
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(readFile('.ack').cmdId).toBe('cmd-1')
+
+      await agent!.stop()
+      rmSync(join(projectPath, '.claude'), { recursive: true })
+      mkdirSync(join(projectPath, '.claude', 'gui-sessions'), { recursive: true })
+
+      await createAgent({ simulation: { dropAcks: true } }).start()
+      writeCmd('cmd-2')
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(existsSync(sessionFile('.ack'))).toBe(false)
+      expect(readFile('.result').cmdId).toBe('cmd-2')
+    })
+
+    it('should execute duplicated commands twice', async () => {
+      const executor = vi.fn(echo)
+      const results: string[] = []
+      createAgent({ executor, simulation: { duplicateCommands: true } }).on('result', result => results.push(result.cmdId))
+      await agent!.start()
+      writeCmd('cmd-1')
+
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(executor).toHaveBeenCalledTimes(2)
+      expect(results).toEqual(['cmd-1', 'cmd-1'])
+      expect(readFileSync(sessionFile('.events'), 'utf-8').trim().split('\n')).toHaveLength(2)
+    })
+
+    it('should crash before writing the result and stop the heartbeat', async () => {
+      vi.setSystemTime(new Date('2026-01-01T10:00:00.000Z'))
+      const crashed = vi.fn()
+      createAgent({ simulation: { crashOn: 'beforeResult' } }).on('crash', crashed)
+      await agent!.start()
+      writeCmd('cmd-1')
+
+      await vi.advanceTimersByTimeAsync(100)
+      expect(crashed).toHaveBeenCalled()
+      expect(readFile('.ack').cmdId).toBe('cmd-1')
+      expect(existsSync(sessionFile('.result'))).toBe(false)
+
+      await vi.advanceTimersByTimeAsync(5000)
+      expect(readFile('.json')).toMatchObject({ status: 'active', heartbeatAt: '2026-01-01T10:00:00.000Z' })
+    })
+  })
+
+  describe.skipIf(process.platform === 'win32')('SA-005: socket 协议', () => {
+    let sessionSocketService: any
+    let sessionCommandQueueService: any
+
+    beforeEach(async () => {
+      vi.resetModules()
+      sessionSocketService = (await import('../../main/services/session-socket.service')).sessionSocketService
+      sessionCommandQueueService = (await import('../../main/services/session-command-queue.service')).sessionCommandQueueService
+      await sessionSocketService.start(projectPath)
+    })
+
+    afterEach(async () => {
+      await agent?.stop()
+      await sessionSocketService.stopAll()
+    })
+
+    it('should register over the advertised socket and execute queued commands', async () => {
+      const registered = new Promise(resolve => sessionSocketService.once('change', resolve))
+      expect(await createAgent({ transport: undefined, features: ['F001'] }).start()).toBe('socket')
+      await registered
+      expect(sessionSocketService.isConnected(projectPath, 's1')).toBe(true)
+      expect(sessionSocketService.listSessions(projectPath)[0].features).toEqual(['F001'])
+
+      const result = new Promise<any>(resolve => sessionSocketService.once('result', resolve))
+      const { command } = sessionCommandQueueService.enqueue(projectPath, 's1', '/design')
+
+      expect((await result).result).toMatchObject({ cmdId: command.cmdId, status: 'success' })
+      expect(existsSync(sessionFile('.result'))).toBe(false)
+    })
+
+    it('should fall back to the file protocol when the socket closes', async () => {
+      await createAgent({ transport: undefined }).start()
+
+      const switched = new Promise(resolve => agent!.once('transport', resolve))
+      await sessionSocketService.stop(projectPath)
+
+      expect(await switched).toBe('file')
+      expect(readFile('.json')).toMatchObject({ id: 's1', status: 'active', transport: 'file' })
+    })
+  })
+})
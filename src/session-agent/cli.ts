@@ -0,0 +1,248 @@
+/**
+ * Session Agent 命令行入口
+ *
+ * 用法：
+ *   npx vite-node src/session-agent/cli.ts -- --project <目录> [--session <id>] [--transport file|socket]
+ *                                             [--claude <可执行文件>] [--simulate <故障>]
+ *                                             [--feature <featureId>]...
+ *
+ * 作为 Claude Code Hook 使用（SessionStart / SessionEnd）：
+ *   npx vite-node src/session-agent/cli.ts -- --hook
+ *   从 stdin 读取 Hook 输入（session_id / cwd / hook_event_name）：
+ *   SessionStart 时在后台启动 Agent 并立即返回，SessionEnd 时把 Session 标记为 disconnected
+ *
+ * --feature 可重复，声明该 Session 负责的 Feature，GUI 会把对应 Feature 的命令路由到这里。
+ * 命令通过 `claude -p <command>` 执行，stdout / stderr 逐行回报给 GUI。
+ * --simulate 不调用 claude，只回显命令，故障以逗号分隔：
+ *   ack-delay=<ms>,result-delay=<ms>,drop-ack,duplicate,crash=beforeAck|beforeExecute|beforeResult
+ */
+
+import { spawn } from 'child_process'
+import * as fs from 'fs'
+import * as path from 'path'
+import type { SessionTransport } from '../shared/types/ipc.types'
+import {
+  SessionAgent,
+  type SessionCommandExecutor,
+  type SessionSimulation
+} from './session-agent'
+
+/** 命令行参数 */
+interface CliOptions {
+  projectPath: string
+  sessionId?: string
+  transport?: SessionTransport
+  features: string[]
+  claude: string
+  simulation?: SessionSimulation
+  hook: boolean
+}
+
+/** Claude Code Hook 输入 */
+interface HookInput {
+  session_id?: string
+  cwd?: string
+  hook_event_name?: string
+}
+
+/**
+ * 解析命令行参数
+ */
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    projectPath: process.cwd(),
+    features: [],
+    claude: 'claude',
+    hook: false
+  }
+
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1]
+    switch (argv[i]) {
+      case '--project':
+        options.projectPath = path.resolve(value)
+        i++
+        break
+      case '--session':
+        options.sessionId = value
+        i++
+        break
+      case '--transport':
+        if (value !== 'file' && value !== 'socket') {
+          throw new Error(`Unknown transport: ${value}`)
+        }
+        options.transport = value
+        i++
+        break
+      case '--feature':
+        options.features.push(value)
+        i++
+        break
+      case '--claude':
+        options.claude = value
+        i++
+        break
+      case '--simulate':
+        options.simulation = parseSimulation(value ?? '')
+        i++
+        break
+      case '--hook':
+        options.hook = true
+        break
+    }
+  }
+  return options
+}
+
+/**
+ * 解析 --simulate 的故障列表
+ */
+function parseSimulation(spec: string): SessionSimulation {
+  const simulation: SessionSimulation = {}
+  for (const item of spec.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [name, value] = item.split('=')
+    switch (name) {
+      case 'ack-delay':
+        simulation.ackDelayMs = Number(value)
+        break
+      case 'result-delay':
+        simulation.resultDelayMs = Number(value)
+        break
+      case 'drop-ack':
+        simulation.dropAcks = true
+        break
+      case 'duplicate':
+        simulation.duplicateCommands = true
+        break
+      case 'crash':
+        if (value !== 'beforeAck' && value !== 'beforeExecute' && value !== 'beforeResult') {
+          throw new Error(`Unknown crash stage: ${value}`)
+        }
+        simulation.crashOn = value
+        break
+      default:
+        throw new Error(`Unknown simulation: ${name}`)
+    }
+  }
+  return simulation
+}
+
+/**
+ * 通过 `claude -p` 执行命令，逐行回报输出
+ */
+function createClaudeExecutor(claude: string, projectPath: string): SessionCommandExecutor {
+  return (command, { output, signal }) => new Promise(resolve => {
+    const child = spawn(claude, ['-p', command.command], { cwd: projectPath, stdio: ['ignore', 'pipe', 'pipe'] })
+    const collected: string[] = []
+
+    const forward = (type: 'stdout' | 'stderr') => {
+      let partial = ''
+      return (chunk: Buffer) => {
+        const lines = (partial + chunk.toString('utf-8')).split('\n')
+        partial = lines.pop() ?? ''
+        for (const line of lines) {
+          output(type, line)
+          if (type === 'stdout') collected.push(line)
+        }
+      }
+    }
+    child.stdout.on('data', forward('stdout'))
+    child.stderr.on('data', forward('stderr'))
+
+    signal.addEventListener('abort', () => child.kill('SIGTERM'), { once: true })
+    child.on('error', error => resolve({ status: 'failed', error: error.message }))
+    child.on('close', code => {
+      if (signal.aborted) {
+        resolve({ status: 'cancelled' })
+      } else if (code === 0) {
+        resolve({ status: 'success', output: collected.join('\n') })
+      } else {
+        resolve({ status: 'failed', output: collected.join('\n'), error: `Exited with code ${code}` })
+      }
+    })
+  })
+}
+
+/**
+ * 模拟执行：回显命令
+ */
+const echoExecutor: SessionCommandExecutor = async (command, { output }) => {
+  output('stdout', `simulated: ${command.command}`)
+  return { status: 'success', output: command.command }
+}
+
+/**
+ * Hook 模式：SessionStart 时在后台启动 Agent，SessionEnd 时标记断开
+ */
+async function runHook(options: CliOptions): Promise<void> {
+  let raw = ''
+  for await (const chunk of process.stdin) {
+    raw += chunk
+  }
+  const input = JSON.parse(raw || '{}') as HookInput
+  const projectPath = input.cwd ? path.resolve(input.cwd) : options.projectPath
+  const sessionId = input.session_id ?? options.sessionId
+  if (!sessionId) {
+    throw new Error('Hook input has no session_id')
+  }
+
+  if (input.hook_event_name === 'SessionEnd') {
+    const sessionFile = path.join(projectPath, '.claude', 'gui-sessions', `session-${sessionId}.json`)
+    try {
+      const session = JSON.parse(fs.readFileSync(sessionFile, 'utf-8'))
+      fs.writeFileSync(sessionFile, JSON.stringify({ ...session, status: 'disconnected' }, null, 2))
+    } catch {
+      // Agent 未以文件协议注册
+    }
+    return
+  }
+
+  // 以相同的运行方式在后台重新启动自身（去掉 --hook）
+  const args = process.argv.slice(1).filter(arg => arg !== '--hook')
+  const child = spawn(process.argv[0], [...args, '--project', projectPath, '--session', sessionId], {
+    cwd: projectPath,
+    detached: true,
+    stdio: 'ignore'
+  })
+  child.unref()
+}
+
+/**
+ * 前台运行 Agent，直到收到 SIGINT / SIGTERM
+ */
+async function runAgent(options: CliOptions): Promise<void> {
+  const agent = new SessionAgent({
+    projectPath: options.projectPath,
+    sessionId: options.sessionId,
+    transport: options.transport,
+    features: options.features,
+    executor: options.simulation ? echoExecutor : createClaudeExecutor(options.claude, options.projectPath),
+    simulation: options.simulation
+  })
+
+  const transport = await agent.start()
+  console.log(JSON.stringify({ sessionId: agent.sessionId, transport }))
+
+  agent.on('transport', next => console.error(`[SessionAgent] Switched to ${next} transport`))
+  agent.on('crash', () => process.exit(1))
+
+  const shutdown = async () => {
+    await agent.stop()
+    process.exit(0)
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+}
+
+/**
+ * 入口
+ */
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2))
+  await (options.hook ? runHook(options) : runAgent(options))
+}
+
+main().catch(error => {
+  console.error(`[SessionAgent] ${(error as Error).message}`)
+  process.exit(1)
+})
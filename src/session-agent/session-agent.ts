@@ -0,0 +1,545 @@
+/**
+ * CLI 端 Session Agent（参考实现）
+ * 实现 GUI-CLI Session 协议的 CLI 一侧：注册 Session、发送心跳、接收并执行命令、回报输出与结果
+ *
+ * 关键约束：
+ * - 优先使用 transport.json 公告的 socket；公告不存在、连接失败或版本协商失败时使用文件协议
+ * - socket 连接意外断开时改用文件协议继续工作
+ * - 同一时间只执行一条命令；文件协议下按 cmdId 去重，.cmd 未被替换时不会重复执行
+ * - 命令的具体执行由 executor 完成，Agent 只负责协议；executor 需响应 signal 以支持取消
+ * - 正常停止时把 Session 标记为 disconnected；crash() 模拟进程崩溃，不再写入任何文件
+ * - simulation 用于测试 GUI 的容错：延迟、丢弃确认、重复执行命令、在指定阶段崩溃
+ */
+
+import * as fs from 'fs'
+import * as net from 'net'
+import * as path from 'path'
+import { randomUUID } from 'crypto'
+import { EventEmitter } from 'events'
+import type {
+  Session,
+  SessionExecutionResult,
+  SessionOutputEntry,
+  SessionTerminalInfo,
+  SessionTransport
+} from '../shared/types/ipc.types'
+import {
+  SUPPORTED_SESSION_PROTOCOL_VERSIONS,
+  type SessionClientMessage,
+  type SessionCommandPayload,
+  type SessionServerMessage,
+  type SessionTransportAdvertisement
+} from '../shared/types/session-protocol.types'
+
+// Session 目录名（与 session.handler 一致）
+const SESSIONS_DIR = '.claude/gui-sessions'
+
+// 协议文件后缀
+const SESSION_FILE = '.json'
+const CMD_FILE = '.cmd'
+const ACK_FILE = '.ack'
+const CANCEL_FILE = '.cancel'
+const EVENTS_FILE = '.events'
+const RESULT_FILE = '.result'
+
+/** 通信方式公告文件 */
+const TRANSPORT_FILE = 'transport.json'
+
+/** 文件协议的心跳间隔（socket 使用 welcome 中的间隔） */
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 15000
+
+/** 检查 .cmd / .cancel 的间隔 */
+const DEFAULT_POLL_INTERVAL_MS = 500
+
+/** socket 握手超时 */
+const HANDSHAKE_TIMEOUT_MS = 5000
+
+/** 命令执行上下文 */
+export interface SessionCommandContext {
+  /** 回报一段输出 */
+  output: (type: SessionOutputEntry['type'], content: string) => void
+  /** 命令被取消时触发 */
+  signal: AbortSignal
+}
+
+/** 命令执行器：返回执行状态，cmdId / timestamp / duration 由 Agent 填写 */
+export type SessionCommandExecutor = (
+  command: SessionCommandPayload,
+  context: SessionCommandContext
+) => Promise<Pick<SessionExecutionResult, 'status' | 'output' | 'error'>>
+
+/** 模拟的故障（仅用于测试） */
+export interface SessionSimulation {
+  /** 接收命令后延迟多久写入确认 */
+  ackDelayMs?: number
+  /** 执行结束后延迟多久写入结果 */
+  resultDelayMs?: number
+  /** 不发送确认 */
+  dropAcks?: boolean
+  /** 每条命令执行两次（重复的确认、输出与结果） */
+  duplicateCommands?: boolean
+  /** 在指定阶段崩溃 */
+  crashOn?: 'beforeAck' | 'beforeExecute' | 'beforeResult'
+}
+
+/** Agent 配置 */
+export interface SessionAgentOptions {
+  projectPath: string
+  /** 默认随机生成 */
+  sessionId?: string
+  terminal?: SessionTerminalInfo
+  /** 声明负责的 Feature，GUI 据此路由带 featureId 的命令 */
+  features?: string[]
+  executor: SessionCommandExecutor
+  /** 指定通信方式；默认按 transport.json 选择 */
+  transport?: SessionTransport
+  heartbeatIntervalMs?: number
+  pollIntervalMs?: number
+  simulation?: SessionSimulation
+}
+
+/** 正在执行的命令 */
+interface RunningCommand {
+  cmdId: string
+  controller: AbortController
+}
+
+/**
+ * 按当前进程推断终端信息
+ */
+function detectTerminal(): SessionTerminalInfo {
+  const program = process.env.TERM_PROGRAM?.toLowerCase() ?? ''
+  const platform = ['darwin', 'win32'].includes(process.platform)
+    ? process.platform as SessionTerminalInfo['platform']
+    : 'linux'
+  return {
+    type: program === 'vscode' ? 'vscode' : program.includes('jetbrains') ? 'idea' : 'console',
+    platform,
+    title: process.env.TERM_PROGRAM || 'terminal'
+  }
+}
+
+/**
+ * 读取 JSON 文件；不存在或格式错误时返回 null
+ */
+function readJson<T>(filePath: string): T | null {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 等待指定时间（0 时直接返回）
+ */
+function delay(ms: number | undefined): Promise<void> {
+  return ms ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve()
+}
+
+/**
+ * CLI 端 Session Agent
+ *
+ * 事件：
+ * - 'command'   SessionCommandPayload     收到命令
+ * - 'result'    SessionExecutionResult    写入结果
+ * - 'transport' SessionTransport          开始使用的通信方式
+ * - 'crash'                               模拟崩溃
+ */
+export class SessionAgent extends EventEmitter {
+  readonly projectPath: string
+  readonly sessionId: string
+
+  private readonly terminal: SessionTerminalInfo
+  private readonly executor: SessionCommandExecutor
+  private readonly simulation: SessionSimulation
+  private readonly createdAt = new Date().toISOString()
+
+  private transport: SessionTransport | null = null
+  private socket: net.Socket | null = null
+  private heartbeatTimer: NodeJS.Timeout | null = null
+  private pollTimer: NodeJS.Timeout | null = null
+
+  /** 已停止或已崩溃，不再写入任何内容 */
+  private stopped = false
+  private running: RunningCommand | null = null
+  /** 已处理的命令（文件协议去重） */
+  private handled = new Set<string>()
+  /** 执行前已收到取消的命令 */
+  private cancelled = new Set<string>()
+
+  constructor(private readonly options: SessionAgentOptions) {
+    super()
+    this.projectPath = options.projectPath
+    this.sessionId = options.sessionId ?? randomUUID()
+    this.terminal = options.terminal ?? detectTerminal()
+    this.executor = options.executor
+    this.simulation = options.simulation ?? {}
+  }
+
+  /**
+   * 当前通信方式；未启动时为 null
+   */
+  getTransport(): SessionTransport | null {
+    return this.transport
+  }
+
+  /**
+   * 是否正在执行命令
+   */
+  isBusy(): boolean {
+    return this.running !== null
+  }
+
+  /**
+   * 注册 Session 并开始接收命令
+   */
+  async start(): Promise<SessionTransport> {
+    fs.mkdirSync(this.getSessionsDir(), { recursive: true, mode: 0o700 })
+
+    if (this.options.transport !== 'file') {
+      const socketPath = this.readSocketAdvertisement()
+      if (socketPath && await this.connectSocket(socketPath)) {
+        return this.useTransport('socket')
+      }
+      if (this.options.transport === 'socket') {
+        throw new Error('Socket transport not available')
+      }
+    }
+
+    this.startFileTransport()
+    return this.useTransport('file')
+  }
+
+  /**
+   * 正常停止：取消执行中的命令并标记 Session 断开
+   */
+  async stop(): Promise<void> {
+    if (this.stopped) return
+    this.running?.controller.abort()
+
+    if (this.transport === 'file') {
+      this.writeSession({ status: 'disconnected' })
+    }
+    this.halt()
+    this.socket?.end()
+  }
+
+  /**
+   * 模拟进程崩溃：停止心跳、断开连接，已写入的文件保持原样
+   */
+  crash(): void {
+    if (this.stopped) return
+    this.halt()
+    this.running?.controller.abort()
+    this.socket?.destroy()
+    this.emit('crash')
+  }
+
+  /**
+   * 检查一次 .cmd / .cancel（文件协议，定时调用）
+   */
+  poll(): void {
+    if (this.stopped || this.transport !== 'file') return
+
+    const cancel = readJson<{ cmdId?: string }>(this.getFilePath(CANCEL_FILE))
+    if (cancel?.cmdId) {
+      this.cancelCommand(cancel.cmdId)
+    }
+
+    if (this.running) return
+    const command = readJson<SessionCommandPayload>(this.getFilePath(CMD_FILE))
+    if (command?.cmdId && !this.handled.has(command.cmdId)) {
+      void this.handleCommand(command)
+    }
+  }
+
+  // ========== 私有方法 ==========
+
+  private getSessionsDir(): string {
+    return path.join(this.projectPath, SESSIONS_DIR)
+  }
+
+  private getFilePath(suffix: string): string {
+    return path.join(this.getSessionsDir(), `session-${this.sessionId}${suffix}`)
+  }
+
+  /**
+   * 公告的 socket 路径；未公告 socket 时返回 undefined
+   */
+  private readSocketAdvertisement(): string | undefined {
+    const advertisement = readJson<SessionTransportAdvertisement>(path.join(this.getSessionsDir(), TRANSPORT_FILE))
+    return advertisement?.transports.includes('socket') ? advertisement.socketPath : undefined
+  }
+
+  private useTransport(transport: SessionTransport): SessionTransport {
+    this.transport = transport
+    this.emit('transport', transport)
+    return transport
+  }
+
+  /**
+   * 停止所有定时器并禁止后续写入
+   */
+  private halt(): void {
+    this.stopped = true
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer)
+    if (this.pollTimer) clearInterval(this.pollTimer)
+    this.heartbeatTimer = null
+    this.pollTimer = null
+  }
+
+  // ---------- 文件协议 ----------
+
+  private startFileTransport(): void {
+    this.writeSession({})
+    this.heartbeatTimer = setInterval(
+      () => this.writeSession({}),
+      this.options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS
+    )
+    this.pollTimer = setInterval(() => this.poll(), this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS)
+  }
+
+  /**
+   * 写入 Session 元信息（同时作为心跳）
+   */
+  private writeSession(update: Partial<Pick<Session, 'status' | 'lastActiveAt'>>): void {
+    if (this.stopped) return
+    const now = new Date().toISOString()
+    const previous = readJson<Session>(this.getFilePath(SESSION_FILE))
+    const session: Session = {
+      id: this.sessionId,
+      pid: process.pid,
+      createdAt: this.createdAt,
+      lastActiveAt: previous?.lastActiveAt ?? now,
+      heartbeatAt: now,
+      terminal: this.terminal,
+      status: 'active',
+      projectPath: this.projectPath,
+      transport: 'file',
+      ...(this.options.features?.length ? { features: this.options.features } : {}),
+      ...update
+    }
+    fs.writeFileSync(this.getFilePath(SESSION_FILE), JSON.stringify(session, null, 2))
+  }
+
+  // ---------- socket 协议 ----------
+
+  /**
+   * 连接 socket 并完成注册；失败时返回 false
+   */
+  private connectSocket(socketPath: string): Promise<boolean> {
+    return new Promise(resolve => {
+      const socket = net.createConnection(socketPath)
+      let buffer = ''
+      let registered = false
+
+      const fail = () => {
+        clearTimeout(timer)
+        socket.destroy()
+        resolve(false)
+      }
+      const timer = setTimeout(fail, HANDSHAKE_TIMEOUT_MS)
+
+      socket.setEncoding('utf-8')
+      socket.once('error', () => {
+        if (!registered) fail()
+      })
+      socket.on('connect', () => {
+        this.sendMessage(socket, {
+          type: 'register',
+          versions: SUPPORTED_SESSION_PROTOCOL_VERSIONS,
+          session: {
+            id: this.sessionId,
+            pid: process.pid,
+            terminal: this.terminal,
+            createdAt: this.createdAt,
+            features: this.options.features
+          }
+        })
+      })
+
+      socket.on('data', (chunk: string) => {
+        buffer += chunk
+        let newline = buffer.indexOf('\n')
+        while (newline >= 0) {
+          const line = buffer.slice(0, newline).trim()
+          buffer = buffer.slice(newline + 1)
+          newline = buffer.indexOf('\n')
+          if (!line) continue
+
+          let message: SessionServerMessage
+          try {
+            message = JSON.parse(line) as SessionServerMessage
+          } catch {
+            continue
+          }
+
+          if (registered) {
+            this.handleServerMessage(message)
+          } else if (message.type === 'welcome') {
+            registered = true
+            clearTimeout(timer)
+            this.socket = socket
+            this.heartbeatTimer = setInterval(
+              () => this.sendMessage(socket, { type: 'heartbeat', timestamp: new Date().toISOString() }),
+              this.options.heartbeatIntervalMs ?? message.heartbeatIntervalMs
+            )
+            resolve(true)
+          } else {
+            // unsupported_version 等错误
+            fail()
+            return
+          }
+        }
+      })
+
+      socket.on('close', () => {
+        if (!registered || this.socket !== socket) return
+        this.socket = null
+        if (this.stopped) return
+
+        // GUI 关闭了 socket，改用文件协议
+        if (this.heartbeatTimer) clearInterval(this.heartbeatTimer)
+        this.startFileTransport()
+        this.useTransport('file')
+      })
+    })
+  }
+
+  /**
+   * 处理注册后 GUI 发来的命令与取消
+   */
+  private handleServerMessage(message: SessionServerMessage): void {
+    if (message.type === 'command') {
+      const { type: _type, ...command } = message
+      if (!this.running) {
+        void this.handleCommand(command)
+      }
+    } else if (message.type === 'cancel') {
+      this.cancelCommand(message.cmdId)
+    }
+  }
+
+  private sendMessage(socket: net.Socket, message: SessionClientMessage): void {
+    if (!socket.destroyed) {
+      socket.write(`${JSON.stringify(message)}\n`)
+    }
+  }
+
+  // ---------- 命令执行 ----------
+
+  /**
+   * 取消命令：执行中的命令中止执行，尚未开始的命令记下，开始时直接以 cancelled 结束
+   */
+  private cancelCommand(cmdId: string): void {
+    if (this.running?.cmdId === cmdId) {
+      this.running.controller.abort()
+    } else if (!this.handled.has(cmdId)) {
+      this.cancelled.add(cmdId)
+    }
+  }
+
+  private async handleCommand(command: SessionCommandPayload): Promise<void> {
+    this.handled.add(command.cmdId)
+    this.emit('command', command)
+
+    const runs = this.simulation.duplicateCommands ? 2 : 1
+    for (let run = 0; run < runs && !this.stopped; run++) {
+      await this.execute(command)
+    }
+  }
+
+  /**
+   * 确认、执行命令并回报结果（按 simulation 注入延迟、丢弃确认与崩溃）
+   */
+  private async execute(command: SessionCommandPayload): Promise<void> {
+    const { cmdId } = command
+    const controller = new AbortController()
+    this.running = { cmdId, controller }
+
+    try {
+      if (this.simulation.crashOn === 'beforeAck') return this.crash()
+      await delay(this.simulation.ackDelayMs)
+      if (this.stopped) return
+
+      if (!this.simulation.dropAcks) {
+        this.report({ type: 'ack', cmdId, timestamp: new Date().toISOString() })
+      }
+      if (this.simulation.crashOn === 'beforeExecute') return this.crash()
+
+      const startedAt = Date.now()
+      let outcome: Awaited<ReturnType<SessionCommandExecutor>>
+      if (this.cancelled.has(cmdId)) {
+        outcome = { status: 'cancelled' }
+      } else {
+        try {
+          outcome = await this.executor(command, {
+            output: (type, content) => this.report({
+              type: 'output',
+              cmdId,
+              stream: type,
+              content,
+              timestamp: new Date().toISOString()
+            }),
+            signal: controller.signal
+          })
+        } catch (error) {
+          outcome = { status: 'failed', error: (error as Error).message }
+        }
+        if (controller.signal.aborted) {
+          outcome = { ...outcome, status: 'cancelled' }
+        }
+      }
+
+      await delay(this.simulation.resultDelayMs)
+      if (this.simulation.crashOn === 'beforeResult') return this.crash()
+      if (this.stopped) return
+
+      const result: SessionExecutionResult = {
+        cmdId,
+        ...outcome,
+        timestamp: new Date().toISOString(),
+        duration: Date.now() - startedAt
+      }
+      this.report({ type: 'result', result })
+      this.emit('result', result)
+    } finally {
+      if (this.running?.controller === controller) {
+        this.running = null
+      }
+    }
+  }
+
+  /**
+   * 回报确认、输出或结果：socket 连接时发送消息，否则写入协议文件
+   */
+  private report(message: Extract<SessionClientMessage, { type: 'ack' | 'output' | 'result' }>): void {
+    if (this.stopped) return
+
+    if (this.socket) {
+      this.sendMessage(this.socket, message)
+      return
+    }
+
+    switch (message.type) {
+      case 'ack':
+        fs.writeFileSync(this.getFilePath(ACK_FILE), JSON.stringify({ cmdId: message.cmdId, timestamp: message.timestamp }, null, 2))
+        break
+      case 'output': {
+        const entry: SessionOutputEntry = {
+          cmdId: message.cmdId,
+          type: message.stream ?? 'stdout',
+          content: message.content,
+          timestamp: message.timestamp
+        }
+        fs.appendFileSync(this.getFilePath(EVENTS_FILE), `${JSON.stringify(entry)}\n`)
+        break
+      }
+      case 'result':
+        fs.writeFileSync(this.getFilePath(RESULT_FILE), JSON.stringify(message.result, null, 2))
+        this.writeSession({ lastActiveAt: message.result.timestamp })
+        break
+    }
+  }
+}
@@ -6,7 +6,22 @@
 export const CLI_CHANNELS = {
   EXECUTE: 'cli:execute',
   CANCEL: 'cli:cancel',
+  INPUT: 'cli:input',
   OUTPUT: 'cli:output',
+  EVENT: 'cli:event',
+  COMPLETE: 'cli:complete',
+  QUEUE_LIST: 'cli:queueList',
+  QUEUE_REORDER: 'cli:queueReorder',
+  QUEUE_CLEAR: 'cli:queueClear',
+  QUEUE_CONFIGURE: 'cli:queueConfigure',
+  QUEUE_CHANGE: 'cli:queueChange',
+  HISTORY_QUERY: 'cli:historyQuery',
+  HISTORY_GET: 'cli:historyGet',
+  HISTORY_RERUN: 'cli:historyRerun',
+  HISTORY_DIFF: 'cli:historyDiff',
+  CHECKPOINT_PREVIEW: 'cli:checkpointPreview',
+  CHECKPOINT_RESTORE: 'cli:checkpointRestore',
+  POLICY_CHECK: 'cli:policyCheck',
 } as const
 
 /** 项目相关通道 */
@@ -27,6 +42,8 @@ export const FILE_CHANNELS = {
 export const APPROVAL_CHANNELS = {
   SUBMIT: 'approval:submit',
   STATUS: 'approval:status',
+  HISTORY: 'approval:history',
+  CREATE_SIGNING_KEY: 'approval:createSigningKey',
 } as const
 
 /** Shell 相关通道 */
@@ -40,6 +57,11 @@ export const SESSION_CHANNELS = {
   SEND_COMMAND: 'session:sendCommand',
   WAIT_RESULT: 'session:waitResult',
   CHANGE: 'session:change',
+  COMMAND_OUTPUT: 'session:output',
+  COMMAND_QUEUE: 'session:queue',
+  CANCEL_COMMAND: 'session:cancelCommand',
+  ASSIGN_FEATURES: 'session:assignFeatures',
+  COMMAND_QUEUE_CHANGE: 'session:queueChange',
   START_WATCH: 'session:startWatch',
   STOP_WATCH: 'session:stopWatch',
 } as const
@@ -50,6 +72,35 @@ export const DASHBOARD_CHANNELS = {
   GET_STANDUP: 'dashboard:getStandup',
 } as const
 
+/** 用量统计相关通道 */
+export const USAGE_CHANNELS = {
+  GET_FEATURE: 'usage:getFeature',
+  GET_PRICING: 'usage:getPricing',
+  SET_PRICING: 'usage:setPricing',
+  USAGE_CHANGE: 'usage:change',
+} as const
+
+/** 定时计划相关通道 */
+export const SCHEDULER_CHANNELS = {
+  SCHEDULE_LIST: 'scheduler:list',
+  SCHEDULE_SAVE: 'scheduler:save',
+  SCHEDULE_TRIGGERED: 'scheduler:triggered',
+  SCHEDULE_MISSED: 'scheduler:missed',
+} as const
+
+/** Git 相关通道 */
+export const GIT_CHANNELS = {
+  GIT_STATUS: 'git:status',
+  GIT_FEATURE_BRANCH: 'git:featureBranch',
+  GIT_SETTINGS: 'git:settings',
+  GIT_SETTINGS_SAVE: 'git:settingsSave',
+} as const
+
+/** Gate 相关通道 */
+export const GATE_CHANNELS = {
+  GATE_CHECK: 'gate:check',
+} as const
+
 /** 所有 IPC 通道 */
 export const IPC_CHANNELS = {
   ...CLI_CHANNELS,
@@ -59,4 +110,8 @@ export const IPC_CHANNELS = {
   ...SHELL_CHANNELS,
   ...SESSION_CHANNELS,
   ...DASHBOARD_CHANNELS,
+  ...USAGE_CHANNELS,
+  ...SCHEDULER_CHANNELS,
+  ...GIT_CHANNELS,
+  ...GATE_CHANNELS,
 } as const
@@ -11,6 +11,7 @@ export const ERROR_PREFIX = {
   SYNC: 'E-SYNC',  // 状态同步
   CFG: 'E-CFG',    // 配置
   VERIFY: 'E-VERIFY', // 校验
+  GIT: 'E-GIT',    // Git
   GATE: 'E-GATE',  // Gate
 } as const
 
@@ -35,6 +36,9 @@ export const ERROR_CODES = {
   CLI_EXECUTION_FAILED: 'E-CLI-003',
   CLI_TIMEOUT: 'E-CLI-004',
   CLI_CANCELLED: 'E-CLI-005',
+  CLI_TEMPLATE_UNRESOLVED: 'E-CLI-006',
+  CLI_POLICY_VIOLATION: 'E-CLI-007',
+  CLI_INPUT_UNAVAILABLE: 'E-CLI-008',
 
   // 状态同步错误 E-SYNC-xxx
   SYNC_CONFLICT: 'E-SYNC-001',
@@ -53,10 +57,16 @@ export const ERROR_CODES = {
   VERIFY_ARTIFACT: 'E-VERIFY-004',
   VERIFY_IDENTITY: 'E-VERIFY-005',
 
+  // Git 错误 E-GIT-xxx
+  GIT_NOT_REPO: 'E-GIT-001',
+  GIT_COMMAND_FAILED: 'E-GIT-002',
+
   // Gate 错误 E-GATE-xxx
   GATE_BLOCKED: 'E-GATE-001',
   GATE_PREREQUISITE: 'E-GATE-002',
   GATE_BYPASS_ATTEMPT: 'E-GATE-003',
+  GATE_UNAUTHORIZED: 'E-GATE-004',
+  GATE_LOG_BROKEN: 'E-GATE-005',
 } as const
 
 export type ErrorCode = typeof ERROR_CODES[keyof typeof ERROR_CODES]
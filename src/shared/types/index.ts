@@ -4,4 +4,5 @@
 
 export * from './project.types'
 export * from './ipc.types'
+export * from './session-protocol.types'
 export * from './error.types'
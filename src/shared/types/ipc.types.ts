@@ -10,12 +10,83 @@ import type { Step, Phase, Feature, Project, Artifact, PhaseGateStatus } from '.
 // ============================================================
 
 /** CLI 执行请求 */
+/**
+ * 结构化命令参数
+ * 直接传给 spawn，不经过 shell 解析（引号、$()、管道等均按字面量处理）
+ */
+export interface CliArgv {
+  /** 可执行文件（claude 会替换为 CLAUDE_CODE_PATH） */
+  executable: string
+  args: string[]
+  /** 工作目录，相对 projectPath；缺省为 projectPath */
+  cwd?: string
+  /** 追加的环境变量 */
+  env?: Record<string, string>
+}
+
 export interface CliExecuteRequest {
+  /** 展示用命令文本；未提供 argv 且非 shell 模式时按命令行规则拆分为参数 */
   command: string
   projectPath: string
   featureId?: string
   stepId?: string
+  phaseId?: number
   mode?: 'print' | 'full_interactive'
+  /** 输出格式：stream-json 时解析为结构化事件（cli:event），仅对 claude 命令生效 */
+  outputFormat?: 'text' | 'stream-json'
+  /** 结构化参数（优先于 command） */
+  argv?: CliArgv
+  /** 以 shell 执行 command，仅用于用户确认过的 bash 任务命令 */
+  shell?: boolean
+  /** 用户已确认命令策略中需确认的命令 */
+  policyConfirmed?: boolean
+  /** 取消 / 超时时 SIGTERM 到 SIGKILL 的宽限期（毫秒），默认 3000 */
+  killGracePeriodMs?: number
+  /** 交互执行：保持 stdin 打开，可通过 cli:input 回答 CLI 的追问 */
+  interactive?: boolean
+  /** 由定时计划触发时的计划 ID（仅主进程设置） */
+  scheduleId?: string
+  /** 执行前为 Feature 文档目录创建检查点（cc 负责的步骤），可在执行历史中回滚 */
+  checkpoint?: boolean
+}
+
+/** 命令策略动作 */
+export type CommandPolicyAction = 'allow' | 'confirm' | 'deny'
+
+/** 命令策略规则（pattern 为通配符，regex 为正则，二选一） */
+export interface CommandPolicyRule {
+  id?: string
+  pattern?: string
+  regex?: string
+  action: CommandPolicyAction
+  reason?: string
+}
+
+/** 项目命令策略（.claude/command_policy.yaml） */
+export interface CommandPolicy {
+  /** 未匹配任何规则时的默认动作 */
+  default: CommandPolicyAction
+  rules: CommandPolicyRule[]
+}
+
+/** 命令策略检查请求 */
+export type CliPolicyCheckRequest = Pick<CliExecuteRequest, 'command' | 'projectPath' | 'mode' | 'argv' | 'shell'>
+
+/** 命令策略判定结果 */
+export interface CommandPolicyDecision {
+  action: CommandPolicyAction
+  /** 实际将要执行的命令行 */
+  commandLine: string
+  /** claude 调用不受策略约束 */
+  exempt: boolean
+  /** 命中的规则；未命中时使用默认动作 */
+  rule?: CommandPolicyRule
+  /** 策略文件路径，未配置时为 null */
+  source: string | null
+  /** 策略文件无效的原因（此时一律拒绝） */
+  policyError?: string
+  /** 命令行含 shell 元字符，不会被 allow 规则或默认 allow 放行 */
+  compound?: boolean
 }
 
 /** CLI 执行响应 */
@@ -30,19 +101,316 @@ export interface CliCancelRequest {
   executionId: string
 }
 
+/** CLI 输入请求（写入执行中命令的 stdin） */
+export interface CliInputRequest {
+  executionId: string
+  /** 原样写入 stdin 的内容（换行由调用方附加） */
+  input: string
+  /** 写入后关闭 stdin（发送 EOF） */
+  end?: boolean
+}
+
 /** CLI 输出事件 */
 export interface CliOutputEvent {
   executionId: string
-  type: 'stdout' | 'stderr' | 'system'
+  type: 'stdout' | 'stderr' | 'system' | 'stdin'
   content: string
   timestamp: string
 }
 
+/** Token 用量（来自 CLI 最终结果） */
+export interface CliUsage {
+  inputTokens: number
+  outputTokens: number
+  cacheCreationInputTokens: number
+  cacheReadInputTokens: number
+}
+
+/** stream-json 解析后的结构化事件 */
+export type CliStreamEvent =
+  | { kind: 'init'; sessionId?: string; model?: string }
+  | { kind: 'assistant_text'; text: string }
+  | { kind: 'tool_use'; toolUseId: string; name: string; input: Record<string, unknown> }
+  | { kind: 'tool_result'; toolUseId: string; content: string; isError: boolean }
+  | { kind: 'file_edit'; toolUseId: string; tool: string; filePath: string }
+  | {
+      kind: 'result'
+      subtype: string
+      isError: boolean
+      result?: string
+      durationMs?: number
+      numTurns?: number
+      totalCostUsd?: number
+      usage?: CliUsage
+      /** 本次调用使用的模型（json 输出的 modelUsage） */
+      model?: string
+    }
+
+/** CLI 结构化事件消息（cli:event） */
+export interface CliStreamEventMessage {
+  executionId: string
+  event: CliStreamEvent
+  timestamp: string
+}
+
 /** CLI 完成事件 */
 export interface CliCompleteEvent {
   executionId: string
   exitCode: number
   duration: number
+  /** 结束原因：正常退出 / 用户取消 / 超时 */
+  reason: 'exited' | 'cancelled' | 'timeout'
+  /** 终止进程的信号（正常退出时为 null） */
+  signal?: string | null
+  /** 是否在宽限期后被 SIGKILL 强制终止 */
+  forced?: boolean
+}
+
+/** CLI 队列项 */
+export interface CliQueueItem {
+  executionId: string
+  command: string
+  status: 'queued' | 'running'
+  /** 执行通道（按 featureId 划分，未指定时为 'default'） */
+  lane: string
+  /** 0 表示执行中，>0 表示全局排队位置 */
+  position: number
+  /** 在所属 lane 内的排队位置（0 表示执行中） */
+  lanePosition: number
+  featureId?: string
+  stepId?: string
+  queuedAt?: string
+  startedAt?: string
+}
+
+/** CLI 队列列表响应 */
+export interface CliQueueListResponse {
+  items: CliQueueItem[]
+}
+
+/** CLI 队列调整顺序请求 */
+export interface CliQueueReorderRequest {
+  executionId: string
+  /** 目标位置（0 为下一个执行） */
+  toIndex: number
+}
+
+/** CLI 队列清空响应 */
+export interface CliQueueClearResponse {
+  cleared: number
+}
+
+/** CLI 队列配置 */
+export interface CliQueueConfig {
+  /** 全局并发上限（同一 lane 始终串行） */
+  maxConcurrency: number
+}
+
+/** 执行历史记录（.claude/state/execution_history.jsonl 中的一行） */
+export interface ExecutionHistoryEntry {
+  executionId: string
+  command: string
+  projectPath: string
+  mode?: 'print' | 'full_interactive'
+  outputFormat?: 'text' | 'stream-json'
+  argv?: CliArgv
+  shell?: boolean
+  killGracePeriodMs?: number
+  interactive?: boolean
+  scheduleId?: string
+  /** 请求了执行前检查点 */
+  checkpoint?: boolean
+  featureId?: string
+  stepId?: string
+  phaseId?: number
+  status: 'completed' | 'failed' | 'cancelled' | 'timeout'
+  startedAt: string
+  endedAt: string
+  duration: number
+  exitCode: number
+  stdout: string
+  stderr: string
+  /** CLI 报告的模型与用量（stream-json / json 输出的最终结果） */
+  model?: string
+  usage?: CliUsage
+  reportedCostUsd?: number
+  /** CLI 报告的执行耗时（不含排队与终止等待） */
+  reportedDurationMs?: number
+  /** 执行期间项目中新建 / 修改 / 删除的文件 */
+  fileChanges?: ExecutionFileChange[]
+}
+
+/** 执行期间的文件变更 */
+export interface ExecutionFileChange {
+  /** 项目相对路径 */
+  path: string
+  type: 'create' | 'update' | 'delete'
+  /** 执行前内容的 SHA-256（新建时为空） */
+  beforeHash?: string
+  /** 执行后内容的 SHA-256（删除时为空） */
+  afterHash?: string
+  /** 前后内容均已保存，可查看差异（大文件 / 二进制文件只有哈希） */
+  diffable: boolean
+}
+
+/** 文件差异中的一行；skip 表示折叠的未变化行 */
+export interface FileDiffLine {
+  type: 'context' | 'add' | 'remove' | 'skip'
+  text: string
+  oldLine?: number
+  newLine?: number
+  /** 折叠的行数（skip） */
+  count?: number
+}
+
+/** 执行文件差异查询请求 */
+export interface ExecutionFileDiffRequest {
+  projectPath: string
+  executionId: string
+  path: string
+}
+
+/** 执行文件差异（相对执行前版本） */
+export interface ExecutionFileDiff {
+  change: ExecutionFileChange
+  lines: FileDiffLine[]
+}
+
+/** 检查点中的文件 */
+export interface CheckpointFile {
+  /** 项目相对路径 */
+  path: string
+  hash: string
+  /** 内容已保存，可恢复（大文件 / 二进制文件只有哈希） */
+  restorable: boolean
+}
+
+/** 执行前检查点（.claude/state/checkpoints/{executionId}.json） */
+export interface ExecutionCheckpoint {
+  executionId: string
+  featureId: string
+  stepId?: string
+  command: string
+  createdAt: string
+  /** 快照目录（项目相对路径，如 docs/F001） */
+  root: string
+  files: CheckpointFile[]
+}
+
+/** 检查点请求 */
+export interface ExecutionCheckpointRequest {
+  projectPath: string
+  executionId: string
+}
+
+/** 回滚对单个文件的影响：create 重新创建、update 恢复内容、delete 删除执行后新增的文件 */
+export interface CheckpointFileChange {
+  path: string
+  type: 'create' | 'update' | 'delete'
+  /** 能否恢复（检查点只有哈希时不可恢复） */
+  restorable: boolean
+  /** 当前版本 → 检查点版本的差异 */
+  lines: FileDiffLine[]
+}
+
+/** 回滚预览 */
+export interface CheckpointRollbackPreview {
+  checkpoint: ExecutionCheckpoint
+  changes: CheckpointFileChange[]
+}
+
+/** 回滚结果 */
+export interface CheckpointRollbackResult {
+  /** 恢复内容或重新创建的文件 */
+  restored: string[]
+  /** 删除的文件 */
+  removed: string[]
+  /** 无法恢复的文件 */
+  skipped: string[]
+}
+
+/** 用量累计 */
+export interface UsageTotals {
+  executions: number
+  inputTokens: number
+  outputTokens: number
+  cacheCreationInputTokens: number
+  cacheReadInputTokens: number
+  durationMs: number
+  /** 按价格表估算的费用（USD） */
+  costUsd: number
+}
+
+/** Feature 用量汇总（docs/{featureId}/91_USAGE_LOG.yaml） */
+export interface FeatureUsageSummary {
+  featureId: string
+  totals: UsageTotals
+  /** 按 Phase 编号汇总 */
+  phases: Record<string, UsageTotals>
+  /** 按 stepId 汇总 */
+  steps: Record<string, UsageTotals & { phaseId?: number }>
+  lastUpdated: string | null
+}
+
+/** 单个模型的价格（USD / 百万 tokens） */
+export interface ModelPrice {
+  input: number
+  output: number
+  cacheWrite: number
+  cacheRead: number
+}
+
+/** 价格表：key 与模型 ID 做子串匹配，未匹配时使用 default */
+export interface PriceTable {
+  models: Record<string, ModelPrice>
+}
+
+/** Feature 用量查询请求 */
+export interface UsageFeatureRequest {
+  featureId: string
+}
+
+/** 用量变更事件（usage:change） */
+export interface UsageChangeEvent {
+  featureId: string
+  summary: FeatureUsageSummary
+}
+
+/** 执行历史查询请求 */
+export interface ExecutionHistoryQuery {
+  projectPath: string
+  featureId?: string
+  stepId?: string
+  phaseId?: number
+  status?: ExecutionHistoryEntry['status']
+  /** 全文搜索（命令、stdout、stderr，不区分大小写） */
+  search?: string
+  /** 开始时间下限（ISO 8601） */
+  since?: string
+  /** 开始时间上限（ISO 8601） */
+  until?: string
+  offset?: number
+  limit?: number
+}
+
+/** 执行历史分页结果（按开始时间倒序） */
+export interface ExecutionHistoryPage {
+  entries: ExecutionHistoryEntry[]
+  total: number
+  offset: number
+  limit: number
+}
+
+/** 执行历史单条查询 / 重新执行请求 */
+export interface ExecutionHistoryGetRequest {
+  projectPath: string
+  executionId: string
+}
+
+/** 重新执行请求 */
+export interface ExecutionHistoryRerunRequest extends ExecutionHistoryGetRequest {
+  /** 用户已确认命令策略中需确认的命令 */
+  policyConfirmed?: boolean
 }
 
 // ============================================================
@@ -174,6 +542,33 @@ export interface ApprovalSubmitRequest {
   note?: string
 }
 
+/** 单个审批人的审批记录 */
+export interface ApprovalRecord {
+  /** 审批人身份（Git 邮箱） */
+  user: string
+  /** 审批人在该 Gate 要求中的角色 */
+  roles: string[]
+  action: 'approve' | 'reject'
+  at: string
+}
+
+/**
+ * 多人审批状态
+ * rule 为 'all' 时要求全部角色审批，为数字 N 时要求任意 N 个角色审批
+ */
+export interface ApprovalQuorumStatus {
+  requiredRoles: string[]
+  rule: 'all' | number
+  approvals: ApprovalRecord[]
+  /** 已审批通过的角色 */
+  approvedRoles: string[]
+  /** 尚未审批的角色 */
+  missingRoles: string[]
+  /** 持有尚未审批角色、可以继续审批的成员 */
+  pendingApprovers: string[]
+  met: boolean
+}
+
 /** 审批提交响应 */
 export interface ApprovalSubmitResponse {
   success: boolean
@@ -181,6 +576,12 @@ export interface ApprovalSubmitResponse {
   newStatus: 'approved' | 'rejected' | 'pending'
   approvedBy: string
   approvedAt: string
+  /** 开启自动提交时的提交结果 */
+  commit?: GitCommitResult
+  /** 自动提交失败的原因（审批本身已生效） */
+  commitError?: string
+  /** 配置了角色（.claude/roles.yaml）时的多人审批状态 */
+  quorum?: ApprovalQuorumStatus
 }
 
 /** 审批状态查询请求 */
@@ -196,9 +597,96 @@ export interface ApprovalStatusResponse {
     status: 'approved' | 'rejected' | 'pending'
     approvedBy?: string
     approvedAt?: string
+    /** 多人审批状态（仅多人审批的步骤） */
+    quorum?: ApprovalQuorumStatus
   }>
 }
 
+/** 审批日志条目（.claude/state/approval_log.jsonl 中的一行） */
+export interface ApprovalLogEntry {
+  step_id: string
+  feature_id?: string
+  approved_by: string
+  approved_at: string
+  source: 'gui' | 'cli' | 'api'
+  action: 'approve' | 'reject'
+  /** 多人审批时审批人的角色 */
+  roles?: string[]
+  note?: string
+  client_info: {
+    app_version: string
+    hostname: string
+  }
+  /** 上一条目的 hash */
+  prev_hash?: string
+  /** 本条目（不含 hash / signature）的 SHA-256 */
+  hash?: string
+  /** 签名公钥（SPKI DER，base64） */
+  public_key?: string
+  /** 用本机密钥对 hash 的 Ed25519 签名（base64） */
+  signature?: string
+}
+
+/** 审批日志单条校验结果 */
+export interface ApprovalLogRecord {
+  /** 行号（从 1 开始） */
+  line: number
+  /** 无法解析时为 null */
+  entry: ApprovalLogEntry | null
+  /** verified：哈希链完整且签名可信；broken：第一个断点；unverified：旧日志、断点之后、签名公钥未登记或应签名而未签名 */
+  status: 'verified' | 'broken' | 'unverified'
+  signed: boolean
+  reason?: string
+}
+
+/** 审批日志校验结果 */
+export interface ApprovalLogVerification {
+  /** 没有断点 */
+  valid: boolean
+  total: number
+  /** 第一个断点的行号 */
+  brokenAt?: number
+  reason?: string
+  entries: ApprovalLogRecord[]
+}
+
+/** 审批历史查询请求 */
+export interface ApprovalHistoryRequest {
+  featureId: string
+}
+
+/** PHASE_GATE_STATUS.yaml 中的审批及其日志校验结果 */
+export interface GateApprovalVerification {
+  stepId: string
+  user: string
+  action: 'approve' | 'reject'
+  at: string
+  /** 存在对应的、通过校验的日志条目 */
+  verified: boolean
+}
+
+/** 审批历史查询响应 */
+export interface ApprovalHistoryResponse {
+  /** 整个日志的校验结果（不含条目） */
+  chain: Omit<ApprovalLogVerification, 'entries'>
+  /** 该 Feature 的日志条目 */
+  entries: ApprovalLogRecord[]
+  approvals: GateApprovalVerification[]
+  /** 本机签名密钥指纹，未创建时为 null */
+  signingKeyId: string | null
+  /** 本机签名公钥（base64 SPKI），未创建时为 null */
+  signingPublicKey: string | null
+  /** 本机公钥已在 .claude/roles.yaml keys 中登记给当前用户 */
+  signingKeyTrusted: boolean
+}
+
+/** 创建签名密钥响应 */
+export interface ApprovalSigningKeyResponse {
+  keyId: string
+  /** false 表示密钥已存在 */
+  created: boolean
+}
+
 // ============================================================
 // 错误类型
 // ============================================================
@@ -245,6 +733,9 @@ export interface SessionTerminalInfo {
 /** Session 状态 */
 export type SessionStatus = 'active' | 'stale' | 'disconnected'
 
+/** Session 通信方式：协议文件（默认）或本地 socket / 命名管道 */
+export type SessionTransport = 'file' | 'socket'
+
 /** Session 元信息 */
 export interface Session {
   id: string
@@ -255,6 +746,12 @@ export interface Session {
   terminal: SessionTerminalInfo
   status: SessionStatus
   projectPath: string
+  /** 通信方式，未指定时为 file */
+  transport?: SessionTransport
+  /** CLI 声明负责的 Feature */
+  features?: string[]
+  /** 在 GUI 中分配的 Feature（保存在 gui-sessions/bindings.json） */
+  assignedFeatures?: string[]
 }
 
 /** 获取 Session 列表请求 */
@@ -267,6 +764,13 @@ export interface SessionListResponse {
   sessions: Session[]
 }
 
+/** 为 Session 分配 Feature 请求（整体替换该 Session 的分配） */
+export interface SessionAssignFeaturesRequest {
+  projectPath: string
+  sessionId: string
+  featureIds: string[]
+}
+
 /** 发送命令请求 */
 export interface SessionSendCommandRequest {
   sessionId: string
@@ -282,8 +786,11 @@ export interface SessionSendCommandRequest {
 /** 发送命令响应 */
 export interface SessionSendCommandResponse {
   cmdId: string
-  status: 'sent' | 'received' | 'duplicate' | 'timeout' | 'error'
+  /** queued：Session 正在执行其他命令，已加入队列 */
+  status: 'sent' | 'queued' | 'received' | 'duplicate' | 'timeout' | 'error'
   retryCount: number
+  /** 在队列中的位置（0 为已发送给 CLI） */
+  position?: number
   error?: string
 }
 
@@ -298,15 +805,274 @@ export interface SessionWaitResultRequest {
 /** 执行结果响应 */
 export interface SessionExecutionResult {
   cmdId: string
-  status: 'success' | 'failed' | 'timeout'
+  /** cancelled：CLI 确认取消 */
+  status: 'success' | 'failed' | 'timeout' | 'cancelled'
   timestamp?: string
   duration?: number
   output?: string
   error?: string
 }
 
+/** Session 生命周期变化（session-lifecycle.service 巡检时判定） */
+export interface SessionTransition {
+  sessionId: string
+  /** 上次巡检时的状态，首次发现时为 null */
+  from: SessionStatus | null
+  /** archived / removed：超过保留期后归档或删除了协议文件 */
+  to: SessionStatus | 'archived' | 'removed'
+  /** heartbeat：心跳超时；exited：进程已退出；closed：CLI 主动断开或连接关闭；retention：超过保留期 */
+  reason: 'heartbeat' | 'exited' | 'closed' | 'retention'
+  /** Session 断开时命令转交的 Session */
+  reroutedTo?: string
+}
+
 /** Session 状态变更事件 */
 export interface SessionChangeEvent {
   sessions: Session[]
   timestamp: string
+  /** 由生命周期巡检触发时的状态变化 */
+  transition?: SessionTransition
+}
+
+/**
+ * Session 命令状态
+ * pending 排队中 → sent 已写入 .cmd → running CLI 已确认接收 → done 已结束；
+ * 执行中请求取消时为 cancelling，CLI 确认或在发送前撤回后为 cancelled
+ */
+export type SessionCommandStatus = 'pending' | 'sent' | 'running' | 'cancelling' | 'done' | 'cancelled'
+
+/** Session 命令队列项 */
+export interface SessionCommand {
+  cmdId: string
+  sessionId: string
+  command: string
+  context?: SessionSendCommandRequest['context']
+  status: SessionCommandStatus
+  queuedAt: string
+  sentAt?: string
+  ackAt?: string
+  endedAt?: string
+  /** 执行结果（done / CLI 确认取消时） */
+  result?: SessionExecutionResult
+  /** 原 Session 断开后转交过来时，原 Session 的 ID */
+  reroutedFrom?: string
+}
+
+/** 获取 Session 命令队列请求 */
+export interface SessionQueueListRequest {
+  projectPath: string
+  sessionId: string
+}
+
+/** 获取 Session 命令队列响应 */
+export interface SessionQueueListResponse {
+  sessionId: string
+  commands: SessionCommand[]
+}
+
+/** 取消 Session 命令请求 */
+export interface SessionCancelCommandRequest {
+  projectPath: string
+  sessionId: string
+  cmdId: string
+}
+
+/** Session 命令队列变更事件 */
+export interface SessionQueueChangeEvent {
+  projectPath: string
+  sessionId: string
+  commands: SessionCommand[]
+}
+
+/** Session 命令输出（CLI 端向 session-{id}.events 追加的一行 JSON） */
+export interface SessionOutputEntry {
+  cmdId: string
+  type: 'stdout' | 'stderr' | 'system'
+  content: string
+  timestamp: string
+}
+
+/** Session 命令输出事件（主进程 → 渲染进程） */
+export interface SessionOutputEvent extends SessionOutputEntry {
+  sessionId: string
+  /** 命令结束时附带执行结果 */
+  result?: SessionExecutionResult
+}
+
+// ============================================================
+// 定时计划相关
+// ============================================================
+
+/** 定时计划（.claude/schedule.yaml） */
+export interface ScheduleEntry {
+  id: string
+  /** 对应的框架步骤 ID，用于执行历史归属 */
+  stepId: string
+  /** 执行的命令（/ 开头时以 claude --print 执行） */
+  command: string
+  /** 5 段 cron 表达式：分 时 日 月 周 */
+  cron: string
+  enabled: boolean
+  featureId?: string
+}
+
+/** 定时计划表 */
+export interface ScheduleTable {
+  schedules: ScheduleEntry[]
+}
+
+/** 计划最近一次触发记录 */
+export interface ScheduleRunRecord {
+  scheduledAt: string
+  triggeredAt: string
+  executionId?: string
+  /** 未能启动的原因（命令策略拒绝等） */
+  error?: string
+}
+
+/** 应用关闭期间错过的触发 */
+export interface MissedScheduleRun {
+  scheduleId: string
+  stepId: string
+  command: string
+  /** 最近一次错过的触发时间 */
+  scheduledAt: string
+  /** 错过的次数 */
+  count: number
+}
+
+/** 定时计划状态（scheduler:list 返回） */
+export interface SchedulerStatus {
+  schedules: ScheduleEntry[]
+  /** 按计划 ID 的最近触发记录 */
+  runs: Record<string, ScheduleRunRecord>
+  /** 按计划 ID 的下次触发时间（未启用时为 null） */
+  nextRuns: Record<string, string | null>
+  missed: MissedScheduleRun[]
+}
+
+/** 计划触发事件（scheduler:triggered） */
+export interface ScheduleTriggeredEvent {
+  schedule: ScheduleEntry
+  record: ScheduleRunRecord
+  /** 成功入队时的执行响应 */
+  response?: CliExecuteResponse
+}
+
+/** 错过触发事件（scheduler:missed） */
+export interface ScheduleMissedEvent {
+  missed: MissedScheduleRun[]
+}
+
+// ============================================================
+// Git 相关
+// ============================================================
+
+/** 工作区中的文件状态（git status --porcelain） */
+export interface GitFileStatus {
+  /** 仓库相对路径 */
+  path: string
+  /** 重命名 / 复制前的路径 */
+  origPath?: string
+  /** 暂存区状态（X） */
+  index: string
+  /** 工作区状态（Y） */
+  workingTree: string
+}
+
+/** 仓库状态（git:status） */
+export interface GitStatus {
+  /** 项目目录是否位于 Git 仓库中 */
+  isRepo: boolean
+  /** 当前分支；分离 HEAD 时为空 */
+  branch?: string
+  detached?: boolean
+  /** 上游分支 */
+  upstream?: string
+  ahead: number
+  behind: number
+  /** 未提交的变更（含未跟踪文件） */
+  files: GitFileStatus[]
+  clean: boolean
+}
+
+/** 项目 Git 设置（.claude/git.yaml） */
+export interface GitSettings {
+  /** Gate 审批通过后自动提交交付物 */
+  autoCommit: boolean
+  /** Feature 分支名前缀 */
+  branchPrefix: string
+}
+
+/** 切换到 Feature 分支请求 */
+export interface GitFeatureBranchRequest {
+  featureId: string
+}
+
+/** 切换到 Feature 分支结果 */
+export interface GitFeatureBranchResult {
+  branch: string
+  /** 分支为新建 */
+  created: boolean
+}
+
+/** 提交结果 */
+export interface GitCommitResult {
+  /** 指定路径中没有变更时为 false */
+  committed: boolean
+  /** 提交的 SHA */
+  commit?: string
+  message: string
+  /** 提交的文件（仓库相对路径） */
+  files: string[]
+}
+
+// ============================================================
+// Gate 自动检查相关
+// ============================================================
+
+/** 自动检查规则（preset.yaml 中 gate_rules.auto_check 的一项） */
+export interface GateAutoCheckRule {
+  /** file_exists | file_exists_any | content_check | glob_match；其他类型需在 CLI 中检查 */
+  type: string
+  /** file_exists：Feature 目录相对路径 */
+  path?: string
+  /** file_exists_any：任一存在即通过 */
+  paths?: string[]
+  /** content_check：检查的文件 */
+  file?: string
+  /** content_check：必须全部出现的内容 */
+  contains?: string[]
+  /** glob_match：至少匹配一个文件 */
+  pattern?: string
+}
+
+/** 单条规则的检查结果 */
+export interface GateRuleResult {
+  /** 规则在 auto_check 中的序号 */
+  index: number
+  type: string
+  /** skipped：不支持自动检查的规则 */
+  status: 'passed' | 'failed' | 'skipped'
+  message: string
+  /** 依据：找到的文件、匹配的行等 */
+  evidence: string[]
+}
+
+/** Gate 检查请求（gate:check） */
+export interface GateCheckRequest {
+  featureId: string
+  phase: number
+}
+
+/** Gate 检查结果 */
+export interface GateCheckResponse {
+  featureId: string
+  phase: number
+  /** 有规则失败为 failed；无失败但有需在 CLI 中检查的规则为 pending */
+  status: 'passed' | 'failed' | 'pending'
+  results: GateRuleResult[]
+  checkedAt: string
+  /** 规则来源（preset.yaml 路径） */
+  rulesSource: string
 }
@@ -36,6 +36,8 @@ export interface PreflightCheck {
   description: string
   status: 'pass' | 'fail' | 'skip' | 'pending'
   message?: string
+  /** warning 表示提示性检查，未通过时不阻止执行 */
+  severity?: 'error' | 'warning'
 }
 
 /** Step 定义 */
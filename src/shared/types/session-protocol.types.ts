@@ -0,0 +1,133 @@
+/**
+ * GUI-CLI Session 协议类型定义
+ * 文件协议与 socket 协议共用的消息结构
+ *
+ * socket 协议：
+ * - Unix domain socket（Windows 为命名管道），每行一个 JSON 消息（JSON Lines）
+ * - CLI 连接后第一条消息必须是 register，携带支持的协议版本；GUI 选择双方都支持的最高版本并回复 welcome，
+ *   没有共同版本时回复 error（unsupported_version）并断开，CLI 改用文件协议
+ * - 之后 CLI 发送 heartbeat / ack / output / result，GUI 发送 command / cancel
+ * - 连接断开即视为 Session 断开
+ *
+ * GUI 在 .claude/gui-sessions/transport.json 中公告可用的通信方式与 socket 路径
+ */
+
+import type {
+  Session,
+  SessionExecutionResult,
+  SessionOutputEntry,
+  SessionSendCommandRequest,
+  SessionTransport
+} from './ipc.types'
+
+/** 当前协议版本 */
+export const SESSION_PROTOCOL_VERSION = 1
+
+/** 支持的协议版本 */
+export const SUPPORTED_SESSION_PROTOCOL_VERSIONS = [1]
+
+/** 通信方式公告（.claude/gui-sessions/transport.json，GUI 写入） */
+export interface SessionTransportAdvertisement {
+  version: number
+  transports: SessionTransport[]
+  /** socket / 命名管道路径 */
+  socketPath?: string
+  /** GUI 进程 ID */
+  pid: number
+  updatedAt: string
+}
+
+/** 命令内容（.cmd 文件与 command 消息共用） */
+export interface SessionCommandPayload {
+  cmdId: string
+  timestamp: string
+  command: string
+  source: 'gui-button'
+  context: NonNullable<SessionSendCommandRequest['context']>
+}
+
+// ============================================================
+// CLI → GUI
+// ============================================================
+
+/** 注册 Session（连接后的第一条消息） */
+export interface SessionRegisterMessage {
+  type: 'register'
+  /** CLI 支持的协议版本 */
+  versions: number[]
+  session: Pick<Session, 'id' | 'pid' | 'terminal' | 'features'> & { createdAt?: string }
+}
+
+/** 心跳 */
+export interface SessionHeartbeatMessage {
+  type: 'heartbeat'
+  timestamp: string
+}
+
+/** 确认接收命令 */
+export interface SessionAckMessage {
+  type: 'ack'
+  cmdId: string
+  timestamp: string
+}
+
+/** 命令执行输出（对应 .events 中的一行，输出类型放在 stream 字段） */
+export interface SessionOutputMessage extends Omit<SessionOutputEntry, 'type'> {
+  type: 'output'
+  stream?: SessionOutputEntry['type']
+}
+
+/** 命令执行结果 */
+export interface SessionResultMessage {
+  type: 'result'
+  result: SessionExecutionResult
+}
+
+/** CLI 发送的消息 */
+export type SessionClientMessage =
+  | SessionRegisterMessage
+  | SessionHeartbeatMessage
+  | SessionAckMessage
+  | SessionOutputMessage
+  | SessionResultMessage
+
+// ============================================================
+// GUI → CLI
+// ============================================================
+
+/** 注册成功 */
+export interface SessionWelcomeMessage {
+  type: 'welcome'
+  /** 协商后的协议版本 */
+  version: number
+  transport: 'socket'
+  /** 期望的心跳间隔 */
+  heartbeatIntervalMs: number
+}
+
+/** 执行命令 */
+export interface SessionCommandMessage extends SessionCommandPayload {
+  type: 'command'
+}
+
+/** 取消命令 */
+export interface SessionCancelMessage {
+  type: 'cancel'
+  cmdId: string
+  timestamp: string
+}
+
+/** 协议错误 */
+export interface SessionErrorMessage {
+  type: 'error'
+  code: 'unsupported_version' | 'not_registered' | 'invalid_message'
+  message: string
+  supportedVersions?: number[]
+}
+
+/** GUI 发送的消息 */
+export type SessionServerMessage =
+  | SessionWelcomeMessage
+  | SessionCommandMessage
+  | SessionCancelMessage
+  | SessionErrorMessage